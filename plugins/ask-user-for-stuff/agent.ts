@@ -1,7 +1,9 @@
 // examples/ask-user-for-stuff/agent.ts
 import { Agent } from '@mastra/core/agent';
+import { pluginModel, promptRegistry } from '../core';
 import { askUserPluginConfig } from './config';
 import { confirmationTool, multipleChoiceTool, textInputTool } from './tools';
+import { askUserInstructionsPrompt } from './prompts';
 
 /**
  * Ask User Agent
@@ -11,27 +13,13 @@ import { confirmationTool, multipleChoiceTool, textInputTool } from './tools';
  * and collect text input - all rendered as rich UI components.
  */
 export const askUserAgent = new Agent({
+  id: askUserPluginConfig.id,
   name: askUserPluginConfig.id,
-  instructions: `You are a helpful assistant that can interact with users through
-    rich UI components. You have access to tools that render interactive elements:
-
-    1. **askForConfirmation** - Use when you need yes/no approval for actions
-    2. **askMultipleChoice** - Use when presenting options to choose from
-    3. **askForText** - Use when you need free-form text input
-
-    Guidelines:
-    - Use these tools proactively when user input would be helpful
-    - Provide clear, concise prompts and descriptions
-    - For confirmations, explain what will happen if they confirm
-    - For multiple choice, make options distinct and easy to understand
-    - After receiving user input, acknowledge their choice and proceed accordingly
-
-    Be conversational and helpful. These tools make the interaction more
-    engaging than just text back-and-forth.`,
-  model: {
-    provider: 'OPEN_AI',
-    name: 'gpt-5-mini',
-  },
+  instructions: () => promptRegistry.render(askUserInstructionsPrompt),
+  model: pluginModel(
+    { provider: 'OPEN_AI', name: 'gpt-5-mini' },
+    { pluginId: askUserPluginConfig.id, agentId: askUserPluginConfig.id }
+  ),
   tools: {
     askForConfirmation: confirmationTool,
     askMultipleChoice: multipleChoiceTool,
@@ -1,10 +1,23 @@
 // examples/ask-user-for-stuff/config.ts
 import { z } from 'zod';
 
+/**
+ * Plugin Metadata
+ *
+ * Required for all plugins. Declares basic identity and which features
+ * the plugin provides. Implementations are supplied in index.ts.
+ */
 export const askUserPluginConfig = {
   id: 'ask-user-for-stuff',
   name: 'Ask User for Stuff Plugin',
   version: '1.0.0',
+  features: {
+    tools: true,
+    agents: true,
+    ui: true,
+    processors: false,
+    storage: false,
+  },
 } as const;
 
 // =============================================================================
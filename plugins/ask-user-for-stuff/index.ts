@@ -0,0 +1,118 @@
+// ask-user-for-stuff/index.ts
+// Main entry point for the ask-user-for-stuff plugin package
+
+/**
+ * Ask User for Stuff Plugin
+ *
+ * A publishable plugin package that provides:
+ * - Tools: Client-side confirmation, multiple choice, and text input
+ * - Agent: Assistant that collects input through rich UI
+ * - UI: Interactive panels that call addToolResult()
+ * - Schemas: Typed input/output definitions
+ *
+ * @example
+ * ```typescript
+ * // Import the full plugin
+ * import askUserPlugin from '@myorg/ask-user-input'
+ *
+ * // Or import specific parts
+ * import { confirmationTool } from '@myorg/ask-user-input/tools'
+ * import { AskUserForStuffDemo } from '@myorg/ask-user-input/ui'
+ * import type { ConfirmationInput } from '@myorg/ask-user-input'
+ * ```
+ */
+
+import { definePlugin } from '../core';
+import {
+  askUserPluginConfig,
+  confirmationInputSchema,
+  confirmationOutputSchema,
+  multipleChoiceInputSchema,
+  multipleChoiceOutputSchema,
+  textInputSchema,
+  textOutputSchema,
+} from './config';
+import { confirmationTool, multipleChoiceTool, textInputTool } from './tools';
+import { askUserAgent } from './agent';
+import { askUserPrompts } from './prompts';
+
+// =============================================================================
+// Plugin Definition
+// =============================================================================
+
+/**
+ * Plugin Manifest
+ *
+ * Supplies the implementations for the features declared in config.ts.
+ */
+export const askUserPlugin = definePlugin({
+  ...askUserPluginConfig,
+
+  tools: {
+    askForConfirmation: confirmationTool,
+    askMultipleChoice: multipleChoiceTool,
+    askForText: textInputTool,
+  },
+
+  agents: {
+    'ask-user-for-stuff': askUserAgent,
+  },
+
+  uiComponents: {
+    'tool-askForConfirmation': 'ConfirmationPanel',
+    'tool-askMultipleChoice': 'MultipleChoicePanel',
+    'tool-askForText': 'TextInputPanel',
+  },
+
+  schemas: {
+    confirmationInput: confirmationInputSchema,
+    confirmationOutput: confirmationOutputSchema,
+    multipleChoiceInput: multipleChoiceInputSchema,
+    multipleChoiceOutput: multipleChoiceOutputSchema,
+    textInput: textInputSchema,
+    textOutput: textOutputSchema,
+  },
+
+  prompts: askUserPrompts,
+});
+
+export type AskUserPlugin = typeof askUserPlugin;
+
+// Plugin configuration (required)
+export { askUserPluginConfig } from './config';
+
+// Schemas and types
+export {
+  confirmationInputSchema,
+  confirmationOutputSchema,
+  multipleChoiceInputSchema,
+  multipleChoiceOutputSchema,
+  textInputSchema,
+  textOutputSchema,
+  type ConfirmationInput,
+  type ConfirmationOutput,
+  type MultipleChoiceInput,
+  type MultipleChoiceOutput,
+  type TextInput,
+  type TextOutput,
+} from './config';
+
+// Tools
+export {
+  confirmationTool,
+  multipleChoiceTool,
+  textInputTool,
+  askUserTools,
+} from './tools';
+
+// Agent
+export { askUserAgent } from './agent';
+
+// Prompts
+export { askUserInstructionsPrompt, askUserPrompts } from './prompts';
+
+// UI components are exported from ui.tsx
+// import { AskUserForStuffDemo } from '@myorg/ask-user-input/ui'
+
+// Default export: the plugin manifest
+export default askUserPlugin;
@@ -29,7 +29,7 @@ export const confirmationTool = createTool({
   inputSchema: confirmationInputSchema,
   outputSchema: confirmationOutputSchema,
   // Client-side tools return immediately - the UI handles the interaction
-  execute: async ({ input }) => {
+  execute: async (input, context) => {
     // The tool "executes" by returning its input as a signal to the UI
     // The actual user interaction happens client-side
     // When the user responds, the UI calls addToolResult() with the output
@@ -59,7 +59,7 @@ export const multipleChoiceTool = createTool({
     - Any decision with discrete choices`,
   inputSchema: multipleChoiceInputSchema,
   outputSchema: multipleChoiceOutputSchema,
-  execute: async ({ input }) => {
+  execute: async (input, context) => {
     return {
       selected: [],
       timestamp: new Date().toISOString(),
@@ -82,7 +82,7 @@ export const textInputTool = createTool({
     - Getting specific values that can't be predetermined`,
   inputSchema: textInputSchema,
   outputSchema: textOutputSchema,
-  execute: async ({ input }) => {
+  execute: async (input, context) => {
     return {
       value: '',
       timestamp: new Date().toISOString(),
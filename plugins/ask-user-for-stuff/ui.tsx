@@ -10,13 +10,13 @@ import type {
   TextInput,
 } from './config';
 
-const MASTRA_BASE_URL = process.env.NEXT_PUBLIC_MASTRA_URL || 'http://localhost:4111';
+const DEFAULT_MASTRA_URL = process.env.NEXT_PUBLIC_MASTRA_URL || 'http://localhost:4111';
 
 // =============================================================================
 // Confirmation Panel Component
 // =============================================================================
 
-function ConfirmationPanel({
+export function ConfirmationPanel({
   input,
   onRespond,
 }: {
@@ -62,7 +62,7 @@ function ConfirmationPanel({
 // Multiple Choice Component
 // =============================================================================
 
-function MultipleChoicePanel({
+export function MultipleChoicePanel({
   input,
   onRespond,
 }: {
@@ -156,7 +156,7 @@ function MultipleChoicePanel({
 // Text Input Component
 // =============================================================================
 
-function TextInputPanel({
+export function TextInputPanel({
   input,
   onRespond,
 }: {
@@ -276,12 +276,12 @@ function CompletedText({ value }: { value: string }) {
  * Demonstrates client-side tools that render interactive UI components
  * for collecting user input: confirmations, multiple choice, and text input.
  */
-export function AskUserForStuffDemo() {
+export function AskUserForStuffDemo({ mastraUrl = DEFAULT_MASTRA_URL }: { mastraUrl?: string } = {}) {
   const [input, setInput] = useState('');
 
   const { messages, sendMessage, addToolResult, status } = useChat({
     transport: new DefaultChatTransport({
-      api: `${MASTRA_BASE_URL}/api/agents/ask-user-for-stuff/chat`,
+      api: `${mastraUrl}/api/agents/ask-user-for-stuff/chat`,
     }),
     maxSteps: 5, // Allow multiple tool calls
   });
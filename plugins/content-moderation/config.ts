@@ -1,5 +1,7 @@
 // content-moderation/config.ts
-// Plugin manifest for the content moderation plugin
+// Plugin configuration for the content moderation plugin
+import { z } from 'zod';
+import { parsePluginOptions } from '../core';
 
 /**
  * Content Moderation Plugin
@@ -7,8 +9,8 @@
  * A minimal plugin that provides ONLY processors (no tools, agents, or UI).
  * Demonstrates that plugins can have any subset of features.
  *
- * This plugin provides:
- * - processors: Input/output guardrails for safety
+ * Declares identity and features here; the processors themselves are
+ * supplied in index.ts.
  *
  * @example
  * ```typescript
@@ -21,7 +23,7 @@
  * })
  * ```
  */
-export const contentModerationPlugin = {
+export const contentModerationConfig = {
   id: 'content-moderation',
   name: 'Content Moderation Plugin',
   version: '1.0.0',
@@ -37,18 +39,40 @@ export const contentModerationPlugin = {
     processors: true,
     storage: false,
   },
+} as const;
 
-  /**
-   * Processor IDs provided by this plugin.
-   */
-  processorIds: [
-    'basicModeration',
-    'layeredSecurity',
-    'inputModeration',
-    'outputModeration',
-    'ProfanityFilter',
-    'ResponseLengthGuard',
-  ] as const,
+// =============================================================================
+// Plugin Options
+// =============================================================================
+
+/**
+ * Options for createContentModerationPlugin().
+ * Every field is optional; omitted fields fall back to the environment,
+ * then to the defaults below.
+ */
+export const contentModerationOptionsSchema = z.object({
+  model: z.string().min(1).default('openai/gpt-4.1-nano').describe('Model used by every moderation processor'),
+  categories: z.array(z.string().min(1)).min(1).default(['hate', 'harassment', 'violence']),
+  threshold: z.coerce.number().min(0).max(1).default(0.7),
+  strictThreshold: z.coerce.number().min(0).max(1).default(0.5).describe('Threshold used by layeredSecurity'),
+  instructions: z.string().min(1).optional().describe('Replaces the moderation instructions'),
+});
+
+export type ContentModerationOptionsInput = z.input<typeof contentModerationOptionsSchema>;
+export type ContentModerationOptions = z.output<typeof contentModerationOptionsSchema>;
+
+/** Environment variables read when an option is not passed. */
+export const contentModerationEnvOptions = {
+  model: 'CONTENT_MODERATION_MODEL',
+  threshold: 'CONTENT_MODERATION_THRESHOLD',
+  strictThreshold: 'CONTENT_MODERATION_STRICT_THRESHOLD',
 } as const;
 
-export type ContentModerationPlugin = typeof contentModerationPlugin;
+export function resolveContentModerationOptions(options?: ContentModerationOptionsInput): ContentModerationOptions {
+  return parsePluginOptions(
+    contentModerationConfig.id,
+    contentModerationOptionsSchema,
+    options,
+    contentModerationEnvOptions
+  );
+}
@@ -15,6 +15,10 @@
  * // Import specific processors
  * import { layeredSecurity, outputModeration } from '@myorg/content-moderation'
  *
+ * // Or build the plugin with your own options
+ * import { createContentModerationPlugin } from '@myorg/content-moderation'
+ * const plugin = createContentModerationPlugin({ threshold: 0.9, categories: ['hate'] })
+ *
  * // Apply to agent
  * const agent = new Agent({
  *   inputProcessors: layeredSecurity,
@@ -23,10 +27,84 @@
  * ```
  */
 
-// Plugin manifest (required)
+import { definePlugin } from '../core';
+import {
+  contentModerationConfig,
+  resolveContentModerationOptions,
+  type ContentModerationOptionsInput,
+} from './config';
+import {
+  basicModeration,
+  layeredSecurity,
+  inputModeration,
+  outputModeration,
+  createBasicModeration,
+  createLayeredSecurity,
+  createInputModeration,
+  createOutputModeration,
+  ProfanityFilter,
+  ResponseLengthGuard,
+} from './processors';
+
+/**
+ * Plugin Manifest
+ *
+ * Processors keyed by their export name.
+ */
+function defineContentModerationPlugin(processors: {
+  basicModeration: typeof basicModeration;
+  layeredSecurity: typeof layeredSecurity;
+  inputModeration: typeof inputModeration;
+  outputModeration: typeof outputModeration;
+}) {
+  return definePlugin({
+    ...contentModerationConfig,
+    processors: {
+      ...processors,
+      ProfanityFilter,
+      ResponseLengthGuard,
+    },
+  });
+}
+
+/**
+ * Create Content Moderation Plugin
+ *
+ * Builds the pre-configured processors from `options`. Options not passed
+ * fall back to `CONTENT_MODERATION_*` environment variables, then to the
+ * defaults in contentModerationOptionsSchema. The processor classes are
+ * unaffected: hosts instantiate them with their own arguments.
+ */
+export function createContentModerationPlugin(options: ContentModerationOptionsInput = {}) {
+  const resolved = resolveContentModerationOptions(options);
+  return defineContentModerationPlugin({
+    basicModeration: createBasicModeration(resolved),
+    layeredSecurity: createLayeredSecurity(resolved),
+    inputModeration: createInputModeration(resolved),
+    outputModeration: createOutputModeration(resolved),
+  });
+}
+
+/** The plugin built from the default exports (default options). */
+export const contentModerationPlugin = defineContentModerationPlugin({
+  basicModeration,
+  layeredSecurity,
+  inputModeration,
+  outputModeration,
+});
+
+export type ContentModerationPlugin = typeof contentModerationPlugin;
+
+// Plugin configuration (required)
+export { contentModerationConfig } from './config';
+
+// Options
 export {
-  contentModerationPlugin,
-  type ContentModerationPlugin,
+  contentModerationOptionsSchema,
+  contentModerationEnvOptions,
+  resolveContentModerationOptions,
+  type ContentModerationOptionsInput,
+  type ContentModerationOptions,
 } from './config';
 
 // Processors
@@ -36,10 +114,15 @@ export {
   layeredSecurity,
   inputModeration,
   outputModeration,
+  // Processor factories
+  createBasicModeration,
+  createLayeredSecurity,
+  createInputModeration,
+  createOutputModeration,
   // Custom processor classes
   ProfanityFilter,
   ResponseLengthGuard,
 } from './processors';
 
 // Default export: the plugin manifest
-export { contentModerationPlugin as default } from './config';
+export default contentModerationPlugin;
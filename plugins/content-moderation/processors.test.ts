@@ -0,0 +1,56 @@
+// examples/content-moderation/processors.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { MastraDBMessage } from '@mastra/core/agent/message-list';
+import type { ProcessInputArgs, ProcessOutputResultArgs } from '@mastra/core/processors';
+import { ProfanityFilter, ResponseLengthGuard } from './processors';
+
+function message(role: MastraDBMessage['role'], ...texts: string[]): MastraDBMessage {
+  return {
+    id: `${role}-1`,
+    role,
+    createdAt: new Date(0),
+    content: { format: 2, parts: texts.map(text => ({ type: 'text' as const, text })) },
+  };
+}
+
+function abortWith(reasons: string[]) {
+  return (reason?: string): never => {
+    reasons.push(reason ?? '');
+    throw new Error(reason);
+  };
+}
+
+describe('ProfanityFilter', () => {
+  it('aborts when the last user message contains a blocked word', async () => {
+    const reasons: string[] = [];
+    const args = { messages: [message('user', 'this is ', 'BADWORD1')], abort: abortWith(reasons) };
+
+    await assert.rejects(new ProfanityFilter().processInput(args as unknown as ProcessInputArgs));
+    assert.deepEqual(reasons, ['Message contains prohibited content']);
+  });
+
+  it('passes clean messages through unchanged', async () => {
+    const messages = [message('user', 'hello there')];
+    const args = { messages, abort: abortWith([]) };
+
+    assert.equal(await new ProfanityFilter().processInput(args as unknown as ProcessInputArgs), messages);
+  });
+});
+
+describe('ResponseLengthGuard', () => {
+  it('truncates long assistant messages across text parts', async () => {
+    const messages = [message('user', 'x'.repeat(20)), message('assistant', 'abcdef', 'ghijkl', 'mnop')];
+    const args = { messages, abort: abortWith([]) };
+
+    const [user, assistant] = await new ResponseLengthGuard(8).processOutputResult(
+      args as unknown as ProcessOutputResultArgs
+    );
+
+    assert.equal(user, messages[0]);
+    assert.deepEqual(assistant.content.parts, [
+      { type: 'text', text: 'abcdef' },
+      { type: 'text', text: 'gh...' },
+    ]);
+  });
+});
@@ -1,23 +1,32 @@
 // examples/content-moderation/processors.ts
-import type { Processor, MastraDBMessage, CoreMessage, RequestContext } from '@mastra/core';
+import type { MastraDBMessage } from '@mastra/core/agent/message-list';
+import type { Processor, ProcessInputArgs, ProcessOutputResultArgs } from '@mastra/core/processors';
 import {
   ModerationProcessor,
   PromptInjectionDetector,
   PIIDetector,
   UnicodeNormalizer,
 } from '@mastra/core/processors';
+import { resolveContentModerationOptions, type ContentModerationOptions } from './config';
+
+const defaultOptions = resolveContentModerationOptions();
 
 /**
  * Example 1: Basic Moderation
  *
  * Detects and blocks harmful content across specified categories.
  */
-export const basicModeration = new ModerationProcessor({
-  model: 'openai/gpt-4.1-nano',
-  categories: ['hate', 'harassment', 'violence'],
-  threshold: 0.7,
-  strategy: 'block', // 'block' | 'rewrite'
-});
+export function createBasicModeration({ model, categories, threshold, instructions }: ContentModerationOptions) {
+  return new ModerationProcessor({
+    model,
+    categories,
+    threshold,
+    instructions,
+    strategy: 'block', // 'block' | 'rewrite'
+  });
+}
+
+export const basicModeration = createBasicModeration(defaultOptions);
 
 /**
  * Example 2: Layered Security
@@ -28,16 +37,22 @@ export const basicModeration = new ModerationProcessor({
  * 3. PIIDetector - Redacts sensitive personal information
  * 4. ModerationProcessor - Filters harmful content
  */
-export const layeredSecurity = [
-  new UnicodeNormalizer(),
-  new PromptInjectionDetector(),
-  new PIIDetector(),
-  new ModerationProcessor({
-    categories: ['hate', 'harassment', 'violence', 'self-harm'],
-    threshold: 0.5,
-    strategy: 'block',
-  }),
-];
+export function createLayeredSecurity({ model, categories, strictThreshold, instructions }: ContentModerationOptions) {
+  return [
+    new UnicodeNormalizer(),
+    new PromptInjectionDetector({ model }),
+    new PIIDetector({ model }),
+    new ModerationProcessor({
+      model,
+      categories: [...new Set([...categories, 'self-harm'])],
+      threshold: strictThreshold,
+      instructions,
+      strategy: 'block',
+    }),
+  ];
+}
+
+export const layeredSecurity = createLayeredSecurity(defaultOptions);
 
 /**
  * Example 3: Input + Output Moderation
@@ -45,17 +60,28 @@ export const layeredSecurity = [
  * Separate processors for input and output.
  * Input blocks, output rewrites for better UX.
  */
-export const inputModeration = new ModerationProcessor({
-  categories: ['hate', 'harassment', 'violence'],
-  threshold: 0.7,
-  strategy: 'block',
-});
-
-export const outputModeration = new ModerationProcessor({
-  categories: ['hate', 'harassment', 'violence'],
-  threshold: 0.7,
-  strategy: 'rewrite', // Rewrite instead of block for better UX
-});
+export function createInputModeration({ model, categories, threshold, instructions }: ContentModerationOptions) {
+  return new ModerationProcessor({
+    model,
+    categories,
+    threshold,
+    instructions,
+    strategy: 'block',
+  });
+}
+
+export function createOutputModeration({ model, categories, threshold, instructions }: ContentModerationOptions) {
+  return new ModerationProcessor({
+    model,
+    categories,
+    threshold,
+    instructions,
+    strategy: 'rewrite', // Rewrite instead of block for better UX
+  });
+}
+
+export const inputModeration = createInputModeration(defaultOptions);
+export const outputModeration = createOutputModeration(defaultOptions);
 
 /**
  * Example 4: Custom Input Processor
@@ -67,26 +93,13 @@ export class ProfanityFilter implements Processor {
 
   private blockedWords = ['badword1', 'badword2']; // Replace with actual list
 
-  async processInput({
-    messages,
-    abort,
-  }: {
-    messages: MastraDBMessage[];
-    systemMessages: CoreMessage[];
-    context: RequestContext;
-    abort: (reason: string) => void;
-  }): Promise<MastraDBMessage[]> {
+  async processInput({ messages, abort }: ProcessInputArgs): Promise<MastraDBMessage[]> {
     const lastUserMessage = messages.findLast(m => m.role === 'user');
 
     if (lastUserMessage) {
-      const content =
-        typeof lastUserMessage.content === 'string'
-          ? lastUserMessage.content
-          : JSON.stringify(lastUserMessage.content);
+      const content = messageText(lastUserMessage).toLowerCase();
 
-      const containsProfanity = this.blockedWords.some(word =>
-        content.toLowerCase().includes(word.toLowerCase())
-      );
+      const containsProfanity = this.blockedWords.some(word => content.includes(word.toLowerCase()));
 
       if (containsProfanity) {
         abort('Message contains prohibited content');
@@ -107,30 +120,35 @@ export class ResponseLengthGuard implements Processor {
 
   constructor(private maxLength: number = 1000) {}
 
-  async processOutputResult({
-    messages,
-    abort,
-  }: {
-    messages: MastraDBMessage[];
-    abort: (reason: string) => void;
-  }): Promise<MastraDBMessage[]> {
+  async processOutputResult({ messages }: ProcessOutputResultArgs): Promise<MastraDBMessage[]> {
     return messages.map(msg => {
-      if (msg.role === 'assistant') {
-        const content =
-          typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content);
-
-        if (content.length > this.maxLength) {
-          // Option 1: Truncate
-          return {
-            ...msg,
-            content: content.slice(0, this.maxLength) + '...',
-          };
-
-          // Option 2: Block entirely (uncomment to use)
-          // abort('Response exceeded maximum length');
-        }
+      if (msg.role === 'assistant' && messageText(msg).length > this.maxLength) {
+        // Option 1: Truncate
+        return truncateMessage(msg, this.maxLength);
+
+        // Option 2: Block entirely (take `abort` from the arguments to use)
+        // abort('Response exceeded maximum length');
       }
       return msg;
     });
   }
 }
+
+/** The text parts of a message, joined. */
+function messageText(message: MastraDBMessage): string {
+  return message.content.parts.map(part => (part.type === 'text' ? part.text : '')).join('');
+}
+
+/** Cut a message's text parts down to `maxLength` characters in total, ending with `...`. */
+function truncateMessage(message: MastraDBMessage, maxLength: number): MastraDBMessage {
+  let remaining = maxLength;
+  const parts = message.content.parts.flatMap(part => {
+    if (part.type !== 'text') return [part];
+    if (remaining <= 0) return [];
+    const text = part.text.length > remaining ? `${part.text.slice(0, remaining)}...` : part.text;
+    remaining -= part.text.length;
+    return [{ ...part, text }];
+  });
+
+  return { ...message, content: { ...message.content, parts } };
+}
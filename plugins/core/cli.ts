@@ -0,0 +1,134 @@
+// core/cli.ts
+// Command line entry point for plugin maintenance tasks
+
+/**
+ * Plugin CLI
+ *
+ * @example
+ * ```bash
+ * # Check every plugin under plugins/
+ * pnpm plugins:check
+ *
+ * # Check specific plugin directories
+ * pnpm plugins:check plugins/trip-planner plugins/research-bot
+ *
+ * # Show the prompts a plugin renders
+ * pnpm plugins:prompts plugins/research-bot
+ *
+ * # List workspace and installed plugins, as a table or JSON
+ * pnpm plugins:list
+ * pnpm plugins:list --json
+ * ```
+ */
+
+import { dirname, join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { describePlugin, discoverPlugins, formatPluginTable } from './discovery';
+import { checkPluginDrift, formatDriftReport } from './drift';
+import { promptRegistry } from './prompts';
+import { findPluginDirs, loadPlugin } from './sources';
+
+const PLUGINS_ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const NODE_MODULES = join(PLUGINS_ROOT, '..', 'node_modules');
+
+const USAGE = `Usage: plugins <command> [--json] [pluginDir...]
+
+Commands:
+  check     Compare each plugin manifest against its tools, agents, processors and UI
+  prompts   Show each plugin's prompt templates, with partials expanded
+  list      List plugins with their features, tools, agents and processors
+
+With no directories, every plugin under plugins/ is used; list also scans
+node_modules for packages tagged "mastra-plugin". --json prints list as JSON.`;
+
+/**
+ * Check command: exits non-zero when any plugin has drifted.
+ */
+async function check(dirs: string[]): Promise<number> {
+  let failed = 0;
+
+  for (const dir of dirs) {
+    try {
+      const { plugin, sources } = await loadPlugin(dir);
+      const report = checkPluginDrift(plugin, sources);
+      console.log(formatDriftReport(report));
+      if (!report.ok) failed++;
+    } catch (error) {
+      console.log(`✗ ${relative(process.cwd(), dir) || dir}\n    failed to load: ${error instanceof Error ? error.message : error}`);
+      failed++;
+    }
+  }
+
+  if (failed > 0) {
+    console.error(`\n${failed} of ${dirs.length} plugin(s) drifted from their manifest`);
+    return 1;
+  }
+  return 0;
+}
+
+/**
+ * Prompts command: prints every prompt with its version, variables and
+ * partials. Variables are left as `{name}` placeholders.
+ */
+async function prompts(dirs: string[]): Promise<number> {
+  for (const dir of dirs) {
+    const { plugin } = await loadPlugin(dir);
+    const templates = Object.values(plugin.prompts ?? {});
+    console.log(`${plugin.id} (${templates.length} prompt${templates.length === 1 ? '' : 's'})`);
+
+    for (const template of templates) {
+      const inspection = promptRegistry.inspect(template);
+      console.log(`\n  ${inspection.id}@${inspection.version}${inspection.source === 'override' ? ' (override)' : ''}`);
+      if (inspection.variables.length > 0) console.log(`    variables: ${inspection.variables.join(', ')}`);
+      if (inspection.partials.length > 0) console.log(`    partials: ${inspection.partials.join(', ')}`);
+      console.log(inspection.text.replace(/^/gm, '    | '));
+    }
+    console.log();
+  }
+  return 0;
+}
+
+/**
+ * List command: exits non-zero when any plugin failed to load.
+ */
+async function list(dirs: string[] | undefined, json: boolean): Promise<number> {
+  const { plugins, errors } = await discoverPlugins({
+    workspaceDirs: dirs ?? findPluginDirs(PLUGINS_ROOT),
+    nodeModules: dirs ? false : NODE_MODULES,
+  });
+  const summaries = plugins.map(({ plugin, ...found }) => describePlugin(plugin, found));
+
+  console.log(json ? JSON.stringify(summaries, null, 2) : formatPluginTable(summaries));
+
+  for (const error of errors) {
+    console.error(`✗ ${relative(process.cwd(), error.location) || error.location}: ${error.message}`);
+  }
+  return errors.length > 0 ? 1 : 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [command, ...rest] = argv;
+  const json = rest.includes('--json');
+  const args = rest.filter(arg => !arg.startsWith('--'));
+  const dirs = args.length > 0 ? args : findPluginDirs(PLUGINS_ROOT);
+
+  switch (command) {
+    case 'check':
+      return check(dirs);
+    case 'prompts':
+      return prompts(dirs);
+    case 'list':
+      return list(args.length > 0 ? args : undefined, json);
+    default:
+      console.error(USAGE);
+      return command ? 1 : 0;
+  }
+}
+
+main(process.argv.slice(2)).then(
+  code => process.exit(code),
+  error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
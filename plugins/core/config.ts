@@ -0,0 +1,210 @@
+// core/config.ts
+import { z } from 'zod';
+import { validRange } from 'semver';
+import type { Mastra } from '@mastra/core';
+import type { Agent } from '@mastra/core/agent';
+import type { IMastraLogger } from '@mastra/core/logger';
+import type { Processor } from '@mastra/core/processors';
+import type { AnyPromptTemplate } from './prompts';
+
+// =============================================================================
+// Manifest Schemas
+// =============================================================================
+
+/** Plugin IDs are kebab-case, e.g. `trip-planner`. */
+export const pluginIdSchema = z
+  .string()
+  .regex(/^[a-z][a-z0-9]*(?:-[a-z0-9]+)*$/, 'Plugin id must be kebab-case (e.g. "trip-planner")');
+
+/** Plugin versions follow semver 2.0, e.g. `1.0.0` or `2.1.0-beta.1`. */
+export const pluginVersionSchema = z
+  .string()
+  .regex(
+    /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?(?:\+[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?$/,
+    'Plugin version must be a semver string (e.g. "1.0.0")'
+  );
+
+export const pluginFeaturesSchema = z.object({
+  tools: z.boolean(),
+  agents: z.boolean(),
+  ui: z.boolean(),
+  processors: z.boolean(),
+  storage: z.boolean(),
+});
+
+/** Semver ranges, e.g. `^1.0.0` or `>=1.2.0 <2.0.0`. */
+export const versionRangeSchema = z
+  .string()
+  .refine(range => validRange(range) !== null, 'Must be a semver range (e.g. "^1.0.0")');
+
+/**
+ * What a plugin needs from the host at runtime.
+ *
+ * Plugins are matched by ID and version range. Agents, tools and processors
+ * are matched by ID and may come from any plugin, including this one, or
+ * from the host's own Mastra config.
+ */
+export const pluginRequirementsSchema = z.object({
+  plugins: z.record(pluginIdSchema, versionRangeSchema).readonly().optional(),
+  agents: z.array(z.string()).readonly().optional(),
+  tools: z.array(z.string()).readonly().optional(),
+  processors: z.array(z.string()).readonly().optional(),
+});
+
+/** Flag names are kebab-case and scoped to their plugin, e.g. `maps`. */
+export const flagNameSchema = z
+  .string()
+  .regex(/^[a-z][a-z0-9]*(?:-[a-z0-9]+)*$/, 'Flag name must be kebab-case (e.g. "deep-research")');
+
+/**
+ * A feature flag and the tools, agents and processors it guards.
+ *
+ * `default` applies when no flag source has a value for the flag.
+ */
+export const pluginFlagSchema = z.object({
+  description: z.string().optional(),
+  default: z.boolean(),
+  tools: z.array(z.string()).readonly().optional(),
+  agents: z.array(z.string()).readonly().optional(),
+  processors: z.array(z.string()).readonly().optional(),
+});
+
+export const pluginManifestSchema = z.object({
+  id: pluginIdSchema,
+  name: z.string().min(1, 'Plugin name is required'),
+  version: pluginVersionSchema,
+  description: z.string().optional(),
+  features: pluginFeaturesSchema,
+  requires: pluginRequirementsSchema.optional(),
+  flags: z.record(flagNameSchema, pluginFlagSchema).readonly().optional(),
+});
+
+export type PluginFeatures = z.infer<typeof pluginFeaturesSchema>;
+export type PluginFeature = keyof PluginFeatures;
+export type PluginRequirements = z.infer<typeof pluginRequirementsSchema>;
+export type PluginFlag = z.infer<typeof pluginFlagSchema>;
+export type PluginManifest = z.infer<typeof pluginManifestSchema>;
+
+// =============================================================================
+// Plugin Definition Types
+// =============================================================================
+
+/**
+ * Any tool, as `Mastra.addTool()` accepts it. `ToolAction` is invariant in
+ * its input type, so no single instantiation would accept every tool.
+ */
+export type PluginTool = Parameters<Mastra['addTool']>[0];
+
+export type PluginAgent = Agent;
+
+/**
+ * Processors can be exported as a single instance, a pre-built chain,
+ * or a class the host instantiates with its own options.
+ */
+export type PluginProcessor =
+  | Processor
+  | readonly Processor[]
+  | (new (...args: never[]) => Processor);
+
+/** Tools keyed by their `createTool` id. */
+export type PluginTools = Record<string, PluginTool>;
+
+/** Agents keyed by the name they are registered under in Mastra. */
+export type PluginAgents = Record<string, PluginAgent>;
+
+/** Processors keyed by their export name. */
+export type PluginProcessors = Record<string, PluginProcessor>;
+
+/**
+ * Maps message part types (`tool-<toolId>` or `data-<name>`) to the name of
+ * the component exported from the plugin's `ui.tsx`.
+ *
+ * Strings rather than components, so server code never imports React.
+ */
+export type UIComponentMap = Record<`tool-${string}` | `data-${string}`, string>;
+
+export interface StorageDefinition {
+  /** What the plugin persists and why. */
+  description: string;
+}
+
+// =============================================================================
+// Lifecycle Types
+// =============================================================================
+
+export type PluginLogger = Pick<IMastraLogger, 'debug' | 'info' | 'warn' | 'error'>;
+
+/**
+ * Plugin Context
+ *
+ * Passed to every lifecycle hook. Scoped to one plugin: `config` is that
+ * plugin's host-supplied config, and `logger` prefixes messages with its ID.
+ */
+export interface PluginContext<TConfig extends Record<string, unknown> = Record<string, unknown>> {
+  plugin: Pick<PluginManifest, 'id' | 'name' | 'version'>;
+  mastra: Mastra;
+  logger: PluginLogger;
+  config: Readonly<TConfig>;
+  storage: ReturnType<Mastra['getStorage']>;
+  /** Look up another registered plugin, e.g. one listed in `requires.plugins`. */
+  getPlugin(id: string): AnyAIPlugin | undefined;
+}
+
+export type PluginHook = (context: PluginContext) => void | Promise<void>;
+
+/**
+ * Lifecycle hooks, run by `PluginRegistry.start()` / `stop()`:
+ * 1. `register` - every plugin, in dependency order, after mounting
+ * 2. `initialize` - every plugin, in dependency order, after all registers
+ * 3. `shutdown` - every started plugin, in reverse order
+ */
+export interface PluginLifecycleHooks {
+  register?: PluginHook;
+  initialize?: PluginHook;
+  shutdown?: PluginHook;
+}
+
+/**
+ * AI Plugin Definition
+ *
+ * The single contract every plugin implements. Identity and `features` are
+ * required; everything else is optional and must agree with `features`.
+ */
+export interface AIPluginDefinition<
+  TTools extends PluginTools = PluginTools,
+  TAgents extends PluginAgents = PluginAgents,
+  TProcessors extends PluginProcessors = PluginProcessors,
+  TUi extends UIComponentMap = UIComponentMap,
+> extends PluginManifest, PluginLifecycleHooks {
+  tools?: TTools;
+  agents?: TAgents;
+  uiComponents?: TUi;
+  processors?: TProcessors;
+  storage?: StorageDefinition;
+  schemas?: Record<string, z.ZodTypeAny>;
+  /** Prompt templates the plugin renders, listed so hosts can inspect and override them. */
+  prompts?: Record<string, AnyPromptTemplate>;
+}
+
+/**
+ * A validated plugin, as returned by `definePlugin()`.
+ *
+ * Adds the ID lists with literal types inferred from the supplied records.
+ */
+export type AIPlugin<
+  TTools extends PluginTools = PluginTools,
+  TAgents extends PluginAgents = PluginAgents,
+  TProcessors extends PluginProcessors = PluginProcessors,
+  TUi extends UIComponentMap = UIComponentMap,
+> = Readonly<AIPluginDefinition<TTools, TAgents, TProcessors, TUi>> & {
+  readonly toolIds: ReadonlyArray<Extract<keyof TTools, string>>;
+  readonly agentIds: ReadonlyArray<Extract<keyof TAgents, string>>;
+  readonly processorIds: ReadonlyArray<Extract<keyof TProcessors, string>>;
+};
+
+/** Any plugin, regardless of what it provides. */
+export type AnyAIPlugin = AIPlugin<PluginTools, PluginAgents, PluginProcessors, UIComponentMap>;
+
+export type ToolIdsOf<P extends AnyAIPlugin> = P['toolIds'][number];
+export type AgentIdsOf<P extends AnyAIPlugin> = P['agentIds'][number];
+export type ProcessorIdsOf<P extends AnyAIPlugin> = P['processorIds'][number];
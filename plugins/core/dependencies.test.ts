@@ -0,0 +1,85 @@
+// core/dependencies.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { z } from 'zod';
+import { createTool } from '@mastra/core/tools';
+import { findMissingRequirements, PluginDependencyError, resolvePluginOrder } from './dependencies';
+import { definePlugin } from './plugin';
+import type { AIPluginDefinition } from './config';
+
+function plugin(id: string, version = '1.0.0', requires?: AIPluginDefinition['requires']) {
+  const tool = createTool({ id: `${id}-tool`, description: id, inputSchema: z.object({}), execute: async () => ({}) });
+  return definePlugin({
+    id,
+    name: id,
+    version,
+    features: { tools: true, agents: false, ui: false, processors: false, storage: false },
+    tools: { [`${id}-tool`]: tool },
+    requires,
+  });
+}
+
+function dependencyIssues(run: () => unknown): string[] {
+  try {
+    run();
+  } catch (error) {
+    assert.ok(error instanceof PluginDependencyError);
+    return error.issues;
+  }
+  assert.fail('expected a PluginDependencyError');
+}
+
+describe('resolvePluginOrder', () => {
+  it('puts required plugins first and keeps the input order otherwise', () => {
+    const ordered = resolvePluginOrder([
+      plugin('app', '1.0.0', { plugins: { auth: '^2.0.0', storage: '>=1' } }),
+      plugin('logging'),
+      plugin('auth', '2.3.0', { plugins: { storage: '^1.0.0' } }),
+      plugin('storage', '1.4.0'),
+    ]);
+
+    assert.deepEqual(ordered.map(entry => entry.id), ['storage', 'auth', 'app', 'logging']);
+  });
+
+  it('accepts prereleases inside the range', () => {
+    const ordered = resolvePluginOrder([plugin('app', '1.0.0', { plugins: { auth: '^2.0.0' } }), plugin('auth', '2.1.0-beta.1')]);
+    assert.deepEqual(ordered.map(entry => entry.id), ['auth', 'app']);
+  });
+
+  it('reports every missing plugin, wrong version and cycle at once', () => {
+    const issues = dependencyIssues(() =>
+      resolvePluginOrder([
+        plugin('app', '1.0.0', { plugins: { auth: '^3.0.0', billing: '*' } }),
+        plugin('auth', '2.3.0'),
+        plugin('a', '1.0.0', { plugins: { b: '*' } }),
+        plugin('b', '1.0.0', { plugins: { a: '*' } }),
+      ])
+    );
+
+    assert.deepEqual(issues, [
+      '"app" requires plugin "auth@^3.0.0", but version 2.3.0 is registered',
+      '"app" requires plugin "billing@*", which is not registered',
+      'Dependency cycle: a → b → a',
+    ]);
+  });
+});
+
+describe('findMissingRequirements', () => {
+  const app = plugin('app', '1.0.0', { tools: ['auth-tool', 'search'], agents: ['helper'] });
+
+  it('names each required ID that nothing provides', () => {
+    assert.deepEqual(findMissingRequirements([app, plugin('auth')]), [
+      '"app" requires agent "helper", which no plugin or host config provides',
+      '"app" requires tool "search", which no plugin or host config provides',
+    ]);
+  });
+
+  it('counts IDs the host provides, but not ones that are disabled', () => {
+    const provided = { tools: ['search'], agents: ['helper'] };
+
+    assert.deepEqual(findMissingRequirements([app, plugin('auth')], provided), []);
+    assert.deepEqual(findMissingRequirements([app, plugin('auth')], provided, { tools: ['auth-tool'] }), [
+      '"app" requires tool "auth-tool", which no plugin or host config provides',
+    ]);
+  });
+});
@@ -0,0 +1,128 @@
+// core/dependencies.ts
+import { satisfies } from 'semver';
+import type { AnyAIPlugin } from './config';
+
+/**
+ * Thrown when plugin dependencies cannot be satisfied.
+ *
+ * Lists every missing or incompatible dependency and any cycle, so the host
+ * refuses to start with a full explanation instead of failing on first use.
+ */
+export class PluginDependencyError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Plugin dependencies not satisfied:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'PluginDependencyError';
+  }
+}
+
+/**
+ * IDs available outside the plugins being resolved, e.g. agents passed
+ * directly to `new Mastra({ agents })`.
+ */
+export interface ProvidedIds {
+  agents?: Iterable<string>;
+  tools?: Iterable<string>;
+  processors?: Iterable<string>;
+}
+
+type RequirementKind = 'agents' | 'tools' | 'processors';
+
+const REQUIREMENT_LABELS: Record<RequirementKind, string> = {
+  agents: 'agent',
+  tools: 'tool',
+  processors: 'processor',
+};
+
+/**
+ * Resolve Plugin Order
+ *
+ * Returns the plugins sorted so every plugin comes after the plugins it
+ * requires. Plugins with no ordering constraint keep their input order.
+ *
+ * Throws a `PluginDependencyError` when a required plugin is missing, its
+ * version is outside the required range, or the requirements form a cycle.
+ */
+export function resolvePluginOrder<P extends AnyAIPlugin>(plugins: readonly P[]): P[] {
+  const byId = new Map(plugins.map(plugin => [plugin.id, plugin]));
+  const issues: string[] = [];
+
+  for (const plugin of plugins) {
+    for (const [dependencyId, range] of Object.entries(plugin.requires?.plugins ?? {})) {
+      const dependency = byId.get(dependencyId);
+      if (!dependency) {
+        issues.push(`"${plugin.id}" requires plugin "${dependencyId}@${range}", which is not registered`);
+      } else if (!satisfies(dependency.version, range, { includePrerelease: true })) {
+        issues.push(
+          `"${plugin.id}" requires plugin "${dependencyId}@${range}", but version ${dependency.version} is registered`
+        );
+      }
+    }
+  }
+
+  const ordered: P[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (plugin: P, path: string[]): void => {
+    const current = state.get(plugin.id);
+    if (current === 'done') return;
+    if (current === 'visiting') {
+      const cycle = [...path.slice(path.indexOf(plugin.id)), plugin.id];
+      issues.push(`Dependency cycle: ${cycle.join(' → ')}`);
+      return;
+    }
+
+    state.set(plugin.id, 'visiting');
+    for (const dependencyId of Object.keys(plugin.requires?.plugins ?? {})) {
+      const dependency = byId.get(dependencyId);
+      if (dependency) visit(dependency, [...path, plugin.id]);
+    }
+    state.set(plugin.id, 'done');
+    ordered.push(plugin);
+  };
+
+  for (const plugin of plugins) {
+    visit(plugin, []);
+  }
+
+  if (issues.length > 0) {
+    throw new PluginDependencyError(issues);
+  }
+
+  return ordered;
+}
+
+/**
+ * Find Missing Requirements
+ *
+ * Checks each plugin's required agents, tools and processors against what
+ * the plugins (and optionally the host) provide. IDs in `disabled`, e.g.
+ * switched off by a feature flag, do not count as provided. Returns one
+ * issue per missing ID, naming the plugin that needs it.
+ */
+export function findMissingRequirements(
+  plugins: readonly AnyAIPlugin[],
+  provided: ProvidedIds = {},
+  disabled: ProvidedIds = {}
+): string[] {
+  const availableOf = (kind: RequirementKind, pluginIds: (plugin: AnyAIPlugin) => readonly string[]) => {
+    const off = new Set(disabled[kind] ?? []);
+    return new Set([...(provided[kind] ?? []), ...plugins.flatMap(pluginIds).filter(id => !off.has(id))]);
+  };
+  const available: Record<RequirementKind, Set<string>> = {
+    agents: availableOf('agents', plugin => plugin.agentIds),
+    tools: availableOf('tools', plugin => plugin.toolIds),
+    processors: availableOf('processors', plugin => plugin.processorIds),
+  };
+
+  const issues: string[] = [];
+  for (const plugin of plugins) {
+    for (const kind of Object.keys(REQUIREMENT_LABELS) as RequirementKind[]) {
+      for (const id of plugin.requires?.[kind] ?? []) {
+        if (!available[kind].has(id)) {
+          issues.push(`"${plugin.id}" requires ${REQUIREMENT_LABELS[kind]} "${id}", which no plugin or host config provides`);
+        }
+      }
+    }
+  }
+  return issues;
+}
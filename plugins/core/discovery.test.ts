@@ -0,0 +1,153 @@
+// core/discovery.test.ts
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, relative } from 'node:path';
+import { z } from 'zod';
+import { createTool } from '@mastra/core/tools';
+import { describePlugin, discoverPlugins, findPluginPackages, formatPluginTable, summarizeSchema } from './discovery';
+import { definePlugin } from './plugin';
+
+/** Enough of a plugin for `isAIPlugin()`, without importing core from the package. */
+function pluginModule(id: string, exportAs = 'export default'): string {
+  return `${exportAs} { id: '${id}', name: '${id}', version: '1.0.0', features: {}, toolIds: [] };\n`;
+}
+
+function writePackage(dir: string, packageJson: Record<string, unknown>, files: Record<string, string> = {}) {
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, 'package.json'), JSON.stringify(packageJson));
+  for (const [name, content] of Object.entries(files)) {
+    mkdirSync(join(dir, name, '..'), { recursive: true });
+    writeFileSync(join(dir, name), content);
+  }
+}
+
+describe('discoverPlugins', () => {
+  let root: string;
+  let nodeModules: string;
+
+  before(() => {
+    root = mkdtempSync(join(tmpdir(), 'plugin-discovery-'));
+    nodeModules = join(root, 'node_modules');
+
+    mkdirSync(join(root, 'plugins', 'maps'), { recursive: true });
+    writeFileSync(join(root, 'plugins', 'maps', 'index.ts'), pluginModule('maps'));
+
+    writePackage(join(nodeModules, 'left-pad'), { name: 'left-pad' }, { 'index.js': 'export default {};\n' });
+    writePackage(
+      join(nodeModules, '@acme', 'weather-plugin'),
+      { name: '@acme/weather-plugin', keywords: ['mastra-plugin'], exports: { '.': { import: './dist/index.mjs' } } },
+      { 'dist/index.mjs': pluginModule('weather', 'export const weatherPlugin =') }
+    );
+    writePackage(
+      join(nodeModules, 'maps-plugin'),
+      { name: 'maps-plugin', keywords: ['mastra-plugin'], main: 'index.mjs' },
+      { 'index.mjs': pluginModule('maps') }
+    );
+    writePackage(join(nodeModules, 'unbuilt-plugin'), { name: 'unbuilt-plugin', keywords: ['mastra-plugin'] });
+    writePackage(
+      join(nodeModules, 'empty-plugin'),
+      { name: 'empty-plugin', keywords: ['mastra-plugin'], module: 'index.mjs' },
+      { 'index.mjs': 'export const version = 1;\n' }
+    );
+  });
+
+  after(() => rmSync(root, { recursive: true, force: true }));
+
+  it('finds tagged packages, including scoped ones', () => {
+    const names = findPluginPackages(nodeModules).map(dir => dir.slice(nodeModules.length + 1));
+    assert.deepEqual(names.sort(), ['@acme/weather-plugin', 'empty-plugin', 'maps-plugin', 'unbuilt-plugin']);
+    assert.deepEqual(findPluginPackages(join(root, 'missing')), []);
+  });
+
+  it('loads workspace plugins first and collects package errors instead of throwing', async () => {
+    const { plugins, errors } = await discoverPlugins({
+      workspaceDirs: [join(root, 'plugins', 'maps'), join(root, 'plugins', 'missing')],
+      nodeModules,
+    });
+
+    assert.deepEqual(
+      plugins.map(found => [found.plugin.id, found.source, found.packageName]),
+      [
+        ['maps', 'workspace', undefined],
+        ['weather', 'package', '@acme/weather-plugin'],
+      ]
+    );
+    assert.deepEqual(
+      // Messages name paths relative to the cwd, or absolute when outside it
+      errors.map(error => `${relative(root, error.location)}: ${error.message.replace(/\S*plugin-discovery-\w+\//g, '')}`).sort(),
+      [
+        'node_modules/empty-plugin: empty-plugin is tagged "mastra-plugin" but exports no plugin',
+        'node_modules/maps-plugin: plugin "maps" is already provided by plugins/maps',
+        'node_modules/unbuilt-plugin: entry point index.js does not exist',
+        'plugins/missing: plugins/missing/index.ts has no default-exported plugin',
+      ]
+    );
+  });
+
+  it('skips installed packages unless asked', async () => {
+    const { plugins } = await discoverPlugins({ workspaceDirs: [join(root, 'plugins', 'maps')] });
+    assert.deepEqual(plugins.map(found => found.plugin.id), ['maps']);
+  });
+});
+
+describe('summarizeSchema', () => {
+  const schema = z.object({
+    location: z.string(),
+    units: z.enum(['metric', 'imperial']).default('metric'),
+    days: z.array(z.union([z.string(), z.number().int()])).optional(),
+    filters: z.object({ near: z.object({ lat: z.number(), lng: z.number() }) }),
+  });
+
+  it('renders optional fields for input and defaulted fields as required for output', () => {
+    assert.equal(
+      summarizeSchema(schema),
+      "{ location: string, units?: 'metric' | 'imperial', days?: (string | number)[], filters: { near: {…} } }"
+    );
+    assert.match(summarizeSchema(schema, 'output'), /units: 'metric' \| 'imperial'/);
+  });
+
+  it('shows a dash for things that are not zod schemas', () => {
+    assert.equal(summarizeSchema(undefined), '-');
+    assert.equal(summarizeSchema({ type: 'object' }), '-');
+  });
+});
+
+describe('describePlugin', () => {
+  const plugin = definePlugin({
+    id: 'weather',
+    name: 'Weather',
+    version: '2.1.0',
+    features: { tools: true, agents: false, ui: false, processors: false, storage: false },
+    tools: {
+      getWeather: createTool({
+        id: 'getWeather',
+        description: 'Get the\n   forecast',
+        inputSchema: z.object({ location: z.string() }),
+        outputSchema: z.object({ summary: z.string() }),
+        execute: async () => ({ summary: 'sunny' }),
+      }),
+    },
+  });
+
+  it('lists enabled features and tool schemas, and prints them as tables', () => {
+    const summary = describePlugin(plugin, { source: 'package', location: '/tmp/weather', packageName: '@acme/weather' });
+
+    assert.deepEqual(summary.features, ['tools']);
+    assert.deepEqual(summary.tools, [
+      { id: 'getWeather', description: 'Get the forecast', input: '{ location: string }', output: '{ summary: string }' },
+    ]);
+    assert.equal(
+      formatPluginTable([summary]),
+      [
+        'ID       VERSION  SOURCE         FEATURES  AGENTS  PROCESSORS',
+        'weather  2.1.0    @acme/weather  tools     -       -',
+        '',
+        'PLUGIN   TOOL        INPUT                 OUTPUT',
+        'weather  getWeather  { location: string }  { summary: string }',
+      ].join('\n')
+    );
+    assert.equal(formatPluginTable([]), 'No plugins found');
+  });
+});
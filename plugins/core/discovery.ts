@@ -0,0 +1,358 @@
+// core/discovery.ts
+import { existsSync, readFileSync, readdirSync, type Dirent } from 'node:fs';
+import { join, relative, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { z } from 'zod';
+import type { AnyAIPlugin, PluginFeature } from './config';
+import { findPluginDirs, loadPlugin } from './sources';
+
+/**
+ * Installed packages opt in to discovery by listing this keyword in their
+ * package.json. Other packages are never imported.
+ */
+export const PLUGIN_PACKAGE_KEYWORD = 'mastra-plugin';
+
+/** A plugin found by `discoverPlugins()`, and where it came from. */
+export interface DiscoveredPlugin {
+  plugin: AnyAIPlugin;
+  source: 'workspace' | 'package';
+  /** The plugin's directory. */
+  location: string;
+  /** The npm package name, for installed packages. */
+  packageName?: string;
+}
+
+export interface DiscoveryError {
+  location: string;
+  message: string;
+}
+
+export interface DiscoveryResult {
+  plugins: DiscoveredPlugin[];
+  errors: DiscoveryError[];
+}
+
+export interface DiscoveryOptions {
+  /** Plugin package directories in the workspace, e.g. from `findPluginDirs()`. */
+  workspaceDirs?: readonly string[];
+  /** A `node_modules` directory to scan, or `false` to skip installed packages. */
+  nodeModules?: string | false;
+}
+
+/** A tool, with its input and output schemas reduced to one line each. */
+export interface ToolSummary {
+  id: string;
+  description?: string;
+  input: string;
+  output: string;
+}
+
+/** What a plugin provides, as printed by `plugins:list`. */
+export interface PluginSummary {
+  id: string;
+  name: string;
+  version: string;
+  source?: DiscoveredPlugin['source'];
+  location?: string;
+  packageName?: string;
+  /** Enabled features only. */
+  features: PluginFeature[];
+  tools: ToolSummary[];
+  agents: string[];
+  processors: string[];
+}
+
+// =============================================================================
+// Discovery
+// =============================================================================
+
+/**
+ * Discover Plugins
+ *
+ * Loads every plugin in the workspace directories, then every installed
+ * package tagged with the `mastra-plugin` keyword. A package may export its
+ * plugin as the default export or under any name.
+ *
+ * Failures are collected rather than thrown, so one broken package does not
+ * hide the rest. When two locations provide the same plugin ID, the first
+ * wins (workspace before installed packages) and the second is reported.
+ *
+ * @example
+ * ```typescript
+ * const { plugins, errors } = await discoverPlugins({
+ *   workspaceDirs: findPluginDirs('plugins'),
+ *   nodeModules: 'node_modules',
+ * });
+ * ```
+ */
+export async function discoverPlugins(options: DiscoveryOptions = {}): Promise<DiscoveryResult> {
+  const { workspaceDirs = [], nodeModules = false } = options;
+  const plugins: DiscoveredPlugin[] = [];
+  const errors: DiscoveryError[] = [];
+  const seen = new Map<string, string>();
+
+  const add = (found: DiscoveredPlugin) => {
+    const other = seen.get(found.plugin.id);
+    if (other) {
+      errors.push({
+        location: found.location,
+        message: `plugin "${found.plugin.id}" is already provided by ${displayPath(other)}`,
+      });
+      return;
+    }
+    seen.set(found.plugin.id, found.location);
+    plugins.push(found);
+  };
+
+  for (const dir of workspaceDirs) {
+    try {
+      const { plugin, dir: location } = await loadPlugin(dir);
+      add({ plugin, source: 'workspace', location });
+    } catch (error) {
+      errors.push({ location: resolve(dir), message: messageOf(error) });
+    }
+  }
+
+  if (nodeModules) {
+    for (const dir of findPluginPackages(nodeModules)) {
+      try {
+        add(await loadPluginPackage(dir));
+      } catch (error) {
+        errors.push({ location: dir, message: messageOf(error) });
+      }
+    }
+  }
+
+  return { plugins, errors };
+}
+
+/**
+ * Find installed package directories (including scoped packages) whose
+ * package.json lists the `mastra-plugin` keyword.
+ */
+export function findPluginPackages(nodeModules: string): string[] {
+  if (!existsSync(nodeModules)) return [];
+
+  const packageDirs = readdirSync(nodeModules, { withFileTypes: true })
+    .filter((entry: Dirent) => (entry.isDirectory() || entry.isSymbolicLink()) && !entry.name.startsWith('.'))
+    .flatMap((entry: Dirent) => {
+      const dir = join(nodeModules, entry.name);
+      if (!entry.name.startsWith('@')) return [dir];
+      return readdirSync(dir).map((name: string) => join(dir, name));
+    });
+
+  return packageDirs
+    .map((dir: string) => resolve(dir))
+    .filter((dir: string) => readPackageJson(dir)?.keywords?.includes(PLUGIN_PACKAGE_KEYWORD));
+}
+
+/**
+ * Import an installed plugin package through its package.json entry point.
+ */
+export async function loadPluginPackage(dir: string): Promise<DiscoveredPlugin> {
+  const packageJson = readPackageJson(dir);
+  if (!packageJson) {
+    throw new Error('package.json is missing or invalid');
+  }
+
+  const entry = join(dir, packageEntry(packageJson));
+  if (!existsSync(entry)) {
+    throw new Error(`entry point ${packageEntry(packageJson)} does not exist`);
+  }
+
+  const module = (await import(pathToFileURL(entry).href)) as Record<string, unknown>;
+  const plugin = [module.default, ...Object.values(module)].find(isAIPlugin);
+  if (!plugin) {
+    throw new Error(`${packageJson.name ?? dir} is tagged "${PLUGIN_PACKAGE_KEYWORD}" but exports no plugin`);
+  }
+
+  return { plugin, source: 'package', location: dir, packageName: packageJson.name };
+}
+
+/**
+ * Whether a value is a plugin returned by `definePlugin()`.
+ */
+export function isAIPlugin(value: unknown): value is AnyAIPlugin {
+  const candidate = value as Partial<AnyAIPlugin> | null | undefined;
+  return (
+    typeof candidate?.id === 'string' &&
+    typeof candidate.version === 'string' &&
+    typeof candidate.features === 'object' &&
+    Array.isArray(candidate.toolIds)
+  );
+}
+
+// =============================================================================
+// Summaries
+// =============================================================================
+
+/**
+ * Describe Plugin
+ *
+ * Reduces a plugin to the IDs and schema summaries a listing needs. Safe to
+ * serialize as JSON.
+ */
+export function describePlugin(plugin: AnyAIPlugin, found?: Omit<DiscoveredPlugin, 'plugin'>): PluginSummary {
+  return {
+    id: plugin.id,
+    name: plugin.name,
+    version: plugin.version,
+    source: found?.source,
+    location: found?.location,
+    packageName: found?.packageName,
+    features: (Object.keys(plugin.features) as PluginFeature[]).filter(feature => plugin.features[feature]),
+    tools: Object.entries(plugin.tools ?? {}).map(([id, tool]) => ({
+      id,
+      description: tool.description?.replace(/\s+/g, ' ').trim(),
+      input: summarizeSchema(tool.inputSchema, 'input'),
+      output: summarizeSchema(tool.outputSchema, 'output'),
+    })),
+    agents: [...plugin.agentIds],
+    processors: [...plugin.processorIds],
+  };
+}
+
+/**
+ * Summarize Schema
+ *
+ * Renders a zod schema as a compact TypeScript-like type, e.g.
+ * `{ location: string, units?: 'metric' | 'imperial' }`. Nested objects
+ * beyond the second level are shown as `{…}`. Fields with defaults are
+ * optional on input and required on output.
+ */
+export function summarizeSchema(schema: unknown, io: 'input' | 'output' = 'input'): string {
+  if (!(schema instanceof z.ZodType)) return '-';
+  try {
+    return summarizeJsonSchema(z.toJSONSchema(schema, { io, unrepresentable: 'any' }) as JsonSchema, 0);
+  } catch {
+    return 'unknown';
+  }
+}
+
+interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  additionalProperties?: JsonSchema | boolean;
+}
+
+function summarizeJsonSchema(schema: JsonSchema, depth: number): string {
+  const union = schema.anyOf ?? schema.oneOf;
+  if (union) return union.map(member => summarizeJsonSchema(member, depth)).join(' | ');
+  if (schema.const !== undefined) return JSON.stringify(schema.const).replace(/"/g, "'");
+  if (schema.enum) return schema.enum.map(value => JSON.stringify(value).replace(/"/g, "'")).join(' | ');
+
+  const type = Array.isArray(schema.type) ? schema.type.join(' | ') : schema.type;
+  switch (type) {
+    case 'object': {
+      if (!schema.properties) {
+        return typeof schema.additionalProperties === 'object'
+          ? `Record<string, ${summarizeJsonSchema(schema.additionalProperties, depth + 1)}>`
+          : 'object';
+      }
+      if (depth >= 2) return '{…}';
+      const required = new Set(schema.required ?? []);
+      const fields = Object.entries(schema.properties).map(
+        ([key, value]) => `${key}${required.has(key) ? '' : '?'}: ${summarizeJsonSchema(value, depth + 1)}`
+      );
+      return `{ ${fields.join(', ')} }`;
+    }
+    case 'array': {
+      const items = schema.items ? summarizeJsonSchema(schema.items, depth) : 'unknown';
+      return items.includes(' ') && !items.startsWith('{') ? `(${items})[]` : `${items}[]`;
+    }
+    case 'integer':
+      return 'number';
+    case undefined:
+      return 'unknown';
+    default:
+      return type;
+  }
+}
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+const MAX_CELL_WIDTH = 60;
+
+/**
+ * Format summaries as two plain-text tables: plugins, then their tools.
+ */
+export function formatPluginTable(summaries: readonly PluginSummary[]): string {
+  if (summaries.length === 0) return 'No plugins found';
+
+  const plugins = formatTable(
+    ['ID', 'VERSION', 'SOURCE', 'FEATURES', 'AGENTS', 'PROCESSORS'],
+    summaries.map(summary => [
+      summary.id,
+      summary.version,
+      summary.packageName ?? (summary.location ? displayPath(summary.location) : '-'),
+      summary.features.join(', ') || '-',
+      summary.agents.join(', ') || '-',
+      summary.processors.join(', ') || '-',
+    ])
+  );
+
+  const toolRows = summaries.flatMap(summary =>
+    summary.tools.map(tool => [summary.id, tool.id, tool.input, tool.output])
+  );
+  if (toolRows.length === 0) return plugins;
+
+  return `${plugins}\n\n${formatTable(['PLUGIN', 'TOOL', 'INPUT', 'OUTPUT'], toolRows)}`;
+}
+
+function formatTable(headers: string[], rows: string[][]): string {
+  const cells = [headers, ...rows].map(row => row.map(truncate));
+  const widths = headers.map((_, column) => Math.max(...cells.map(row => row[column].length)));
+  return cells
+    .map(row => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd())
+    .join('\n');
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_CELL_WIDTH ? `${text.slice(0, MAX_CELL_WIDTH - 1)}…` : text;
+}
+
+function displayPath(path: string): string {
+  return relative(process.cwd(), path) || '.';
+}
+
+interface PackageJson {
+  name?: string;
+  main?: string;
+  module?: string;
+  keywords?: string[];
+  exports?: unknown;
+}
+
+function readPackageJson(dir: string): PackageJson | undefined {
+  try {
+    return JSON.parse(readFileSync(join(dir, 'package.json'), 'utf8')) as PackageJson;
+  } catch {
+    return undefined;
+  }
+}
+
+/** The root entry point from `exports["."]`, then `module`, then `main`. */
+function packageEntry(packageJson: PackageJson): string {
+  const exportsField = packageJson.exports as Record<string, unknown> | string | undefined;
+  const root = typeof exportsField === 'object' && exportsField !== null && '.' in exportsField
+    ? exportsField['.']
+    : exportsField;
+  const condition = typeof root === 'object' && root !== null
+    ? ((root as Record<string, unknown>).import ?? (root as Record<string, unknown>).default)
+    : root;
+
+  if (typeof condition === 'string') return condition;
+  return packageJson.module ?? packageJson.main ?? 'index.js';
+}
+
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
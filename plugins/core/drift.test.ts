@@ -0,0 +1,79 @@
+// core/drift.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { z } from 'zod';
+import { Agent } from '@mastra/core/agent';
+import { createTool } from '@mastra/core/tools';
+import { checkPluginDrift, formatDriftReport } from './drift';
+import { definePlugin } from './plugin';
+
+const searchTool = createTool({ id: 'search', description: 'Search', inputSchema: z.object({}), execute: async () => ({}) });
+const fetchTool = createTool({ id: 'fetch', description: 'Fetch', inputSchema: z.object({}), execute: async () => ({}) });
+const helperAgent = new Agent({ id: 'helper', name: 'helper', instructions: 'Help', model: { id: 'test/model' } });
+
+class RedactProcessor {
+  readonly id = 'redact';
+  processInput() {
+    return [];
+  }
+}
+
+const plugin = definePlugin({
+  id: 'research',
+  name: 'Research',
+  version: '1.0.0',
+  features: { tools: true, agents: true, ui: true, processors: true, storage: false },
+  tools: { search: searchTool, lookup: fetchTool },
+  agents: { helper: helperAgent },
+  processors: { RedactProcessor },
+  uiComponents: { 'tool-search': 'SearchCard' },
+});
+
+describe('checkPluginDrift', () => {
+  it('passes when the manifest matches the feature files', () => {
+    const report = checkPluginDrift(
+      definePlugin({ ...plugin, tools: { search: searchTool } }),
+      {
+        tools: { searchTool },
+        agents: { helperAgent, defaultAgent: helperAgent },
+        processors: { RedactProcessor },
+        uiSource: "export function SearchCard() {}\nif (part.type === 'tool-search') {}",
+      }
+    );
+
+    assert.equal(report.ok, true);
+    assert.equal(formatDriftReport(report), '✓ research');
+  });
+
+  it('finds missing, undeclared and mismatched IDs in each feature', () => {
+    const report = checkPluginDrift(plugin, {
+      tools: { searchTool, otherTool: createTool({ id: 'other', description: 'Other', inputSchema: z.object({}), execute: async () => ({}) }) },
+      agents: {},
+      processors: { RedactProcessor: class {}, MaskProcessor: RedactProcessor },
+      uiSource: "export { SearchView as View }\nif (part.type === 'tool-fetch') {}",
+      files: { tools: 'tools/index.ts' },
+    });
+
+    assert.equal(report.ok, false);
+    assert.equal(
+      formatDriftReport(report),
+      [
+        '✗ research',
+        '    ~ tool lookup: declared as "lookup" but its id is "fetch"',
+        '    - tool lookup: not exported from tools/index.ts',
+        '    + tool other: exported from tools/index.ts but not declared',
+        '    - agent helper: not exported from agent.ts',
+        '    ~ processor RedactProcessor: declared value is not the "RedactProcessor" export of processors.ts',
+        '    + processor MaskProcessor: exported from processors.ts but not declared',
+        '    - ui tool-search: component "SearchCard" is not exported from ui.tsx',
+        '    + ui tool-fetch: rendered in ui.tsx but not mapped in uiComponents',
+      ].join('\n')
+    );
+  });
+
+  it('only checks exports for the features whose sources are given', () => {
+    // Key/ID mismatches need no sources, so they are always reported
+    const report = checkPluginDrift(plugin, {});
+    assert.deepEqual(report.issues.map(issue => `${issue.type} ${issue.kind} ${issue.id}`), ['mismatch tool lookup']);
+  });
+});
@@ -0,0 +1,236 @@
+// core/drift.ts
+import { Agent } from '@mastra/core/agent';
+import type { AnyAIPlugin } from './config';
+
+/**
+ * The parts of a plugin package the manifest is checked against.
+ *
+ * Modules are the namespace objects of the plugin's feature files
+ * (`import * as tools from './tools'`). The UI is checked as source text so
+ * server code never has to load React.
+ */
+export interface PluginSources {
+  tools?: Record<string, unknown>;
+  agents?: Record<string, unknown>;
+  processors?: Record<string, unknown>;
+  uiSource?: string;
+  /** File names used in messages, e.g. `{ agents: 'agents.ts' }`. */
+  files?: Partial<Record<'tools' | 'agents' | 'processors' | 'ui', string>>;
+}
+
+export type DriftKind = 'tool' | 'agent' | 'processor' | 'ui';
+
+/**
+ * - `missing`: declared in the manifest, absent from the implementation
+ * - `undeclared`: present in the implementation, absent from the manifest
+ * - `mismatch`: present in both, but the manifest key disagrees with the real ID
+ */
+export type DriftType = 'missing' | 'undeclared' | 'mismatch';
+
+export interface DriftIssue {
+  kind: DriftKind;
+  type: DriftType;
+  /** The ID as declared in the manifest (or found in the implementation). */
+  id: string;
+  message: string;
+}
+
+export interface DriftReport {
+  pluginId: string;
+  ok: boolean;
+  issues: DriftIssue[];
+}
+
+const PROCESSOR_METHODS = [
+  'processInput',
+  'processInputStep',
+  'processOutputStream',
+  'processOutputStep',
+  'processOutputResult',
+] as const;
+
+/**
+ * Check Plugin Drift
+ *
+ * Compares what a plugin's manifest declares against what its feature files
+ * actually export:
+ * - tool keys vs. `createTool` ids, and tools exported but not declared
+ * - agent keys vs. agent names, and agents exported but not declared
+ * - processor keys vs. `processors.ts` exports
+ * - `uiComponents` values vs. `ui.tsx` exports, and tool parts the UI
+ *   renders that the manifest does not map
+ */
+export function checkPluginDrift(plugin: AnyAIPlugin, sources: PluginSources): DriftReport {
+  const files = {
+    tools: 'tools.ts',
+    agents: 'agent.ts',
+    processors: 'processors.ts',
+    ui: 'ui.tsx',
+    ...sources.files,
+  };
+
+  const issues = [
+    ...checkExports('tool', plugin.tools ?? {}, sources.tools, files.tools, isTool, tool => tool.id),
+    ...checkExports('agent', plugin.agents ?? {}, sources.agents, files.agents, isAgent, agent => agent.name),
+    ...checkProcessors(plugin.processors ?? {}, sources.processors, files.processors),
+    ...checkUi(plugin.uiComponents ?? {}, sources.uiSource, files.ui),
+  ];
+
+  return { pluginId: plugin.id, ok: issues.length === 0, issues };
+}
+
+/**
+ * Format a drift report as a diff-style listing:
+ * `-` missing, `+` undeclared, `~` mismatch.
+ */
+export function formatDriftReport(report: DriftReport): string {
+  if (report.ok) return `✓ ${report.pluginId}`;
+
+  const markers: Record<DriftType, string> = { missing: '-', undeclared: '+', mismatch: '~' };
+  const lines = [`✗ ${report.pluginId}`];
+  for (const issue of report.issues) {
+    lines.push(`    ${markers[issue.type]} ${issue.kind} ${issue.id}: ${issue.message}`);
+  }
+  return lines.join('\n');
+}
+
+function checkExports<T extends object>(
+  kind: DriftKind,
+  declared: Record<string, unknown>,
+  module: Record<string, unknown> | undefined,
+  file: string,
+  matches: (value: unknown) => value is T,
+  realIdOf: (value: T) => string
+): DriftIssue[] {
+  const issues: DriftIssue[] = [];
+  const exported = module ? uniqueValues(module, matches) : undefined;
+
+  for (const [id, value] of Object.entries(declared)) {
+    if (!matches(value)) continue;
+    const realId = realIdOf(value);
+    if (realId !== id) {
+      issues.push({ kind, type: 'mismatch', id, message: `declared as "${id}" but its id is "${realId}"` });
+    }
+    if (exported && !exported.has(value)) {
+      issues.push({ kind, type: 'missing', id, message: `not exported from ${file}` });
+    }
+  }
+
+  if (exported) {
+    const declaredValues = new Set(Object.values(declared));
+    for (const value of exported) {
+      if (!declaredValues.has(value)) {
+        const realId = realIdOf(value);
+        issues.push({ kind, type: 'undeclared', id: realId, message: `exported from ${file} but not declared` });
+      }
+    }
+  }
+
+  return issues;
+}
+
+function checkProcessors(
+  declared: Record<string, unknown>,
+  module: Record<string, unknown> | undefined,
+  file: string
+): DriftIssue[] {
+  if (!module) return [];
+
+  const issues: DriftIssue[] = [];
+  for (const [id, value] of Object.entries(declared)) {
+    if (!(id in module)) {
+      issues.push({ kind: 'processor', type: 'missing', id, message: `no export named "${id}" in ${file}` });
+    } else if (module[id] !== value) {
+      issues.push({ kind: 'processor', type: 'mismatch', id, message: `declared value is not the "${id}" export of ${file}` });
+    }
+  }
+
+  for (const [name, value] of Object.entries(module)) {
+    if (isProcessorExport(value) && !(name in declared)) {
+      issues.push({ kind: 'processor', type: 'undeclared', id: name, message: `exported from ${file} but not declared` });
+    }
+  }
+
+  return issues;
+}
+
+function checkUi(declared: Record<string, string>, uiSource: string | undefined, file: string): DriftIssue[] {
+  if (uiSource === undefined) return [];
+
+  const issues: DriftIssue[] = [];
+  const exportedNames = findExportedNames(uiSource);
+
+  for (const [partType, component] of Object.entries(declared)) {
+    if (!exportedNames.has(component)) {
+      issues.push({ kind: 'ui', type: 'missing', id: partType, message: `component "${component}" is not exported from ${file}` });
+    }
+  }
+
+  for (const partType of findRenderedToolParts(uiSource)) {
+    if (!(partType in declared)) {
+      issues.push({ kind: 'ui', type: 'undeclared', id: partType, message: `rendered in ${file} but not mapped in uiComponents` });
+    }
+  }
+
+  return issues;
+}
+
+function uniqueValues<T>(module: Record<string, unknown>, matches: (value: unknown) => value is T): Set<T> {
+  // Aliased exports (e.g. `analysisAgent = expertAgent`) count once
+  return new Set(Object.values(module).filter(matches));
+}
+
+function isTool(value: unknown): value is { id: string } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !(value instanceof Agent) &&
+    typeof (value as { id?: unknown }).id === 'string' &&
+    typeof (value as { execute?: unknown }).execute === 'function'
+  );
+}
+
+function isAgent(value: unknown): value is Agent {
+  return value instanceof Agent;
+}
+
+function isProcessor(value: unknown): boolean {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    PROCESSOR_METHODS.some(method => typeof (value as Record<string, unknown>)[method] === 'function')
+  );
+}
+
+function isProcessorExport(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0 && value.every(isProcessor);
+  if (typeof value === 'function') return isProcessor(value.prototype);
+  return isProcessor(value);
+}
+
+/** Names exported from a module's source: `export function X`, `export const X`, `export { X }`. */
+function findExportedNames(source: string): Set<string> {
+  const names = new Set<string>();
+  const declarations = /export\s+(?:default\s+)?(?:async\s+)?(?:function|const|let|class)\s+([A-Za-z_$][\w$]*)/g;
+  const lists = /export\s*\{([^}]*)\}/g;
+
+  for (const match of source.matchAll(declarations)) {
+    names.add(match[1]);
+  }
+  for (const match of source.matchAll(lists)) {
+    for (const specifier of match[1].split(',')) {
+      const name = specifier.trim().split(/\s+as\s+/).pop();
+      if (name) names.add(name);
+    }
+  }
+  return names;
+}
+
+/** Tool part types the UI branches on, e.g. `part.type === 'tool-getWeather'`. */
+function findRenderedToolParts(source: string): Set<string> {
+  const parts = new Set<string>();
+  for (const match of source.matchAll(/part\.type\s*===\s*['"](tool-[\w-]+)['"]/g)) {
+    parts.add(match[1]);
+  }
+  return parts;
+}
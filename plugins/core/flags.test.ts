@@ -0,0 +1,158 @@
+// core/flags.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { z } from 'zod';
+import { Mastra } from '@mastra/core';
+import { Agent } from '@mastra/core/agent';
+import { RequestContext } from '@mastra/core/request-context';
+import { createTool } from '@mastra/core/tools';
+import {
+  collectFlagGuards,
+  combineFlagSources,
+  disableOnlyFlagSource,
+  envFlagSource,
+  flaggedTools,
+  flagEnvVar,
+  isFlagEnabled,
+  requestContextFlagSource,
+  staticFlagSource,
+} from './flags';
+import { definePlugin } from './plugin';
+import { registerPlugins } from './registry';
+
+function tool(id: string) {
+  return createTool({ id, description: id, inputSchema: z.object({}), execute: async () => ({}) });
+}
+
+const searchTool = tool('search');
+const mapTool = tool('drawMap');
+
+function mapsPlugin() {
+  const agent = new Agent({
+    id: 'maps-agent',
+    name: 'maps-agent',
+    instructions: 'Draw maps',
+    model: { id: 'test/model' },
+    tools: flaggedTools({ search: searchTool, drawMap: mapTool }),
+  });
+
+  return definePlugin({
+    id: 'maps',
+    name: 'Maps',
+    version: '1.0.0',
+    features: { tools: true, agents: true, ui: false, processors: false, storage: false },
+    flags: {
+      drawing: { default: true, tools: ['drawMap'] },
+      beta: { default: false, agents: ['beta-agent'] },
+    },
+    tools: { search: searchTool, drawMap: mapTool },
+    agents: {
+      'maps-agent': agent,
+      'beta-agent': new Agent({ id: 'beta-agent', name: 'beta-agent', instructions: 'Beta', model: { id: 'test/model' } }),
+    },
+  });
+}
+
+function withFlags(values: Record<string, boolean>): RequestContext {
+  const requestContext = new RequestContext();
+  requestContext.set('flags', values);
+  return requestContext;
+}
+
+async function toolKeys(agent: Agent, requestContext = new RequestContext()): Promise<string[]> {
+  return Object.keys(await agent.listTools({ requestContext })).sort();
+}
+
+describe('flag sources', () => {
+  it('reads FLAG_ environment variables', () => {
+    const source = envFlagSource({
+      env: { FLAG_TRIP_PLANNER_MAPS: 'off', FLAG_RESEARCH_BOT_DEEP_RESEARCH: 'Yes', FLAG_OTHER: 'maybe' },
+    });
+
+    assert.equal(flagEnvVar('research-bot.deep-research'), 'FLAG_RESEARCH_BOT_DEEP_RESEARCH');
+    assert.equal(source.isEnabled('trip-planner.maps'), false);
+    assert.equal(source.isEnabled('research-bot.deep-research'), true);
+    assert.equal(source.isEnabled('other'), undefined);
+    assert.equal(source.isEnabled('missing'), undefined);
+  });
+
+  it('takes the first source with a value', () => {
+    const source = combineFlagSources(
+      requestContextFlagSource(),
+      staticFlagSource({ 'maps.drawing': true, 'maps.beta': true })
+    );
+
+    assert.equal(source.isEnabled('maps.drawing', withFlags({ 'maps.drawing': false })), false);
+    assert.equal(source.isEnabled('maps.drawing'), true);
+    assert.equal(source.isEnabled('maps.beta', withFlags({ 'maps.beta': 'no' as never })), true);
+    assert.equal(source.isEnabled('maps.other'), undefined);
+  });
+
+  it('lets a disable-only source turn flags off but not on', () => {
+    const source = combineFlagSources(
+      disableOnlyFlagSource(requestContextFlagSource()),
+      staticFlagSource({ 'maps.drawing': false, 'maps.beta': true })
+    );
+
+    assert.equal(source.isEnabled('maps.drawing', withFlags({ 'maps.drawing': true })), false);
+    assert.equal(source.isEnabled('maps.beta', withFlags({ 'maps.beta': false })), false);
+    assert.equal(source.isEnabled('maps.other', withFlags({ 'maps.other': true })), undefined);
+  });
+});
+
+describe('isFlagEnabled', () => {
+  it('falls back to the manifest default and always enables unguarded items', () => {
+    const guards = collectFlagGuards([mapsPlugin()]);
+    const none = staticFlagSource({});
+
+    assert.equal(guards.tools.get('drawMap')?.qualifiedName, 'maps.drawing');
+    assert.equal(isFlagEnabled(guards.tools.get('drawMap'), none), true);
+    assert.equal(isFlagEnabled(guards.agents.get('beta-agent'), none), false);
+    assert.equal(isFlagEnabled(guards.tools.get('search'), staticFlagSource({ 'maps.drawing': false })), true);
+  });
+});
+
+describe('flag-guarded mounting', () => {
+  it('leaves out guarded items that are off at mount', () => {
+    const mastra = new Mastra({});
+    registerPlugins(mastra, [mapsPlugin()], { flags: staticFlagSource({ 'maps.drawing': false }) });
+
+    assert.deepEqual(Object.keys(mastra.listAgents()), ['maps-agent']);
+    assert.deepEqual(Object.keys(mastra.listTools() ?? {}), ['search']);
+  });
+
+  it('filters flaggedTools() maps per request', async () => {
+    const mastra = new Mastra({});
+    registerPlugins(mastra, [mapsPlugin()]);
+    const agent = mastra.getAgent('maps-agent');
+
+    assert.deepEqual(await toolKeys(agent), ['drawMap', 'search']);
+    assert.deepEqual(await toolKeys(agent, withFlags({ 'maps.drawing': false })), ['search']);
+  });
+
+  it('keeps a flag that env disabled off when the request turns it on', async t => {
+    process.env.FLAG_MAPS_DRAWING = 'false';
+    t.after(() => delete process.env.FLAG_MAPS_DRAWING);
+    const mastra = new Mastra({});
+    registerPlugins(mastra, [mapsPlugin()]);
+
+    assert.deepEqual(await toolKeys(mastra.getAgent('maps-agent'), withFlags({ 'maps.drawing': true })), ['search']);
+  });
+
+  it('keeps each Mastra instance on its own flag source', async () => {
+    const off = new Mastra({});
+    const on = new Mastra({});
+    registerPlugins(off, [mapsPlugin()], { flags: staticFlagSource({ 'maps.drawing': false }) });
+    registerPlugins(on, [mapsPlugin()], { flags: staticFlagSource({}) });
+
+    assert.deepEqual(await toolKeys(off.getAgent('maps-agent')), ['search']);
+    assert.deepEqual(await toolKeys(on.getAgent('maps-agent')), ['drawMap', 'search']);
+  });
+
+  it('returns every tool before the agent is mounted', async () => {
+    const { agents } = mapsPlugin();
+    assert.ok(agents);
+
+    assert.deepEqual(await toolKeys(agents['maps-agent'], withFlags({ 'maps.drawing': false })), ['drawMap', 'search']);
+  });
+});
@@ -0,0 +1,273 @@
+// core/flags.ts
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+import type { Mastra } from '@mastra/core';
+import type { RequestContext } from '@mastra/core/request-context';
+import type { DynamicArgument } from '@mastra/core/types';
+import type { AnyAIPlugin, PluginTool } from './config';
+
+/**
+ * Flag Source
+ *
+ * Answers whether a flag is on. Flags are addressed by their qualified name,
+ * `<pluginId>.<flag>` (e.g. `trip-planner.maps`).
+ *
+ * Returns `undefined` when the source has no opinion, so sources can be
+ * layered with `combineFlagSources()` and the manifest default applies last.
+ */
+export interface FlagSource {
+  isEnabled(flag: string, requestContext?: RequestContext): boolean | undefined;
+}
+
+export type FlagKind = 'tools' | 'agents' | 'processors';
+
+/** A tool, agent or processor guarded by a flag. */
+export interface FlagGuard {
+  pluginId: string;
+  flag: string;
+  /** `<pluginId>.<flag>`, the name flag sources are asked about. */
+  qualifiedName: string;
+  default: boolean;
+}
+
+export type FlagGuards = Record<FlagKind, Map<string, FlagGuard>>;
+
+const flagValuesSchema = z.record(z.string(), z.boolean());
+
+// =============================================================================
+// Flag Sources
+// =============================================================================
+
+/**
+ * Environment Variable Flags
+ *
+ * Reads `FLAG_<PLUGIN>_<FLAG>`, e.g. `FLAG_TRIP_PLANNER_MAPS=false`.
+ * Accepts `true`/`false`, `1`/`0`, `on`/`off` and `yes`/`no`.
+ */
+export function envFlagSource(
+  options: { env?: Record<string, string | undefined>; prefix?: string } = {}
+): FlagSource {
+  const { env = process.env, prefix = 'FLAG_' } = options;
+  return {
+    isEnabled: flag => parseBoolean(env[flagEnvVar(flag, prefix)]),
+  };
+}
+
+/**
+ * JSON File Flags
+ *
+ * Reads a JSON object of qualified flag names to booleans once, at creation:
+ *
+ * ```json
+ * { "trip-planner.maps": false, "research-bot.deep-research": true }
+ * ```
+ *
+ * Throws if the file is missing or is not a flat object of booleans, so a
+ * typo in deployment config fails at boot.
+ */
+export function jsonFileFlagSource(path: string): FlagSource {
+  const parsed = flagValuesSchema.safeParse(JSON.parse(readFileSync(path, 'utf8')));
+  if (!parsed.success) {
+    throw new Error(`Invalid flag file ${path}: expected an object of flag names to booleans`);
+  }
+  return staticFlagSource(parsed.data);
+}
+
+/**
+ * Fixed flag values, e.g. for tests or a config object.
+ */
+export function staticFlagSource(values: Record<string, boolean>): FlagSource {
+  return {
+    isEnabled: flag => values[flag],
+  };
+}
+
+/**
+ * Per-Request Flags
+ *
+ * Reads flags the host put on the request context, e.g. per user or tenant:
+ *
+ * ```typescript
+ * requestContext.set('flags', { 'research-bot.deep-research': false });
+ * ```
+ *
+ * Mastra's server also accepts a `requestContext` in the request body, so
+ * clients can set these values. Wrap the source in `disableOnlyFlagSource()`
+ * unless only trusted middleware writes the key.
+ */
+export function requestContextFlagSource(key = 'flags'): FlagSource {
+  return {
+    isEnabled: (flag, requestContext) => {
+      const values = requestContext?.get(key) as Record<string, unknown> | undefined;
+      const value = values?.[flag];
+      return typeof value === 'boolean' ? value : undefined;
+    },
+  };
+}
+
+/**
+ * Disable-Only Flags
+ *
+ * Passes on a source's `false` values and ignores its `true` ones, so the
+ * source can turn a flag off but never back on.
+ *
+ * @example
+ * ```typescript
+ * // A request may hide deepResearch, but cannot enable it when env disabled it
+ * combineFlagSources(disableOnlyFlagSource(requestContextFlagSource()), envFlagSource());
+ * ```
+ */
+export function disableOnlyFlagSource(source: FlagSource): FlagSource {
+  return {
+    isEnabled: (flag, requestContext) => (source.isEnabled(flag, requestContext) === false ? false : undefined),
+  };
+}
+
+/**
+ * Layer several sources. The first source with a value wins, so list the
+ * most specific first.
+ *
+ * @example
+ * ```typescript
+ * const flags = combineFlagSources(
+ *   disableOnlyFlagSource(requestContextFlagSource()),
+ *   envFlagSource(),
+ *   jsonFileFlagSource('./flags.json'),
+ * );
+ * ```
+ */
+export function combineFlagSources(...sources: FlagSource[]): FlagSource {
+  return {
+    isEnabled: (flag, requestContext) => {
+      for (const source of sources) {
+        const value = source.isEnabled(flag, requestContext);
+        if (value !== undefined) return value;
+      }
+      return undefined;
+    },
+  };
+}
+
+/**
+ * The source used when the host does not pass one: environment variables
+ * decide, and per-request values can only turn a flag off.
+ */
+export function defaultFlagSource(): FlagSource {
+  return combineFlagSources(disableOnlyFlagSource(requestContextFlagSource()), envFlagSource());
+}
+
+/** The environment variable for a qualified flag name. */
+export function flagEnvVar(flag: string, prefix = 'FLAG_'): string {
+  return prefix + flag.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+}
+
+// =============================================================================
+// Evaluating Flags
+// =============================================================================
+
+/**
+ * Index the flag guards declared by every plugin, by the ID they guard.
+ */
+export function collectFlagGuards(plugins: readonly AnyAIPlugin[]): FlagGuards {
+  const guards: FlagGuards = { tools: new Map(), agents: new Map(), processors: new Map() };
+
+  for (const plugin of plugins) {
+    for (const [flag, definition] of Object.entries(plugin.flags ?? {})) {
+      const guard: FlagGuard = {
+        pluginId: plugin.id,
+        flag,
+        qualifiedName: `${plugin.id}.${flag}`,
+        default: definition.default,
+      };
+      for (const kind of Object.keys(guards) as FlagKind[]) {
+        for (const id of definition[kind] ?? []) {
+          guards[kind].set(id, guard);
+        }
+      }
+    }
+  }
+
+  return guards;
+}
+
+/**
+ * Whether a guarded item is enabled. Unguarded items (no guard) always are.
+ */
+export function isFlagEnabled(
+  guard: FlagGuard | undefined,
+  source: FlagSource,
+  requestContext?: RequestContext
+): boolean {
+  if (!guard) return true;
+  return source.isEnabled(guard.qualifiedName, requestContext) ?? guard.default;
+}
+
+/**
+ * Remove tools whose flag is off. Tools are matched by their `id`, so an
+ * agent's tool map may use any keys.
+ */
+export function filterToolsByFlags<T extends Record<string, PluginTool>>(
+  tools: T,
+  guards: Map<string, FlagGuard>,
+  source: FlagSource,
+  requestContext?: RequestContext
+): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(tools).filter(([, tool]) => isFlagEnabled(guards.get(tool.id), source, requestContext))
+  ) as Partial<T>;
+}
+
+// =============================================================================
+// Per-Request Tool Filtering
+// =============================================================================
+
+const toolFlagsByMastra = new WeakMap<Mastra, { guards: Map<string, FlagGuard>; source: FlagSource }>();
+
+/**
+ * Record the tool guards and flag source that `flaggedTools()` maps filter
+ * against for agents mounted in `mastra`. Called by `PluginRegistry.mount()`.
+ */
+export function setToolFlags(mastra: Mastra, guards: Map<string, FlagGuard>, source: FlagSource): void {
+  toolFlagsByMastra.set(mastra, { guards, source });
+}
+
+/**
+ * Flagged Tools
+ *
+ * Wraps an agent's tool map in a function Mastra resolves on every request,
+ * so a tool whose flag is off is never offered to the model. Guards and the
+ * flag source come from the Mastra instance the agent is mounted in; before
+ * mounting, every tool is returned.
+ *
+ * @example
+ * ```typescript
+ * new Agent({
+ *   id: 'research-bot',
+ *   tools: flaggedTools({ deepResearch: deepResearchTool }),
+ * });
+ * ```
+ */
+export function flaggedTools<T extends Record<string, PluginTool>>(tools: T): DynamicArgument<Partial<T>> {
+  return ({ requestContext, mastra }) => {
+    const flags = mastra ? toolFlagsByMastra.get(mastra) : undefined;
+    if (!flags) return tools;
+    return filterToolsByFlags(tools, flags.guards, flags.source, requestContext);
+  };
+}
+
+function parseBoolean(value: string | undefined): boolean | undefined {
+  switch (value?.trim().toLowerCase()) {
+    case 'true':
+    case '1':
+    case 'on':
+    case 'yes':
+      return true;
+    case 'false':
+    case '0':
+    case 'off':
+    case 'no':
+      return false;
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,209 @@
+// core/index.ts
+// Main entry point for the shared plugin core package
+
+/**
+ * Plugin Core
+ *
+ * The shared contract every plugin package in this repo is built on:
+ * - definePlugin(): Runtime-validated plugin definitions with literal ID types
+ * - PluginRegistry / registerPlugins(): Mount plugins into a Mastra instance
+ * - resolvePluginOrder(): Dependency ordering with cycle detection
+ * - Lifecycle hooks: register / initialize / shutdown with a PluginContext
+ * - Feature flags: Flag-guarded tools, agents and processors with pluggable sources
+ * - parsePluginOptions(): Validated factory options with environment fallbacks
+ * - pluginModel() / ScriptedModel: Injectable models and offline scripted replay
+ * - definePrompt() / promptRegistry: Versioned prompt templates with partials and overrides
+ * - checkPluginDrift(): Compare manifests against their implementations
+ * - discoverPlugins(): Find workspace and installed plugin packages, and describe them
+ * - Types: AIPluginDefinition, AIPlugin, PluginFeatures, UIComponentMap
+ * - Schemas: Manifest schemas for id, version and features
+ *
+ * @example
+ * ```typescript
+ * import { definePlugin } from '@myorg/plugin-core'
+ *
+ * export const myPlugin = definePlugin({
+ *   id: 'my-plugin',
+ *   name: 'My Plugin',
+ *   version: '1.0.0',
+ *   features: { tools: true, agents: false, ui: false, processors: false, storage: false },
+ *   tools: { myTool },
+ * })
+ * ```
+ */
+
+// Plugin definition
+export {
+  definePlugin,
+  validatePluginDefinition,
+  PluginDefinitionError,
+} from './plugin';
+
+// Registry
+export {
+  PluginRegistry,
+  registerPlugins,
+  PluginRegistrationError,
+  type RegistryEntry,
+  type MountOptions,
+} from './registry';
+
+// Dependencies
+export {
+  resolvePluginOrder,
+  findMissingRequirements,
+  PluginDependencyError,
+  type ProvidedIds,
+} from './dependencies';
+
+// Lifecycle
+export {
+  runLifecyclePhase,
+  createPluginContext,
+  formatLifecycleReport,
+  type LifecyclePhase,
+  type LifecycleStatus,
+  type LifecycleResult,
+  type LifecycleReport,
+  type LifecycleOptions,
+} from './lifecycle';
+
+// Feature flags
+export {
+  envFlagSource,
+  jsonFileFlagSource,
+  staticFlagSource,
+  requestContextFlagSource,
+  disableOnlyFlagSource,
+  combineFlagSources,
+  defaultFlagSource,
+  flagEnvVar,
+  collectFlagGuards,
+  isFlagEnabled,
+  filterToolsByFlags,
+  flaggedTools,
+  setToolFlags,
+  type FlagSource,
+  type FlagKind,
+  type FlagGuard,
+  type FlagGuards,
+} from './flags';
+
+// Plugin options
+export {
+  parsePluginOptions,
+  readEnvOptions,
+  modelOptionsSchema,
+  modelProviderSchema,
+  listOptionSchema,
+  PluginOptionsError,
+  type EnvOptionMap,
+} from './options';
+
+// Models
+export {
+  pluginModel,
+  setModelProvider,
+  defaultModelProvider,
+  MODEL_PROVIDER_KEY,
+  type ModelProvider,
+  type ModelTarget,
+  type PluginModelConfig,
+} from './models';
+
+// Scripted model for offline runs
+export {
+  ScriptedModel,
+  scriptedModelProvider,
+  ScriptedModelError,
+  type ScriptedTurn,
+  type ScriptedToolCall,
+  type ScriptedModelProvider,
+} from './scripted-model';
+
+// Prompt templates
+export {
+  definePrompt,
+  definePartial,
+  PromptRegistry,
+  promptRegistry,
+  PromptTemplateError,
+  type PromptTemplate,
+  type AnyPromptTemplate,
+  type PromptPartial,
+  type PromptVariables,
+  type PromptRenderArgs,
+  type PromptOverride,
+  type PromptInspection,
+} from './prompts';
+
+// Drift checking
+export {
+  checkPluginDrift,
+  formatDriftReport,
+  type PluginSources,
+  type DriftKind,
+  type DriftType,
+  type DriftIssue,
+  type DriftReport,
+} from './drift';
+
+// Loading plugin packages from disk
+export {
+  findPluginDirs,
+  loadPlugin,
+  type LoadedPlugin,
+} from './sources';
+
+// Discovering installed plugins
+export {
+  discoverPlugins,
+  findPluginPackages,
+  loadPluginPackage,
+  isAIPlugin,
+  describePlugin,
+  summarizeSchema,
+  formatPluginTable,
+  PLUGIN_PACKAGE_KEYWORD,
+  type DiscoveredPlugin,
+  type DiscoveryError,
+  type DiscoveryResult,
+  type DiscoveryOptions,
+  type ToolSummary,
+  type PluginSummary,
+} from './discovery';
+
+// Schemas and types
+export {
+  pluginIdSchema,
+  pluginVersionSchema,
+  pluginFeaturesSchema,
+  versionRangeSchema,
+  pluginRequirementsSchema,
+  flagNameSchema,
+  pluginFlagSchema,
+  pluginManifestSchema,
+  type PluginFeatures,
+  type PluginFeature,
+  type PluginRequirements,
+  type PluginFlag,
+  type PluginManifest,
+  type PluginTool,
+  type PluginAgent,
+  type PluginProcessor,
+  type PluginTools,
+  type PluginAgents,
+  type PluginProcessors,
+  type UIComponentMap,
+  type StorageDefinition,
+  type PluginLogger,
+  type PluginContext,
+  type PluginHook,
+  type PluginLifecycleHooks,
+  type AIPluginDefinition,
+  type AIPlugin,
+  type AnyAIPlugin,
+  type ToolIdsOf,
+  type AgentIdsOf,
+  type ProcessorIdsOf,
+} from './config';
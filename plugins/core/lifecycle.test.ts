@@ -0,0 +1,144 @@
+// core/lifecycle.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { z } from 'zod';
+import { Mastra } from '@mastra/core';
+import { createTool } from '@mastra/core/tools';
+import { formatLifecycleReport } from './lifecycle';
+import { definePlugin } from './plugin';
+import { PluginRegistry } from './registry';
+import type { AIPluginDefinition, PluginHook, PluginLogger } from './config';
+
+type Hooks = Pick<AIPluginDefinition, 'register' | 'initialize' | 'shutdown'>;
+
+function plugin(id: string, hooks: Hooks = {}, requires?: AIPluginDefinition['requires']) {
+  const tool = createTool({ id: `${id}-tool`, description: id, inputSchema: z.object({}), execute: async () => ({}) });
+  return definePlugin({
+    id,
+    name: id,
+    version: '1.0.0',
+    features: { tools: true, agents: false, ui: false, processors: false, storage: false },
+    tools: { [`${id}-tool`]: tool },
+    requires,
+    ...hooks,
+  });
+}
+
+/** Hooks that record `<phase>:<plugin>` as they run. */
+function recorder() {
+  const calls: string[] = [];
+  const hook =
+    (phase: string, fail = false): PluginHook =>
+    async context => {
+      calls.push(`${phase}:${context.plugin.id}`);
+      if (fail) throw new Error(`${context.plugin.id} is down`);
+    };
+  const hooks = (fail?: keyof Hooks): Hooks => ({
+    register: hook('register', fail === 'register'),
+    initialize: hook('initialize', fail === 'initialize'),
+    shutdown: hook('shutdown', fail === 'shutdown'),
+  });
+  return { calls, hooks };
+}
+
+function quietLogger(messages: string[] = []): PluginLogger {
+  return {
+    debug: message => void messages.push(message),
+    info: message => void messages.push(message),
+    warn: message => void messages.push(message),
+    error: message => void messages.push(message),
+  };
+}
+
+describe('PluginRegistry lifecycle', () => {
+  it('runs register then initialize in dependency order, and shutdown in reverse', async () => {
+    const { calls, hooks } = recorder();
+    const registry = new PluginRegistry().registerAll([
+      plugin('app', hooks(), { plugins: { storage: '*' } }),
+      plugin('storage', hooks()),
+    ]);
+
+    const report = await registry.start(new Mastra({}), { logger: quietLogger() });
+    assert.equal(report.ok, true);
+    assert.equal(formatLifecycleReport(report), '✓ all plugins started');
+    await registry.stop();
+
+    assert.deepEqual(calls, [
+      'register:storage',
+      'register:app',
+      'initialize:storage',
+      'initialize:app',
+      'shutdown:app',
+      'shutdown:storage',
+    ]);
+  });
+
+  it('skips plugins that require a failed plugin and keeps the rest running', async () => {
+    const { calls, hooks } = recorder();
+    const messages: string[] = [];
+    const registry = new PluginRegistry().registerAll([
+      plugin('storage', hooks('register')),
+      plugin('app', hooks(), { plugins: { storage: '*' } }),
+      plugin('logging', hooks()),
+    ]);
+
+    const report = await registry.start(new Mastra({}), { logger: quietLogger(messages) });
+
+    assert.equal(report.ok, false);
+    assert.deepEqual(calls, ['register:storage', 'register:logging', 'initialize:logging']);
+    assert.deepEqual(messages, ['[plugin:storage] register hook failed: storage is down']);
+    assert.equal(
+      formatLifecycleReport(report),
+      [
+        '✗ storage register: storage is down',
+        '- app register: skipped (a required plugin failed)',
+        '- storage initialize: skipped (a required plugin failed)',
+        '- app initialize: skipped (a required plugin failed)',
+      ].join('\n')
+    );
+
+    // The failed plugin still shuts down; the one that never ran does not
+    calls.length = 0;
+    await registry.stop();
+    assert.deepEqual(calls, ['shutdown:logging', 'shutdown:storage']);
+  });
+
+  it('reports a failing shutdown hook without stopping the others', async () => {
+    const { calls, hooks } = recorder();
+    const registry = new PluginRegistry().registerAll([plugin('storage', hooks()), plugin('app', hooks('shutdown'))]);
+    await registry.start(new Mastra({}), { logger: quietLogger() });
+
+    const report = await registry.stop();
+
+    assert.equal(report.ok, false);
+    assert.deepEqual(calls.slice(-2), ['shutdown:app', 'shutdown:storage']);
+    assert.deepEqual((await registry.stop()).results, []);
+  });
+
+  it('refuses to start twice before stopping', async () => {
+    const registry = new PluginRegistry().register(plugin('app'));
+    await registry.start(new Mastra({}), { logger: quietLogger() });
+
+    await assert.rejects(registry.start(new Mastra({}), { logger: quietLogger() }), /already started/);
+  });
+
+  it('gives each hook its own config, a prefixed logger and access to other plugins', async () => {
+    const messages: string[] = [];
+    let seen: { config: Record<string, unknown>; storage?: string } | undefined;
+    const registry = new PluginRegistry().registerAll([
+      plugin('storage'),
+      plugin('app', {
+        initialize: async context => {
+          context.logger.info('ready');
+          seen = { config: context.config, storage: context.getPlugin('storage')?.version };
+        },
+      }),
+    ]);
+
+    await registry.start(new Mastra({}), { logger: quietLogger(messages), config: { app: { region: 'eu' } } });
+
+    assert.deepEqual(messages, ['[plugin:app] ready']);
+    assert.deepEqual(seen, { config: { region: 'eu' }, storage: '1.0.0' });
+    assert.ok(seen && Object.isFrozen(seen.config));
+  });
+});
@@ -0,0 +1,128 @@
+// core/lifecycle.ts
+import type { Mastra } from '@mastra/core';
+import type { AnyAIPlugin, PluginContext, PluginLogger } from './config';
+
+export type LifecyclePhase = 'register' | 'initialize' | 'shutdown';
+
+/**
+ * - `ok`: the hook ran and resolved (or the plugin has no hook for the phase)
+ * - `failed`: the hook threw or rejected
+ * - `skipped`: not run because a required plugin failed or was skipped
+ */
+export type LifecycleStatus = 'ok' | 'failed' | 'skipped';
+
+export interface LifecycleResult {
+  pluginId: string;
+  phase: LifecyclePhase;
+  status: LifecycleStatus;
+  error?: unknown;
+  durationMs: number;
+}
+
+export interface LifecycleReport {
+  ok: boolean;
+  results: LifecycleResult[];
+}
+
+export interface LifecycleOptions {
+  /** Per-plugin config, keyed by plugin ID. Becomes `context.config`. */
+  config?: Record<string, Record<string, unknown>>;
+  /** Defaults to `mastra.getLogger()`. */
+  logger?: PluginLogger;
+}
+
+/**
+ * Run one lifecycle phase across plugins, in the order given.
+ *
+ * Each hook is awaited before the next starts. A hook that throws is
+ * recorded as `failed` and logged; the remaining plugins still run, except
+ * those that require the failed plugin (directly or transitively), which
+ * are `skipped`. Plugin IDs in `unavailable` are treated as already failed
+ * and the set is updated in place, so a failure in `register` carries over
+ * to `initialize`.
+ *
+ * `shutdown` never skips: every plugin gets a chance to release resources.
+ */
+export async function runLifecyclePhase(
+  phase: LifecyclePhase,
+  plugins: readonly AnyAIPlugin[],
+  contextFor: (plugin: AnyAIPlugin) => PluginContext,
+  unavailable: Set<string> = new Set()
+): Promise<LifecycleResult[]> {
+  const results: LifecycleResult[] = [];
+
+  for (const plugin of plugins) {
+    const started = Date.now();
+    const blockedBy = Object.keys(plugin.requires?.plugins ?? {}).find(id => unavailable.has(id));
+
+    if (phase !== 'shutdown' && (unavailable.has(plugin.id) || blockedBy)) {
+      unavailable.add(plugin.id);
+      results.push({ pluginId: plugin.id, phase, status: 'skipped', durationMs: 0 });
+      continue;
+    }
+
+    const hook = plugin[phase];
+    if (!hook) {
+      results.push({ pluginId: plugin.id, phase, status: 'ok', durationMs: 0 });
+      continue;
+    }
+
+    const context = contextFor(plugin);
+    try {
+      await hook(context);
+      results.push({ pluginId: plugin.id, phase, status: 'ok', durationMs: Date.now() - started });
+    } catch (error) {
+      unavailable.add(plugin.id);
+      context.logger.error(`${phase} hook failed: ${error instanceof Error ? error.message : String(error)}`, { error });
+      results.push({ pluginId: plugin.id, phase, status: 'failed', error, durationMs: Date.now() - started });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Build the context passed to a plugin's hooks.
+ */
+export function createPluginContext(
+  plugin: AnyAIPlugin,
+  mastra: Mastra,
+  options: LifecycleOptions,
+  getPlugin: (id: string) => AnyAIPlugin | undefined
+): PluginContext {
+  return {
+    plugin: { id: plugin.id, name: plugin.name, version: plugin.version },
+    mastra,
+    logger: prefixLogger(options.logger ?? mastra.getLogger(), `[plugin:${plugin.id}]`),
+    config: Object.freeze({ ...options.config?.[plugin.id] }),
+    storage: mastra.getStorage(),
+    getPlugin,
+  };
+}
+
+/**
+ * Format a lifecycle report, one line per hook that did not succeed.
+ */
+export function formatLifecycleReport(report: LifecycleReport): string {
+  if (report.ok) return '✓ all plugins started';
+
+  const lines: string[] = [];
+  for (const result of report.results) {
+    if (result.status === 'failed') {
+      const message = result.error instanceof Error ? result.error.message : String(result.error);
+      lines.push(`✗ ${result.pluginId} ${result.phase}: ${message}`);
+    } else if (result.status === 'skipped') {
+      lines.push(`- ${result.pluginId} ${result.phase}: skipped (a required plugin failed)`);
+    }
+  }
+  return lines.join('\n');
+}
+
+function prefixLogger(logger: PluginLogger, prefix: string): PluginLogger {
+  return {
+    debug: (message, ...args) => logger.debug(`${prefix} ${message}`, ...args),
+    info: (message, ...args) => logger.info(`${prefix} ${message}`, ...args),
+    warn: (message, ...args) => logger.warn(`${prefix} ${message}`, ...args),
+    error: (message, ...args) => logger.error(`${prefix} ${message}`, ...args),
+  };
+}
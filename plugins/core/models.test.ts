@@ -0,0 +1,56 @@
+// core/models.test.ts
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RequestContext } from '@mastra/core/request-context';
+import { defaultModelProvider, MODEL_PROVIDER_KEY, pluginModel, setModelProvider, type ModelProvider } from './models';
+
+const model = { provider: 'OPEN_AI', name: 'gpt-5-mini' };
+const target = { pluginId: 'trip-planner', agentId: 'trip-planner' };
+
+function named(id: string): ModelProvider {
+  return () => ({ id: `test/${id}` });
+}
+
+function resolve(provider?: ModelProvider, requestContext = new RequestContext()) {
+  const dynamic = pluginModel(model, target, provider);
+  assert.ok(typeof dynamic === 'function');
+  return dynamic({ requestContext });
+}
+
+describe('pluginModel', () => {
+  afterEach(() => setModelProvider());
+
+  it('routes { provider, name } through the model router by default', () => {
+    assert.deepEqual(resolve(), { id: 'openai/gpt-5-mini' });
+    assert.deepEqual(defaultModelProvider({ provider: 'ANTHROPIC', name: 'claude-x' }, target), { id: 'anthropic/claude-x' });
+  });
+
+  it('prefers the request provider, then the factory provider, then the global provider', () => {
+    setModelProvider(named('global'));
+    assert.deepEqual(resolve(), { id: 'test/global' });
+    assert.deepEqual(resolve(named('factory')), { id: 'test/factory' });
+
+    const requestContext = new RequestContext();
+    requestContext.set(MODEL_PROVIDER_KEY, named('request'));
+    assert.deepEqual(resolve(named('factory'), requestContext), { id: 'test/request' });
+  });
+
+  it('ignores a request provider that is not a function', () => {
+    setModelProvider(named('global'));
+    const requestContext = new RequestContext();
+    requestContext.set(MODEL_PROVIDER_KEY, 'openai/gpt-5');
+
+    assert.deepEqual(resolve(named('factory'), requestContext), { id: 'test/factory' });
+    assert.deepEqual(resolve(undefined, requestContext), { id: 'test/global' });
+  });
+
+  it('passes the model settings and target to the provider', () => {
+    const seen: unknown[] = [];
+    resolve((settings, agent) => {
+      seen.push(settings, agent);
+      return { id: 'test/seen' };
+    });
+
+    assert.deepEqual(seen, [model, target]);
+  });
+});
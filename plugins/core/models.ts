@@ -0,0 +1,76 @@
+// core/models.ts
+import type { MastraModelConfig } from '@mastra/core/llm';
+import type { DynamicArgument } from '@mastra/core/types';
+
+/** The model settings a plugin's options resolve to, e.g. `{ provider: 'OPEN_AI', name: 'gpt-5-mini' }`. */
+export interface PluginModelConfig {
+  provider: string;
+  name: string;
+}
+
+/** The agent a model is being resolved for. */
+export interface ModelTarget {
+  pluginId: string;
+  agentId: string;
+}
+
+/**
+ * Model Provider
+ *
+ * Turns a plugin's model settings into the model an agent runs on. The
+ * default routes the settings through Mastra's model router; tests swap in
+ * `scriptedModelProvider()` to run agents offline.
+ */
+export type ModelProvider = (model: PluginModelConfig, target: ModelTarget) => MastraModelConfig;
+
+/** Request context key for a per-request model provider. */
+export const MODEL_PROVIDER_KEY = 'modelProvider';
+
+/**
+ * Routes `{ provider, name }` through Mastra's model router, e.g.
+ * `{ provider: 'OPEN_AI', name: 'gpt-5-mini' }` becomes `openai/gpt-5-mini`.
+ */
+export const defaultModelProvider: ModelProvider = ({ provider, name }) => ({
+  id: `${provider.toLowerCase().replace(/_/g, '')}/${name}`,
+});
+
+let globalModelProvider: ModelProvider = defaultModelProvider;
+
+/**
+ * Set the provider used by every plugin agent that was not given its own.
+ * Call with no argument to restore the default.
+ *
+ * @example
+ * ```typescript
+ * setModelProvider(scriptedModelProvider({ 'trip-planner': tripTurns }));
+ * ```
+ */
+export function setModelProvider(provider: ModelProvider = defaultModelProvider): void {
+  globalModelProvider = provider;
+}
+
+/**
+ * Plugin Model
+ *
+ * The value plugin agents pass as `model`. Resolved on every request, in
+ * order:
+ * 1. A provider on the request context (`requestContext.set('modelProvider', ...)`),
+ *    if it is a function
+ * 2. The provider passed to the plugin factory
+ * 3. The global provider from `setModelProvider()`
+ *
+ * Agents created from default exports therefore still pick up a provider
+ * set later, e.g. in a test's setup.
+ */
+export function pluginModel(
+  model: PluginModelConfig,
+  target: ModelTarget,
+  provider?: ModelProvider
+): DynamicArgument<MastraModelConfig> {
+  return ({ requestContext }) => {
+    // Request bodies can carry a request context, so the value may be any JSON
+    const requestProvider = requestContext.get(MODEL_PROVIDER_KEY);
+    const resolved = typeof requestProvider === 'function' ? (requestProvider as ModelProvider) : undefined;
+    return (resolved ?? provider ?? globalModelProvider)(model, target);
+  };
+}
@@ -0,0 +1,67 @@
+// core/options.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { z } from 'zod';
+import { listOptionSchema, modelOptionsSchema, parsePluginOptions, PluginOptionsError, readEnvOptions } from './options';
+
+const schema = z.object({
+  model: modelOptionsSchema('gpt-5-mini'),
+  limits: z
+    .object({
+      maxPlaces: z.coerce.number().int().min(1).max(20).default(5),
+      threshold: z.coerce.number().min(0).max(1).default(0.5),
+    })
+    .prefault({}),
+  providers: listOptionSchema(z.enum(['wttr', 'fixture']), { min: 1 }).default(['wttr']),
+});
+
+const envMap = {
+  'model.name': 'TEST_MODEL',
+  'limits.maxPlaces': 'TEST_MAX_PLACES',
+  providers: 'TEST_PROVIDERS',
+};
+
+describe('parsePluginOptions', () => {
+  it('fills in schema defaults', () => {
+    assert.deepEqual(parsePluginOptions('test', schema, undefined, envMap, {}), {
+      model: { provider: 'OPEN_AI', name: 'gpt-5-mini' },
+      limits: { maxPlaces: 5, threshold: 0.5 },
+      providers: ['wttr'],
+    });
+  });
+
+  it('prefers passed options, then environment variables, then defaults', () => {
+    const env = { TEST_MODEL: 'gpt-5', TEST_MAX_PLACES: '8', TEST_PROVIDERS: 'fixture, wttr' };
+
+    const fromEnv = parsePluginOptions('test', schema, {}, envMap, env);
+    assert.deepEqual(fromEnv.model, { provider: 'OPEN_AI', name: 'gpt-5' });
+    assert.equal(fromEnv.limits.maxPlaces, 8);
+    assert.deepEqual(fromEnv.providers, ['fixture', 'wttr']);
+
+    // Nested options merge field by field; lists are replaced
+    const passed = parsePluginOptions('test', schema, { limits: { threshold: 0.9 }, providers: ['fixture'] }, envMap, env);
+    assert.deepEqual(passed.limits, { maxPlaces: 8, threshold: 0.9 });
+    assert.deepEqual(passed.providers, ['fixture']);
+  });
+
+  it('lists every invalid option with its path', () => {
+    assert.throws(
+      () => parsePluginOptions('test', schema, { limits: { threshold: 2 } }, envMap, { TEST_MAX_PLACES: 'lots', TEST_PROVIDERS: ',' }),
+      (error: unknown) => {
+        assert.ok(error instanceof PluginOptionsError);
+        assert.equal(error.pluginId, 'test');
+        assert.deepEqual(error.issues.map(issue => issue.split(':')[0]), ['limits.maxPlaces', 'limits.threshold', 'providers']);
+        assert.match(error.message, /^Invalid options for plugin "test":\n {2}- limits\.maxPlaces: /);
+        return true;
+      }
+    );
+  });
+});
+
+describe('readEnvOptions', () => {
+  it('nests the variables that are set and skips empty ones', () => {
+    assert.deepEqual(readEnvOptions(envMap, { TEST_MODEL: 'gpt-5', TEST_MAX_PLACES: '', OTHER: 'x' }), {
+      model: { name: 'gpt-5' },
+    });
+  });
+});
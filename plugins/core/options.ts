@@ -0,0 +1,138 @@
+// core/options.ts
+import { z } from 'zod';
+import type { ModelProvider } from './models';
+
+/**
+ * Thrown when a plugin factory receives invalid options.
+ *
+ * Raised when the factory is called, so a bad threshold or URL fails at
+ * startup instead of on the first request.
+ */
+export class PluginOptionsError extends Error {
+  constructor(
+    public readonly pluginId: string,
+    public readonly issues: string[]
+  ) {
+    super(`Invalid options for plugin "${pluginId}":\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'PluginOptionsError';
+  }
+}
+
+/**
+ * Maps option paths to the environment variables that supply them,
+ * e.g. `{ 'model.name': 'TRIP_PLANNER_MODEL' }`.
+ */
+export type EnvOptionMap = Record<string, string>;
+
+type PlainObject = Record<string, unknown>;
+
+/**
+ * The model an agent runs on, in the `{ provider, name }` form agents take.
+ * Either field may be overridden on its own.
+ */
+export function modelOptionsSchema(defaultName: string, defaultProvider = 'OPEN_AI') {
+  return z
+    .object({
+      provider: z.string().min(1).default(defaultProvider),
+      name: z.string().min(1).default(defaultName),
+    })
+    .prefault({});
+}
+
+/**
+ * A list option. Environment variables supply it comma-separated, e.g.
+ * `TRIP_PLANNER_WEATHER_PROVIDERS=fixture,wttr`.
+ */
+export function listOptionSchema<T extends z.ZodType>(item: T, { min = 0 }: { min?: number } = {}) {
+  return z.preprocess(
+    value => (typeof value === 'string' ? value.split(',').map(entry => entry.trim()).filter(Boolean) : value),
+    z.array(item).min(min)
+  ) as unknown as z.ZodType<Array<z.output<T>>, Array<z.input<T>> | string>;
+}
+
+/**
+ * A `ModelProvider` function passed to a plugin factory. Not read from the
+ * environment.
+ */
+export const modelProviderSchema = z.custom<ModelProvider>(
+  value => typeof value === 'function',
+  'Model provider must be a function'
+);
+
+/**
+ * Parse Plugin Options
+ *
+ * Resolves a factory's options in order of precedence:
+ * 1. Options passed to the factory
+ * 2. Environment variables listed in `envMap`
+ * 3. Defaults in the schema
+ *
+ * Environment values are strings, so numeric options should use
+ * `z.coerce.number()`. Throws a `PluginOptionsError` listing every problem.
+ *
+ * @example
+ * ```typescript
+ * const options = parsePluginOptions('trip-planner', tripPlannerOptionsSchema, input, {
+ *   'model.name': 'TRIP_PLANNER_MODEL',
+ * });
+ * ```
+ */
+export function parsePluginOptions<S extends z.ZodType>(
+  pluginId: string,
+  schema: S,
+  options: z.input<S> | undefined,
+  envMap: EnvOptionMap = {},
+  env: Record<string, string | undefined> = process.env
+): z.output<S> {
+  const merged = mergeOptions(readEnvOptions(envMap, env), (options ?? {}) as PlainObject);
+  const parsed = schema.safeParse(merged);
+
+  if (!parsed.success) {
+    throw new PluginOptionsError(
+      pluginId,
+      parsed.error.issues.map(issue => `${issue.path.join('.') || 'options'}: ${issue.message}`)
+    );
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Build a nested options object from the environment variables that are set.
+ */
+export function readEnvOptions(
+  envMap: EnvOptionMap,
+  env: Record<string, string | undefined> = process.env
+): PlainObject {
+  const options: PlainObject = {};
+
+  for (const [path, name] of Object.entries(envMap)) {
+    const value = env[name];
+    if (value === undefined || value === '') continue;
+
+    const keys = path.split('.');
+    let target = options;
+    for (const key of keys.slice(0, -1)) {
+      target = (target[key] ??= {}) as PlainObject;
+    }
+    target[keys[keys.length - 1]] = value;
+  }
+
+  return options;
+}
+
+/** Deep-merge plain objects; `override` wins, arrays are replaced. */
+function mergeOptions(base: PlainObject, override: PlainObject): PlainObject {
+  const merged: PlainObject = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue;
+    merged[key] = isPlainObject(value) && isPlainObject(merged[key])
+      ? mergeOptions(merged[key] as PlainObject, value)
+      : value;
+  }
+  return merged;
+}
+
+function isPlainObject(value: unknown): value is PlainObject {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
@@ -0,0 +1,102 @@
+// core/plugin.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { z } from 'zod';
+import { createTool } from '@mastra/core/tools';
+import { definePlugin, PluginDefinitionError, validatePluginDefinition } from './plugin';
+import type { AIPluginDefinition } from './config';
+
+const echoTool = createTool({
+  id: 'echo',
+  description: 'Echo the input back',
+  inputSchema: z.object({ text: z.string() }),
+  execute: async input => input,
+});
+
+const toolsOnly = { tools: true, agents: false, ui: false, processors: false, storage: false };
+
+function definition(overrides: Partial<AIPluginDefinition> = {}): AIPluginDefinition {
+  return {
+    id: 'echo-plugin',
+    name: 'Echo Plugin',
+    version: '1.0.0',
+    features: toolsOnly,
+    tools: { echo: echoTool },
+    ...overrides,
+  };
+}
+
+describe('definePlugin', () => {
+  it('returns a frozen plugin with its ID lists', () => {
+    const plugin = definePlugin({
+      ...definition(),
+      features: { ...toolsOnly, ui: true },
+      uiComponents: { 'tool-echo': 'EchoCard' },
+    });
+
+    assert.ok(Object.isFrozen(plugin));
+    assert.deepEqual(plugin.toolIds, ['echo']);
+    assert.deepEqual(plugin.agentIds, []);
+    assert.deepEqual(plugin.processorIds, []);
+  });
+
+  it('throws every issue at once', () => {
+    assert.throws(
+      () => definePlugin(definition({ id: 'Echo', version: 'v1' })),
+      (error: unknown) => {
+        assert.ok(error instanceof PluginDefinitionError);
+        assert.equal(error.pluginId, 'Echo');
+        assert.equal(error.issues.length, 2);
+        return true;
+      }
+    );
+  });
+});
+
+describe('validatePluginDefinition', () => {
+  it('accepts a valid definition', () => {
+    assert.deepEqual(validatePluginDefinition(definition()), []);
+  });
+
+  it('checks manifest fields', () => {
+    const issues = validatePluginDefinition(definition({ id: 'Echo_Plugin', name: '', version: '1.0' }));
+
+    assert.equal(issues.length, 3);
+    assert.match(issues.join('\n'), /^id: Plugin id must be kebab-case/m);
+    assert.match(issues.join('\n'), /^name: Plugin name is required/m);
+    assert.match(issues.join('\n'), /^version: Plugin version must be a semver string/m);
+  });
+
+  it('checks declared features against what is supplied', () => {
+    const issues = validatePluginDefinition(
+      definition({
+        features: { ...toolsOnly, tools: false, storage: true },
+      })
+    );
+
+    assert.deepEqual(issues, [
+      'tools is supplied but features.tools is false',
+      'features.storage is true but storage is missing or empty',
+    ]);
+  });
+
+  it('rejects UI components for unknown tools and unknown part types', () => {
+    const issues = validatePluginDefinition(
+      definition({
+        features: { ...toolsOnly, ui: true },
+        uiComponents: { 'tool-missing': 'MissingCard', 'data-status': 'StatusCard', ['other' as 'tool-x']: 'OtherCard' },
+      })
+    );
+
+    assert.deepEqual(issues, [
+      'uiComponents["tool-missing"] references unknown tool "missing"',
+      'uiComponents["other"] must start with "tool-" or "data-"',
+    ]);
+  });
+
+  it('rejects lifecycle hooks that are not functions', () => {
+    const issues = validatePluginDefinition(definition({ initialize: 'start' as never }));
+
+    assert.deepEqual(issues, ['initialize: lifecycle hook must be a function']);
+  });
+});
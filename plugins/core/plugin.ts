@@ -0,0 +1,178 @@
+// core/plugin.ts
+import {
+  pluginManifestSchema,
+  type AIPlugin,
+  type AIPluginDefinition,
+  type PluginAgents,
+  type PluginFeature,
+  type PluginProcessors,
+  type PluginTools,
+  type UIComponentMap,
+} from './config';
+
+/**
+ * Thrown when a plugin definition fails validation.
+ *
+ * Collects every problem found so a plugin author can fix them in one pass.
+ */
+export class PluginDefinitionError extends Error {
+  constructor(
+    public readonly pluginId: string,
+    public readonly issues: string[]
+  ) {
+    super(`Invalid plugin "${pluginId}":\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'PluginDefinitionError';
+  }
+}
+
+/**
+ * Define Plugin
+ *
+ * Validates a plugin definition at runtime and returns a frozen plugin with
+ * `toolIds`, `agentIds` and `processorIds` typed as literal unions.
+ *
+ * @example
+ * ```typescript
+ * export const tripPlannerPlugin = definePlugin({
+ *   ...tripPlannerConfig,
+ *   tools: { getWeather: weatherTool },
+ *   agents: { 'trip-planner': tripPlannerAgent },
+ *   uiComponents: { 'tool-getWeather': 'WeatherCard' },
+ * });
+ *
+ * tripPlannerPlugin.toolIds; // readonly 'getWeather'[]
+ * ```
+ */
+export function definePlugin<
+  const TTools extends PluginTools = {},
+  const TAgents extends PluginAgents = {},
+  const TProcessors extends PluginProcessors = {},
+  const TUi extends UIComponentMap = {},
+>(
+  definition: AIPluginDefinition<TTools, TAgents, TProcessors, TUi>
+): AIPlugin<TTools, TAgents, TProcessors, TUi> {
+  const issues = validatePluginDefinition(definition);
+
+  if (issues.length > 0) {
+    throw new PluginDefinitionError(String(definition.id), issues);
+  }
+
+  return Object.freeze({
+    ...definition,
+    toolIds: Object.keys(definition.tools ?? {}) as Array<Extract<keyof TTools, string>>,
+    agentIds: Object.keys(definition.agents ?? {}) as Array<Extract<keyof TAgents, string>>,
+    processorIds: Object.keys(definition.processors ?? {}) as Array<Extract<keyof TProcessors, string>>,
+  });
+}
+
+const LIFECYCLE_HOOKS = ['register', 'initialize', 'shutdown'] as const;
+
+/**
+ * Validate Plugin Definition
+ *
+ * Returns a list of human-readable issues (empty when valid). Checks:
+ * - `id` is kebab-case, `name` is present, `version` is semver
+ * - every declared feature is supplied, and nothing is supplied undeclared
+ * - `uiComponents` only reference tools the plugin provides
+ * - `requires.plugins` does not list the plugin itself
+ * - lifecycle hooks, when present, are functions
+ * - `flags` only guard tools, agents and processors the plugin provides,
+ *   each by at most one flag
+ * - `prompts` IDs are namespaced by the plugin ID
+ */
+export function validatePluginDefinition(definition: AIPluginDefinition): string[] {
+  const issues: string[] = [];
+
+  const manifest = pluginManifestSchema.safeParse(definition);
+  if (!manifest.success) {
+    for (const issue of manifest.error.issues) {
+      issues.push(`${issue.path.join('.') || 'manifest'}: ${issue.message}`);
+    }
+  }
+
+  for (const hook of LIFECYCLE_HOOKS) {
+    if (definition[hook] !== undefined && typeof definition[hook] !== 'function') {
+      issues.push(`${hook}: lifecycle hook must be a function`);
+    }
+  }
+
+  // Feature checks need a `features` object to compare against
+  if (typeof definition.features !== 'object' || definition.features === null) {
+    return issues;
+  }
+
+  const supplied: Record<PluginFeature, boolean> = {
+    tools: hasEntries(definition.tools),
+    agents: hasEntries(definition.agents),
+    ui: hasEntries(definition.uiComponents),
+    processors: hasEntries(definition.processors),
+    storage: definition.storage !== undefined,
+  };
+
+  const suppliedBy: Record<PluginFeature, string> = {
+    tools: 'tools',
+    agents: 'agents',
+    ui: 'uiComponents',
+    processors: 'processors',
+    storage: 'storage',
+  };
+
+  for (const feature of Object.keys(supplied) as PluginFeature[]) {
+    const declared = definition.features[feature];
+    if (declared && !supplied[feature]) {
+      issues.push(`features.${feature} is true but ${suppliedBy[feature]} is missing or empty`);
+    }
+    if (!declared && supplied[feature]) {
+      issues.push(`${suppliedBy[feature]} is supplied but features.${feature} is false`);
+    }
+  }
+
+  if (definition.requires?.plugins && definition.id in definition.requires.plugins) {
+    issues.push(`requires.plugins: "${definition.id}" cannot require itself`);
+  }
+
+  const toolIds = new Set(Object.keys(definition.tools ?? {}));
+  for (const partType of Object.keys(definition.uiComponents ?? {})) {
+    if (partType.startsWith('tool-')) {
+      const toolId = partType.slice('tool-'.length);
+      if (!toolIds.has(toolId)) {
+        issues.push(`uiComponents["${partType}"] references unknown tool "${toolId}"`);
+      }
+    } else if (!partType.startsWith('data-')) {
+      issues.push(`uiComponents["${partType}"] must start with "tool-" or "data-"`);
+    }
+  }
+
+  const provided = {
+    tools: new Set(Object.keys(definition.tools ?? {})),
+    agents: new Set(Object.keys(definition.agents ?? {})),
+    processors: new Set(Object.keys(definition.processors ?? {})),
+  };
+  const guardedBy = new Map<string, string>();
+  for (const [flag, flagDefinition] of Object.entries(definition.flags ?? {})) {
+    for (const kind of Object.keys(provided) as Array<keyof typeof provided>) {
+      for (const id of flagDefinition[kind] ?? []) {
+        if (!provided[kind].has(id)) {
+          issues.push(`flags.${flag}.${kind} references unknown ${kind.slice(0, -1)} "${id}"`);
+        }
+        const other = guardedBy.get(`${kind}:${id}`);
+        if (other) {
+          issues.push(`flags.${flag}.${kind}: "${id}" is already guarded by flag "${other}"`);
+        }
+        guardedBy.set(`${kind}:${id}`, flag);
+      }
+    }
+  }
+
+  for (const [key, prompt] of Object.entries(definition.prompts ?? {})) {
+    if (!prompt.id.startsWith(`${definition.id}.`)) {
+      issues.push(`prompts.${key}: id "${prompt.id}" must start with "${definition.id}."`);
+    }
+  }
+
+  return issues;
+}
+
+function hasEntries(record: object | undefined): boolean {
+  return record !== undefined && Object.keys(record).length > 0;
+}
@@ -0,0 +1,113 @@
+// core/prompts.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { definePartial, definePrompt, PromptRegistry, PromptTemplateError } from './prompts';
+
+const markersPartial = definePartial({ id: 'test.markers', template: 'Mark points HIGH or LOW.' });
+const structurePartial = definePartial({
+  id: 'test.structure',
+  template: 'Summarize {topic}. {>test.markers}',
+  partials: [markersPartial],
+});
+
+const analysisPrompt = definePrompt({
+  id: 'test.analysis',
+  version: '1.2.0',
+  variables: ['topic', 'depth'],
+  partials: [structurePartial],
+  template: 'Analyze "{topic}" at {depth} depth.\n{>test.structure}',
+});
+
+function templateIssues(run: () => unknown): string[] {
+  try {
+    run();
+  } catch (error) {
+    assert.ok(error instanceof PromptTemplateError);
+    return error.issues;
+  }
+  assert.fail('expected a PromptTemplateError');
+}
+
+describe('definePrompt', () => {
+  it('checks the id, version, variables and partials', () => {
+    const issues = templateIssues(() =>
+      definePrompt({
+        id: 'analysis',
+        version: 'v1',
+        variables: ['topic', 'unused'],
+        template: '{topic} {other} {>test.missing}',
+      })
+    );
+
+    assert.deepEqual(issues, [
+      'id must be "<pluginId>.<name>" in kebab-case (e.g. "trip-planner.instructions")',
+      'version "v1" must be semver (e.g. "1.0.0")',
+      'partial "test.missing" is used but not supplied',
+      'variable "{other}" is used but not declared',
+      'variable "unused" is declared but never used',
+    ]);
+  });
+
+  it('counts variables used by included partials', () => {
+    assert.deepEqual(analysisPrompt.variables, ['topic', 'depth']);
+    assert.deepEqual(Object.keys(analysisPrompt.partials), ['test.structure', 'test.markers']);
+  });
+});
+
+describe('PromptRegistry', () => {
+  it('renders variables and nested partials', () => {
+    const text = new PromptRegistry().render(analysisPrompt, { topic: 'tides', depth: 'quick' });
+    assert.equal(text, 'Analyze "tides" at quick depth.\nSummarize tides. Mark points HIGH or LOW.');
+  });
+
+  it('throws for missing variables, but inspect() leaves them in place', () => {
+    const registry = new PromptRegistry();
+    const issues = templateIssues(() => registry.render(analysisPrompt, { topic: 'tides' } as never));
+    assert.deepEqual(issues, ['missing variable "depth"']);
+
+    const inspection = registry.inspect(analysisPrompt, { topic: 'tides' });
+    assert.deepEqual(inspection.missing, ['depth']);
+    assert.deepEqual(inspection.partials, ['test.structure', 'test.markers']);
+    assert.match(inspection.text, /at \{depth\} depth/);
+    assert.equal(inspection.source, 'template');
+  });
+
+  it('applies prompt and partial overrides until they are cleared', () => {
+    const registry = new PromptRegistry().register(analysisPrompt);
+    registry.override('test.analysis', { template: 'Be brief about {topic}. {>test.markers}', version: '1.2.0-acme' });
+    registry.override('test.markers', 'Use stars for importance.');
+
+    const inspection = registry.inspect(analysisPrompt, { topic: 'tides', depth: 'quick' });
+    assert.equal(inspection.text, 'Be brief about tides. Use stars for importance.');
+    assert.equal(inspection.version, '1.2.0-acme');
+    assert.equal(inspection.source, 'override');
+
+    registry.clearOverride('test.analysis');
+    assert.equal(registry.inspect(analysisPrompt).version, '1.2.0');
+    assert.match(registry.inspect(analysisPrompt).text, /Use stars for importance\.$/);
+
+    registry.clearOverride();
+    assert.match(registry.inspect(analysisPrompt).text, /Mark points HIGH or LOW\.$/);
+  });
+
+  it('marks overrides without a version and checks them against registered prompts', () => {
+    const registry = new PromptRegistry().register(analysisPrompt);
+    registry.override('test.analysis', 'Only {topic}.');
+    assert.equal(registry.inspect(analysisPrompt).version, '1.2.0+override');
+
+    assert.deepEqual(templateIssues(() => registry.override('test.analysis', 'Use {audience}.')), [
+      'variable "{audience}" is used but not declared',
+    ]);
+  });
+
+  it('lists prompts by id and refuses a different prompt under a taken id', () => {
+    const other = definePrompt({ id: 'test.another', version: '1.0.0', template: 'Hi' });
+    const registry = new PromptRegistry().register(analysisPrompt, other, analysisPrompt);
+
+    assert.deepEqual(registry.list().map(prompt => prompt.id), ['test.analysis', 'test.another']);
+    assert.throws(
+      () => registry.register(definePrompt({ id: 'test.another', version: '2.0.0', template: 'Hello' })),
+      /already registered \(version 1\.0\.0\)/
+    );
+  });
+});
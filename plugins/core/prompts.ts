@@ -0,0 +1,329 @@
+// core/prompts.ts
+import { pluginVersionSchema } from './config';
+
+/**
+ * Thrown when a prompt template is invalid or cannot be rendered.
+ */
+export class PromptTemplateError extends Error {
+  constructor(
+    public readonly promptId: string,
+    public readonly issues: string[]
+  ) {
+    super(`Prompt "${promptId}":\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+/**
+ * A reusable block of prompt text, included with `{>partial-id}`.
+ * Partials may use the variables of the prompt that includes them, and
+ * include other partials listed in their own `partials`.
+ */
+export interface PromptPartial {
+  readonly id: string;
+  readonly template: string;
+  readonly partials?: readonly PromptPartial[];
+}
+
+/**
+ * A named, versioned prompt. `TVars` are the `{variable}` names the
+ * template uses, so `render()` can require exactly those values.
+ */
+export interface PromptTemplate<TVars extends string = string> {
+  readonly id: string;
+  readonly version: string;
+  readonly description?: string;
+  readonly template: string;
+  readonly variables: readonly TVars[];
+  readonly partials: Readonly<Record<string, PromptPartial>>;
+}
+
+export type AnyPromptTemplate = PromptTemplate<string>;
+
+export type PromptVariables<TVars extends string> = Record<TVars, string | number>;
+
+/** Render arguments: none for prompts without variables. */
+export type PromptRenderArgs<TVars extends string> = [TVars] extends [never] ? [] : [vars: PromptVariables<TVars>];
+
+/** A host-supplied replacement for a prompt's or partial's template. */
+export interface PromptOverride {
+  template: string;
+  /** Shown by `inspect()`. Defaults to `<prompt version>+override`. */
+  version?: string;
+}
+
+export interface PromptInspection {
+  id: string;
+  version: string;
+  source: 'template' | 'override';
+  variables: readonly string[];
+  partials: string[];
+  /** Variables the template uses that were not supplied. */
+  missing: string[];
+  /** The final text, with missing variables left as `{name}`. */
+  text: string;
+}
+
+const VARIABLE_PATTERN = /\{([a-zA-Z][\w]*)\}/g;
+const PARTIAL_PATTERN = /\{>\s*([a-z][\w.-]*)\s*\}/g;
+const ID_PATTERN = /^[a-z][a-z0-9-]*(?:\.[a-z0-9-]+)+$/;
+
+/**
+ * Define Partial
+ *
+ * @example
+ * ```typescript
+ * export const analysisStructurePartial = definePartial({
+ *   id: 'research-bot.analysis-structure',
+ *   template: 'Structure your analysis as: ... ({>research-bot.importance-markers})',
+ *   partials: [importanceMarkersPartial],
+ * });
+ * ```
+ */
+export function definePartial(partial: PromptPartial): PromptPartial {
+  if (!ID_PATTERN.test(partial.id)) {
+    throw new PromptTemplateError(partial.id, [`id must be dotted kebab-case (e.g. "research-bot.analysis-structure")`]);
+  }
+  return Object.freeze({ ...partial });
+}
+
+/**
+ * Define Prompt
+ *
+ * Validates the template at load time: every `{variable}` it (or an
+ * included partial) uses must be declared, every declared variable must be
+ * used, and every `{>partial}` must be supplied.
+ *
+ * Prompt IDs are `<pluginId>.<name>`, and versions are semver. Bump the
+ * version whenever the wording changes, so logs and evals can tell prompt
+ * revisions apart.
+ *
+ * @example
+ * ```typescript
+ * export const expertAnalysisPrompt = definePrompt({
+ *   id: 'research-bot.expert-analysis',
+ *   version: '1.0.0',
+ *   variables: ['topic', 'depth'],
+ *   partials: [analysisStructurePartial],
+ *   template: 'You are analyzing the topic: "{topic}" at {depth} depth.\n{>research-bot.analysis-structure}',
+ * });
+ *
+ * promptRegistry.render(expertAnalysisPrompt, { topic: 'tides', depth: 'quick' });
+ * ```
+ */
+export function definePrompt<const TVars extends string = never>(definition: {
+  id: string;
+  version: string;
+  description?: string;
+  template: string;
+  variables?: readonly TVars[];
+  partials?: readonly PromptPartial[];
+}): PromptTemplate<TVars> {
+  const prompt: PromptTemplate<TVars> = {
+    id: definition.id,
+    version: definition.version,
+    description: definition.description,
+    template: definition.template,
+    variables: definition.variables ?? [],
+    partials: collectPartials(definition.partials ?? []),
+  };
+
+  const issues: string[] = [];
+  if (!ID_PATTERN.test(prompt.id)) {
+    issues.push('id must be "<pluginId>.<name>" in kebab-case (e.g. "trip-planner.instructions")');
+  }
+  if (!pluginVersionSchema.safeParse(prompt.version).success) {
+    issues.push(`version "${prompt.version}" must be semver (e.g. "1.0.0")`);
+  }
+  issues.push(...checkTemplate(prompt.template, prompt.variables, id => prompt.partials[id]?.template));
+
+  if (issues.length > 0) {
+    throw new PromptTemplateError(prompt.id, issues);
+  }
+
+  return Object.freeze(prompt);
+}
+
+/**
+ * Prompt Registry
+ *
+ * Renders prompts, applying host overrides, and lists the prompts plugins
+ * have registered. Plugin agents render through the shared
+ * `promptRegistry`, so an override set at startup reaches agents that were
+ * created before it.
+ *
+ * @example
+ * ```typescript
+ * promptRegistry.override('trip-planner.instructions', {
+ *   template: 'You are a concise travel agent for business trips.',
+ *   version: '1.0.0-acme',
+ * });
+ *
+ * promptRegistry.inspect(expertAnalysisPrompt, { topic: 'tides' });
+ * // { version: '1.0.0', missing: ['depth'], text: '... at {depth} depth ...' }
+ * ```
+ */
+export class PromptRegistry {
+  private prompts = new Map<string, AnyPromptTemplate>();
+  private overrides = new Map<string, PromptOverride>();
+
+  /** Make prompts discoverable by `get()` and `list()`. Re-registering the same prompt is a no-op. */
+  register(...prompts: AnyPromptTemplate[]): this {
+    for (const prompt of prompts) {
+      const existing = this.prompts.get(prompt.id);
+      if (existing && existing !== prompt) {
+        throw new PromptTemplateError(prompt.id, [
+          `already registered (version ${existing.version}); use override() to replace its text`,
+        ]);
+      }
+      this.prompts.set(prompt.id, prompt);
+    }
+    return this;
+  }
+
+  get(id: string): AnyPromptTemplate | undefined {
+    return this.prompts.get(id);
+  }
+
+  /** Registered prompts, sorted by ID. */
+  list(): AnyPromptTemplate[] {
+    return [...this.prompts.values()].sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  /**
+   * Replace the text of a prompt or partial by ID. If the prompt is
+   * registered, the override is checked against its declared variables.
+   */
+  override(id: string, override: string | PromptOverride): this {
+    const value = typeof override === 'string' ? { template: override } : override;
+    const prompt = this.prompts.get(id);
+    if (prompt) {
+      const issues = checkTemplate(value.template, prompt.variables, partialId => this.partialText(prompt, partialId), {
+        requireAllVariables: false,
+      });
+      if (issues.length > 0) throw new PromptTemplateError(id, issues);
+    }
+    this.overrides.set(id, value);
+    return this;
+  }
+
+  /** Remove an override, or all overrides when called without an ID. */
+  clearOverride(id?: string): this {
+    if (id === undefined) this.overrides.clear();
+    else this.overrides.delete(id);
+    return this;
+  }
+
+  /**
+   * Render a prompt with its variables. Throws a `PromptTemplateError` if a
+   * variable or partial is missing.
+   */
+  render<TVars extends string>(prompt: PromptTemplate<TVars>, ...args: PromptRenderArgs<TVars>): string {
+    const vars = (args[0] ?? {}) as Record<string, string | number>;
+    const inspection = this.inspect(prompt, vars);
+    if (inspection.missing.length > 0) {
+      throw new PromptTemplateError(prompt.id, inspection.missing.map(name => `missing variable "${name}"`));
+    }
+    return inspection.text;
+  }
+
+  /**
+   * Show the final prompt without throwing: which version and source are
+   * in effect, which partials were included, and which variables are still
+   * missing.
+   */
+  inspect(prompt: AnyPromptTemplate, vars: Partial<Record<string, string | number>> = {}): PromptInspection {
+    const override = this.overrides.get(prompt.id);
+    const partials: string[] = [];
+    const missing = new Set<string>();
+
+    const expand = (template: string, seen: string[]): string =>
+      template.replace(PARTIAL_PATTERN, (_match, partialId: string) => {
+        const text = this.partialText(prompt, partialId);
+        if (text === undefined) {
+          throw new PromptTemplateError(prompt.id, [`unknown partial "${partialId}"`]);
+        }
+        if (seen.includes(partialId)) {
+          throw new PromptTemplateError(prompt.id, [`partial "${partialId}" includes itself`]);
+        }
+        partials.push(partialId);
+        return expand(text, [...seen, partialId]);
+      });
+
+    const text = expand(override?.template ?? prompt.template, []).replace(VARIABLE_PATTERN, (match, name: string) => {
+      const value = vars[name];
+      if (value === undefined) {
+        missing.add(name);
+        return match;
+      }
+      return String(value);
+    });
+
+    return {
+      id: prompt.id,
+      version: override ? (override.version ?? `${prompt.version}+override`) : prompt.version,
+      source: override ? 'override' : 'template',
+      variables: prompt.variables,
+      partials: [...new Set(partials)],
+      missing: [...missing],
+      text,
+    };
+  }
+
+  private partialText(prompt: AnyPromptTemplate, partialId: string): string | undefined {
+    return this.overrides.get(partialId)?.template ?? prompt.partials[partialId]?.template;
+  }
+}
+
+/** The registry plugin agents and tools render through. */
+export const promptRegistry = new PromptRegistry();
+
+/** Index partials by ID, including the partials they include. */
+function collectPartials(
+  partials: readonly PromptPartial[],
+  collected: Record<string, PromptPartial> = {}
+): Record<string, PromptPartial> {
+  for (const partial of partials) {
+    if (collected[partial.id]) continue;
+    collected[partial.id] = partial;
+    collectPartials(partial.partials ?? [], collected);
+  }
+  return collected;
+}
+
+function checkTemplate(
+  template: string,
+  declared: readonly string[],
+  partialText: (id: string) => string | undefined,
+  { requireAllVariables = true } = {}
+): string[] {
+  const issues: string[] = [];
+  const used = new Set<string>();
+
+  const scan = (text: string, seen: string[]) => {
+    for (const [, name] of text.matchAll(VARIABLE_PATTERN)) used.add(name);
+    for (const [, partialId] of text.matchAll(PARTIAL_PATTERN)) {
+      if (seen.includes(partialId)) {
+        issues.push(`partial "${partialId}" includes itself`);
+        continue;
+      }
+      const included = partialText(partialId);
+      if (included === undefined) {
+        issues.push(`partial "${partialId}" is used but not supplied`);
+      } else {
+        scan(included, [...seen, partialId]);
+      }
+    }
+  };
+  scan(template, []);
+
+  for (const name of used) {
+    if (!declared.includes(name)) issues.push(`variable "{${name}}" is used but not declared`);
+  }
+  if (requireAllVariables) {
+    for (const name of declared) {
+      if (!used.has(name)) issues.push(`variable "${name}" is declared but never used`);
+    }
+  }
+  return issues;
+}
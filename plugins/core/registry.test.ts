@@ -0,0 +1,116 @@
+// core/registry.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { z } from 'zod';
+import { Mastra } from '@mastra/core';
+import { Agent } from '@mastra/core/agent';
+import { createTool } from '@mastra/core/tools';
+import { PluginDependencyError } from './dependencies';
+import { definePlugin } from './plugin';
+import { PluginRegistrationError, PluginRegistry, registerPlugins } from './registry';
+import type { AIPluginDefinition } from './config';
+
+function tool(id: string) {
+  return createTool({ id, description: id, inputSchema: z.object({}), execute: async () => ({}) });
+}
+
+function agent(id: string) {
+  return new Agent({ id, name: id, instructions: id, model: { id: 'test/model' } });
+}
+
+function plugin(id: string, { tools = [], agents = [], requires }: { tools?: string[]; agents?: string[] } & Pick<AIPluginDefinition, 'requires'> = {}) {
+  return definePlugin({
+    id,
+    name: id,
+    version: '1.0.0',
+    features: { tools: tools.length > 0, agents: agents.length > 0, ui: false, processors: false, storage: false },
+    ...(tools.length > 0 && { tools: Object.fromEntries(tools.map(name => [name, tool(name)])) }),
+    ...(agents.length > 0 && { agents: Object.fromEntries(agents.map(name => [name, agent(name)])) }),
+    requires,
+  });
+}
+
+function registrationIssues(run: () => unknown): string[] {
+  try {
+    run();
+  } catch (error) {
+    assert.ok(error instanceof PluginRegistrationError);
+    return error.issues;
+  }
+  assert.fail('expected a PluginRegistrationError');
+}
+
+describe('PluginRegistry', () => {
+  it('indexes tools and agents by the plugin that provides them', () => {
+    const registry = new PluginRegistry()
+      .register(plugin('maps', { tools: ['drawMap'] }))
+      .register(plugin('guide', { agents: ['guide-agent'], requires: { plugins: { maps: '^1.0.0' } } }));
+
+    assert.equal(registry.getTool('drawMap')?.pluginId, 'maps');
+    assert.equal(registry.getAgent('guide-agent')?.pluginId, 'guide');
+    assert.equal(registry.getTool('missing'), undefined);
+    assert.deepEqual(registry.listPlugins().map(entry => entry.id), ['maps', 'guide']);
+  });
+
+  it('orders plugins by their requirements across batches', () => {
+    const registry = new PluginRegistry().registerAll([
+      plugin('guide', { tools: ['tour'], requires: { plugins: { maps: '*' } } }),
+      plugin('maps', { tools: ['drawMap'] }),
+    ]);
+
+    assert.deepEqual(registry.listPlugins().map(entry => entry.id), ['maps', 'guide']);
+  });
+
+  it('reports every collision and registers nothing', () => {
+    const registry = new PluginRegistry().register(plugin('maps', { tools: ['drawMap', 'geocode'] }));
+    const issues = registrationIssues(() =>
+      registry.registerAll([
+        plugin('maps', { tools: ['other'] }),
+        plugin('atlas', { tools: ['drawMap'], agents: ['atlas-agent'] }),
+        plugin('globe', { tools: ['geocode'], agents: ['atlas-agent'] }),
+      ])
+    );
+
+    assert.deepEqual(issues, [
+      'Plugin "maps" is already registered',
+      'Tool "drawMap" is provided by both "maps" and "atlas"',
+      'Tool "geocode" is provided by both "maps" and "globe"',
+      'Agent "atlas-agent" is provided by both "atlas" and "globe"',
+    ]);
+    assert.deepEqual(registry.listPlugins().map(entry => entry.id), ['maps']);
+    assert.equal(registry.getAgent('atlas-agent'), undefined);
+  });
+
+  it('refuses plugins whose required plugin is missing', () => {
+    assert.throws(
+      () => new PluginRegistry().register(plugin('guide', { tools: ['tour'], requires: { plugins: { maps: '^1.0.0' } } })),
+      PluginDependencyError
+    );
+  });
+});
+
+describe('mount', () => {
+  it('adds tools and agents to Mastra under their keys', () => {
+    const mastra = new Mastra({});
+    registerPlugins(mastra, [plugin('maps', { tools: ['drawMap'], agents: ['maps-agent'] })]);
+
+    assert.deepEqual(Object.keys(mastra.listTools() ?? {}), ['drawMap']);
+    assert.deepEqual(Object.keys(mastra.listAgents()), ['maps-agent']);
+  });
+
+  it('fails on keys Mastra already holds instead of skipping them', () => {
+    const mastra = new Mastra({ agents: { 'maps-agent': agent('maps-agent') } });
+    const issues = registrationIssues(() => registerPlugins(mastra, [plugin('maps', { agents: ['maps-agent'] })]));
+
+    assert.deepEqual(issues, ['Agent "maps-agent" from "maps" is already registered with Mastra']);
+  });
+
+  it('accepts requirements met by the host and refuses unmet ones', () => {
+    const needsHelper = plugin('guide', { tools: ['tour'], requires: { agents: ['helper'] } });
+
+    assert.throws(() => registerPlugins(new Mastra({}), [needsHelper]), /requires agent "helper"/);
+    const mastra = new Mastra({ agents: { helper: agent('helper') } });
+    registerPlugins(mastra, [needsHelper]);
+    assert.ok(mastra.listTools()?.tour);
+  });
+});
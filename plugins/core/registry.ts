@@ -0,0 +1,377 @@
+// core/registry.ts
+import type { Mastra } from '@mastra/core';
+import type { Processor } from '@mastra/core/processors';
+import type {
+  AnyAIPlugin,
+  PluginAgent,
+  PluginProcessor,
+  PluginTool,
+} from './config';
+import {
+  findMissingRequirements,
+  PluginDependencyError,
+  resolvePluginOrder,
+} from './dependencies';
+import {
+  collectFlagGuards,
+  defaultFlagSource,
+  isFlagEnabled,
+  setToolFlags,
+  type FlagSource,
+} from './flags';
+import {
+  createPluginContext,
+  runLifecyclePhase,
+  type LifecycleOptions,
+  type LifecycleReport,
+} from './lifecycle';
+import { promptRegistry } from './prompts';
+
+/**
+ * Thrown when plugins cannot be registered together.
+ *
+ * Raised at startup, before anything is mounted, so a host never runs with
+ * half its plugins registered.
+ */
+export class PluginRegistrationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Plugin registration failed:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'PluginRegistrationError';
+  }
+}
+
+/** A registered item and the plugin that provided it. */
+export interface RegistryEntry<T> {
+  pluginId: string;
+  id: string;
+  value: T;
+}
+
+type EntryKind = 'tool' | 'agent' | 'processor';
+
+export interface MountOptions {
+  /**
+   * Decides which flag-guarded tools, agents and processors are on.
+   * Defaults to per-request values, then `FLAG_*` environment variables.
+   */
+  flags?: FlagSource;
+}
+
+/**
+ * Plugin Registry
+ *
+ * Collects plugins, indexes their tools, agents and processors by ID, and
+ * mounts them into a Mastra instance. Plugins are kept in dependency order:
+ * each plugin comes after the plugins listed in its `requires.plugins`.
+ *
+ * Collisions are errors: Mastra skips an agent or tool whose key already
+ * exists (with only a debug log), which would otherwise surface much later
+ * as a missing-agent error at call time.
+ *
+ * @example
+ * ```typescript
+ * const registry = new PluginRegistry()
+ *   .register(tripPlannerPlugin)
+ *   .register(researchBotPlugin);
+ *
+ * registry.mount(mastra);
+ * registry.getAgent('expert-agent'); // provided by research-bot
+ * ```
+ *
+ * Use `start()` instead of `mount()` to also run the plugins' lifecycle
+ * hooks, and `stop()` on shutdown.
+ */
+export class PluginRegistry {
+  private plugins = new Map<string, AnyAIPlugin>();
+  private tools = new Map<string, RegistryEntry<PluginTool>>();
+  private agents = new Map<string, RegistryEntry<PluginAgent>>();
+  private processors = new Map<string, RegistryEntry<PluginProcessor>>();
+  private running?: { mastra: Mastra; options: LifecycleOptions; plugins: AnyAIPlugin[] };
+
+  /**
+   * Register a single plugin. Throws if its ID, or any tool, agent or
+   * processor ID, is already taken.
+   */
+  register(plugin: AnyAIPlugin): this {
+    return this.registerAll([plugin]);
+  }
+
+  /**
+   * Register several plugins at once. All collisions across the batch and
+   * the existing registry are reported together; nothing is registered if
+   * any are found. Plugin prompts are added to the shared `promptRegistry`.
+   *
+   * Required plugins must be registered earlier or in the same batch.
+   * Throws a `PluginDependencyError` if one is missing, has an incompatible
+   * version, or the requirements form a cycle.
+   */
+  registerAll(plugins: readonly AnyAIPlugin[]): this {
+    const issues: string[] = [];
+    const pluginIds = new Set(this.plugins.keys());
+    const claimed: Record<EntryKind, Map<string, string>> = {
+      tool: ownersOf(this.tools),
+      agent: ownersOf(this.agents),
+      processor: ownersOf(this.processors),
+    };
+
+    for (const plugin of plugins) {
+      if (pluginIds.has(plugin.id)) {
+        issues.push(`Plugin "${plugin.id}" is already registered`);
+        continue;
+      }
+      pluginIds.add(plugin.id);
+
+      const provided: Record<EntryKind, readonly string[]> = {
+        tool: plugin.toolIds,
+        agent: plugin.agentIds,
+        processor: plugin.processorIds,
+      };
+
+      for (const kind of Object.keys(provided) as EntryKind[]) {
+        for (const id of provided[kind]) {
+          const owner = claimed[kind].get(id);
+          if (owner) {
+            issues.push(`${capitalize(kind)} "${id}" is provided by both "${owner}" and "${plugin.id}"`);
+          } else {
+            claimed[kind].set(id, plugin.id);
+          }
+        }
+      }
+
+      for (const prompt of Object.values(plugin.prompts ?? {})) {
+        const existing = promptRegistry.get(prompt.id);
+        if (existing && existing !== prompt) {
+          issues.push(`Prompt "${prompt.id}" is already registered with a different template (version ${existing.version})`);
+        }
+      }
+    }
+
+    if (issues.length > 0) {
+      throw new PluginRegistrationError(issues);
+    }
+
+    const ordered = resolvePluginOrder([...this.plugins.values(), ...plugins]);
+    this.plugins = new Map(ordered.map(plugin => [plugin.id, plugin]));
+
+    for (const plugin of plugins) {
+      for (const [id, value] of Object.entries(plugin.tools ?? {})) {
+        this.tools.set(id, { pluginId: plugin.id, id, value });
+      }
+      for (const [id, value] of Object.entries(plugin.agents ?? {})) {
+        this.agents.set(id, { pluginId: plugin.id, id, value });
+      }
+      for (const [id, value] of Object.entries(plugin.processors ?? {})) {
+        this.processors.set(id, { pluginId: plugin.id, id, value });
+      }
+      promptRegistry.register(...Object.values(plugin.prompts ?? {}));
+    }
+
+    return this;
+  }
+
+  /**
+   * Mount every registered tool, agent and processor into a Mastra instance,
+   * in dependency order.
+   *
+   * Fails if Mastra already holds something under the same key, e.g. an agent
+   * passed directly to `new Mastra({ agents })`, or if a plugin requires an
+   * agent, tool or processor that neither the plugins nor Mastra provide.
+   * Processor classes are not mounted: the host instantiates them with its
+   * own options.
+   *
+   * Feature flags are evaluated once here, without a request: guarded items
+   * that are off are not mounted and do not satisfy requirements. Agents
+   * whose tool map is wrapped in `flaggedTools()` also filter it on every
+   * request, so a per-request flag can hide a tool from the model.
+   */
+  mount(mastra: Mastra, options: MountOptions = {}): void {
+    const existingAgents = mastra.listAgents() ?? {};
+    const existingTools = mastra.listTools() ?? {};
+    const existingProcessors = mastra.listProcessors() ?? {};
+    const processorKeys = [...this.processors.values()].flatMap(entry =>
+      processorInstances(entry).map(([key]) => ({ key, pluginId: entry.pluginId }))
+    );
+
+    const issues = [
+      ...findMounted('Agent', this.agents.values(), existingAgents),
+      ...findMounted('Tool', this.tools.values(), existingTools),
+      ...findMounted('Processor', processorKeys.map(({ key, pluginId }) => ({ id: key, pluginId })), existingProcessors),
+    ];
+
+    if (issues.length > 0) {
+      throw new PluginRegistrationError(issues);
+    }
+
+    const flags = options.flags ?? defaultFlagSource();
+    const guards = collectFlagGuards(this.listPlugins());
+    const isOff = (guardsOfKind: (typeof guards)[keyof typeof guards]) => (id: string) =>
+      !isFlagEnabled(guardsOfKind.get(id), flags);
+    const disabled = {
+      agents: [...this.agents.keys()].filter(isOff(guards.agents)),
+      tools: [...this.tools.keys()].filter(isOff(guards.tools)),
+      processors: [...this.processors.keys()].filter(isOff(guards.processors)),
+    };
+
+    const missing = findMissingRequirements(
+      this.listPlugins(),
+      {
+        agents: Object.keys(existingAgents),
+        tools: Object.keys(existingTools),
+        processors: Object.keys(existingProcessors),
+      },
+      disabled
+    );
+
+    if (missing.length > 0) {
+      throw new PluginDependencyError(missing);
+    }
+
+    setToolFlags(mastra, guards.tools, flags);
+
+    for (const plugin of this.listPlugins()) {
+      for (const [id, value] of Object.entries(plugin.agents ?? {})) {
+        if (disabled.agents.includes(id)) continue;
+        mastra.addAgent(value, id);
+      }
+      for (const [id, value] of Object.entries(plugin.tools ?? {})) {
+        if (disabled.tools.includes(id)) continue;
+        mastra.addTool(value, id);
+      }
+      for (const [id, value] of Object.entries(plugin.processors ?? {})) {
+        if (disabled.processors.includes(id)) continue;
+        for (const [key, processor] of processorInstances({ pluginId: plugin.id, id, value })) {
+          mastra.addProcessor(processor, key);
+        }
+      }
+    }
+  }
+
+  /**
+   * Mount all plugins, then run every `register` hook followed by every
+   * `initialize` hook, in dependency order.
+   *
+   * Mount errors throw as in `mount()`. Hook errors do not: the failing
+   * plugin and the plugins that require it are reported and the rest start
+   * normally. Check `report.ok` to decide whether the host should continue.
+   */
+  async start(mastra: Mastra, options: MountOptions & LifecycleOptions = {}): Promise<LifecycleReport> {
+    if (this.running) {
+      throw new PluginRegistrationError(['Registry is already started; call stop() first']);
+    }
+
+    this.mount(mastra, options);
+
+    const plugins = this.listPlugins();
+    const contextFor = (plugin: AnyAIPlugin) => createPluginContext(plugin, mastra, options, id => this.getPlugin(id));
+    const unavailable = new Set<string>();
+    const results = [
+      ...(await runLifecyclePhase('register', plugins, contextFor, unavailable)),
+      ...(await runLifecyclePhase('initialize', plugins, contextFor, unavailable)),
+    ];
+
+    // Plugins skipped in every phase never ran a hook, so have nothing to shut down
+    const ran = new Set(results.filter(result => result.status !== 'skipped').map(result => result.pluginId));
+    this.running = { mastra, options, plugins: plugins.filter(plugin => ran.has(plugin.id)) };
+
+    return { ok: results.every(result => result.status === 'ok'), results };
+  }
+
+  /**
+   * Run every started plugin's `shutdown` hook, in reverse dependency order.
+   * A failing hook is reported and does not stop the others.
+   */
+  async stop(): Promise<LifecycleReport> {
+    if (!this.running) return { ok: true, results: [] };
+
+    const { mastra, options, plugins } = this.running;
+    this.running = undefined;
+
+    const contextFor = (plugin: AnyAIPlugin) => createPluginContext(plugin, mastra, options, id => this.getPlugin(id));
+    const results = await runLifecyclePhase('shutdown', [...plugins].reverse(), contextFor);
+
+    return { ok: results.every(result => result.status === 'ok'), results };
+  }
+
+  getPlugin(id: string): AnyAIPlugin | undefined {
+    return this.plugins.get(id);
+  }
+
+  /** Registered plugins, dependencies first. */
+  listPlugins(): AnyAIPlugin[] {
+    return [...this.plugins.values()];
+  }
+
+  getTool(id: string): RegistryEntry<PluginTool> | undefined {
+    return this.tools.get(id);
+  }
+
+  getAgent(id: string): RegistryEntry<PluginAgent> | undefined {
+    return this.agents.get(id);
+  }
+
+  getProcessor(id: string): RegistryEntry<PluginProcessor> | undefined {
+    return this.processors.get(id);
+  }
+}
+
+/**
+ * Register Plugins
+ *
+ * Convenience wrapper: registers every plugin and mounts them into Mastra.
+ *
+ * @example
+ * ```typescript
+ * export const mastra = new Mastra({});
+ *
+ * export const plugins = registerPlugins(mastra, [
+ *   tripPlannerPlugin,
+ *   researchBotPlugin,
+ *   askUserPlugin,
+ *   contentModerationPlugin,
+ * ]);
+ * ```
+ */
+export function registerPlugins(
+  mastra: Mastra,
+  plugins: readonly AnyAIPlugin[],
+  options: MountOptions = {}
+): PluginRegistry {
+  const registry = new PluginRegistry().registerAll(plugins);
+  registry.mount(mastra, options);
+  return registry;
+}
+
+function ownersOf<T>(entries: Map<string, RegistryEntry<T>>): Map<string, string> {
+  return new Map([...entries.values()].map(entry => [entry.id, entry.pluginId]));
+}
+
+function findMounted(
+  label: string,
+  entries: Iterable<{ id: string; pluginId: string }>,
+  existing: Record<string, unknown>
+): string[] {
+  const issues: string[] = [];
+  for (const { id, pluginId } of entries) {
+    if (id in existing) {
+      issues.push(`${label} "${id}" from "${pluginId}" is already registered with Mastra`);
+    }
+  }
+  return issues;
+}
+
+/**
+ * Processor instances to mount for an entry, with their Mastra keys.
+ * Chains are mounted element by element as `<exportName>.<processorId>`.
+ */
+function processorInstances(entry: RegistryEntry<PluginProcessor>): Array<[string, Processor]> {
+  const { id, value } = entry;
+  if (typeof value === 'function') return [];
+  if (Array.isArray(value)) {
+    return (value as readonly Processor[]).map(processor => [`${id}.${processor.id}`, processor]);
+  }
+  return [[id, value as Processor]];
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
@@ -0,0 +1,213 @@
+// core/scripted-model.ts
+import type {
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+  LanguageModelV2Content,
+  LanguageModelV2FinishReason,
+  LanguageModelV2StreamPart,
+  LanguageModelV2Usage,
+} from '@ai-sdk/provider';
+import type { ModelProvider } from './models';
+
+/** A tool call the model makes, with its arguments as an object. */
+export interface ScriptedToolCall {
+  toolName: string;
+  args: Record<string, unknown>;
+  /** Defaults to `call-<turn>-<index>`. */
+  toolCallId?: string;
+}
+
+/**
+ * One model response. `text` given as an array is streamed one delta per
+ * element.
+ */
+export interface ScriptedTurn {
+  text?: string | readonly string[];
+  toolCalls?: readonly ScriptedToolCall[];
+  /** Defaults to `tool-calls` when the turn has tool calls, otherwise `stop`. */
+  finishReason?: LanguageModelV2FinishReason;
+  usage?: Partial<LanguageModelV2Usage>;
+}
+
+/**
+ * Thrown when a scripted model is called more times than it has turns, or
+ * a provider has no script for an agent.
+ */
+export class ScriptedModelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScriptedModelError';
+  }
+}
+
+/**
+ * Scripted Model
+ *
+ * A language model that replays pre-recorded turns in order, one per call,
+ * so agent loops run offline and produce the same output every time.
+ * `doGenerate` and `doStream` share the same script.
+ *
+ * Every call's options (prompt, tools, ...) are kept in `calls` for
+ * assertions.
+ *
+ * @example
+ * ```typescript
+ * const model = new ScriptedModel([
+ *   { toolCalls: [{ toolName: 'getWeather', args: { location: 'Lisbon' } }] },
+ *   { text: ['Lisbon is ', 'sunny this week.'] },
+ * ]);
+ * ```
+ */
+export class ScriptedModel implements LanguageModelV2 {
+  readonly specificationVersion = 'v2';
+  readonly provider = 'scripted';
+  readonly supportedUrls = {};
+  readonly calls: LanguageModelV2CallOptions[] = [];
+  private position = 0;
+
+  constructor(
+    private readonly turns: readonly ScriptedTurn[],
+    readonly modelId = 'scripted-model'
+  ) {}
+
+  /** Turns not yet played. */
+  get remaining(): number {
+    return this.turns.length - this.position;
+  }
+
+  /** Replay the script from the first turn and forget recorded calls. */
+  reset(): void {
+    this.position = 0;
+    this.calls.length = 0;
+  }
+
+  async doGenerate(options: LanguageModelV2CallOptions) {
+    const index = this.position;
+    const turn = this.next(options);
+
+    const content: LanguageModelV2Content[] = [];
+    const text = textOf(turn);
+    if (text) content.push({ type: 'text', text });
+    for (const [callIndex, call] of (turn.toolCalls ?? []).entries()) {
+      content.push(toolCallContent(call, index, callIndex));
+    }
+
+    return {
+      content,
+      finishReason: finishReasonOf(turn),
+      usage: usageOf(turn),
+      warnings: [],
+      response: { id: `response-${index}`, modelId: this.modelId, timestamp: new Date(0) },
+    };
+  }
+
+  async doStream(options: LanguageModelV2CallOptions) {
+    const index = this.position;
+    const turn = this.next(options);
+
+    const parts: LanguageModelV2StreamPart[] = [
+      { type: 'stream-start', warnings: [] },
+      { type: 'response-metadata', id: `response-${index}`, modelId: this.modelId, timestamp: new Date(0) },
+    ];
+
+    const deltas = typeof turn.text === 'string' ? [turn.text] : (turn.text ?? []);
+    if (deltas.length > 0) {
+      const id = `text-${index}`;
+      parts.push({ type: 'text-start', id });
+      for (const delta of deltas) {
+        parts.push({ type: 'text-delta', id, delta });
+      }
+      parts.push({ type: 'text-end', id });
+    }
+
+    for (const [callIndex, call] of (turn.toolCalls ?? []).entries()) {
+      parts.push(toolCallContent(call, index, callIndex));
+    }
+
+    parts.push({ type: 'finish', finishReason: finishReasonOf(turn), usage: usageOf(turn) });
+
+    return {
+      stream: new ReadableStream<LanguageModelV2StreamPart>({
+        start(controller) {
+          for (const part of parts) controller.enqueue(part);
+          controller.close();
+        },
+      }),
+    };
+  }
+
+  private next(options: LanguageModelV2CallOptions): ScriptedTurn {
+    this.calls.push(options);
+    const turn = this.turns[this.position];
+    if (!turn) {
+      throw new ScriptedModelError(
+        `Scripted model "${this.modelId}" has no turn ${this.position + 1} (script has ${this.turns.length})`
+      );
+    }
+    this.position++;
+    return turn;
+  }
+}
+
+export type ScriptedModelProvider = ModelProvider & {
+  /** The model created for each agent ID, once it has been resolved. */
+  readonly models: Readonly<Record<string, ScriptedModel>>;
+};
+
+/**
+ * Scripted Model Provider
+ *
+ * A model provider that gives each agent its own scripted model, keyed by
+ * agent ID. An agent keeps the same model across calls, so its turns play
+ * in order across a whole conversation, including nested agent calls.
+ *
+ * @example
+ * ```typescript
+ * setModelProvider(scriptedModelProvider({
+ *   'research-bot': [
+ *     { toolCalls: [{ toolName: 'deepResearch', args: { topic: 'tides', depth: 'quick' } }] },
+ *     { text: 'Tides are driven mostly by the moon.' },
+ *   ],
+ *   'expert-agent': [{ text: ['**Overview**: ', 'HIGH: The moon drives tides.'] }],
+ * }));
+ * ```
+ */
+export function scriptedModelProvider(
+  scripts: Record<string, readonly ScriptedTurn[] | ScriptedModel>
+): ScriptedModelProvider {
+  const models: Record<string, ScriptedModel> = {};
+
+  const provider = (_model: unknown, { agentId }: { agentId: string }) => {
+    if (!models[agentId]) {
+      const script = scripts[agentId];
+      if (!script) {
+        throw new ScriptedModelError(`No script for agent "${agentId}"`);
+      }
+      models[agentId] = script instanceof ScriptedModel ? script : new ScriptedModel(script, `scripted-${agentId}`);
+    }
+    return models[agentId];
+  };
+
+  return Object.assign(provider, { models });
+}
+
+function textOf(turn: ScriptedTurn): string {
+  return typeof turn.text === 'string' ? turn.text : (turn.text ?? []).join('');
+}
+
+function finishReasonOf(turn: ScriptedTurn): LanguageModelV2FinishReason {
+  return turn.finishReason ?? ((turn.toolCalls?.length ?? 0) > 0 ? 'tool-calls' : 'stop');
+}
+
+function usageOf(turn: ScriptedTurn): LanguageModelV2Usage {
+  return { inputTokens: 0, outputTokens: 0, totalTokens: 0, ...turn.usage };
+}
+
+function toolCallContent(call: ScriptedToolCall, turnIndex: number, callIndex: number) {
+  return {
+    type: 'tool-call' as const,
+    toolCallId: call.toolCallId ?? `call-${turnIndex}-${callIndex}`,
+    toolName: call.toolName,
+    input: JSON.stringify(call.args),
+  };
+}
@@ -0,0 +1,64 @@
+// core/sources.ts
+import { existsSync, readFileSync, readdirSync, type Dirent } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { AnyAIPlugin } from './config';
+import type { PluginSources } from './drift';
+
+/**
+ * A plugin package loaded from disk: its manifest plus the feature files the
+ * manifest is checked against.
+ */
+export interface LoadedPlugin {
+  dir: string;
+  plugin: AnyAIPlugin;
+  sources: PluginSources;
+}
+
+const AGENT_FILES = ['agent.ts', 'agents.ts'];
+
+/**
+ * Find plugin package directories: subdirectories of `root` with an
+ * `index.ts` entry point, excluding the core package itself.
+ */
+export function findPluginDirs(root: string): string[] {
+  return readdirSync(root, { withFileTypes: true })
+    .filter((entry: Dirent) => entry.isDirectory() && entry.name !== 'core')
+    .map((entry: Dirent) => join(root, entry.name))
+    .filter((dir: string) => existsSync(join(dir, 'index.ts')));
+}
+
+/**
+ * Load a plugin package by importing its entry point and feature files.
+ *
+ * Requires a TypeScript-aware runtime (e.g. `tsx`).
+ */
+export async function loadPlugin(dir: string): Promise<LoadedPlugin> {
+  const absoluteDir = resolve(dir);
+  const entry = await importFile(join(absoluteDir, 'index.ts'));
+  const plugin = entry?.default as AnyAIPlugin | undefined;
+
+  if (!plugin || typeof plugin.id !== 'string') {
+    throw new Error(`${dir}/index.ts has no default-exported plugin`);
+  }
+
+  const agentFile = AGENT_FILES.find(file => existsSync(join(absoluteDir, file)));
+  const uiPath = join(absoluteDir, 'ui.tsx');
+
+  return {
+    dir: absoluteDir,
+    plugin,
+    sources: {
+      tools: await importFile(join(absoluteDir, 'tools.ts')),
+      agents: agentFile ? await importFile(join(absoluteDir, agentFile)) : undefined,
+      processors: await importFile(join(absoluteDir, 'processors.ts')),
+      uiSource: existsSync(uiPath) ? readFileSync(uiPath, 'utf8') : undefined,
+      files: agentFile ? { agents: agentFile } : undefined,
+    },
+  };
+}
+
+async function importFile(path: string): Promise<Record<string, unknown> | undefined> {
+  if (!existsSync(path)) return undefined;
+  return import(pathToFileURL(path).href);
+}
@@ -0,0 +1,77 @@
+// examples/research-bot/agents.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Mastra } from '@mastra/core';
+import { RequestContext } from '@mastra/core/request-context';
+import { MODEL_PROVIDER_KEY, registerPlugins, scriptedModelProvider } from '../core';
+import { expertAgentId } from './config';
+import { createResearchBotPlugin } from './index';
+
+function tidesScript() {
+  return scriptedModelProvider({
+    'research-bot': [
+      { toolCalls: [{ toolName: 'deepResearch', args: { topic: 'tides', depth: 'quick' } }] },
+      { text: ['Tides follow the moon, ', 'with help from the sun.'] },
+    ],
+    [expertAgentId]: [
+      {
+        text: [
+          '**Overview**: Tides are the rise and fall of sea levels.\n',
+          '- HIGH: The moon drives most of the tidal force.\n',
+          '- LOW: The sun adds a smaller, spring-and-neap cycle.\n',
+          'Related: lunar orbit, coastal erosion\n',
+          'Confidence: 80%',
+        ],
+      },
+    ],
+  });
+}
+
+describe('research-bot agent (scripted)', () => {
+  it('calls deepResearch, streams the expert agent and answers from the findings', async () => {
+    const modelProvider = tidesScript();
+    const mastra = new Mastra({});
+    registerPlugins(mastra, [createResearchBotPlugin({ modelProvider })]);
+
+    const result = await mastra.getAgent('research-bot').generate('Why are there tides?');
+
+    assert.equal(result.text, 'Tides follow the moon, with help from the sun.');
+
+    const toolResult = result.toolResults.find(part => part.payload.toolName === 'deepResearch');
+    assert.deepEqual(toolResult?.payload.result, {
+      topic: 'tides',
+      summary: [
+        '**Overview**: Tides are the rise and fall of sea levels.',
+        '- HIGH: The moon drives most of the tidal force.',
+        '- LOW: The sun adds a smaller, spring-and-neap cycle.',
+        'Related: lunar orbit, coastal erosion',
+        'Confidence: 80%',
+      ].join('\n'),
+      keyFindings: [
+        { point: 'The moon drives most of the tidal force.', importance: 'high' },
+        { point: 'The sun adds a smaller, spring-and-neap cycle.', importance: 'low' },
+      ],
+      relatedTopics: ['lunar orbit', 'coastal erosion'],
+      confidence: 0.8,
+    });
+
+    // The expert was prompted with the topic, and the script was played out
+    const expertPrompt = JSON.stringify(modelProvider.models[expertAgentId].calls[0].prompt);
+    assert.match(expertPrompt, /tides/);
+    assert.equal(modelProvider.models['research-bot'].remaining, 0);
+    assert.equal(modelProvider.models[expertAgentId].remaining, 0);
+  });
+
+  it('gives the expert agent the model provider set on the request', async () => {
+    const modelProvider = tidesScript();
+    const requestContext = new RequestContext();
+    requestContext.set(MODEL_PROVIDER_KEY, modelProvider);
+
+    const mastra = new Mastra({});
+    registerPlugins(mastra, [createResearchBotPlugin()]);
+    const result = await mastra.getAgent('research-bot').generate('Why are there tides?', { requestContext });
+
+    assert.equal(result.text, 'Tides follow the moon, with help from the sun.');
+    assert.equal(modelProvider.models[expertAgentId].remaining, 0);
+  });
+});
@@ -1,7 +1,16 @@
 // examples/research-bot/agents.ts
 import { Agent } from '@mastra/core/agent';
-import { researchBotConfig } from './config';
-import { deepResearchTool } from './tools';
+import { flaggedTools, pluginModel, promptRegistry } from '../core';
+import {
+  researchBotConfig,
+  expertAgentId,
+  resolveResearchBotOptions,
+  type ResearchBotOptions,
+} from './config';
+import { createDeepResearchTool, deepResearchTool } from './tools';
+import { expertInstructionsPrompt, researchBotInstructionsPrompt } from './prompts';
+
+const defaultOptions = resolveResearchBotOptions();
 
 /**
  * Expert Agent (Nested)
@@ -11,33 +20,23 @@ import { deepResearchTool } from './tools';
  * deepResearchTool to provide detailed analysis.
  *
  * IMPORTANT: This agent must be registered with Mastra for the nested
- * streaming pattern to work. The tool uses context.mastra.getAgent('expert-agent')
- * to retrieve it.
+ * streaming pattern to work. The tool uses context.mastra.getAgent(expertAgentId)
+ * to retrieve it, and the manifest declares it in `requires.agents`.
  */
-export const expertAgent = new Agent({
-  name: 'expert-agent',
-  instructions: `You are an expert analyst with deep knowledge across many domains.
-
-Your role is to provide thorough, well-structured analysis when consulted.
-
-Guidelines:
-- Think step by step, explaining your reasoning
-- Mark key findings with importance levels: HIGH, MEDIUM, or LOW
-- Identify connections to related topics
-- Be honest about your confidence level
-- Use clear formatting with headers and bullet points
+export function createExpertAgent(options: ResearchBotOptions) {
+  return new Agent({
+    id: expertAgentId,
+    name: expertAgentId,
+    instructions: options.expertInstructions ?? (() => promptRegistry.render(expertInstructionsPrompt)),
+    model: pluginModel(
+      options.expertModel,
+      { pluginId: researchBotConfig.id, agentId: expertAgentId },
+      options.modelProvider
+    ),
+  });
+}
 
-When analyzing, always consider:
-- Current state and context
-- Historical background
-- Future implications
-- Potential controversies or debates
-- Practical applications`,
-  model: {
-    provider: 'OPEN_AI',
-    name: 'gpt-5-mini',
-  },
-});
+export const expertAgent = createExpertAgent(defaultOptions);
 
 /**
  * Research Bot (Main Agent)
@@ -53,30 +52,26 @@ When analyzing, always consider:
  * 5. Tool returns structured findings
  * 6. Research Bot summarizes the results
  */
-export const researchBot = new Agent({
-  name: researchBotConfig.id,
-  instructions: `You are a research assistant that helps users explore topics in depth.
-
-When users ask you to research something:
-1. Use the deepResearch tool to analyze the topic
-2. The tool will consult an expert agent (users will see its thinking in real-time)
-3. Summarize the key findings in a clear, actionable way
-
-You can adjust research depth:
-- "quick" for brief overviews
-- "standard" for thorough analysis
-- "deep" for exhaustive investigation
+export function createResearchBotAgent(
+  options: ResearchBotOptions,
+  tool: ReturnType<typeof createDeepResearchTool> = createDeepResearchTool(options)
+) {
+  return new Agent({
+    id: researchBotConfig.id,
+    name: researchBotConfig.id,
+    instructions: options.instructions ?? (() => promptRegistry.render(researchBotInstructionsPrompt)),
+    model: pluginModel(
+      options.model,
+      { pluginId: researchBotConfig.id, agentId: researchBotConfig.id },
+      options.modelProvider
+    ),
+    tools: flaggedTools({
+      deepResearch: tool,
+    }),
+  });
+}
 
-Be conversational and helpful. Highlight the most important findings and
-suggest follow-up questions the user might want to explore.`,
-  model: {
-    provider: 'OPEN_AI',
-    name: 'gpt-5-mini',
-  },
-  tools: {
-    deepResearch: deepResearchTool,
-  },
-});
+export const researchBot = createResearchBotAgent(defaultOptions, deepResearchTool);
 
 // Also export with original names for backwards compatibility
 export const analysisAgent = expertAgent;
@@ -1,12 +1,95 @@
 // examples/research-bot/config.ts
 import { z } from 'zod';
+import { modelOptionsSchema, modelProviderSchema, parsePluginOptions } from '../core';
 
+/**
+ * Name the expert agent is registered under.
+ * deepResearchTool looks it up at runtime via context.mastra.getAgent().
+ */
+export const expertAgentId = 'expert-agent';
+
+/**
+ * Plugin Metadata
+ *
+ * Required for all plugins. Declares basic identity and which features
+ * the plugin provides. Implementations are supplied in index.ts.
+ */
 export const researchBotConfig = {
   id: 'research-bot',
   name: 'Research Bot',
   version: '1.0.0',
+  features: {
+    tools: true,
+    agents: true,
+    ui: true,
+    processors: false,
+    storage: false,
+  },
+
+  /**
+   * Runtime requirements, checked when the plugin is mounted.
+   * deepResearchTool cannot run without the expert agent.
+   */
+  requires: {
+    agents: [expertAgentId],
+  },
+
+  /**
+   * Feature flags, checked as `research-bot.<flag>`
+   * (e.g. `FLAG_RESEARCH_BOT_DEEP_RESEARCH=false`).
+   */
+  flags: {
+    'deep-research': {
+      description: 'Delegated research with the deepResearch tool',
+      default: true,
+      tools: ['deepResearch'],
+    },
+  },
+} as const;
+
+// =============================================================================
+// Plugin Options
+// =============================================================================
+
+/**
+ * Options for createResearchBotPlugin().
+ * Every field is optional; omitted fields fall back to the environment,
+ * then to the defaults below.
+ */
+export const researchBotOptionsSchema = z.object({
+  model: modelOptionsSchema('gpt-5-mini'),
+  expertModel: modelOptionsSchema('gpt-5-mini'),
+  modelProvider: modelProviderSchema.optional().describe('Resolves both models, e.g. to scripted models'),
+  instructions: z.string().min(1).optional().describe('Replaces the research bot instructions'),
+  expertInstructions: z.string().min(1).optional().describe('Replaces the expert agent instructions'),
+  limits: z
+    .object({
+      maxFindings: z.coerce.number().int().min(1).max(20).default(6),
+      maxRelatedTopics: z.coerce.number().int().min(0).max(20).default(4),
+    })
+    .prefault({}),
+  /** Confidence reported when the expert does not state one. */
+  defaultConfidence: z.coerce.number().min(0).max(1).default(0.7),
+});
+
+export type ResearchBotOptionsInput = z.input<typeof researchBotOptionsSchema>;
+export type ResearchBotOptions = z.output<typeof researchBotOptionsSchema>;
+
+/** Environment variables read when an option is not passed. */
+export const researchBotEnvOptions = {
+  'model.provider': 'RESEARCH_BOT_MODEL_PROVIDER',
+  'model.name': 'RESEARCH_BOT_MODEL',
+  'expertModel.provider': 'RESEARCH_BOT_EXPERT_MODEL_PROVIDER',
+  'expertModel.name': 'RESEARCH_BOT_EXPERT_MODEL',
+  'limits.maxFindings': 'RESEARCH_BOT_MAX_FINDINGS',
+  'limits.maxRelatedTopics': 'RESEARCH_BOT_MAX_RELATED_TOPICS',
+  defaultConfidence: 'RESEARCH_BOT_DEFAULT_CONFIDENCE',
 } as const;
 
+export function resolveResearchBotOptions(options?: ResearchBotOptionsInput): ResearchBotOptions {
+  return parsePluginOptions(researchBotConfig.id, researchBotOptionsSchema, options, researchBotEnvOptions);
+}
+
 // =============================================================================
 // Deep Research Tool Schemas
 // =============================================================================
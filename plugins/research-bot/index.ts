@@ -0,0 +1,153 @@
+// research-bot/index.ts
+// Main entry point for the research-bot plugin package
+
+/**
+ * Research Bot Plugin
+ *
+ * A publishable plugin package that provides:
+ * - Tools: Deep research with nested agent streaming
+ * - Agents: Research Bot (user-facing) + Expert Agent (called by the tool)
+ * - UI: Research card, expert thinking stream, phase indicators
+ * - Schemas: Typed input/output definitions
+ *
+ * @example
+ * ```typescript
+ * // Import the full plugin
+ * import researchBotPlugin from '@myorg/research-bot'
+ *
+ * // Or build one with your own options
+ * import { createResearchBotPlugin } from '@myorg/research-bot'
+ * const plugin = createResearchBotPlugin({ expertModel: { name: 'gpt-5' } })
+ *
+ * // Or import specific parts
+ * import { deepResearchTool } from '@myorg/research-bot/tools'
+ * import { ResearchBotDemo } from '@myorg/research-bot/ui'
+ * import type { ResearchOutput } from '@myorg/research-bot'
+ * ```
+ */
+
+import { definePlugin, type PluginAgent, type PluginTool } from '../core';
+import {
+  researchBotConfig,
+  expertAgentId,
+  resolveResearchBotOptions,
+  type ResearchBotOptionsInput,
+  researchInputSchema,
+  researchOutputSchema,
+  expertAnalysisSchema,
+} from './config';
+import { createDeepResearchTool, deepResearchTool } from './tools';
+import { createExpertAgent, createResearchBotAgent, researchBot, expertAgent } from './agents';
+import { researchBotPrompts } from './prompts';
+
+// =============================================================================
+// Plugin Definition
+// =============================================================================
+
+/**
+ * Plugin Manifest
+ *
+ * Supplies the implementations for the features declared in config.ts.
+ * Both agents are listed: deepResearchTool looks up 'expert-agent' at runtime.
+ */
+function defineResearchBotPlugin(parts: { tool: PluginTool; researchBot: PluginAgent; expertAgent: PluginAgent }) {
+  return definePlugin({
+    ...researchBotConfig,
+
+    tools: {
+      deepResearch: parts.tool,
+    },
+
+    agents: {
+      'research-bot': parts.researchBot,
+      [expertAgentId]: parts.expertAgent,
+    },
+
+    uiComponents: {
+      'tool-deepResearch': 'ResearchCard',
+      'data-tool-agent': 'ExpertThinking',
+      'data-custom': 'PhaseIndicator',
+    },
+
+    schemas: {
+      researchInput: researchInputSchema,
+      researchOutput: researchOutputSchema,
+      expertAnalysis: expertAnalysisSchema,
+    },
+
+    prompts: researchBotPrompts,
+  });
+}
+
+/**
+ * Create Research Bot Plugin
+ *
+ * Builds the plugin with its own tool and agents, configured by `options`.
+ * Options not passed fall back to `RESEARCH_BOT_*` environment variables,
+ * then to the defaults in researchBotOptionsSchema. Throws a
+ * `PluginOptionsError` when an option is invalid.
+ */
+export function createResearchBotPlugin(options: ResearchBotOptionsInput = {}) {
+  const resolved = resolveResearchBotOptions(options);
+  const tool = createDeepResearchTool(resolved);
+  return defineResearchBotPlugin({
+    tool,
+    researchBot: createResearchBotAgent(resolved, tool),
+    expertAgent: createExpertAgent(resolved),
+  });
+}
+
+/** The plugin built from the default exports (default options). */
+export const researchBotPlugin = defineResearchBotPlugin({ tool: deepResearchTool, researchBot, expertAgent });
+
+export type ResearchBotPlugin = typeof researchBotPlugin;
+
+// Plugin configuration (required)
+export { researchBotConfig, expertAgentId } from './config';
+
+// Options
+export {
+  researchBotOptionsSchema,
+  researchBotEnvOptions,
+  resolveResearchBotOptions,
+  type ResearchBotOptionsInput,
+  type ResearchBotOptions,
+} from './config';
+
+// Schemas and types
+export {
+  researchInputSchema,
+  researchOutputSchema,
+  expertAnalysisSchema,
+  type ResearchInput,
+  type ResearchOutput,
+  type ExpertAnalysis,
+} from './config';
+
+// Tools
+export { deepResearchTool, createDeepResearchTool } from './tools';
+
+// Agents
+export {
+  researchBot,
+  expertAgent,
+  createResearchBotAgent,
+  createExpertAgent,
+} from './agents';
+
+// Prompts
+export {
+  researchBotPrompts,
+  researchBotInstructionsPrompt,
+  expertInstructionsPrompt,
+  expertAnalysisPrompt,
+  depthGuidancePrompts,
+  importanceMarkersPartial,
+  analysisStructurePartial,
+} from './prompts';
+
+// UI components are exported from ui.tsx
+// import { ResearchBotDemo } from '@myorg/research-bot/ui'
+
+// Default export: the plugin manifest
+export default researchBotPlugin;
@@ -0,0 +1,133 @@
+// examples/research-bot/prompts.ts
+import { definePartial, definePrompt } from '../core';
+import type { ResearchInput } from './config';
+
+// =============================================================================
+// Partials
+// =============================================================================
+
+/**
+ * The importance markers parseAnalysis() looks for. Shared by the expert's
+ * instructions and the analysis prompt so both ask for the same format.
+ */
+export const importanceMarkersPartial = definePartial({
+  id: 'research-bot.importance-markers',
+  template: 'Mark key findings with importance levels: HIGH, MEDIUM, or LOW',
+});
+
+/**
+ * The sections the expert's analysis is parsed from.
+ */
+export const analysisStructurePartial = definePartial({
+  id: 'research-bot.analysis-structure',
+  template: `Structure your analysis as:
+1. **Overview**: What is this topic about?
+2. **Key Findings**: The most important points ({>research-bot.importance-markers})
+3. **Connections**: Related topics worth exploring
+4. **Confidence**: How confident are you in this analysis? (0-100%)`,
+  partials: [importanceMarkersPartial],
+});
+
+// =============================================================================
+// Agent Instructions
+// =============================================================================
+
+export const researchBotInstructionsPrompt = definePrompt({
+  id: 'research-bot.instructions',
+  version: '1.0.0',
+  description: 'System prompt for the user-facing research bot',
+  template: `You are a research assistant that helps users explore topics in depth.
+
+When users ask you to research something:
+1. Use the deepResearch tool to analyze the topic
+2. The tool will consult an expert agent (users will see its thinking in real-time)
+3. Summarize the key findings in a clear, actionable way
+
+You can adjust research depth:
+- "quick" for brief overviews
+- "standard" for thorough analysis
+- "deep" for exhaustive investigation
+
+Be conversational and helpful. Highlight the most important findings and
+suggest follow-up questions the user might want to explore.`,
+});
+
+export const expertInstructionsPrompt = definePrompt({
+  id: 'research-bot.expert-instructions',
+  version: '1.0.0',
+  description: 'System prompt for the nested expert agent',
+  partials: [importanceMarkersPartial],
+  template: `You are an expert analyst with deep knowledge across many domains.
+
+Your role is to provide thorough, well-structured analysis when consulted.
+
+Guidelines:
+- Think step by step, explaining your reasoning
+- {>research-bot.importance-markers}
+- Identify connections to related topics
+- Be honest about your confidence level
+- Use clear formatting with headers and bullet points
+
+When analyzing, always consider:
+- Current state and context
+- Historical background
+- Future implications
+- Potential controversies or debates
+- Practical applications`,
+});
+
+// =============================================================================
+// Deep Research
+// =============================================================================
+
+/**
+ * What each research depth asks of the expert, rendered into
+ * `{depthGuidance}` of the analysis prompt.
+ */
+export const depthGuidancePrompts = {
+  quick: definePrompt({
+    id: 'research-bot.depth-quick',
+    version: '1.0.0',
+    template: 'Provide a brief 2-3 sentence overview of the key points.',
+  }),
+  standard: definePrompt({
+    id: 'research-bot.depth-standard',
+    version: '1.0.0',
+    template: 'Analyze the topic thoroughly, covering main aspects and implications.',
+  }),
+  deep: definePrompt({
+    id: 'research-bot.depth-deep',
+    version: '1.0.0',
+    template:
+      'Conduct an exhaustive analysis covering all angles, historical context, current state, future implications, and potential controversies.',
+  }),
+} satisfies Record<ResearchInput['depth'], unknown>;
+
+/**
+ * The message deepResearchTool sends the expert agent.
+ */
+export const expertAnalysisPrompt = definePrompt({
+  id: 'research-bot.expert-analysis',
+  version: '1.0.0',
+  description: 'Request sent to the expert agent by deepResearch',
+  variables: ['topic', 'depth', 'depthGuidance'],
+  partials: [analysisStructurePartial],
+  template: `You are analyzing the topic: "{topic}"
+
+Research depth: {depth}
+{depthGuidance}
+
+{>research-bot.analysis-structure}
+
+Think step by step and be thorough.`,
+});
+
+/** Every prompt this plugin renders, keyed for the plugin's `prompts` record. */
+export const researchBotPrompts = {
+  instructions: researchBotInstructionsPrompt,
+  expertInstructions: expertInstructionsPrompt,
+  expertAnalysis: expertAnalysisPrompt,
+  depthQuick: depthGuidancePrompts.quick,
+  depthStandard: depthGuidancePrompts.standard,
+  depthDeep: depthGuidancePrompts.deep,
+};
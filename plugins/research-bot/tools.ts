@@ -1,6 +1,14 @@
 // examples/research-bot/tools.ts
 import { createTool } from '@mastra/core/tools';
-import { researchInputSchema, researchOutputSchema } from './config';
+import { promptRegistry } from '../core';
+import {
+  researchInputSchema,
+  researchOutputSchema,
+  expertAgentId,
+  resolveResearchBotOptions,
+  type ResearchBotOptions,
+} from './config';
+import { depthGuidancePrompts, expertAnalysisPrompt } from './prompts';
 
 /**
  * Deep Research Tool
@@ -14,124 +22,113 @@ import { researchInputSchema, researchOutputSchema } from './config';
  * 3. stream.fullStream.pipeTo(context.writer) - Pipe to UI
  * 4. context.writer.custom() - Emit progress events
  */
-export const deepResearchTool = createTool({
-  id: 'deepResearch',
-  description: `Perform deep research on a topic by consulting an expert analysis agent.
-    The expert's thinking is streamed to the UI in real-time, creating a "thinking out loud" experience.
-    Returns structured findings with importance rankings.`,
-  inputSchema: researchInputSchema,
-  outputSchema: researchOutputSchema,
-  execute: async ({ input, context }) => {
-    const { topic, depth } = input;
-
-    // ==========================================================================
-    // Step 1: Emit a custom event to show research started
-    // ==========================================================================
-    await context?.writer?.custom({
-      type: 'research-phase',
-      data: {
-        phase: 'starting',
+export function createDeepResearchTool(options: ResearchBotOptions) {
+  return createTool({
+    id: 'deepResearch',
+    description: `Perform deep research on a topic by consulting an expert analysis agent.
+      The expert's thinking is streamed to the UI in real-time, creating a "thinking out loud" experience.
+      Returns structured findings with importance rankings.`,
+    inputSchema: researchInputSchema,
+    outputSchema: researchOutputSchema,
+    execute: async (input, context) => {
+      const { topic, depth } = input;
+
+      // ==========================================================================
+      // Step 1: Emit a custom event to show research started
+      // ==========================================================================
+      await context?.writer?.custom({
+        type: 'research-phase',
+        data: {
+          phase: 'starting',
+          topic,
+          depth,
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      // ==========================================================================
+      // Step 2: Get the expert agent from the Mastra registry
+      // ==========================================================================
+      const expertAgent = context?.mastra?.getAgent(expertAgentId);
+
+      if (!expertAgent) {
+        throw new Error(`Expert agent "${expertAgentId}" not available. Register the research-bot plugin with registerPlugins().`);
+      }
+
+      // ==========================================================================
+      // Step 3: Build a prompt based on research depth
+      // ==========================================================================
+      const expertPrompt = promptRegistry.render(expertAnalysisPrompt, {
         topic,
         depth,
-        timestamp: new Date().toISOString(),
-      },
-    });
+        depthGuidance: promptRegistry.render(depthGuidancePrompts[depth]),
+      });
+
+      // ==========================================================================
+      // Step 4: Stream the expert agent's response
+      // This creates `data-tool-agent` parts in the message that the UI can render
+      // ==========================================================================
+      await context?.writer?.custom({
+        type: 'research-phase',
+        data: {
+          phase: 'analyzing',
+          message: 'Expert agent is thinking...',
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      // Pass the request context on, so the expert sees the same per-request
+      // model provider and flags as the agent that called this tool
+      const stream = await expertAgent.stream(expertPrompt, { requestContext: context?.requestContext });
+
+      // ==========================================================================
+      // Step 5: Pipe the stream to the UI
+      // This is the KEY PATTERN - the agent's thinking appears in real-time
+      // ==========================================================================
+      if (context?.writer) {
+        await stream.fullStream.pipeTo(context.writer);
+      }
 
-    // ==========================================================================
-    // Step 2: Get the expert agent from the Mastra registry
-    // ==========================================================================
-    const expertAgent = context?.mastra?.getAgent('expert-agent');
+      // Get the final text after streaming completes
+      const analysisText = await stream.text;
 
-    if (!expertAgent) {
-      throw new Error('Expert agent not available. Make sure it is registered with Mastra.');
-    }
+      // ==========================================================================
+      // Step 6: Parse the analysis into structured output
+      // ==========================================================================
+      await context?.writer?.custom({
+        type: 'research-phase',
+        data: {
+          phase: 'complete',
+          timestamp: new Date().toISOString(),
+        },
+      });
 
-    // ==========================================================================
-    // Step 3: Build a prompt based on research depth
-    // ==========================================================================
-    const depthPrompts = {
-      quick: 'Provide a brief 2-3 sentence overview of the key points.',
-      standard: 'Analyze the topic thoroughly, covering main aspects and implications.',
-      deep: 'Conduct an exhaustive analysis covering all angles, historical context, current state, future implications, and potential controversies.',
-    };
-
-    const expertPrompt = `
-You are analyzing the topic: "${topic}"
-
-Research depth: ${depth}
-${depthPrompts[depth]}
-
-Structure your analysis as:
-1. **Overview**: What is this topic about?
-2. **Key Findings**: The most important points (mark each as HIGH/MEDIUM/LOW importance)
-3. **Connections**: Related topics worth exploring
-4. **Confidence**: How confident are you in this analysis? (0-100%)
-
-Think step by step and be thorough.
-    `.trim();
-
-    // ==========================================================================
-    // Step 4: Stream the expert agent's response
-    // This creates `data-tool-agent` parts in the message that the UI can render
-    // ==========================================================================
-    await context?.writer?.custom({
-      type: 'research-phase',
-      data: {
-        phase: 'analyzing',
-        message: 'Expert agent is thinking...',
-        timestamp: new Date().toISOString(),
-      },
-    });
-
-    const stream = await expertAgent.stream({
-      messages: [{ role: 'user', content: expertPrompt }],
-    });
-
-    // ==========================================================================
-    // Step 5: Pipe the stream to the UI
-    // This is the KEY PATTERN - the agent's thinking appears in real-time
-    // ==========================================================================
-    if (context?.writer) {
-      await stream.fullStream.pipeTo(context.writer);
-    }
+      const { findings, relatedTopics, confidence } = parseAnalysis(analysisText, options);
+
+      return {
+        topic,
+        summary: analysisText,
+        keyFindings: findings,
+        relatedTopics,
+        confidence,
+      };
+    },
+  });
+}
 
-    // Get the final text after streaming completes
-    const analysisText = await stream.text;
-
-    // ==========================================================================
-    // Step 6: Parse the analysis into structured output
-    // ==========================================================================
-    await context?.writer?.custom({
-      type: 'research-phase',
-      data: {
-        phase: 'complete',
-        timestamp: new Date().toISOString(),
-      },
-    });
-
-    const { findings, relatedTopics, confidence } = parseAnalysis(analysisText);
-
-    return {
-      topic,
-      summary: analysisText,
-      keyFindings: findings,
-      relatedTopics,
-      confidence,
-    };
-  },
-});
+export const deepResearchTool = createDeepResearchTool(resolveResearchBotOptions());
 
 /**
  * Parse the expert's analysis text into structured data
  */
-function parseAnalysis(text: string): {
+function parseAnalysis(text: string, { limits, defaultConfidence }: ResearchBotOptions): {
   findings: Array<{ point: string; importance: 'high' | 'medium' | 'low' }>;
   relatedTopics: string[];
   confidence: number;
 } {
   const findings: Array<{ point: string; importance: 'high' | 'medium' | 'low' }> = [];
   const relatedTopics: string[] = [];
-  let confidence = 0.7; // Default confidence
+  let confidence = defaultConfidence;
 
   const lines = text.split('\n');
 
@@ -180,8 +177,8 @@ function parseAnalysis(text: string): {
   }
 
   return {
-    findings: findings.slice(0, 6),
-    relatedTopics: [...new Set(relatedTopics)].slice(0, 4),
+    findings: findings.slice(0, limits.maxFindings),
+    relatedTopics: [...new Set(relatedTopics)].slice(0, limits.maxRelatedTopics),
     confidence: Math.max(0, Math.min(1, confidence)),
   };
 }
@@ -6,13 +6,13 @@ import { useChat } from '@ai-sdk/react';
 import { DefaultChatTransport } from 'ai';
 import type { ResearchOutput } from './config';
 
-const MASTRA_BASE_URL = process.env.NEXT_PUBLIC_MASTRA_URL || 'http://localhost:4111';
+const DEFAULT_MASTRA_URL = process.env.NEXT_PUBLIC_MASTRA_URL || 'http://localhost:4111';
 
 // =============================================================================
 // Research Findings Card
 // =============================================================================
 
-function ResearchCard({ data }: { data: ResearchOutput }) {
+export function ResearchCard({ data }: { data: ResearchOutput }) {
   const importanceColors = {
     high: 'bg-red-100 text-red-800 border-red-200',
     medium: 'bg-yellow-100 text-yellow-800 border-yellow-200',
@@ -74,7 +74,7 @@ function ResearchCard({ data }: { data: ResearchOutput }) {
 // Expert Agent Thinking Stream
 // =============================================================================
 
-function ExpertThinking({ content }: { content: string }) {
+export function ExpertThinking({ content }: { content: string }) {
   return (
     <div className="rounded-xl border border-purple-200 bg-gradient-to-br from-purple-50 to-fuchsia-50 p-4">
       <div className="flex items-center gap-2 text-purple-700">
@@ -95,7 +95,7 @@ function ExpertThinking({ content }: { content: string }) {
 // Research Phase Indicator
 // =============================================================================
 
-function PhaseIndicator({ phase, data }: { phase: string; data: Record<string, unknown> }) {
+export function PhaseIndicator({ phase, data }: { phase: string; data: Record<string, unknown> }) {
   const phaseConfig: Record<string, { icon: string; bg: string; text: string }> = {
     starting: { icon: '🚀', bg: 'bg-blue-100', text: 'text-blue-700' },
     analyzing: { icon: '🔍', bg: 'bg-purple-100', text: 'text-purple-700' },
@@ -138,12 +138,12 @@ function PhaseIndicator({ phase, data }: { phase: string; data: Record<string, u
  * - `data-custom`: Progress events (phase indicators)
  * - `tool-deepResearch`: Final structured output (research card)
  */
-export function ResearchBotDemo() {
+export function ResearchBotDemo({ mastraUrl = DEFAULT_MASTRA_URL }: { mastraUrl?: string } = {}) {
   const [input, setInput] = useState('');
 
   const { messages, sendMessage, status } = useChat({
     transport: new DefaultChatTransport({
-      api: `${MASTRA_BASE_URL}/api/agents/research-bot/chat`,
+      api: `${mastraUrl}/api/agents/research-bot/chat`,
     }),
     maxSteps: 3,
   });
@@ -1,7 +1,9 @@
 // examples/trip-planner/agent.ts
 import { Agent } from '@mastra/core/agent';
-import { tripPlannerConfig } from './config';
-import { weatherTool, placesTool, geojsonTool } from './tools';
+import { flaggedTools, pluginModel, promptRegistry } from '../core';
+import { tripPlannerConfig, resolveTripPlannerOptions, type TripPlannerOptions } from './config';
+import { createTripPlannerTools, tripPlannerTools, type TripPlannerTools } from './tools';
+import { tripPlannerInstructionsPrompt } from './prompts';
 
 /**
  * Trip Planner Agent
@@ -9,48 +11,36 @@ import { weatherTool, placesTool, geojsonTool } from './tools';
  * A travel assistant that helps plan trips using multiple tools.
  * Demonstrates: Multi-tool agent with coordinated tool usage.
  */
-export const tripPlannerAgent = new Agent({
-  name: tripPlannerConfig.id,
-  instructions: `You are an enthusiastic travel assistant that helps people plan amazing trips.
-
-You have access to three powerful tools:
-
-1. **getWeather** - Check current weather and 3-day forecast for any destination
-2. **findPlaces** - Discover attractions, restaurants, hotels, and activities
-3. **generateMap** - Create an interactive map with points of interest viewable on geojson.io
-
-## How to help users:
-
-**For destination questions:**
-- Use getWeather to check conditions
-- Use findPlaces to suggest things to do
-- Combine information to give comprehensive advice
-
-**For trip planning:**
-- Ask about their travel dates and interests
-- Check weather for the destination
-- Recommend places based on their preferences
-- Generate a map showing key locations
-
-**For mapping help:**
-- Gather points of interest with their coordinates
-- Use generateMap to create an interactive visualization
-- The map link opens in geojson.io for easy viewing and sharing
-
-## Style guidelines:
-- Be friendly and excited about travel
-- Give specific, actionable recommendations
-- Use the tool outputs to provide rich details
-- Organize information clearly (weather, places, packing)
-
-Remember: You can use multiple tools in sequence to give comprehensive answers!`,
-  model: {
-    provider: 'OPEN_AI',
-    name: 'gpt-5-mini',
-  },
-  tools: {
-    getWeather: weatherTool,
-    findPlaces: placesTool,
-    generateMap: geojsonTool,
-  },
-});
+export function createTripPlannerAgent(
+  options: TripPlannerOptions,
+  tools: TripPlannerTools = createTripPlannerTools(options)
+) {
+  return new Agent({
+    id: tripPlannerConfig.id,
+    name: tripPlannerConfig.id,
+    // Rendered per request, so prompt overrides set after startup apply
+    instructions: options.instructions ?? (() => promptRegistry.render(tripPlannerInstructionsPrompt)),
+    model: pluginModel(
+      options.model,
+      { pluginId: tripPlannerConfig.id, agentId: tripPlannerConfig.id },
+      options.modelProvider
+    ),
+    tools: flaggedTools({
+      getWeather: tools.weatherTool,
+      findPlaces: tools.placesTool,
+      geocode: tools.geocodeTool,
+      reverseGeocode: tools.reverseGeocodeTool,
+      generateMap: tools.geojsonTool,
+      buildItinerary: tools.itineraryTool,
+      computeDistances: tools.distancesTool,
+      generatePackingList: tools.packingTool,
+      estimateBudget: tools.budgetTool,
+      saveTrip: tools.saveTripTool,
+      listTrips: tools.listTripsTool,
+      loadTrip: tools.loadTripTool,
+      updateTrip: tools.updateTripTool,
+    }),
+  });
+}
+
+export const tripPlannerAgent = createTripPlannerAgent(resolveTripPlannerOptions(), tripPlannerTools);
@@ -0,0 +1,126 @@
+// examples/trip-planner/budget.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PluginOptionsError } from '../core';
+import { BudgetError, estimateBudget, findDestinationCosts, loadCostTable } from './budget';
+import { budgetInputSchema, resolveTripPlannerOptions, type CostTable, type DestinationCosts } from './config';
+import { costTable } from './fixtures/costs';
+
+const lisbon: DestinationCosts = {
+  location: 'Lisbon',
+  currency: 'EUR',
+  meal: { $: 10, $$: 20, $$$: 40, $$$$: 80 },
+  hotel: { $: 50, $$: 100, $$$: 200, $$$$: 400 },
+  activity: { $: 5, $$: 15, $$$: 30, $$$$: 60 },
+  transportPerDay: 6,
+};
+
+const table: CostTable = { lisbon, default: { ...lisbon, location: 'Anywhere', currency: 'USD' } };
+
+function estimate(input: Record<string, unknown>, costs = table) {
+  return estimateBudget(budgetInputSchema.parse({ location: 'Lisbon, Portugal', ...input }), costs);
+}
+
+describe('estimateBudget', () => {
+  const places = [
+    { name: 'Hotel Avenida', category: 'hotels', priceLevel: '$$$' },
+    { name: 'Tasca', category: 'restaurants', priceLevel: '$', day: 1 },
+    { name: 'Belém Tower', category: 'attractions' },
+    { name: 'Gardens', category: 'attractions', priceLevel: 'Free', day: 2 },
+    { name: 'Fado House', category: 'activities', priceLevel: '$$$' },
+  ];
+
+  it('prices the hotel, meals, sights and transport for everyone', () => {
+    const output = estimate({ nights: 2, travellers: 3, places });
+
+    assert.equal(output.rooms, 2);
+    assert.deepEqual(
+      output.categories.map(({ category, amount, items }) => [category, amount, items.map(item => `${item.name} ${item.quantity}×${item.unitCost}`)]),
+      [
+        ['accommodation', 800, ['Hotel Avenida 4×200']],
+        ['food', 330, ['Tasca 3×10', 'Other meals 15×20']],
+        ['activities', 135, ['Belém Tower 3×15', 'Gardens 3×0', 'Fado House 3×30']],
+        ['transport', 54, ['Local transport 9×6']],
+      ]
+    );
+    assert.deepEqual([output.currency, output.total, output.perPerson, output.perDay], ['EUR', 1319, 440, 440]);
+    assert.deepEqual(output.categories[2].items.map(item => item.estimated), [true, false, false]);
+  });
+
+  it('breaks the total down by day, spreading places without one over the trip', () => {
+    const output = estimate({ nights: 2, travellers: 3, places });
+
+    assert.deepEqual(
+      output.days.map(day => [day.day, day.amount, day.byCategory]),
+      [
+        [1, 553, { accommodation: 400, food: 90, activities: 45, transport: 18 }],
+        [2, 628, { accommodation: 400, food: 120, activities: 90, transport: 18 }],
+        [3, 138, { accommodation: 0, food: 120, activities: 0, transport: 18 }],
+      ]
+    );
+  });
+
+  it('states the assumptions behind the estimate', () => {
+    assert.deepEqual(estimate({ nights: 2, travellers: 3, places }).assumptions, [
+      'Typical Lisbon prices, in EUR',
+      '2 rooms for 2 nights',
+      '2 meals out a day; meals not among the places at $$',
+      '1 place has no price level and is priced at $$',
+      'Travel to and from Lisbon, Portugal is not included',
+    ]);
+    assert.deepEqual(estimate({ location: 'Porto', nights: 0, style: '$' }).assumptions, [
+      'No prices for Porto; using typical prices in USD',
+      'No accommodation: a day trip',
+      '2 meals out a day; meals not among the places at $',
+      'Travel to and from Porto is not included',
+    ]);
+  });
+
+  it('prices a hotel at the trip style when none is among the places', () => {
+    const [hotel] = estimate({ nights: 1, style: '$$$$' }).categories[0].items;
+    assert.deepEqual(hotel, { name: 'Hotel', priceLevel: '$$$$', unitCost: 400, quantity: 1, amount: 400, estimated: true });
+  });
+});
+
+describe('findDestinationCosts', () => {
+  it('matches the city case-insensitively and falls back to default', () => {
+    assert.deepEqual(findDestinationCosts(table, 'LISBON, Portugal'), { costs: lisbon, fallback: false });
+    assert.equal(findDestinationCosts(table, 'Porto').fallback, true);
+  });
+
+  it('fails without a default entry, naming the destinations it has', () => {
+    assert.throws(
+      () => findDestinationCosts({ lisbon }, 'Porto'),
+      (error: unknown) => {
+        assert.ok(error instanceof BudgetError);
+        assert.deepEqual(error.issues, ['not in the cost table (have: Lisbon), and it has no "default" entry']);
+        return true;
+      }
+    );
+  });
+});
+
+describe('loadCostTable', () => {
+  it('uses the costs file, then the costs option, then the bundled table', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'trip-costs-'));
+    try {
+      const file = join(dir, 'costs.json');
+      writeFileSync(file, JSON.stringify({ lisbon }));
+      assert.deepEqual(loadCostTable(resolveTripPlannerOptions({ budget: { costsFile: file, costs: table } })), { lisbon });
+      assert.deepEqual(loadCostTable(resolveTripPlannerOptions({ budget: { costs: table } })), table);
+      assert.equal(loadCostTable(resolveTripPlannerOptions({})), costTable);
+
+      writeFileSync(file, JSON.stringify({ lisbon: { ...lisbon, currency: 'euro' } }));
+      assert.throws(() => loadCostTable(resolveTripPlannerOptions({ budget: { costsFile: file } })), (error: unknown) => {
+        assert.ok(error instanceof PluginOptionsError);
+        assert.deepEqual(error.issues, [`budget.costsFile ${file}: lisbon.currency: Expected an ISO 4217 code like "EUR"`]);
+        return true;
+      });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
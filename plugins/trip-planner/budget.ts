@@ -0,0 +1,216 @@
+// examples/trip-planner/budget.ts
+import { readFileSync } from 'node:fs';
+import { PluginOptionsError } from '../core';
+import {
+  budgetCategorySchema,
+  costTableSchema,
+  tripPlannerConfig,
+  type BudgetCategory,
+  type BudgetInput,
+  type BudgetItem,
+  type BudgetOutput,
+  type CostTable,
+  type DestinationCosts,
+  type PriceLevel,
+  type TripPlannerOptions,
+} from './config';
+import { costTable } from './fixtures/costs';
+
+/**
+ * Thrown when the cost table has no prices for a destination and no
+ * `default` entry to fall back on.
+ */
+export class BudgetError extends Error {
+  constructor(
+    public readonly location: string,
+    public readonly issues: string[]
+  ) {
+    super(`Cannot estimate a budget for "${location}":\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'BudgetError';
+  }
+}
+
+// =============================================================================
+// Cost Table
+// =============================================================================
+
+/**
+ * The cost table estimateBudget uses: a JSON `budget.costsFile` (read once,
+ * and checked like the `budget.costs` option), the `budget.costs` option,
+ * or the bundled table.
+ */
+export function loadCostTable({ budget }: TripPlannerOptions): CostTable {
+  if (!budget.costsFile) return budget.costs ?? costTable;
+
+  const parsed = costTableSchema.safeParse(JSON.parse(readFileSync(budget.costsFile, 'utf8')));
+  if (!parsed.success) {
+    throw new PluginOptionsError(
+      tripPlannerConfig.id,
+      parsed.error.issues.map(issue => `budget.costsFile ${budget.costsFile}: ${issue.path.join('.')}: ${issue.message}`)
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Prices for a location. Matches case-insensitively on the part before the
+ * first comma, like the places dataset, then falls back to `default`.
+ */
+export function findDestinationCosts(table: CostTable, location: string): { costs: DestinationCosts; fallback: boolean } {
+  const key = location.split(',')[0].trim().toLowerCase();
+  const entries = new Map(Object.entries(table).map(([name, costs]) => [name.toLowerCase(), costs]));
+  const costs = entries.get(key);
+  if (costs) return { costs, fallback: false };
+
+  const fallback = entries.get('default');
+  if (!fallback) {
+    throw new BudgetError(location, [
+      `not in the cost table (have: ${[...entries.values()].map(entry => entry.location).join(', ')}), and it has no "default" entry`,
+    ]);
+  }
+  return { costs: fallback, fallback: true };
+}
+
+// =============================================================================
+// Estimate
+// =============================================================================
+
+/**
+ * Estimate Budget
+ *
+ * Prices a trip from the places' price levels:
+ * - accommodation: the first hotel among the places (or one at `style`),
+ *   per room per night
+ * - food: each restaurant among the places is one meal for everyone; the
+ *   rest of the `mealsPerDay` are priced at `style`
+ * - activities: each attraction and activity, per person; `Free` costs nothing
+ * - transport: local transport per person per day
+ *
+ * Places without a price level are priced at `style` and marked
+ * `estimated`. For the per-day breakdown, places without a `day` are
+ * spread over the trip in order, and hotel nights fall on every day but
+ * the last.
+ */
+export function estimateBudget(input: BudgetInput, table: CostTable): BudgetOutput {
+  const { location, nights, travellers, style, mealsPerDay, places } = input;
+  const { costs, fallback } = findDestinationCosts(table, location);
+  const { currency } = costs;
+  const days = nights + 1;
+  const rooms = input.rooms ?? Math.ceil(travellers / 2);
+
+  const items: Record<BudgetCategory, BudgetItem[]> = { accommodation: [], food: [], activities: [], transport: [] };
+  const byDay = Array.from({ length: days }, () => ({ accommodation: 0, food: 0, activities: 0, transport: 0 }));
+  const unitCost = (tiers: DestinationCosts['meal'], level: PriceLevel) => (level === 'Free' ? 0 : tiers[level]);
+
+  // Places without a day are spread over the trip, in order
+  let nextDay = 0;
+  const dayFor = (day: number | undefined) => (day !== undefined ? Math.min(day, days) : (nextDay++ % days) + 1);
+
+  // Accommodation
+  const hotel = places.find(place => place.category === 'hotels');
+  if (nights > 0) {
+    const priceLevel = hotel?.priceLevel ?? style;
+    const perRoom = unitCost(costs.hotel, priceLevel);
+    items.accommodation.push({
+      name: hotel?.name ?? 'Hotel',
+      priceLevel,
+      unitCost: perRoom,
+      quantity: rooms * nights,
+      amount: Math.round(perRoom * rooms * nights),
+      estimated: hotel?.priceLevel === undefined,
+    });
+    for (let night = 0; night < nights; night++) byDay[night].accommodation += perRoom * rooms;
+  }
+
+  // Restaurants and sights among the places
+  const mealsByDay = new Array<number>(days).fill(0);
+  for (const place of places) {
+    if (place.category === 'hotels') continue;
+    const category: BudgetCategory = place.category === 'restaurants' ? 'food' : 'activities';
+    const priceLevel = place.priceLevel ?? style;
+    const unit = unitCost(category === 'food' ? costs.meal : costs.activity, priceLevel);
+    const day = dayFor(place.day);
+
+    items[category].push({
+      name: place.name,
+      day: place.day,
+      priceLevel,
+      unitCost: unit,
+      quantity: travellers,
+      amount: Math.round(unit * travellers),
+      estimated: place.priceLevel === undefined,
+    });
+    byDay[day - 1][category] += unit * travellers;
+    if (category === 'food') mealsByDay[day - 1]++;
+  }
+
+  // The rest of each day's meals
+  const otherMeals = mealsByDay.reduce((total, meals) => total + Math.max(mealsPerDay - meals, 0), 0);
+  if (otherMeals > 0) {
+    const unit = unitCost(costs.meal, style);
+    items.food.push({
+      name: 'Other meals',
+      priceLevel: style,
+      unitCost: unit,
+      quantity: otherMeals * travellers,
+      amount: Math.round(unit * otherMeals * travellers),
+      estimated: true,
+    });
+    mealsByDay.forEach((meals, day) => (byDay[day].food += Math.max(mealsPerDay - meals, 0) * unit * travellers));
+  }
+
+  // Transport
+  items.transport.push({
+    name: 'Local transport',
+    unitCost: costs.transportPerDay,
+    quantity: travellers * days,
+    amount: Math.round(costs.transportPerDay * travellers * days),
+    estimated: false,
+  });
+  byDay.forEach(day => (day.transport += costs.transportPerDay * travellers));
+
+  const categories = budgetCategorySchema.options
+    .filter(category => items[category].length > 0)
+    .map(category => ({
+      category,
+      amount: items[category].reduce((total, item) => total + item.amount, 0),
+      items: items[category],
+    }));
+  const total = categories.reduce((sum, category) => sum + category.amount, 0);
+
+  const unpriced = places.filter(place => place.category !== 'hotels' && place.priceLevel === undefined).length;
+  const assumptions = [
+    fallback
+      ? `No prices for ${location}; using typical prices in ${currency}`
+      : `Typical ${costs.location} prices, in ${currency}`,
+    nights > 0
+      ? `${rooms} ${rooms === 1 ? 'room' : 'rooms'} for ${nights} ${nights === 1 ? 'night' : 'nights'}${hotel ? '' : ` at a ${style} hotel`}`
+      : 'No accommodation: a day trip',
+    `${mealsPerDay} meals out a day; meals not among the places at ${style}`,
+    ...(unpriced > 0 ? [`${unpriced} ${unpriced === 1 ? 'place has' : 'places have'} no price level and ${unpriced === 1 ? 'is' : 'are'} priced at ${style}`] : []),
+    `Travel to and from ${location} is not included`,
+  ];
+
+  return {
+    location,
+    currency,
+    nights,
+    travellers,
+    rooms,
+    total,
+    perPerson: Math.round(total / travellers),
+    perDay: Math.round(total / days),
+    categories,
+    days: byDay.map((amounts, index) => ({
+      day: index + 1,
+      amount: Math.round(amounts.accommodation + amounts.food + amounts.activities + amounts.transport),
+      byCategory: {
+        accommodation: Math.round(amounts.accommodation),
+        food: Math.round(amounts.food),
+        activities: Math.round(amounts.activities),
+        transport: Math.round(amounts.transport),
+      },
+    })),
+    assumptions,
+  };
+}
@@ -1,23 +1,225 @@
 // examples/trip-planner/config.ts
 import { z } from 'zod';
+import { listOptionSchema, modelOptionsSchema, modelProviderSchema, parsePluginOptions } from '../core';
+import type { GeocodingProvider } from './geocoding';
+import type { PlacesProvider } from './places';
+import type { TripStore } from './trips';
+import type { WeatherProvider } from './weather';
 
 /**
  * Plugin Metadata
  *
- * Required for all plugins. Declares basic identity.
+ * Required for all plugins. Declares basic identity and which features
+ * the plugin provides. Implementations are supplied in index.ts.
  */
 export const tripPlannerConfig = {
   id: 'trip-planner',
   name: 'Trip Planner Plugin',
   version: '1.0.0',
+  features: {
+    tools: true,
+    agents: true,
+    ui: true,
+    processors: false,
+    storage: true,
+  },
+
+  /**
+   * Feature flags, checked as `trip-planner.<flag>`
+   * (e.g. `FLAG_TRIP_PLANNER_MAPS=false`).
+   */
+  flags: {
+    maps: {
+      description: 'Map generation with the generateMap tool',
+      default: true,
+      tools: ['generateMap'],
+    },
+  },
+} as const;
+
+// =============================================================================
+// Plugin Options
+// =============================================================================
+
+/**
+ * The longest date range getWeather accepts, in days: what wttr.in's `j1`
+ * format covers (today and the next two days).
+ */
+export const MAX_FORECAST_DAYS = 3;
+
+/** Built-in weather providers, by the name used in options and env vars. */
+export const weatherProviderNameSchema = z.enum(['wttr', 'fixture']);
+
+/** Built-in geocoding providers, by the name used in options and env vars. */
+export const geocodingProviderNameSchema = z.enum(['gazetteer', 'nominatim']);
+
+/**
+ * Options for createTripPlannerPlugin().
+ * Every field is optional; omitted fields fall back to the environment,
+ * then to the defaults below.
+ */
+export const tripPlannerOptionsSchema = z.object({
+  model: modelOptionsSchema('gpt-5-mini'),
+  modelProvider: modelProviderSchema.optional().describe('Resolves `model` for this plugin, e.g. a scripted model'),
+  instructions: z.string().min(1).optional().describe('Replaces the agent instructions'),
+  weatherProvider: z
+    .custom<WeatherProvider>(value => typeof (value as WeatherProvider | undefined)?.getWeather === 'function', 'Weather provider must have a getWeather() method')
+    .optional()
+    .describe('Replaces the `weather.providers` chain'),
+  weather: z
+    .object({
+      providers: listOptionSchema(weatherProviderNameSchema, { min: 1 })
+        .default(['wttr'])
+        .describe('Providers tried in order; later ones are fallbacks. `fixture` serves sample data, for tests and offline development'),
+      fixturesFile: z.string().min(1).optional().describe('JSON file for the fixture provider'),
+      timeoutMs: z.coerce.number().int().min(100).max(60_000).default(5_000)
+        .describe('Per-request timeout for wttr.in'),
+      retries: z.coerce.number().int().min(0).max(5).default(2)
+        .describe('Retries after a timeout, rate limit or outage'),
+    })
+    .prefault({}),
+  placesProvider: z
+    .custom<PlacesProvider>(value => typeof (value as PlacesProvider | undefined)?.findPlaces === 'function', 'Places provider must have a findPlaces() method')
+    .optional()
+    .describe('Replaces the bundled offline places dataset'),
+  places: z
+    .object({
+      datasetFile: z.string().min(1).optional().describe('JSON file replacing the bundled places dataset'),
+    })
+    .prefault({}),
+  geocodingProvider: z
+    .custom<GeocodingProvider>(value => typeof (value as GeocodingProvider | undefined)?.geocode === 'function', 'Geocoding provider must have a geocode() method')
+    .optional()
+    .describe('Replaces the `geocoding.providers` chain'),
+  geocoding: z
+    .object({
+      providers: listOptionSchema(geocodingProviderNameSchema, { min: 1 })
+        .default(['gazetteer'])
+        .describe('Providers tried in order until one finds a match'),
+      gazetteerFile: z.string().min(1).optional().describe('JSON file replacing the bundled gazetteer'),
+    })
+    .prefault({}),
+  budget: z
+    .object({
+      // Defined with the budget schemas below
+      costs: z.lazy(() => costTableSchema).optional().describe('Cost table replacing the bundled one'),
+      costsFile: z.string().min(1).optional().describe('JSON cost table replacing the bundled one'),
+    })
+    .prefault({}),
+  tripStore: z
+    .custom<TripStore>(value => typeof (value as TripStore | undefined)?.saveTrip === 'function', 'Trip store must have a saveTrip() method')
+    .optional()
+    .describe('Replaces the LibSQL store at `storage.url`'),
+  storage: z
+    .object({
+      url: z.string().min(1).optional()
+        .describe('LibSQL database for saved trips, e.g. "file:./trips.db" or "libsql://my-db.turso.io"; saved trips are off without it or `tripStore`'),
+      authToken: z.string().min(1).optional().describe('Token for a remote LibSQL (Turso) database'),
+    })
+    .prefault({}),
+  travel: z
+    .object({
+      walkKmh: z.coerce.number().min(1).max(10).default(4.5),
+      transitKmh: z.coerce.number().min(5).max(100).default(18)
+        .describe('Door-to-door public transport speed, including waits'),
+      driveKmh: z.coerce.number().min(5).max(130).default(25)
+        .describe('City driving speed, including traffic and parking'),
+      detourFactor: z.coerce.number().min(1).max(3).default(1.3)
+        .describe('Straight-line distances are multiplied by this for travel times, as streets are not straight'),
+      maxWalkMinutes: z.coerce.number().int().min(0).max(120).default(20)
+        .describe('Longer legs are suggested by transit'),
+    })
+    .prefault({}),
+  endpoints: z
+    .object({
+      weather: z.url().default('https://wttr.in'),
+      geocoding: z.url().default('https://nominatim.openstreetmap.org'),
+      mapViewer: z.url().default('https://geojson.io'),
+    })
+    .prefault({}),
+  limits: z
+    .object({
+      forecastDays: z.coerce.number().int().min(1).max(MAX_FORECAST_DAYS).default(3)
+        .describe('Forecast length when getWeather is not given an end date'),
+      maxPlaces: z.coerce.number().int().min(1).max(20).default(5),
+      mapOutlierKm: z.coerce.number().min(1).max(20_000).default(150)
+        .describe('generateMap flags points farther than this from the map location'),
+      itineraryDays: z.coerce.number().int().min(1).max(30).default(14)
+        .describe('Longest trip buildItinerary will plan'),
+      maxDistancePoints: z.coerce.number().int().min(2).max(100).default(25)
+        .describe('Most points computeDistances accepts'),
+      laundryDays: z.coerce.number().int().min(1).max(30).default(7)
+        .describe('generatePackingList counts clothes for at most this many days, assuming laundry on longer trips'),
+      maxTrips: z.coerce.number().int().min(1).max(100).default(20)
+        .describe('Most saved trips listTrips returns per page'),
+    })
+    .prefault({}),
+});
+
+export type TripPlannerOptionsInput = z.input<typeof tripPlannerOptionsSchema>;
+export type TripPlannerOptions = z.output<typeof tripPlannerOptionsSchema>;
+
+/** Environment variables read when an option is not passed. */
+export const tripPlannerEnvOptions = {
+  'model.provider': 'TRIP_PLANNER_MODEL_PROVIDER',
+  'model.name': 'TRIP_PLANNER_MODEL',
+  'weather.providers': 'TRIP_PLANNER_WEATHER_PROVIDERS',
+  'weather.fixturesFile': 'TRIP_PLANNER_WEATHER_FIXTURES',
+  'weather.timeoutMs': 'TRIP_PLANNER_WEATHER_TIMEOUT_MS',
+  'weather.retries': 'TRIP_PLANNER_WEATHER_RETRIES',
+  'places.datasetFile': 'TRIP_PLANNER_PLACES_DATASET',
+  'geocoding.providers': 'TRIP_PLANNER_GEOCODING_PROVIDERS',
+  'geocoding.gazetteerFile': 'TRIP_PLANNER_GAZETTEER',
+  'budget.costsFile': 'TRIP_PLANNER_COSTS_FILE',
+  'storage.url': 'TRIP_PLANNER_DB_URL',
+  'storage.authToken': 'TRIP_PLANNER_DB_AUTH_TOKEN',
+  'travel.walkKmh': 'TRIP_PLANNER_WALK_KMH',
+  'travel.transitKmh': 'TRIP_PLANNER_TRANSIT_KMH',
+  'travel.driveKmh': 'TRIP_PLANNER_DRIVE_KMH',
+  'travel.detourFactor': 'TRIP_PLANNER_DETOUR_FACTOR',
+  'travel.maxWalkMinutes': 'TRIP_PLANNER_MAX_WALK_MINUTES',
+  'endpoints.weather': 'TRIP_PLANNER_WEATHER_URL',
+  'endpoints.geocoding': 'TRIP_PLANNER_GEOCODING_URL',
+  'endpoints.mapViewer': 'TRIP_PLANNER_MAP_VIEWER_URL',
+  'limits.forecastDays': 'TRIP_PLANNER_FORECAST_DAYS',
+  'limits.maxPlaces': 'TRIP_PLANNER_MAX_PLACES',
+  'limits.mapOutlierKm': 'TRIP_PLANNER_MAP_OUTLIER_KM',
+  'limits.itineraryDays': 'TRIP_PLANNER_ITINERARY_DAYS',
+  'limits.maxDistancePoints': 'TRIP_PLANNER_MAX_DISTANCE_POINTS',
+  'limits.laundryDays': 'TRIP_PLANNER_LAUNDRY_DAYS',
+  'limits.maxTrips': 'TRIP_PLANNER_MAX_TRIPS',
 } as const;
 
+export function resolveTripPlannerOptions(options?: TripPlannerOptionsInput): TripPlannerOptions {
+  return parsePluginOptions(tripPlannerConfig.id, tripPlannerOptionsSchema, options, tripPlannerEnvOptions);
+}
+
 // =============================================================================
 // Weather Tool Schemas
 // =============================================================================
 
-export const weatherInputSchema = z.object({
-  location: z.string().describe('City name or location to get weather for'),
+export const unitSystemSchema = z.enum(['metric', 'imperial']);
+
+export const weatherInputSchema = z
+  .object({
+    location: z.string().describe('City name or location to get weather for'),
+    units: unitSystemSchema.default('metric').describe('metric: °C and km/h; imperial: °F and mph'),
+    startDate: z.iso.date().optional().describe('First forecast day (YYYY-MM-DD); defaults to today'),
+    endDate: z.iso.date().optional().describe('Last forecast day (YYYY-MM-DD), inclusive'),
+  })
+  .refine(({ startDate, endDate }) => !startDate || !endDate || startDate <= endDate, {
+    message: 'endDate must not be before startDate',
+    path: ['endDate'],
+  })
+  .refine(({ startDate, endDate }) => !startDate || !endDate || daysBetween(startDate, endDate) < MAX_FORECAST_DAYS, {
+    message: `Date range must be at most ${MAX_FORECAST_DAYS} days`,
+    path: ['endDate'],
+  });
+
+export const weatherUnitsSchema = z.object({
+  system: unitSystemSchema,
+  temperature: z.enum(['°C', '°F']),
+  windSpeed: z.enum(['km/h', 'mph']),
 });
 
 export const weatherOutputSchema = z.object({
@@ -36,145 +238,721 @@ export const weatherOutputSchema = z.object({
       description: z.string(),
     })
   ),
+  units: weatherUnitsSchema.describe('Units of every temperature and wind speed in this output'),
+  range: z.object({ start: z.string(), end: z.string() }).describe('Requested forecast dates, inclusive'),
+  missingDates: z.array(z.string()).describe('Dates in the range the provider has no forecast for'),
+  source: z.string().optional().describe('Weather provider that answered, e.g. "wttr.in" or "fixture"'),
+  live: z.boolean().describe('False for recorded sample data, which is not a forecast for the requested dates'),
 });
 
+/**
+ * Why getWeather failed. The tool's error message starts with the code
+ * (`LOCATION_NOT_FOUND: ...`), so the UI can explain it without importing
+ * the providers.
+ */
+export const weatherErrorCodeSchema = z.enum([
+  'LOCATION_NOT_FOUND',
+  'UPSTREAM_TIMEOUT',
+  'UPSTREAM_MALFORMED',
+  'RATE_LIMITED',
+  'UPSTREAM_UNAVAILABLE',
+]);
+
+export type UnitSystem = z.infer<typeof unitSystemSchema>;
+export type WeatherUnits = z.infer<typeof weatherUnitsSchema>;
 export type WeatherInput = z.infer<typeof weatherInputSchema>;
 export type WeatherOutput = z.infer<typeof weatherOutputSchema>;
+export type WeatherErrorCode = z.infer<typeof weatherErrorCodeSchema>;
+
+/** Whole days from one YYYY-MM-DD date to another. */
+export function daysBetween(start: string, end: string): number {
+  return Math.round((Date.parse(end) - Date.parse(start)) / 86_400_000);
+}
 
 // =============================================================================
 // Places Tool Schemas
 // =============================================================================
 
-export const placesInputSchema = z.object({
-  location: z.string().describe('City or area to search'),
-  category: z.enum(['attractions', 'restaurants', 'hotels', 'activities'])
-    .describe('Type of places to find'),
-  limit: z.number().default(5).describe('Number of results'),
+export const placeCategorySchema = z.enum(['attractions', 'restaurants', 'hotels', 'activities']);
+
+export const priceLevelSchema = z.enum(['Free', '$', '$$', '$$$', '$$$$']);
+
+export const weekdaySchema = z.enum(['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun']);
+
+/**
+ * Opening hours in the place's local time. `closes` may be earlier than
+ * `opens` for hours past midnight; `00:00`-`24:00` is open all day.
+ */
+export const openingHoursSchema = z.array(
+  z.object({
+    days: z.array(weekdaySchema).min(1),
+    opens: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM'),
+    closes: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$|^24:00$/, 'Expected HH:MM'),
+  })
+);
+
+export const coordinatesSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
 });
 
+export const placeSchema = z.object({
+  name: z.string(),
+  description: z.string(),
+  rating: z.number().min(0).max(5).optional(),
+  priceLevel: priceLevelSchema.optional(),
+  tags: z.array(z.string()),
+  ...coordinatesSchema.shape,
+  address: z.string().optional(),
+  openingHours: openingHoursSchema.optional().describe('Omitted when unknown'),
+});
+
+export const placeSortSchema = z.enum(['relevance', 'rating', 'price', 'distance']);
+
+/** Filters findPlaces applies, echoed on its output. */
+export const placeFiltersSchema = z.object({
+  maxPriceLevel: priceLevelSchema.optional().describe('Most expensive price level to include, e.g. "$" for cheap'),
+  minRating: z.number().min(0).max(5).optional().describe('Lowest rating to include, e.g. 4.5'),
+  tags: z.array(z.string()).optional().describe('Only places with all of these tags, e.g. ["vegetarian"]'),
+  openNow: z.boolean().optional().describe('Only places open right now, in local time'),
+});
+
+export const placesInputSchema = z
+  .object({
+    location: z.string().describe('City or area to search'),
+    category: placeCategorySchema.describe('Type of places to find'),
+    ...placeFiltersSchema.shape,
+    sortBy: placeSortSchema.default('relevance').describe('relevance keeps the provider order; price is cheapest first'),
+    near: coordinatesSchema.optional().describe('Point to measure distance from; required to sort by distance'),
+    limit: z.number().int().min(1).optional().describe('Number of results (defaults to 5)'),
+    cursor: z.string().optional().describe('nextCursor from a previous findPlaces call with the same search'),
+  })
+  .refine(({ sortBy, near }) => sortBy !== 'distance' || near, {
+    message: 'near is required to sort by distance',
+    path: ['near'],
+  });
+
 export const placesOutputSchema = z.object({
   location: z.string(),
-  category: z.string(),
-  places: z.array(
-    z.object({
-      name: z.string(),
-      description: z.string(),
-      rating: z.number().optional(),
-      priceLevel: z.string().optional(),
-      tags: z.array(z.string()),
-    })
-  ),
+  category: placeCategorySchema,
+  places: z.array(placeSchema.extend({
+    distanceKm: z.number().optional().describe('From `near`, when given'),
+  })),
+  filters: placeFiltersSchema,
+  sortBy: placeSortSchema,
+  near: coordinatesSchema.optional(),
+  total: z.number().describe('Places matching the filters, across all pages'),
+  nextCursor: z.string().optional().describe('Pass as `cursor` for the next page; absent on the last page'),
+  source: z.string().optional().describe('Places provider that answered, e.g. "offline"'),
 });
 
+export type PlaceCategory = z.infer<typeof placeCategorySchema>;
+export type PriceLevel = z.infer<typeof priceLevelSchema>;
+export type Weekday = z.infer<typeof weekdaySchema>;
+export type OpeningHours = z.infer<typeof openingHoursSchema>;
+export type Place = z.infer<typeof placeSchema>;
+export type PlaceSort = z.infer<typeof placeSortSchema>;
+export type PlaceFilters = z.infer<typeof placeFiltersSchema>;
+export type Coordinates = z.infer<typeof coordinatesSchema>;
 export type PlacesInput = z.infer<typeof placesInputSchema>;
 export type PlacesOutput = z.infer<typeof placesOutputSchema>;
 
+// =============================================================================
+// Geocoding Tool Schemas
+// =============================================================================
+
+export const geocodeResultSchema = z.object({
+  name: z.string(),
+  ...coordinatesSchema.shape,
+  kind: z.enum(['city', 'place']),
+  city: z.string().optional(),
+  country: z.string().optional(),
+  address: z.string().optional(),
+  distanceKm: z.number().optional().describe('From the looked-up point, for reverse geocoding'),
+});
+
+export const geocodeInputSchema = z.object({
+  query: z.string().min(1).describe('Place name or address, e.g. "Belém Tower, Lisbon"'),
+  near: z.string().optional().describe('City or country to search in'),
+  limit: z.number().int().min(1).max(10).default(3).describe('Most matches to return'),
+});
+
+export const reverseGeocodeInputSchema = coordinatesSchema;
+
+export const geocodeOutputSchema = z.object({
+  query: z.string().describe('The name searched for, or "lat, lng" for reverse geocoding'),
+  results: z.array(geocodeResultSchema).describe('Best match first; empty when nothing matched'),
+  source: z.string().optional().describe('Geocoding provider that answered, e.g. "gazetteer"'),
+});
+
+export type GeocodeResult = z.infer<typeof geocodeResultSchema>;
+export type GeocodeInput = z.input<typeof geocodeInputSchema>;
+export type ReverseGeocodeInput = z.infer<typeof reverseGeocodeInputSchema>;
+export type GeocodeOutput = z.infer<typeof geocodeOutputSchema>;
+
 // =============================================================================
 // GeoJSON Map Tool Schemas
 // =============================================================================
 
+export const mapPointTypeSchema = z.enum(['attraction', 'restaurant', 'hotel', 'activity', 'other']);
+
+export const mapColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Expected a hex color like "#2563eb"');
+
+export const mapFileFormatSchema = z.enum(['geojson', 'kml', 'gpx']);
+
+/** Files generateMap writes; the GeoJSON is its `geojson` output. */
+export const mapExportFormatSchema = mapFileFormatSchema.exclude(['geojson']);
+
+const mapLayerField = z.string().min(1).optional().describe('Layer or day to group this under, e.g. "Day 1"');
+
 export const geojsonInputSchema = z.object({
   location: z.string().describe('Central location for the map'),
   points: z.array(
     z.object({
       name: z.string().describe('Name of the point of interest'),
       description: z.string().optional().describe('Description of the location'),
-      lat: z.number().describe('Latitude coordinate'),
-      lng: z.number().describe('Longitude coordinate'),
-      type: z.enum(['attraction', 'restaurant', 'hotel', 'activity', 'other']).default('other'),
+      lat: z.number().optional().describe('Latitude (-90 to 90), only if known from findPlaces or geocode'),
+      lng: z.number().optional().describe('Longitude (-180 to 180), only if known from findPlaces or geocode'),
+      address: z.string().optional().describe('Name or address to look up when lat/lng are omitted; defaults to name'),
+      type: mapPointTypeSchema.default('other'),
+      layer: mapLayerField,
+    }).refine(({ lat, lng }) => (lat === undefined) === (lng === undefined), {
+      message: 'lat and lng must be given together',
+      path: ['lng'],
+    })
+  ).describe('Points of interest to display on the map; points without coordinates are geocoded'),
+  routes: z.array(
+    z.object({
+      name: z.string().describe('e.g. "Day 1 walk"'),
+      description: z.string().optional(),
+      stops: z.array(z.string()).min(2).describe('Names of points on this map, in visiting order'),
+      layer: mapLayerField,
+      color: mapColorSchema.optional().describe('Line color; defaults to the layer color'),
     })
-  ).describe('Points of interest to display on the map'),
+  ).default([]).describe('Ordered itineraries, drawn as lines through their stops'),
+  areas: z.array(
+    z.object({
+      name: z.string().describe('e.g. "Alfama"'),
+      description: z.string().optional(),
+      around: z.array(z.string()).min(1).optional().describe('Names of points on this map the area should enclose'),
+      boundary: z.array(coordinatesSchema).min(3).optional().describe('Exact outline, only if known from a tool'),
+      layer: mapLayerField,
+      color: mapColorSchema.optional().describe('Fill color; defaults to the layer color'),
+    }).refine(({ around, boundary }) => (around === undefined) !== (boundary === undefined), {
+      message: 'Give either around or boundary',
+      path: ['around'],
+    })
+  ).default([]).describe('Neighbourhoods or zones to highlight'),
+  formats: z.array(mapExportFormatSchema).default(['kml', 'gpx'])
+    .describe('Files to offer for download besides the GeoJSON: kml (Google Earth), gpx (GPS devices)'),
+});
+
+/** A GeoJSON position: [lng, lat]. */
+const positionSchema = z.tuple([z.number(), z.number()]);
+
+export const mapGeometrySchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('Point'), coordinates: positionSchema }),
+  z.object({ type: z.literal('LineString'), coordinates: z.array(positionSchema).min(2) }),
+  z.object({ type: z.literal('Polygon'), coordinates: z.array(z.array(positionSchema).min(4)) }),
+]);
+
+/**
+ * Feature properties. Styling follows the simplestyle spec that geojson.io
+ * and most viewers understand.
+ */
+export const mapFeaturePropertiesSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  kind: z.enum(['point', 'route', 'area']),
+  layer: z.string().optional(),
+  markerType: mapPointTypeSchema.optional().describe('Points only'),
+  geocodedFrom: z.string().optional().describe('The name or address the point was located by'),
+  stops: z.array(z.string()).optional().describe('Routes only: stop names in order'),
+  distanceKm: z.number().optional().describe('Routes only: straight-line length'),
+  outlier: z.boolean().optional().describe('Points only: far from the map location'),
+  'marker-color': z.string().optional(),
+  'marker-size': z.enum(['small', 'medium', 'large']).optional(),
+  'marker-symbol': z.string().optional(),
+  stroke: z.string().optional(),
+  'stroke-width': z.number().optional(),
+  fill: z.string().optional(),
+  'fill-opacity': z.number().optional(),
+});
+
+/**
+ * Problems generateMap found in its input and fixed or worked around:
+ * - INVALID_COORDINATES: out of range, or 0,0; the point is located by name instead
+ * - SWAPPED_COORDINATES: lat and lng were given the wrong way round and were swapped back
+ * - DUPLICATE_MERGED: the same place was listed more than once
+ * - OUTLIER: the point is far from the map location, and may be the wrong place
+ */
+export const mapWarningCodeSchema = z.enum(['INVALID_COORDINATES', 'SWAPPED_COORDINATES', 'DUPLICATE_MERGED', 'OUTLIER']);
+
+export const mapWarningSchema = z.object({
+  code: mapWarningCodeSchema,
+  name: z.string().describe('The point the warning is about'),
+  message: z.string(),
+});
+
+/** A map document, ready to save. */
+export const mapFileSchema = z.object({
+  format: mapFileFormatSchema,
+  filename: z.string(),
+  mimeType: z.string(),
+  content: z.string(),
 });
 
 export const geojsonOutputSchema = z.object({
   location: z.string(),
   geojson: z.object({
     type: z.literal('FeatureCollection'),
+    bbox: z.tuple([z.number(), z.number(), z.number(), z.number()]).optional()
+      .describe('[west, south, east, north] around every feature; absent for an empty map'),
     features: z.array(z.object({
       type: z.literal('Feature'),
-      properties: z.object({
-        name: z.string(),
-        description: z.string().optional(),
-        markerType: z.string(),
-      }),
-      geometry: z.object({
-        type: z.literal('Point'),
-        coordinates: z.tuple([z.number(), z.number()]),
-      }),
+      properties: mapFeaturePropertiesSchema,
+      geometry: mapGeometrySchema,
     })),
   }),
-  viewerUrl: z.string().describe('URL to view the GeoJSON on geojson.io'),
-  pointCount: z.number(),
+  center: coordinatesSchema.optional().describe('Middle of the bbox'),
+  viewerUrl: z.string().describe('geojson.io centered on the map, without the features; the map card opens it with them'),
+  files: z.array(mapFileSchema).describe('The map as KML and GPX files, in the requested formats'),
+  pointCount: z.number().describe('Points on the map, excluding unresolved ones'),
+  layers: z.array(z.object({
+    name: z.string(),
+    color: z.string(),
+    featureCount: z.number(),
+  })).describe('Layers in the order they first appear'),
+  unresolved: z.array(z.object({
+    kind: z.enum(['point', 'route', 'area']),
+    name: z.string(),
+    query: z.string().describe('The name or address that was looked up, or the missing stop'),
+    reason: z.string(),
+  })).describe('Points, routes and areas left off the map, or drawn without some stops'),
+  warnings: z.array(mapWarningSchema).describe('Input problems that were repaired or need checking'),
 });
 
+export type MapPointType = z.infer<typeof mapPointTypeSchema>;
+export type MapGeometry = z.infer<typeof mapGeometrySchema>;
+export type MapFeatureProperties = z.infer<typeof mapFeaturePropertiesSchema>;
 export type GeoJsonInput = z.infer<typeof geojsonInputSchema>;
 export type GeoJsonOutput = z.infer<typeof geojsonOutputSchema>;
+export type MapFeature = GeoJsonOutput['geojson']['features'][number];
+export type MapWarningCode = z.infer<typeof mapWarningCodeSchema>;
+export type MapWarning = z.infer<typeof mapWarningSchema>;
+export type MapFileFormat = z.infer<typeof mapFileFormatSchema>;
+export type MapExportFormat = z.infer<typeof mapExportFormatSchema>;
+export type MapFile = z.infer<typeof mapFileSchema>;
 
 // =============================================================================
-// Plugin Manifest
+// Itinerary Tool Schemas
 // =============================================================================
 
+/** Parts of the day places are scheduled into; see itinerary.ts for their times. */
+export const itinerarySlotSchema = z.enum(['morning', 'lunch', 'afternoon', 'dinner', 'evening']);
+
+/** A place to schedule: usually straight from findPlaces, with what it does not know optional. */
+export const itineraryPlaceSchema = placeSchema.extend({
+  category: placeCategorySchema,
+  description: z.string().default(''),
+  tags: z.array(z.string()).default([]),
+  lat: coordinatesSchema.shape.lat.optional(),
+  lng: coordinatesSchema.shape.lng.optional(),
+  outdoor: z.boolean().optional().describe('Defaults to a guess from the tags, e.g. "nature" or "walking"'),
+});
+
+export const itineraryInputSchema = z
+  .object({
+    location: z.string().describe('Destination city'),
+    startDate: z.iso.date().describe('First day of the trip (YYYY-MM-DD)'),
+    endDate: z.iso.date().describe('Last day of the trip (YYYY-MM-DD), inclusive'),
+    interests: z.array(z.string()).default([]).describe('e.g. ["history", "food"]; matching places are scheduled first'),
+    places: z.array(itineraryPlaceSchema).min(1).describe('Candidate places, e.g. from findPlaces; hotels are listed as stays'),
+    forecast: weatherOutputSchema.shape.forecast.optional()
+      .describe('getWeather forecast for the trip dates; outdoor places go on dry days'),
+  })
+  .refine(({ startDate, endDate }) => startDate <= endDate, {
+    message: 'endDate must not be before startDate',
+    path: ['endDate'],
+  });
+
+export const itineraryItemSchema = z.object({
+  slot: itinerarySlotSchema,
+  start: z.string().describe('HH:MM, local time'),
+  end: z.string().describe('HH:MM, local time'),
+  name: z.string(),
+  category: placeCategorySchema,
+  description: z.string(),
+  lat: z.number().optional(),
+  lng: z.number().optional(),
+  outdoor: z.boolean(),
+  interests: z.array(z.string()).describe('The trip interests this place matches'),
+  note: z.string().optional().describe('Why it was scheduled here, or what to watch out for'),
+});
+
+export const itineraryOutputSchema = z.object({
+  location: z.string(),
+  startDate: z.string(),
+  endDate: z.string(),
+  interests: z.array(z.string()),
+  days: z.array(z.object({
+    date: z.string(),
+    weekday: weekdaySchema,
+    weather: z.object({
+      description: z.string(),
+      high: z.number(),
+      low: z.number(),
+      dry: z.boolean().describe('No rain, snow or storms in the description'),
+    }).optional().describe('Absent when the forecast does not cover the day'),
+    items: z.array(itineraryItemSchema).describe('In time order'),
+  })),
+  stays: z.array(z.string()).describe('Hotels among the places'),
+  unscheduled: z.array(z.object({
+    name: z.string(),
+    reason: z.string(),
+  })).describe('Places that did not fit'),
+});
+
+export type ItinerarySlot = z.infer<typeof itinerarySlotSchema>;
+export type ItineraryPlace = z.infer<typeof itineraryPlaceSchema>;
+export type ItineraryInput = z.infer<typeof itineraryInputSchema>;
+export type ItineraryItem = z.infer<typeof itineraryItemSchema>;
+export type ItineraryOutput = z.infer<typeof itineraryOutputSchema>;
+
+// =============================================================================
+// Distance Tool Schemas
+// =============================================================================
+
+export const travelModeSchema = z.enum(['walk', 'transit', 'drive']);
+
+/** A point to measure: usually a findPlaces result or a geocode match. */
+export const distancePointSchema = z.object({
+  name: z.string(),
+  ...coordinatesSchema.shape,
+  type: mapPointTypeSchema.optional().describe('Passed on to generateMap'),
+});
+
+export const distancesInputSchema = z
+  .object({
+    location: z.string().describe('City the points are in'),
+    points: z.array(distancePointSchema).min(2).describe('Places with coordinates from findPlaces or geocode'),
+    mode: z.enum(['matrix', 'cluster']).default('matrix')
+      .describe('matrix: distance and travel time between every pair; cluster: group the points into days and order each day'),
+    days: z.number().int().min(1).max(30).optional()
+      .describe('cluster mode: days to split the points over; defaults to about four points a day'),
+    start: z.string().optional()
+      .describe('cluster mode: name of one of the points, e.g. the hotel, that every day starts and ends at'),
+  })
+  .refine(({ points }) => new Set(points.map(point => point.name)).size === points.length, {
+    message: 'Point names must be unique',
+    path: ['points'],
+  })
+  .refine(({ points, start }) => start === undefined || points.some(point => point.name === start), {
+    message: 'start must be the name of one of the points',
+    path: ['start'],
+  });
+
+/** Minutes by each travel mode. */
+export const travelMinutesSchema = z.object({
+  walk: z.number(),
+  transit: z.number(),
+  drive: z.number(),
+});
+
+export const distanceLegSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  distanceKm: z.number().describe('Straight-line distance'),
+  travelMinutes: travelMinutesSchema,
+  suggestedMode: travelModeSchema.describe('walk when the walk is short enough, otherwise transit'),
+});
+
+export const distanceClusterSchema = z.object({
+  name: z.string().describe('e.g. "Day 1"'),
+  sequence: z.array(z.string()).describe('Point names in visiting order, beginning and ending at start if given'),
+  center: coordinatesSchema,
+  distanceKm: z.number().describe('Straight-line length of the sequence'),
+  travelMinutes: z.number().describe('Total time of the legs, each by its suggested mode'),
+  legs: z.array(distanceLegSchema),
+});
+
+export const distancesOutputSchema = z.object({
+  location: z.string(),
+  mode: z.enum(['matrix', 'cluster']),
+  speedsKmh: z.object({
+    walk: z.number(),
+    transit: z.number(),
+    drive: z.number(),
+  }).describe('Speeds the travel times assume'),
+  points: z.array(distancePointSchema.extend({
+    layer: z.string().optional().describe('cluster mode: the day the point is in'),
+  })).describe('The points, ready for generateMap'),
+  matrix: z.object({
+    names: z.array(z.string()).describe('Row and column order'),
+    distanceKm: z.array(z.array(z.number())).describe('Straight-line distances'),
+    travelMinutes: z.object({
+      walk: z.array(z.array(z.number())),
+      transit: z.array(z.array(z.number())),
+      drive: z.array(z.array(z.number())),
+    }),
+  }).optional().describe('matrix mode only'),
+  clusters: z.array(distanceClusterSchema).optional().describe('cluster mode only: one per day, nearest the start first'),
+  routes: z.array(z.object({
+    name: z.string(),
+    stops: z.array(z.string()),
+    layer: z.string(),
+  })).optional().describe('cluster mode only: one route per day, ready for generateMap'),
+});
+
+export type TravelMode = z.infer<typeof travelModeSchema>;
+export type TravelMinutes = z.infer<typeof travelMinutesSchema>;
+export type DistancePoint = z.infer<typeof distancePointSchema>;
+export type DistancesInput = z.infer<typeof distancesInputSchema>;
+export type DistanceLeg = z.infer<typeof distanceLegSchema>;
+export type DistanceCluster = z.infer<typeof distanceClusterSchema>;
+export type DistancesOutput = z.infer<typeof distancesOutputSchema>;
+
+// =============================================================================
+// Packing List Tool Schemas
+// =============================================================================
+
+/** Checklist sections, in the order they are shown. */
+export const packingCategorySchema = z.enum([
+  'documents',
+  'clothing',
+  'footwear',
+  'weather',
+  'sun',
+  'activities',
+  'toiletries',
+  'electronics',
+]);
+
+export const packingInputSchema = z.object({
+  weather: weatherOutputSchema.describe('getWeather output for the destination and trip dates, as is'),
+  days: z.number().int().min(1).max(60).optional()
+    .describe('Trip length in days; defaults to the weather range'),
+  activityTags: z.array(z.string()).default([])
+    .describe('Tags of the places they plan to visit, from findPlaces, e.g. ["walking", "boat", "spa"]'),
+});
+
+export const packingItemSchema = z.object({
+  name: z.string(),
+  quantity: z.number().int().min(1).optional().describe('For clothes counted per day'),
+  reason: z.string().describe('The weather or activity that calls for it'),
+});
+
+export const packingOutputSchema = z.object({
+  location: z.string(),
+  days: z.number(),
+  conditions: z.object({
+    low: z.number().describe('Coldest low, in units.temperature'),
+    high: z.number().describe('Warmest high, in units.temperature'),
+    wetDays: z.number().describe('Forecast days with rain, snow or storms'),
+    uvIndex: z.number(),
+    humidity: z.number(),
+    windSpeed: z.number().describe('In units.windSpeed'),
+    units: weatherUnitsSchema,
+  }).describe('What the list was based on'),
+  categories: z.array(z.object({
+    category: packingCategorySchema,
+    items: z.array(packingItemSchema),
+  })).describe('Non-empty categories, in checklist order'),
+  itemCount: z.number(),
+  notes: z.array(z.string()).describe('Caveats, e.g. trip days the forecast does not cover'),
+});
+
+export type PackingCategory = z.infer<typeof packingCategorySchema>;
+export type PackingInput = z.infer<typeof packingInputSchema>;
+export type PackingItem = z.infer<typeof packingItemSchema>;
+export type PackingOutput = z.infer<typeof packingOutputSchema>;
+
+// =============================================================================
+// Budget Tool Schemas
+// =============================================================================
+
+/** Price levels that cost money, cheapest first. */
+export const paidPriceLevelSchema = priceLevelSchema.exclude(['Free']);
+
+const tierCostsSchema = z.record(paidPriceLevelSchema, z.number().min(0));
+
+/** Typical prices at one destination, in its currency. */
+export const destinationCostsSchema = z.object({
+  location: z.string().min(1).describe('Display name, e.g. "Lisbon"'),
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Expected an ISO 4217 code like "EUR"'),
+  meal: tierCostsSchema.describe('One restaurant meal, per person'),
+  hotel: tierCostsSchema.describe('One night, per room'),
+  activity: tierCostsSchema.describe('One attraction or activity, per person'),
+  transportPerDay: z.number().min(0).describe('Local transport, per person per day'),
+});
+
 /**
- * Plugin Manifest
- *
- * Declares what features this plugin provides. The config/index is required
- * and should declare the parts of the plugin that are available.
- *
- * This plugin provides:
- * - tools: Weather, places discovery, and map generation
- * - agents: A trip planning assistant
- * - ui: Visual components for each tool output
- * - schemas: Typed input/output for all tools
+ * Costs keyed by lowercase destination, e.g. `lisbon`. A `default` entry,
+ * if present, is used for destinations not in the table.
  */
-export const tripPlannerPlugin = {
-  ...tripPlannerConfig,
+export const costTableSchema = z.record(z.string(), destinationCostsSchema);
 
-  /**
-   * Declares available features.
-   * Used by consuming applications to understand what this plugin provides.
-   */
-  features: {
-    tools: true,
-    agents: true,
-    ui: true,
-    processors: false,
-    storage: false,
-  },
+export const budgetCategorySchema = z.enum(['accommodation', 'food', 'activities', 'transport']);
 
-  /**
-   * Tool IDs provided by this plugin.
-   * Actual implementations are in tools.ts
-   */
-  toolIds: ['getWeather', 'findPlaces', 'generateMap'] as const,
+export const budgetInputSchema = z.object({
+  location: z.string().describe('Destination city'),
+  nights: z.number().int().min(0).max(60).describe('Nights away; the trip lasts nights + 1 days'),
+  travellers: z.number().int().min(1).max(20).default(1),
+  rooms: z.number().int().min(1).max(20).optional().describe('Hotel rooms; defaults to one per two travellers'),
+  style: paidPriceLevelSchema.default('$$')
+    .describe('Price level for meals and hotels not among the places, and places without a price level'),
+  mealsPerDay: z.number().int().min(0).max(4).default(2).describe('Meals eaten out each day'),
+  places: z.array(z.object({
+    name: z.string(),
+    category: placeCategorySchema,
+    priceLevel: priceLevelSchema.optional(),
+    day: z.number().int().min(1).optional().describe('Trip day it is planned for, e.g. from buildItinerary'),
+  })).default([]).describe('Places from findPlaces or buildItinerary; the first hotel is where they stay'),
+});
 
-  /**
-   * Agent IDs provided by this plugin.
-   * Actual implementations are in agent.ts
-   */
-  agentIds: ['trip-planner'] as const,
+export const budgetItemSchema = z.object({
+  name: z.string(),
+  day: z.number().optional().describe('The day it was planned for, if given'),
+  priceLevel: priceLevelSchema.optional().describe('Absent for local transport'),
+  unitCost: z.number(),
+  quantity: z.number().describe('Travellers, rooms × nights, or meals'),
+  amount: z.number(),
+  estimated: z.boolean().describe('Priced at the trip style, as the place has no price level'),
+});
 
-  /**
-   * UI component mappings.
-   * Maps tool IDs to component identifiers for rendering.
-   */
-  uiComponents: {
-    'tool-getWeather': 'WeatherCard',
-    'tool-findPlaces': 'PlacesCard',
-    'tool-generateMap': 'GeoJsonCard',
-  } as const,
+export const budgetOutputSchema = z.object({
+  location: z.string(),
+  currency: z.string(),
+  nights: z.number(),
+  travellers: z.number(),
+  rooms: z.number(),
+  total: z.number(),
+  perPerson: z.number(),
+  perDay: z.number().describe('Average per day'),
+  categories: z.array(z.object({
+    category: budgetCategorySchema,
+    amount: z.number(),
+    items: z.array(budgetItemSchema),
+  })),
+  days: z.array(z.object({
+    day: z.number(),
+    amount: z.number(),
+    byCategory: z.record(budgetCategorySchema, z.number()),
+  })),
+  assumptions: z.array(z.string()).describe('How the estimate was made, to show alongside it'),
+});
 
-  /**
-   * All schemas exported by this plugin.
-   * Enables type-safe consumption across package boundaries.
-   */
-  schemas: {
-    weatherInput: weatherInputSchema,
-    weatherOutput: weatherOutputSchema,
-    placesInput: placesInputSchema,
-    placesOutput: placesOutputSchema,
-    geojsonInput: geojsonInputSchema,
-    geojsonOutput: geojsonOutputSchema,
-  },
-} as const;
+export type PaidPriceLevel = z.infer<typeof paidPriceLevelSchema>;
+export type DestinationCosts = z.infer<typeof destinationCostsSchema>;
+export type CostTable = z.infer<typeof costTableSchema>;
+export type BudgetCategory = z.infer<typeof budgetCategorySchema>;
+export type BudgetInput = z.infer<typeof budgetInputSchema>;
+export type BudgetItem = z.infer<typeof budgetItemSchema>;
+export type BudgetOutput = z.infer<typeof budgetOutputSchema>;
+
+// =============================================================================
+// Saved Trip Tool Schemas
+// =============================================================================
+
+/** A map kept with a trip: what generateMap returned, minus its files. */
+export const savedMapSchema = z.object({
+  name: z.string().min(1).describe('e.g. "Day 1" or "Old town"'),
+  geojson: geojsonOutputSchema.shape.geojson,
+  viewerUrl: z.string().optional().describe('generateMap viewerUrl'),
+});
+
+/** What a trip holds. Saved as one JSON document, so fields can be added without a migration. */
+export const tripDetailsSchema = z.object({
+  name: z.string().min(1).max(120).describe('Short title, e.g. "Lisbon long weekend"'),
+  destination: z.string().min(1).describe('Destination city'),
+  startDate: z.iso.date().optional().describe('First day of the trip (YYYY-MM-DD)'),
+  endDate: z.iso.date().optional().describe('Last day of the trip (YYYY-MM-DD), inclusive'),
+  travellers: z.number().int().min(1).max(20).optional(),
+  places: z.array(itineraryPlaceSchema).default([]).describe('Places they picked, e.g. from findPlaces'),
+  maps: z.array(savedMapSchema).default([]).describe('Maps from generateMap'),
+  itinerary: itineraryOutputSchema.optional().describe('buildItinerary output, as is'),
+  notes: z.string().max(4_000).optional(),
+});
+
+export const saveTripInputSchema = tripDetailsSchema.refine(
+  ({ startDate, endDate }) => !startDate || !endDate || startDate <= endDate,
+  { message: 'endDate must not be before startDate', path: ['endDate'] }
+);
+
+export const tripSchema = tripDetailsSchema.extend({
+  id: z.string(),
+  revision: z.number().int().describe('Starts at 1 and goes up with every update'),
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime(),
+});
+
+export const tripSummarySchema = tripSchema
+  .pick({ id: true, name: true, destination: true, startDate: true, endDate: true, revision: true, updatedAt: true })
+  .extend({
+    placeCount: z.number(),
+    mapCount: z.number(),
+    hasItinerary: z.boolean(),
+  });
+
+export const listTripsInputSchema = z.object({
+  destination: z.string().optional().describe('Only trips to this city'),
+  limit: z.number().int().min(1).max(100).optional().describe('Page size; capped by the plugin'),
+  cursor: z.string().optional().describe('nextCursor from a previous listTrips call'),
+});
+
+export const listTripsOutputSchema = z.object({
+  trips: z.array(tripSummarySchema).describe('Most recently updated first'),
+  total: z.number(),
+  nextCursor: z.string().optional(),
+});
+
+export const loadTripInputSchema = z.object({
+  id: z.string().describe('Trip id from saveTrip or listTrips'),
+});
+
+export const updateTripInputSchema = z
+  .object({
+    id: z.string().describe('Trip id from saveTrip or listTrips'),
+    revision: z.number().int().min(1)
+      .describe('The revision from the last saveTrip, loadTrip or updateTrip; the update is refused if the trip has changed since'),
+    name: tripDetailsSchema.shape.name.optional(),
+    destination: tripDetailsSchema.shape.destination.optional(),
+    startDate: tripDetailsSchema.shape.startDate,
+    endDate: tripDetailsSchema.shape.endDate,
+    travellers: tripDetailsSchema.shape.travellers,
+    places: z.array(itineraryPlaceSchema).optional().describe('Replaces all places'),
+    addPlaces: z.array(itineraryPlaceSchema).optional().describe('Added to the places, replacing any with the same name'),
+    removePlaces: z.array(z.string()).optional().describe('Names of places to remove'),
+    maps: z.array(savedMapSchema).optional().describe('Replaces all maps'),
+    addMaps: z.array(savedMapSchema).optional().describe('Added to the maps, replacing any with the same name'),
+    itinerary: tripDetailsSchema.shape.itinerary,
+    notes: tripDetailsSchema.shape.notes,
+  })
+  .refine(({ places, addPlaces }) => !places || !addPlaces, {
+    message: 'Pass places to replace them all, or addPlaces to add some, not both',
+    path: ['addPlaces'],
+  })
+  .refine(({ maps, addMaps }) => !maps || !addMaps, {
+    message: 'Pass maps to replace them all, or addMaps to add some, not both',
+    path: ['addMaps'],
+  });
+
+export const tripStoreErrorCodeSchema = z.enum([
+  'NOT_CONFIGURED',
+  'NOT_FOUND',
+  'CONFLICT',
+  'INVALID_TRIP',
+  'INVALID_CURSOR',
+  'SCHEMA_TOO_NEW',
+]);
 
-export type TripPlannerPlugin = typeof tripPlannerPlugin;
+export type SavedMap = z.infer<typeof savedMapSchema>;
+export type TripDetails = z.infer<typeof tripDetailsSchema>;
+export type SaveTripInput = z.infer<typeof saveTripInputSchema>;
+export type Trip = z.infer<typeof tripSchema>;
+export type TripSummary = z.infer<typeof tripSummarySchema>;
+export type ListTripsInput = z.infer<typeof listTripsInputSchema>;
+export type ListTripsOutput = z.infer<typeof listTripsOutputSchema>;
+export type LoadTripInput = z.infer<typeof loadTripInputSchema>;
+export type UpdateTripInput = z.infer<typeof updateTripInputSchema>;
+export type TripStoreErrorCode = z.infer<typeof tripStoreErrorCodeSchema>;
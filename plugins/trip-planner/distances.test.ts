@@ -0,0 +1,91 @@
+// examples/trip-planner/distances.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { distancesInputSchema, type TripPlannerOptions } from './config';
+import { computeDistances } from './distances';
+
+const travel: TripPlannerOptions['travel'] = { walkKmh: 4.5, transitKmh: 18, driveKmh: 25, detourFactor: 1.3, maxWalkMinutes: 20 };
+
+const points = [
+  { name: 'Castle', lat: 38.7139, lng: -9.1334 },
+  { name: 'Belém Tower', lat: 38.6916, lng: -9.2156 },
+  { name: 'Cathedral', lat: 38.7097, lng: -9.1336 },
+  { name: 'MAAT', lat: 38.6958, lng: -9.1939 },
+  { name: 'Rossio', lat: 38.7139, lng: -9.1394 },
+  { name: 'Jerónimos', lat: 38.6979, lng: -9.2068 },
+  { name: 'Hotel', lat: 38.7107, lng: -9.142 },
+];
+
+function distances(input: Record<string, unknown>, maxPoints = 25) {
+  return computeDistances(distancesInputSchema.parse({ location: 'Lisbon', points, ...input }), travel, maxPoints);
+}
+
+describe('computeDistances', () => {
+  it('measures every pair in matrix mode, with times by each mode', () => {
+    const { matrix } = distances({ points: points.slice(0, 3) });
+
+    assert.deepEqual(matrix?.names, ['Castle', 'Belém Tower', 'Cathedral']);
+    assert.deepEqual(matrix?.distanceKm, [
+      [0, 7.6, 0.5],
+      [7.6, 0, 7.4],
+      [0.5, 7.4, 0],
+    ]);
+    // 7.6 km, 30% longer on the streets
+    assert.deepEqual(matrix?.travelMinutes.walk[0], [0, 131, 8]);
+    assert.deepEqual(matrix?.travelMinutes.transit[0], [0, 33, 2]);
+    assert.deepEqual(matrix?.travelMinutes.drive[0], [0, 24, 1]);
+  });
+
+  it('splits the points into compact days, nearest the start first', () => {
+    const output = distances({ mode: 'cluster', days: 2, start: 'Hotel' });
+
+    assert.deepEqual(
+      output.clusters?.map(cluster => cluster.sequence),
+      [
+        ['Hotel', 'Rossio', 'Castle', 'Cathedral', 'Hotel'],
+        ['Hotel', 'MAAT', 'Belém Tower', 'Jerónimos', 'Hotel'],
+      ]
+    );
+    assert.deepEqual(output.routes?.map(route => [route.name, route.layer]), [
+      ['Day 1 route', 'Day 1'],
+      ['Day 2 route', 'Day 2'],
+    ]);
+    // Points are tagged with their day, except the start
+    assert.deepEqual(
+      output.points.map(point => [point.name, point.layer]),
+      [
+        ['Castle', 'Day 1'],
+        ['Belém Tower', 'Day 2'],
+        ['Cathedral', 'Day 1'],
+        ['MAAT', 'Day 2'],
+        ['Rossio', 'Day 1'],
+        ['Jerónimos', 'Day 2'],
+        ['Hotel', undefined],
+      ]
+    );
+  });
+
+  it('walks short legs and takes transit for long ones', () => {
+    const [downtown, belem] = distances({ mode: 'cluster', days: 2, start: 'Hotel' }).clusters ?? [];
+
+    assert.ok(downtown.legs.every(leg => leg.suggestedMode === 'walk'));
+    assert.deepEqual(belem.legs.map(leg => leg.suggestedMode), ['transit', 'transit', 'walk', 'transit']);
+    assert.equal(
+      belem.travelMinutes,
+      belem.legs.reduce((total, leg) => total + leg.travelMinutes[leg.suggestedMode], 0)
+    );
+  });
+
+  it('defaults to about four points a day and gives the same days every time', () => {
+    const first = distances({ mode: 'cluster' });
+
+    assert.equal(first.clusters?.length, 2);
+    assert.deepEqual(first, distances({ mode: 'cluster' }));
+    // Without a start, days are open paths
+    assert.ok(first.clusters?.every(cluster => cluster.sequence[0] !== cluster.sequence.at(-1)));
+  });
+
+  it('refuses more points than maxPoints', () => {
+    assert.throws(() => distances({}, 5), /at most 5 points; got 7/);
+  });
+});
@@ -0,0 +1,219 @@
+// examples/trip-planner/distances.ts
+import type {
+  Coordinates,
+  DistanceCluster,
+  DistanceLeg,
+  DistancePoint,
+  DistancesInput,
+  DistancesOutput,
+  TravelMinutes,
+  TripPlannerOptions,
+} from './config';
+import { centerOf, haversineKm, pathKm, roundKm } from './geo';
+
+type TravelOptions = TripPlannerOptions['travel'];
+
+/** Points per day in cluster mode when the number of days is not given. */
+const POINTS_PER_DAY = 4;
+
+/** Clustering stops when the days stop changing, or after this many rounds. */
+const MAX_CLUSTER_ROUNDS = 20;
+
+/**
+ * Compute Distances
+ *
+ * Straight-line distances between the points, with travel times estimated
+ * from `travel` speeds after scaling the distance by `detourFactor`.
+ *
+ * - matrix mode: every pair, as a matrix in the order of `points`
+ * - cluster mode: the points split into compact days of about equal size,
+ *   each ordered into a short visiting sequence, from and back to `start`
+ *   when given, with a route per day for generateMap
+ *
+ * Throws for more than `maxPoints` points.
+ */
+export function computeDistances(input: DistancesInput, travel: TravelOptions, maxPoints: number): DistancesOutput {
+  const { location, points, mode } = input;
+  if (points.length > maxPoints) {
+    throw new Error(`computeDistances takes at most ${maxPoints} points; got ${points.length}`);
+  }
+  const speedsKmh = { walk: travel.walkKmh, transit: travel.transitKmh, drive: travel.driveKmh };
+
+  if (mode === 'matrix') {
+    const distances = points.map(from => points.map(to => haversineKm(from, to)));
+    const minutes = (speed: number) => distances.map(row => row.map(km => minutesAt(km, speed, travel)));
+    return {
+      location,
+      mode,
+      speedsKmh,
+      points,
+      matrix: {
+        names: points.map(point => point.name),
+        distanceKm: distances.map(row => row.map(roundKm)),
+        travelMinutes: { walk: minutes(travel.walkKmh), transit: minutes(travel.transitKmh), drive: minutes(travel.driveKmh) },
+      },
+    };
+  }
+
+  const start = points.find(point => point.name === input.start);
+  const stops = points.filter(point => point !== start);
+  const days = Math.min(input.days ?? Math.ceil(stops.length / POINTS_PER_DAY), stops.length);
+
+  // Day 1 is the group nearest the start, or nearest the middle of everything
+  const origin = start ?? centerOf(points);
+  const groups = clusterPoints(stops, days)
+    .map(group => ({ group, center: centerOf(group) }))
+    .sort((a, b) => haversineKm(origin, a.center) - haversineKm(origin, b.center));
+
+  const clusters: DistanceCluster[] = groups.map(({ group, center }, index) => {
+    const sequence = orderStops(group, start);
+    const legs = sequence.slice(1).map((to, i) => legBetween(sequence[i], to, travel));
+    return {
+      name: `Day ${index + 1}`,
+      sequence: sequence.map(point => point.name),
+      center: { lat: roundDegrees(center.lat), lng: roundDegrees(center.lng) },
+      distanceKm: roundKm(pathKm(sequence)),
+      travelMinutes: legs.reduce((total, leg) => total + leg.travelMinutes[leg.suggestedMode], 0),
+      legs,
+    };
+  });
+
+  const dayOf = new Map(clusters.flatMap(cluster => cluster.sequence.map(name => [name, cluster.name] as const)));
+  return {
+    location,
+    mode,
+    speedsKmh,
+    points: points.map(point => (point === start ? point : { ...point, layer: dayOf.get(point.name) })),
+    clusters,
+    routes: clusters
+      .filter(cluster => cluster.sequence.length >= 2)
+      .map(cluster => ({ name: `${cluster.name} route`, stops: cluster.sequence, layer: cluster.name })),
+  };
+}
+
+function minutesAt(km: number, speedKmh: number, { detourFactor }: TravelOptions): number {
+  return Math.round((km * detourFactor * 60) / speedKmh);
+}
+
+function legBetween(from: DistancePoint, to: DistancePoint, travel: TravelOptions): DistanceLeg {
+  const km = haversineKm(from, to);
+  const travelMinutes: TravelMinutes = {
+    walk: minutesAt(km, travel.walkKmh, travel),
+    transit: minutesAt(km, travel.transitKmh, travel),
+    drive: minutesAt(km, travel.driveKmh, travel),
+  };
+  return {
+    from: from.name,
+    to: to.name,
+    distanceKm: roundKm(km),
+    travelMinutes,
+    suggestedMode: travelMinutes.walk <= travel.maxWalkMinutes ? 'walk' : 'transit',
+  };
+}
+
+function roundDegrees(degrees: number): number {
+  return Math.round(degrees * 1e6) / 1e6;
+}
+
+// =============================================================================
+// Clustering
+// =============================================================================
+
+/**
+ * Balanced k-means: seeds spread as far apart as possible, then rounds of
+ * assigning each point to its nearest center with room (at most
+ * ceil(n / k) points each) and moving the centers to their points.
+ * Deterministic, so the same points always give the same days. Groups
+ * that end up empty are dropped.
+ */
+function clusterPoints(points: readonly DistancePoint[], count: number): DistancePoint[][] {
+  const capacity = Math.ceil(points.length / count);
+
+  let centers: Coordinates[] = [farthestFrom(centerOf(points), points)];
+  while (centers.length < count) {
+    const nearestCenterKm = (point: DistancePoint) => Math.min(...centers.map(center => haversineKm(center, point)));
+    centers.push(points.reduce((best, point) => (nearestCenterKm(point) > nearestCenterKm(best) ? point : best)));
+  }
+
+  let assignment: number[] = [];
+  for (let round = 0; round < MAX_CLUSTER_ROUNDS; round++) {
+    const next = assignToCenters(points, centers, capacity);
+    if (next.every((center, i) => center === assignment[i])) break;
+    assignment = next;
+    centers = centers.map((center, c) => {
+      const members = points.filter((_, i) => assignment[i] === c);
+      return members.length > 0 ? centerOf(members) : center;
+    });
+  }
+
+  return centers
+    .map((_, c) => points.filter((_, i) => assignment[i] === c))
+    .filter(group => group.length > 0);
+}
+
+/** Closest point–center pairs first, skipping centers that are full. */
+function assignToCenters(points: readonly DistancePoint[], centers: readonly Coordinates[], capacity: number): number[] {
+  const pairs = points
+    .flatMap((point, p) => centers.map((center, c) => ({ p, c, km: haversineKm(point, center) })))
+    .sort((a, b) => a.km - b.km);
+
+  const assignment = new Array<number>(points.length).fill(-1);
+  const sizes = new Array<number>(centers.length).fill(0);
+  for (const { p, c } of pairs) {
+    if (assignment[p] !== -1 || sizes[c] >= capacity) continue;
+    assignment[p] = c;
+    sizes[c]++;
+  }
+  return assignment;
+}
+
+function farthestFrom(from: Coordinates, points: readonly DistancePoint[]): DistancePoint {
+  return points.reduce((best, point) => (haversineKm(from, point) > haversineKm(from, best) ? point : best));
+}
+
+// =============================================================================
+// Visiting Order
+// =============================================================================
+
+/**
+ * A short path through the points: nearest neighbour from `start` (or from
+ * the outermost point), then 2-opt, reversing any stretch that shortens it.
+ * With a start, the path begins and ends there.
+ */
+function orderStops(points: readonly DistancePoint[], start: DistancePoint | undefined): DistancePoint[] {
+  const remaining = [...points];
+  const ordered: DistancePoint[] = [];
+  let current: DistancePoint = start ?? farthestFrom(centerOf(points), points);
+  if (!start) ordered.push(...remaining.splice(remaining.indexOf(current), 1));
+
+  while (remaining.length > 0) {
+    const nearest = remaining.reduce((best, point) => (haversineKm(current, point) < haversineKm(current, best) ? point : best));
+    ordered.push(...remaining.splice(remaining.indexOf(nearest), 1));
+    current = nearest;
+  }
+
+  const path = start ? [start, ...ordered, start] : ordered;
+  return untangle(path, start !== undefined);
+}
+
+function untangle(path: DistancePoint[], fixedEnds: boolean): DistancePoint[] {
+  const first = fixedEnds ? 1 : 0;
+  const last = fixedEnds ? path.length - 2 : path.length - 1;
+  const km = (a: number, b: number) => (a < 0 || b >= path.length ? 0 : haversineKm(path[a], path[b]));
+
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = first; i < last; i++) {
+      for (let j = i + 1; j <= last; j++) {
+        // Reversing path[i..j] swaps its two outer edges
+        const gain = km(i - 1, i) + km(j, j + 1) - km(i - 1, j) - km(i, j + 1);
+        if (gain > 1e-9) {
+          path.splice(i, j - i + 1, ...path.slice(i, j + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+  }
+  return path;
+}
@@ -0,0 +1,50 @@
+// examples/trip-planner/fixtures/costs.ts
+import type { CostTable } from '../config';
+
+/**
+ * Typical prices for the bundled destinations, used by estimateBudget when
+ * no other table is supplied. Keyed by lowercase city name, with a USD
+ * `default` for everywhere else. Representative, not live.
+ */
+export const costTable: CostTable = {
+  lisbon: {
+    location: 'Lisbon',
+    currency: 'EUR',
+    meal: { '$': 10, '$$': 22, '$$$': 45, '$$$$': 90 },
+    hotel: { '$': 60, '$$': 110, '$$$': 200, '$$$$': 400 },
+    activity: { '$': 8, '$$': 15, '$$$': 35, '$$$$': 80 },
+    transportPerDay: 8,
+  },
+  paris: {
+    location: 'Paris',
+    currency: 'EUR',
+    meal: { '$': 15, '$$': 32, '$$$': 65, '$$$$': 160 },
+    hotel: { '$': 90, '$$': 170, '$$$': 320, '$$$$': 750 },
+    activity: { '$': 10, '$$': 20, '$$$': 45, '$$$$': 110 },
+    transportPerDay: 10,
+  },
+  tokyo: {
+    location: 'Tokyo',
+    currency: 'JPY',
+    meal: { '$': 1_200, '$$': 3_000, '$$$': 8_000, '$$$$': 25_000 },
+    hotel: { '$': 8_000, '$$': 18_000, '$$$': 40_000, '$$$$': 90_000 },
+    activity: { '$': 800, '$$': 2_000, '$$$': 5_000, '$$$$': 15_000 },
+    transportPerDay: 1_200,
+  },
+  'new york': {
+    location: 'New York',
+    currency: 'USD',
+    meal: { '$': 18, '$$': 40, '$$$': 85, '$$$$': 200 },
+    hotel: { '$': 150, '$$': 280, '$$$': 500, '$$$$': 1_000 },
+    activity: { '$': 15, '$$': 30, '$$$': 60, '$$$$': 150 },
+    transportPerDay: 12,
+  },
+  default: {
+    location: 'Typical city',
+    currency: 'USD',
+    meal: { '$': 12, '$$': 25, '$$$': 50, '$$$$': 120 },
+    hotel: { '$': 70, '$$': 130, '$$$': 250, '$$$$': 500 },
+    activity: { '$': 10, '$$': 20, '$$$': 45, '$$$$': 100 },
+    transportPerDay: 10,
+  },
+};
@@ -0,0 +1,74 @@
+// examples/trip-planner/fixtures/gazetteer.ts
+import type { GazetteerEntry } from '../geocoding';
+import { placesDataset } from './places';
+
+const cities: GazetteerEntry[] = [
+  { name: 'Lisbon', aliases: ['Lisboa'], kind: 'city', country: 'Portugal', lat: 38.7223, lng: -9.1393 },
+  { name: 'Porto', aliases: ['Oporto'], kind: 'city', country: 'Portugal', lat: 41.1579, lng: -8.6291 },
+  { name: 'Sintra', kind: 'city', country: 'Portugal', lat: 38.8029, lng: -9.3817 },
+  { name: 'Paris', kind: 'city', country: 'France', lat: 48.8566, lng: 2.3522 },
+  { name: 'Versailles', kind: 'city', country: 'France', lat: 48.8049, lng: 2.1204 },
+  { name: 'Tokyo', aliases: ['Tōkyō'], kind: 'city', country: 'Japan', lat: 35.6762, lng: 139.6503 },
+  { name: 'Kyoto', aliases: ['Kyōto'], kind: 'city', country: 'Japan', lat: 35.0116, lng: 135.7681 },
+  { name: 'Hakone', kind: 'city', country: 'Japan', lat: 35.2324, lng: 139.1069 },
+  { name: 'New York', aliases: ['New York City', 'NYC', 'Manhattan'], kind: 'city', country: 'United States', lat: 40.7128, lng: -74.006 },
+  { name: 'Brooklyn', kind: 'city', country: 'United States', lat: 40.6782, lng: -73.9442 },
+  { name: 'San Francisco', aliases: ['SF'], kind: 'city', country: 'United States', lat: 37.7749, lng: -122.4194 },
+  { name: 'Chicago', kind: 'city', country: 'United States', lat: 41.8781, lng: -87.6298 },
+  { name: 'Mexico City', aliases: ['CDMX', 'Ciudad de México'], kind: 'city', country: 'Mexico', lat: 19.4326, lng: -99.1332 },
+  { name: 'London', kind: 'city', country: 'United Kingdom', lat: 51.5074, lng: -0.1278 },
+  { name: 'Rome', aliases: ['Roma'], kind: 'city', country: 'Italy', lat: 41.9028, lng: 12.4964 },
+  { name: 'Barcelona', kind: 'city', country: 'Spain', lat: 41.3874, lng: 2.1686 },
+  { name: 'Madrid', kind: 'city', country: 'Spain', lat: 40.4168, lng: -3.7038 },
+  { name: 'Berlin', kind: 'city', country: 'Germany', lat: 52.52, lng: 13.405 },
+  { name: 'Amsterdam', kind: 'city', country: 'Netherlands', lat: 52.3676, lng: 4.9041 },
+  { name: 'Sydney', kind: 'city', country: 'Australia', lat: -33.8688, lng: 151.2093 },
+];
+
+const landmarks: GazetteerEntry[] = [
+  { name: 'Colosseum', aliases: ['Colosseo'], kind: 'place', city: 'Rome', country: 'Italy', lat: 41.8902, lng: 12.4922 },
+  { name: 'Trevi Fountain', aliases: ['Fontana di Trevi'], kind: 'place', city: 'Rome', country: 'Italy', lat: 41.9009, lng: 12.4833 },
+  { name: 'Pantheon', kind: 'place', city: 'Rome', country: 'Italy', lat: 41.8986, lng: 12.4769 },
+  { name: 'Vatican Museums', aliases: ['Musei Vaticani', 'Sistine Chapel'], kind: 'place', city: 'Rome', country: 'Italy', lat: 41.9065, lng: 12.4536 },
+  { name: 'Sagrada Família', aliases: ['Sagrada Familia'], kind: 'place', city: 'Barcelona', country: 'Spain', lat: 41.4036, lng: 2.1744 },
+  { name: 'Park Güell', aliases: ['Park Guell'], kind: 'place', city: 'Barcelona', country: 'Spain', lat: 41.4145, lng: 2.1527 },
+  { name: 'La Rambla', aliases: ['Las Ramblas'], kind: 'place', city: 'Barcelona', country: 'Spain', lat: 41.3809, lng: 2.1734 },
+  { name: 'Big Ben', aliases: ['Elizabeth Tower'], kind: 'place', city: 'London', country: 'United Kingdom', lat: 51.5007, lng: -0.1246 },
+  { name: 'Tower Bridge', kind: 'place', city: 'London', country: 'United Kingdom', lat: 51.5055, lng: -0.0754 },
+  { name: 'British Museum', kind: 'place', city: 'London', country: 'United Kingdom', lat: 51.5194, lng: -0.127 },
+  { name: 'Brandenburg Gate', aliases: ['Brandenburger Tor'], kind: 'place', city: 'Berlin', country: 'Germany', lat: 52.5163, lng: 13.3777 },
+  { name: 'Rijksmuseum', kind: 'place', city: 'Amsterdam', country: 'Netherlands', lat: 52.36, lng: 4.8852 },
+  { name: 'Sydney Opera House', kind: 'place', city: 'Sydney', country: 'Australia', lat: -33.8568, lng: 151.2153 },
+  { name: 'Golden Gate Bridge', kind: 'place', city: 'San Francisco', country: 'United States', lat: 37.8199, lng: -122.4783 },
+  { name: 'Fushimi Inari Taisha', aliases: ['Fushimi Inari'], kind: 'place', city: 'Kyoto', country: 'Japan', lat: 34.9671, lng: 135.7727 },
+  { name: 'Pena Palace', aliases: ['Palácio da Pena'], kind: 'place', city: 'Sintra', country: 'Portugal', lat: 38.7876, lng: -9.3904 },
+  { name: 'Notre-Dame de Paris', aliases: ['Notre Dame'], kind: 'place', city: 'Paris', country: 'France', lat: 48.853, lng: 2.3499 },
+  { name: 'Arc de Triomphe', kind: 'place', city: 'Paris', country: 'France', lat: 48.8738, lng: 2.295 },
+  { name: 'Times Square', kind: 'place', city: 'New York', country: 'United States', lat: 40.758, lng: -73.9855 },
+  { name: 'Empire State Building', kind: 'place', city: 'New York', country: 'United States', lat: 40.7484, lng: -73.9857 },
+];
+
+const countryOf = new Map(cities.map(city => [city.name, city.country]));
+
+/**
+ * Cities and landmarks for gazetteerGeocodingProvider(), including every
+ * place in the bundled places dataset, so findPlaces results can always be
+ * located by name.
+ */
+export const gazetteer: GazetteerEntry[] = [
+  ...cities,
+  ...landmarks,
+  ...Object.values(placesDataset).flatMap(city =>
+    Object.values(city.places).flatMap(places =>
+      places.map(place => ({
+        name: place.name,
+        kind: 'place' as const,
+        city: city.location,
+        country: countryOf.get(city.location),
+        address: place.address,
+        lat: place.lat,
+        lng: place.lng,
+      }))
+    )
+  ),
+];
@@ -0,0 +1,162 @@
+// examples/trip-planner/fixtures/places.ts
+import type { OpeningHours, Weekday } from '../config';
+import type { PlacesDataset } from '../places';
+
+const EVERY_DAY: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+const ALL_DAY: OpeningHours = [{ days: EVERY_DAY, opens: '00:00', closes: '24:00' }];
+
+function daily(opens: string, closes: string): OpeningHours {
+  return [{ days: EVERY_DAY, opens, closes }];
+}
+
+function except(closed: Weekday[], opens: string, closes: string): OpeningHours {
+  return [{ days: EVERY_DAY.filter(day => !closed.includes(day)), opens, closes }];
+}
+
+/**
+ * Curated places for a few destinations, served by offlinePlacesProvider()
+ * when no other data is supplied. Keyed by lowercase city name. Ratings
+ * and hours are representative, not live.
+ */
+export const placesDataset: PlacesDataset = {
+  lisbon: {
+    location: 'Lisbon',
+    timeZone: 'Europe/Lisbon',
+    center: { lat: 38.7223, lng: -9.1393 },
+    places: {
+      attractions: [
+        { name: 'Jerónimos Monastery', description: 'Manueline monastery in Belém, a UNESCO World Heritage site', rating: 4.7, priceLevel: '$$', tags: ['history', 'architecture', 'unesco'], lat: 38.6979, lng: -9.2063, address: 'Praça do Império, Belém', openingHours: except(['mon'], '09:30', '18:00') },
+        { name: 'Belém Tower', description: 'Riverside fortress that guarded the Tagus estuary', rating: 4.6, priceLevel: '$', tags: ['history', 'views', 'unesco'], lat: 38.6916, lng: -9.216, address: 'Av. Brasília, Belém', openingHours: except(['mon'], '09:30', '18:00') },
+        { name: 'São Jorge Castle', description: 'Moorish castle above Alfama with the best views in the city', rating: 4.5, priceLevel: '$$', tags: ['history', 'views', 'photography'], lat: 38.7139, lng: -9.1335, address: 'R. de Santa Cruz do Castelo', openingHours: daily('09:00', '21:00') },
+        { name: 'Alfama', description: 'Oldest neighbourhood, a maze of lanes, tiled facades and fado bars', rating: 4.7, priceLevel: 'Free', tags: ['walking', 'culture', 'photography'], lat: 38.7115, lng: -9.1302, openingHours: ALL_DAY },
+        { name: 'Oceanário de Lisboa', description: 'One of Europe\'s largest aquariums, built around a central ocean tank', rating: 4.6, priceLevel: '$$', tags: ['family', 'indoor', 'nature'], lat: 38.7635, lng: -9.0937, address: 'Esplanada Dom Carlos I', openingHours: daily('10:00', '19:00') },
+      ],
+      restaurants: [
+        { name: 'Time Out Market', description: 'Food hall with stalls from the city\'s best chefs', rating: 4.4, priceLevel: '$$', tags: ['casual', 'variety', 'vegetarian'], lat: 38.7069, lng: -9.1459, address: 'Av. 24 de Julho 49', openingHours: daily('10:00', '24:00') },
+        { name: 'Pastéis de Belém', description: 'The original custard tarts, baked since 1837', rating: 4.6, priceLevel: '$', tags: ['bakery', 'local', 'vegetarian'], lat: 38.6975, lng: -9.2032, address: 'R. de Belém 84-92', openingHours: daily('08:00', '23:00') },
+        { name: 'Cervejaria Ramiro', description: 'Loud, beloved seafood hall; finish with a steak sandwich', rating: 4.6, priceLevel: '$$$', tags: ['seafood', 'local', 'dinner'], lat: 38.7207, lng: -9.1355, address: 'Av. Almirante Reis 1', openingHours: except(['mon'], '12:00', '24:00') },
+        { name: 'Ao 26 Vegan Food Project', description: 'Creative plant-based Portuguese cooking in Chiado', rating: 4.7, priceLevel: '$$', tags: ['vegan', 'vegetarian', 'creative'], lat: 38.7095, lng: -9.1437, address: 'R. Vítor Cordon 26', openingHours: except(['mon', 'sun'], '12:00', '23:00') },
+        { name: 'Taberna da Rua das Flores', description: 'Tiny tavern with a chalkboard menu of petiscos', rating: 4.5, priceLevel: '$$', tags: ['local', 'small plates', 'dinner'], lat: 38.7099, lng: -9.1432, address: 'R. das Flores 103', openingHours: except(['sun'], '12:00', '23:30') },
+      ],
+      hotels: [
+        { name: 'Memmo Alfama', description: 'Boutique hotel with a rooftop pool over the river', rating: 4.7, priceLevel: '$$$', tags: ['boutique', 'views', 'pool'], lat: 38.7106, lng: -9.1309, address: 'Tv. das Merceeiras 27', openingHours: ALL_DAY },
+        { name: 'The Lumiares', description: 'Apartment-style suites in Bairro Alto', rating: 4.6, priceLevel: '$$$', tags: ['apartments', 'kitchen', 'central'], lat: 38.7127, lng: -9.1456, address: 'R. do Diário de Notícias 142', openingHours: ALL_DAY },
+        { name: 'Lisboa Pessoa Hotel', description: 'Modern rooms steps from Chiado and the river', rating: 4.5, priceLevel: '$$', tags: ['central', 'breakfast'], lat: 38.7088, lng: -9.1417, address: 'R. do Ouro 1', openingHours: ALL_DAY },
+        { name: 'Home Lisbon Hostel', description: 'Sociable hostel famous for its family dinners', rating: 4.8, priceLevel: '$', tags: ['budget', 'social', 'backpacker'], lat: 38.7103, lng: -9.1377, address: 'R. de São Nicolau 13', openingHours: ALL_DAY },
+        { name: 'Pestana Palace', description: '19th-century palace with gardens and a spa', rating: 4.6, priceLevel: '$$$$', tags: ['luxury', 'spa', 'gardens'], lat: 38.7069, lng: -9.1871, address: 'R. Jau 54', openingHours: ALL_DAY },
+      ],
+      activities: [
+        { name: 'Tram 28', description: 'Vintage tram rattling through Graça, Alfama and Baixa', rating: 4.3, priceLevel: '$', tags: ['sightseeing', 'classic'], lat: 38.7162, lng: -9.1357, address: 'Largo Martim Moniz', openingHours: daily('07:00', '22:00') },
+        { name: 'Fado at Clube de Fado', description: 'Intimate evening of live fado in Alfama', rating: 4.6, priceLevel: '$$$', tags: ['music', 'culture', 'evening'], lat: 38.7102, lng: -9.1297, address: 'R. São João da Praça 94', openingHours: daily('19:30', '02:00') },
+        { name: 'Sintra Day Trip', description: 'Palaces and misty forest gardens 40 minutes by train', rating: 4.8, priceLevel: '$$', tags: ['day trip', 'history', 'nature'], lat: 38.7876, lng: -9.3904, openingHours: daily('09:00', '19:00') },
+        { name: 'Pastel de Nata Workshop', description: 'Bake your own custard tarts in a 2-hour class', rating: 4.9, priceLevel: '$$', tags: ['cooking', 'hands-on', 'food'], lat: 38.7114, lng: -9.1398, openingHours: daily('10:00', '18:00') },
+        { name: 'Sunset Sail on the Tagus', description: 'Two hours under sail past Belém and the 25 de Abril bridge', rating: 4.8, priceLevel: '$$', tags: ['boat', 'views', 'relaxing'], lat: 38.7039, lng: -9.1735, address: 'Doca de Santo Amaro', openingHours: daily('16:00', '21:00') },
+      ],
+    },
+  },
+  paris: {
+    location: 'Paris',
+    timeZone: 'Europe/Paris',
+    center: { lat: 48.8566, lng: 2.3522 },
+    places: {
+      attractions: [
+        { name: 'Eiffel Tower', description: 'Iron landmark with summit views over the city', rating: 4.7, priceLevel: '$$$', tags: ['landmark', 'views', 'photography'], lat: 48.8584, lng: 2.2945, address: 'Champ de Mars', openingHours: daily('09:30', '23:45') },
+        { name: 'Louvre Museum', description: 'The world\'s most visited museum, from the Mona Lisa to Egyptian antiquities', rating: 4.7, priceLevel: '$$', tags: ['museum', 'art', 'indoor'], lat: 48.8606, lng: 2.3376, address: 'Rue de Rivoli', openingHours: except(['tue'], '09:00', '18:00') },
+        { name: 'Musée d\'Orsay', description: 'Impressionist masterpieces in a Beaux-Arts railway station', rating: 4.8, priceLevel: '$$', tags: ['museum', 'art', 'indoor'], lat: 48.86, lng: 2.3266, address: '1 Rue de la Légion d\'Honneur', openingHours: except(['mon'], '09:30', '18:00') },
+        { name: 'Sacré-Cœur', description: 'White-domed basilica crowning Montmartre', rating: 4.7, priceLevel: 'Free', tags: ['views', 'architecture', 'walking'], lat: 48.8867, lng: 2.3431, address: '35 Rue du Chevalier de la Barre', openingHours: daily('06:30', '22:30') },
+        { name: 'Luxembourg Gardens', description: 'Formal gardens with fountains, orchards and chess players', rating: 4.7, priceLevel: 'Free', tags: ['nature', 'gardens', 'relaxing'], lat: 48.8462, lng: 2.3372, openingHours: daily('07:30', '21:30') },
+      ],
+      restaurants: [
+        { name: 'Le Comptoir du Panthéon', description: 'Classic brasserie terrace facing the Panthéon', rating: 4.3, priceLevel: '$$', tags: ['french', 'brasserie', 'lunch'], lat: 48.8465, lng: 2.3458, address: '5 Rue Soufflot', openingHours: daily('07:00', '01:00') },
+        { name: 'L\'As du Fallafel', description: 'Famous falafel pitas in the Marais', rating: 4.5, priceLevel: '$', tags: ['casual', 'vegetarian', 'street food'], lat: 48.8575, lng: 2.3591, address: '34 Rue des Rosiers', openingHours: except(['sat'], '11:00', '23:00') },
+        { name: 'Le Relais de l\'Entrecôte', description: 'One dish only: steak frites with the secret sauce', rating: 4.4, priceLevel: '$$', tags: ['french', 'steak', 'dinner'], lat: 48.8542, lng: 2.3327, address: '20 Rue Saint-Benoît', openingHours: daily('12:00', '23:00') },
+        { name: 'Le Potager du Marais', description: 'Vegan takes on French classics', rating: 4.5, priceLevel: '$$', tags: ['vegan', 'vegetarian', 'french'], lat: 48.8606, lng: 2.3537, address: '24 Rue Rambuteau', openingHours: daily('12:00', '22:30') },
+        { name: 'Le Jules Verne', description: 'Fine dining on the Eiffel Tower\'s second floor', rating: 4.5, priceLevel: '$$$$', tags: ['upscale', 'views', 'special occasion'], lat: 48.8583, lng: 2.2944, address: 'Avenue Gustave Eiffel', openingHours: daily('12:00', '22:00') },
+      ],
+      hotels: [
+        { name: 'Hôtel des Grands Boulevards', description: 'Playful boutique hotel with a rooftop bar', rating: 4.5, priceLevel: '$$$', tags: ['boutique', 'central', 'bar'], lat: 48.8707, lng: 2.3488, address: '17 Boulevard Poissonnière', openingHours: ALL_DAY },
+        { name: 'Le Pavillon de la Reine', description: 'Ivy-covered hideaway on the Place des Vosges', rating: 4.7, priceLevel: '$$$$', tags: ['luxury', 'romantic', 'spa'], lat: 48.8558, lng: 2.3667, address: '28 Place des Vosges', openingHours: ALL_DAY },
+        { name: 'Generator Paris', description: 'Design hostel near Canal Saint-Martin', rating: 4.2, priceLevel: '$', tags: ['budget', 'social', 'backpacker'], lat: 48.8784, lng: 2.3697, address: '9-11 Place du Colonel Fabien', openingHours: ALL_DAY },
+        { name: 'Hôtel Le Six', description: 'Quiet Montparnasse rooms with a small spa', rating: 4.6, priceLevel: '$$$', tags: ['boutique', 'spa', 'breakfast'], lat: 48.8448, lng: 2.3299, address: '14 Rue Stanislas', openingHours: ALL_DAY },
+        { name: 'Citadines Les Halles', description: 'Serviced apartments in the heart of the city', rating: 4.1, priceLevel: '$$', tags: ['apartments', 'kitchen', 'central'], lat: 48.8613, lng: 2.3464, address: '4 Rue des Innocents', openingHours: ALL_DAY },
+      ],
+      activities: [
+        { name: 'Seine River Cruise', description: 'An hour on the river past Notre-Dame and the Louvre', rating: 4.5, priceLevel: '$$', tags: ['boat', 'sightseeing', 'relaxing'], lat: 48.8598, lng: 2.2941, address: 'Port de la Bourdonnais', openingHours: daily('10:00', '22:30') },
+        { name: 'Montmartre Walking Tour', description: 'Artists\' studios, vineyards and hidden squares', rating: 4.8, priceLevel: '$', tags: ['walking', 'guided', 'history'], lat: 48.8845, lng: 2.3405, address: 'Place des Abbesses', openingHours: daily('10:00', '17:00') },
+        { name: 'Croissant Baking Class', description: 'Laminate dough and shape viennoiserie with a pastry chef', rating: 4.9, priceLevel: '$$$', tags: ['cooking', 'hands-on', 'food'], lat: 48.8638, lng: 2.3622, openingHours: except(['sun'], '09:00', '17:00') },
+        { name: 'Versailles Day Trip', description: 'The palace, Hall of Mirrors and gardens by RER train', rating: 4.7, priceLevel: '$$$', tags: ['day trip', 'history', 'gardens'], lat: 48.8049, lng: 2.1204, openingHours: except(['mon'], '09:00', '18:30') },
+        { name: 'Vélib\' Bike Ride along the Canal', description: 'Self-guided ride from the Bastille to La Villette', rating: 4.4, priceLevel: '$', tags: ['biking', 'active', 'local'], lat: 48.8718, lng: 2.3653, openingHours: ALL_DAY },
+      ],
+    },
+  },
+  tokyo: {
+    location: 'Tokyo',
+    timeZone: 'Asia/Tokyo',
+    center: { lat: 35.6762, lng: 139.6503 },
+    places: {
+      attractions: [
+        { name: 'Sensō-ji', description: 'Tokyo\'s oldest temple, reached through the Nakamise market street', rating: 4.6, priceLevel: 'Free', tags: ['temple', 'history', 'culture'], lat: 35.7148, lng: 139.7967, address: '2-3-1 Asakusa, Taitō', openingHours: daily('06:00', '17:00') },
+        { name: 'Meiji Jingū', description: 'Forested Shinto shrine beside Harajuku', rating: 4.6, priceLevel: 'Free', tags: ['shrine', 'nature', 'relaxing'], lat: 35.6764, lng: 139.6993, address: '1-1 Yoyogikamizonochō, Shibuya', openingHours: daily('05:00', '18:00') },
+        { name: 'Shibuya Crossing', description: 'The world\'s busiest pedestrian scramble', rating: 4.5, priceLevel: 'Free', tags: ['landmark', 'photography', 'nightlife'], lat: 35.6595, lng: 139.7005, openingHours: ALL_DAY },
+        { name: 'teamLab Planets', description: 'Immersive digital art you walk through barefoot', rating: 4.6, priceLevel: '$$$', tags: ['art', 'indoor', 'family'], lat: 35.6491, lng: 139.7898, address: '6-1-16 Toyosu, Kōtō', openingHours: daily('09:00', '22:00') },
+        { name: 'Tokyo Skytree', description: '634 m broadcast tower with two observation decks', rating: 4.5, priceLevel: '$$', tags: ['views', 'landmark', 'indoor'], lat: 35.7101, lng: 139.8107, address: '1-1-2 Oshiage, Sumida', openingHours: daily('10:00', '21:00') },
+      ],
+      restaurants: [
+        { name: 'Ichiran Shibuya', description: 'Tonkotsu ramen eaten in solo booths', rating: 4.4, priceLevel: '$', tags: ['ramen', 'casual', 'late night'], lat: 35.6614, lng: 139.7011, address: '1-22-7 Jinnan, Shibuya', openingHours: ALL_DAY },
+        { name: 'Tsukiji Outer Market', description: 'Street stalls for tamagoyaki, sushi and grilled scallops', rating: 4.4, priceLevel: '$$', tags: ['seafood', 'street food', 'breakfast'], lat: 35.6654, lng: 139.7707, address: '4 Tsukiji, Chūō', openingHours: except(['sun'], '06:00', '14:00') },
+        { name: 'Ain Soph. Journey', description: 'Vegan cafe famous for its soufflé pancakes', rating: 4.5, priceLevel: '$$', tags: ['vegan', 'vegetarian', 'cafe'], lat: 35.6915, lng: 139.7063, address: '3-8-9 Shinjuku', openingHours: daily('11:30', '21:00') },
+        { name: 'Omoide Yokochō', description: 'Smoky alley of tiny yakitori counters by Shinjuku Station', rating: 4.3, priceLevel: '$', tags: ['yakitori', 'local', 'nightlife'], lat: 35.6929, lng: 139.6995, address: '1-2 Nishishinjuku', openingHours: daily('17:00', '24:00') },
+        { name: 'Sushi Saitō', description: 'Three-Michelin-star omakase counter; book months ahead', rating: 4.9, priceLevel: '$$$$', tags: ['sushi', 'upscale', 'special occasion'], lat: 35.6677, lng: 139.7395, address: '1-4-5 Roppongi, Minato', openingHours: except(['sun', 'mon'], '12:00', '22:00') },
+      ],
+      hotels: [
+        { name: 'Park Hyatt Tokyo', description: 'High-rise luxury with the bar from Lost in Translation', rating: 4.7, priceLevel: '$$$$', tags: ['luxury', 'views', 'spa'], lat: 35.6856, lng: 139.6906, address: '3-7-1-2 Nishishinjuku', openingHours: ALL_DAY },
+        { name: 'Hoshinoya Tokyo', description: 'A ryokan tower with tatami rooms and an onsen', rating: 4.8, priceLevel: '$$$$', tags: ['ryokan', 'onsen', 'unique'], lat: 35.6868, lng: 139.7656, address: '1-9-1 Ōtemachi, Chiyoda', openingHours: ALL_DAY },
+        { name: 'Hotel Gracery Shinjuku', description: 'Reliable rooms under the Godzilla head', rating: 4.3, priceLevel: '$$', tags: ['central', 'nightlife'], lat: 35.6948, lng: 139.7016, address: '1-19-1 Kabukichō, Shinjuku', openingHours: ALL_DAY },
+        { name: 'Nine Hours Akasaka', description: 'Sleek capsule hotel for a night or two', rating: 4.2, priceLevel: '$', tags: ['budget', 'capsule', 'unique'], lat: 35.6749, lng: 139.7388, address: '3-3-3 Akasaka, Minato', openingHours: ALL_DAY },
+        { name: 'Trunk Hotel', description: 'Design hotel between Shibuya and Harajuku', rating: 4.5, priceLevel: '$$$', tags: ['boutique', 'bar', 'trendy'], lat: 35.6646, lng: 139.7063, address: '5-31 Jingūmae, Shibuya', openingHours: ALL_DAY },
+      ],
+      activities: [
+        { name: 'Sumo Morning Practice', description: 'Watch wrestlers train at a stable in Ryōgoku', rating: 4.7, priceLevel: '$$', tags: ['culture', 'guided', 'unique'], lat: 35.6966, lng: 139.7935, openingHours: daily('07:30', '10:00') },
+        { name: 'Tsukiji Sushi-Making Class', description: 'Market tour then make nigiri with a chef', rating: 4.9, priceLevel: '$$$', tags: ['cooking', 'hands-on', 'food'], lat: 35.6654, lng: 139.7707, openingHours: except(['sun'], '09:00', '13:00') },
+        { name: 'Hakone Day Trip', description: 'Lake Ashi boats, hot springs and views of Mount Fuji', rating: 4.6, priceLevel: '$$$', tags: ['day trip', 'nature', 'onsen'], lat: 35.2324, lng: 139.1069, openingHours: daily('08:00', '19:00') },
+        { name: 'Golden Gai Bar Crawl', description: 'Six-seat bars stacked along narrow Shinjuku alleys', rating: 4.5, priceLevel: '$$', tags: ['nightlife', 'guided', 'local'], lat: 35.6938, lng: 139.7046, openingHours: daily('19:00', '03:00') },
+        { name: 'Yanaka Walking Tour', description: 'Old-Tokyo lanes, temples and craft shops that survived the war', rating: 4.6, priceLevel: '$', tags: ['walking', 'history', 'local'], lat: 35.7265, lng: 139.7671, openingHours: daily('10:00', '16:00') },
+      ],
+    },
+  },
+  'new york': {
+    location: 'New York',
+    timeZone: 'America/New_York',
+    center: { lat: 40.7128, lng: -74.006 },
+    places: {
+      attractions: [
+        { name: 'Central Park', description: '843 acres of lawns, lakes and woodland in Manhattan', rating: 4.8, priceLevel: 'Free', tags: ['nature', 'walking', 'relaxing'], lat: 40.7829, lng: -73.9654, openingHours: daily('06:00', '01:00') },
+        { name: 'The Metropolitan Museum of Art', description: '5,000 years of art on Fifth Avenue', rating: 4.8, priceLevel: '$$', tags: ['museum', 'art', 'indoor'], lat: 40.7794, lng: -73.9632, address: '1000 5th Ave', openingHours: except(['wed'], '10:00', '17:00') },
+        { name: 'Statue of Liberty', description: 'Ferry to Liberty Island and the pedestal', rating: 4.7, priceLevel: '$$', tags: ['landmark', 'history', 'boat'], lat: 40.6892, lng: -74.0445, address: 'Liberty Island', openingHours: daily('09:00', '17:00') },
+        { name: 'The High Line', description: 'Elevated park on an old rail line over Chelsea', rating: 4.7, priceLevel: 'Free', tags: ['walking', 'gardens', 'views'], lat: 40.748, lng: -74.0048, openingHours: daily('07:00', '22:00') },
+        { name: 'Brooklyn Bridge', description: 'Walk the 1883 suspension bridge for skyline views', rating: 4.8, priceLevel: 'Free', tags: ['landmark', 'walking', 'photography'], lat: 40.7061, lng: -73.9969, openingHours: ALL_DAY },
+      ],
+      restaurants: [
+        { name: 'Katz\'s Delicatessen', description: 'Hand-carved pastrami since 1888', rating: 4.5, priceLevel: '$$', tags: ['deli', 'classic', 'lunch'], lat: 40.7223, lng: -73.9874, address: '205 E Houston St', openingHours: daily('08:00', '22:45') },
+        { name: 'Joe\'s Pizza', description: 'The archetypal New York slice', rating: 4.6, priceLevel: '$', tags: ['pizza', 'casual', 'vegetarian'], lat: 40.7306, lng: -74.0021, address: '7 Carmine St', openingHours: daily('10:00', '04:00') },
+        { name: 'Superiority Burger', description: 'Vegetarian diner with a cult following', rating: 4.5, priceLevel: '$$', tags: ['vegetarian', 'casual', 'creative'], lat: 40.7271, lng: -73.9846, address: '119 Avenue A', openingHours: except(['tue'], '17:00', '23:00') },
+        { name: 'Los Tacos No. 1', description: 'Adobada tacos at a standing counter in Chelsea Market', rating: 4.7, priceLevel: '$', tags: ['mexican', 'street food', 'lunch'], lat: 40.7424, lng: -74.0061, address: '75 9th Ave', openingHours: daily('11:00', '22:00') },
+        { name: 'Le Bernardin', description: 'Three-Michelin-star seafood in Midtown', rating: 4.7, priceLevel: '$$$$', tags: ['seafood', 'upscale', 'special occasion'], lat: 40.7616, lng: -73.9818, address: '155 W 51st St', openingHours: except(['sun'], '12:00', '22:30') },
+      ],
+      hotels: [
+        { name: 'The Plaza', description: 'Gilded-age landmark on Central Park South', rating: 4.6, priceLevel: '$$$$', tags: ['luxury', 'landmark', 'spa'], lat: 40.7646, lng: -73.9743, address: '768 5th Ave', openingHours: ALL_DAY },
+        { name: 'The Ludlow', description: 'Loft-style rooms on the Lower East Side', rating: 4.5, priceLevel: '$$$', tags: ['boutique', 'nightlife', 'trendy'], lat: 40.7219, lng: -73.9871, address: '180 Ludlow St', openingHours: ALL_DAY },
+        { name: 'Pod 51', description: 'Compact, clever rooms in Midtown East', rating: 4.1, priceLevel: '$$', tags: ['budget', 'central'], lat: 40.7566, lng: -73.9699, address: '230 E 51st St', openingHours: ALL_DAY },
+        { name: 'HI New York City Hostel', description: 'Huge Upper West Side hostel with a garden', rating: 4.2, priceLevel: '$', tags: ['budget', 'social', 'backpacker'], lat: 40.7986, lng: -73.9668, address: '891 Amsterdam Ave', openingHours: ALL_DAY },
+        { name: 'Wythe Hotel', description: 'Converted Williamsburg factory with skyline views', rating: 4.5, priceLevel: '$$$', tags: ['boutique', 'views', 'bar'], lat: 40.7219, lng: -73.9579, address: '80 Wythe Ave, Brooklyn', openingHours: ALL_DAY },
+      ],
+      activities: [
+        { name: 'Broadway Show', description: 'An evening in the Theater District', rating: 4.8, priceLevel: '$$$', tags: ['theater', 'evening', 'culture'], lat: 40.759, lng: -73.9845, address: 'Times Square', openingHours: except(['mon'], '19:00', '23:00') },
+        { name: 'Staten Island Ferry', description: 'Free harbor crossing with Statue of Liberty views', rating: 4.5, priceLevel: 'Free', tags: ['boat', 'views', 'classic'], lat: 40.7014, lng: -74.0132, address: '4 South St', openingHours: ALL_DAY },
+        { name: 'Brooklyn Food Tour', description: 'Pizza, bagels and cheesecake across three neighbourhoods', rating: 4.8, priceLevel: '$$', tags: ['food', 'guided', 'walking'], lat: 40.7033, lng: -73.9881, openingHours: daily('11:00', '16:00') },
+        { name: 'Central Park Bike Rental', description: 'Loop the park drive on two wheels', rating: 4.5, priceLevel: '$', tags: ['biking', 'active', 'nature'], lat: 40.7681, lng: -73.9819, openingHours: daily('08:00', '20:00') },
+        { name: 'Top of the Rock', description: 'Observation deck with a straight-on view of the Empire State', rating: 4.7, priceLevel: '$$$', tags: ['views', 'landmark', 'photography'], lat: 40.7593, lng: -73.9794, address: '30 Rockefeller Plaza', openingHours: daily('09:00', '24:00') },
+      ],
+    },
+  },
+};
@@ -0,0 +1,82 @@
+// examples/trip-planner/fixtures/weather.ts
+import type { WeatherFixtures } from '../weather';
+
+/**
+ * Sample conditions for a few destinations, served by
+ * fixtureWeatherProvider() when no other data is supplied. Keyed by
+ * lowercase city name, in metric units, with a week of forecast days.
+ */
+export const weatherFixtures: WeatherFixtures = {
+  lisbon: {
+    location: 'Lisbon',
+    temperature: 21,
+    feelsLike: 21,
+    description: 'Sunny',
+    humidity: 58,
+    windSpeed: 14,
+    uvIndex: 6,
+    forecast: [
+      { date: '2025-06-01', high: 24, low: 16, description: 'Sunny' },
+      { date: '2025-06-02', high: 25, low: 17, description: 'Partly cloudy' },
+      { date: '2025-06-03', high: 23, low: 16, description: 'Sunny' },
+      { date: '2025-06-04', high: 26, low: 18, description: 'Sunny' },
+      { date: '2025-06-05', high: 27, low: 18, description: 'Sunny' },
+      { date: '2025-06-06', high: 24, low: 17, description: 'Partly cloudy' },
+      { date: '2025-06-07', high: 22, low: 16, description: 'Light drizzle' },
+    ],
+  },
+  paris: {
+    location: 'Paris',
+    temperature: 17,
+    feelsLike: 16,
+    description: 'Light rain',
+    humidity: 77,
+    windSpeed: 11,
+    uvIndex: 3,
+    forecast: [
+      { date: '2025-06-01', high: 19, low: 12, description: 'Light rain' },
+      { date: '2025-06-02', high: 21, low: 13, description: 'Overcast' },
+      { date: '2025-06-03', high: 22, low: 13, description: 'Partly cloudy' },
+      { date: '2025-06-04', high: 23, low: 14, description: 'Sunny' },
+      { date: '2025-06-05', high: 20, low: 13, description: 'Moderate rain' },
+      { date: '2025-06-06', high: 18, low: 12, description: 'Light rain' },
+      { date: '2025-06-07', high: 21, low: 12, description: 'Partly cloudy' },
+    ],
+  },
+  tokyo: {
+    location: 'Tokyo',
+    temperature: 26,
+    feelsLike: 28,
+    description: 'Humid, partly cloudy',
+    humidity: 74,
+    windSpeed: 9,
+    uvIndex: 7,
+    forecast: [
+      { date: '2025-06-01', high: 28, low: 20, description: 'Partly cloudy' },
+      { date: '2025-06-02', high: 27, low: 21, description: 'Patchy rain nearby' },
+      { date: '2025-06-03', high: 29, low: 21, description: 'Sunny' },
+      { date: '2025-06-04', high: 27, low: 21, description: 'Moderate rain' },
+      { date: '2025-06-05', high: 25, low: 20, description: 'Heavy rain' },
+      { date: '2025-06-06', high: 28, low: 21, description: 'Overcast' },
+      { date: '2025-06-07', high: 30, low: 22, description: 'Sunny' },
+    ],
+  },
+  'new york': {
+    location: 'New York',
+    temperature: 22,
+    feelsLike: 22,
+    description: 'Clear',
+    humidity: 52,
+    windSpeed: 17,
+    uvIndex: 5,
+    forecast: [
+      { date: '2025-06-01', high: 25, low: 16, description: 'Clear' },
+      { date: '2025-06-02', high: 27, low: 18, description: 'Sunny' },
+      { date: '2025-06-03', high: 24, low: 17, description: 'Thundery outbreaks possible' },
+      { date: '2025-06-04', high: 22, low: 15, description: 'Partly cloudy' },
+      { date: '2025-06-05', high: 23, low: 16, description: 'Sunny' },
+      { date: '2025-06-06', high: 26, low: 18, description: 'Sunny' },
+      { date: '2025-06-07', high: 28, low: 20, description: 'Humid, partly cloudy' },
+    ],
+  },
+};
@@ -0,0 +1,87 @@
+// examples/trip-planner/formats.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { GeoJsonOutput } from './config';
+import { createMapFiles, createViewerUrl, toGpx, toKml, viewerUrlWithData } from './formats';
+
+const map: GeoJsonOutput['geojson'] = {
+  type: 'FeatureCollection',
+  bbox: [-9.2156, 38.6916, -9.1334, 38.7139],
+  features: [
+    {
+      type: 'Feature',
+      properties: { name: 'Belém Tower', description: 'Fish & chips <nearby>', kind: 'point', 'marker-color': '#e74c3c' },
+      geometry: { type: 'Point', coordinates: [-9.2156, 38.6916] },
+    },
+    {
+      type: 'Feature',
+      properties: { name: 'Day 1', kind: 'route', layer: 'Day 1', stops: ['Belém Tower', 'Castle'], stroke: '#3498db', 'stroke-width': 4 },
+      geometry: { type: 'LineString', coordinates: [[-9.2156, 38.6916], [-9.1334, 38.7139]] },
+    },
+    {
+      type: 'Feature',
+      properties: { name: 'Alfama', kind: 'area', layer: 'Day 1', fill: '#3498db', 'fill-opacity': 0.2 },
+      geometry: { type: 'Polygon', coordinates: [[[-9.14, 38.71], [-9.13, 38.71], [-9.13, 38.72], [-9.14, 38.71]]] },
+    },
+  ],
+};
+
+describe('createMapFiles', () => {
+  it('names files after the location, once per format', () => {
+    const files = createMapFiles(map, 'São Paulo, Brazil', ['kml', 'gpx', 'kml']);
+
+    assert.deepEqual(files.map(file => [file.filename, file.mimeType]), [
+      ['sao-paulo-brazil-map.kml', 'application/vnd.google-earth.kml+xml'],
+      ['sao-paulo-brazil-map.gpx', 'application/gpx+xml'],
+    ]);
+    assert.deepEqual(JSON.parse(createMapFiles(map, '???', ['geojson'])[0].content), map);
+    assert.equal(createMapFiles(map, '???', ['geojson'])[0].filename, 'trip-map.geojson');
+  });
+});
+
+describe('toKml', () => {
+  it('writes a folder per layer with escaped text and aabbggrr colors', () => {
+    const kml = toKml(map, 'Map: Lisbon');
+
+    assert.match(kml, /<Document><name>Map: Lisbon<\/name>/);
+    assert.match(kml, /<description>Fish &amp; chips &lt;nearby&gt;<\/description>/);
+    assert.match(kml, /<IconStyle><color>ff3c4ce7<\/color><\/IconStyle>/);
+    assert.match(kml, /<Folder><name>Day 1<\/name>\n<Placemark><name>Day 1<\/name>.*<LineStyle><color>ffdb9834<\/color><width>4<\/width>/);
+    assert.match(kml, /<PolyStyle><color>33db9834<\/color><\/PolyStyle>/);
+    assert.match(kml, /<coordinates>-9.2156,38.6916 -9.1334,38.7139<\/coordinates>/);
+    // Unlayered features come before the folders
+    assert.ok(kml.indexOf('Belém Tower') < kml.indexOf('<Folder>'));
+  });
+});
+
+describe('toGpx', () => {
+  it('writes points as waypoints, routes as routes and areas as tracks', () => {
+    const gpx = toGpx(map, 'Map: Lisbon');
+
+    assert.match(gpx, /<bounds minlat="38.6916" minlon="-9.2156" maxlat="38.7139" maxlon="-9.1334"\/>/);
+    assert.match(gpx, /<wpt lat="38.6916" lon="-9.2156"><name>Belém Tower<\/name><desc>Fish &amp; chips &lt;nearby&gt;<\/desc><\/wpt>/);
+    assert.match(gpx, /<rte><name>Day 1<\/name><type>Day 1<\/type>\n<rtept lat="38.6916" lon="-9.2156"><name>Belém Tower<\/name><\/rtept>/);
+    assert.match(gpx, /<trk><name>Alfama<\/name><type>Day 1<\/type><trkseg>/);
+    assert.ok(gpx.indexOf('<wpt') < gpx.indexOf('<rte>') && gpx.indexOf('<rte>') < gpx.indexOf('<trk>'));
+  });
+});
+
+describe('viewer links', () => {
+  const center = { lat: 38.70275, lng: -9.1745 };
+
+  it('centers geojson.io on the map without the features', () => {
+    assert.equal(createViewerUrl('https://geojson.io', map, center), 'https://geojson.io/#map=12/38.70275/-9.17450');
+    assert.equal(createViewerUrl('https://geojson.io', { type: 'FeatureCollection', features: [] }, undefined), 'https://geojson.io/');
+  });
+
+  it('adds the features for the map card, keeping the view, unless the link would be too long', () => {
+    const viewerUrl = createViewerUrl('https://geojson.io', map, center);
+    const withData = viewerUrlWithData(viewerUrl, map);
+
+    assert.ok(withData);
+    assert.ok(withData.startsWith('https://geojson.io/#map=12/38.70275/-9.17450&data=data:application/json,'));
+    assert.deepEqual(JSON.parse(decodeURIComponent(withData.split(',').slice(1).join(','))), map);
+    assert.equal(viewerUrlWithData(viewerUrl, map, 100), undefined);
+    assert.ok(viewerUrlWithData('https://geojson.io/', map)?.startsWith('https://geojson.io/#data=data:application/json,'));
+  });
+});
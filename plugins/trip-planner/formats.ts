@@ -0,0 +1,200 @@
+// examples/trip-planner/formats.ts
+import type { Coordinates, GeoJsonOutput, MapFeature, MapFile, MapFileFormat } from './config';
+
+type FeatureCollection = GeoJsonOutput['geojson'];
+
+// =============================================================================
+// Map Files
+// =============================================================================
+
+const MIME_TYPES: Record<MapFileFormat, string> = {
+  geojson: 'application/geo+json',
+  kml: 'application/vnd.google-earth.kml+xml',
+  gpx: 'application/gpx+xml',
+};
+
+const WRITERS: Record<MapFileFormat, (geojson: FeatureCollection, title: string) => string> = {
+  geojson: geojson => JSON.stringify(geojson, null, 2),
+  kml: toKml,
+  gpx: toGpx,
+};
+
+/**
+ * Write the map in each requested format, named after its location, e.g.
+ * `lisbon-map.kml`. generateMap writes KML and GPX; the map card writes
+ * the GeoJSON file from the output's `geojson`.
+ */
+export function createMapFiles(geojson: FeatureCollection, location: string, formats: readonly MapFileFormat[]): MapFile[] {
+  const title = `Map: ${location}`;
+  const slug = location.normalize('NFD').replace(/\p{Diacritic}/gu, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'trip';
+
+  return [...new Set(formats)].map(format => ({
+    format,
+    filename: `${slug}-map.${format}`,
+    mimeType: MIME_TYPES[format],
+    content: WRITERS[format](geojson, title),
+  }));
+}
+
+/**
+ * KML
+ *
+ * For Google Earth and My Maps. Each layer becomes a folder; points,
+ * routes and areas become placemarks styled with their map colors.
+ */
+export function toKml(geojson: FeatureCollection, title: string): string {
+  const placemark = (feature: MapFeature) => {
+    const { name, description } = feature.properties;
+    return [
+      '<Placemark>',
+      `<name>${escapeXml(name)}</name>`,
+      description ? `<description>${escapeXml(description)}</description>` : '',
+      kmlStyle(feature),
+      kmlGeometry(feature),
+      '</Placemark>',
+    ].filter(Boolean).join('');
+  };
+
+  const body = groupByLayer(geojson.features).map(([layer, features]) =>
+    layer === undefined
+      ? features.map(placemark).join('\n')
+      : `<Folder><name>${escapeXml(layer)}</name>\n${features.map(placemark).join('\n')}\n</Folder>`
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    `<Document><name>${escapeXml(title)}</name>`,
+    ...body,
+    '</Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+function kmlStyle({ properties }: MapFeature): string {
+  const styles = [
+    properties['marker-color'] && `<IconStyle><color>${kmlColor(properties['marker-color'])}</color></IconStyle>`,
+    properties.stroke && `<LineStyle><color>${kmlColor(properties.stroke)}</color><width>${properties['stroke-width'] ?? 2}</width></LineStyle>`,
+    properties.fill && `<PolyStyle><color>${kmlColor(properties.fill, properties['fill-opacity'])}</color></PolyStyle>`,
+  ].filter(Boolean);
+  return styles.length > 0 ? `<Style>${styles.join('')}</Style>` : '';
+}
+
+function kmlGeometry({ geometry }: MapFeature): string {
+  const coordinates = (positions: Array<[number, number]>) =>
+    `<coordinates>${positions.map(([lng, lat]) => `${lng},${lat}`).join(' ')}</coordinates>`;
+
+  switch (geometry.type) {
+    case 'Point':
+      return `<Point>${coordinates([geometry.coordinates])}</Point>`;
+    case 'LineString':
+      return `<LineString><tessellate>1</tessellate>${coordinates(geometry.coordinates)}</LineString>`;
+    case 'Polygon': {
+      const [outer, ...holes] = geometry.coordinates;
+      const ring = (positions: Array<[number, number]>) => `<LinearRing>${coordinates(positions)}</LinearRing>`;
+      return `<Polygon><outerBoundaryIs>${ring(outer)}</outerBoundaryIs>${holes.map(hole => `<innerBoundaryIs>${ring(hole)}</innerBoundaryIs>`).join('')}</Polygon>`;
+    }
+  }
+}
+
+/** KML colors are aabbggrr. */
+function kmlColor(hex: string, opacity = 1): string {
+  const [r, g, b] = [1, 3, 5].map(start => hex.slice(start, start + 2));
+  const alpha = Math.round(Math.min(Math.max(opacity, 0), 1) * 255).toString(16).padStart(2, '0');
+  return `${alpha}${b}${g}${r}`.toLowerCase();
+}
+
+/**
+ * GPX
+ *
+ * For GPS devices and hiking apps. Points become waypoints and routes
+ * become routes through their stops. GPX has no areas, so each area's
+ * outline is written as a track. GPX has no layers either; the layer is
+ * kept in each element's `type`.
+ */
+export function toGpx(geojson: FeatureCollection, title: string): string {
+  const text = (tag: string, value: string | undefined) => (value ? `<${tag}>${escapeXml(value)}</${tag}>` : '');
+  const at = ([lng, lat]: [number, number]) => `lat="${lat}" lon="${lng}"`;
+
+  const waypoints: string[] = [];
+  const routes: string[] = [];
+  const tracks: string[] = [];
+  for (const { properties, geometry } of geojson.features) {
+    const details = text('name', properties.name) + text('desc', properties.description);
+    if (geometry.type === 'Point') {
+      waypoints.push(`<wpt ${at(geometry.coordinates)}>${details}${text('type', properties.layer)}</wpt>`);
+    } else if (geometry.type === 'LineString') {
+      const stops = geometry.coordinates.map((position, i) => `<rtept ${at(position)}>${text('name', properties.stops?.[i])}</rtept>`);
+      routes.push(`<rte>${details}${text('type', properties.layer)}\n${stops.join('\n')}\n</rte>`);
+    } else {
+      const outline = geometry.coordinates[0].map(position => `<trkpt ${at(position)}></trkpt>`);
+      tracks.push(`<trk>${details}${text('type', properties.layer)}<trkseg>\n${outline.join('\n')}\n</trkseg></trk>`);
+    }
+  }
+
+  const bbox = geojson.bbox;
+  const bounds = bbox ? `<bounds minlat="${bbox[1]}" minlon="${bbox[0]}" maxlat="${bbox[3]}" maxlon="${bbox[2]}"/>` : '';
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="trip-planner" xmlns="http://www.topografix.com/GPX/1/1">',
+    `<metadata>${text('name', title)}${bounds}</metadata>`,
+    ...waypoints,
+    ...routes,
+    ...tracks,
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+/** Features by layer, in the order layers first appear; unlayered features first. */
+function groupByLayer(features: readonly MapFeature[]): Array<[string | undefined, MapFeature[]]> {
+  const groups = new Map<string | undefined, MapFeature[]>([[undefined, []]]);
+  for (const feature of features) {
+    const { layer } = feature.properties;
+    groups.set(layer, [...(groups.get(layer) ?? []), feature]);
+  }
+  return [...groups].filter(([, grouped]) => grouped.length > 0);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// =============================================================================
+// Viewer Link
+// =============================================================================
+
+/** Longest viewer link that carries the map itself; browsers and servers drop longer ones. */
+export const MAX_VIEWER_URL_LENGTH = 8_000;
+
+/**
+ * Link to geojson.io centered on the map, without its features, so the
+ * tool output holds the map only once, as `geojson`. The map card adds
+ * the features with viewerUrlWithData().
+ */
+export function createViewerUrl(baseUrl: string, geojson: FeatureCollection, center: Coordinates | undefined): string {
+  if (!center || !geojson.bbox) return `${baseUrl}/`;
+  const [west, south, east, north] = geojson.bbox;
+  const span = Math.max(east - west, north - south);
+  const zoom = span > 0 ? Math.min(Math.max(Math.floor(Math.log2(360 / span)), 2), 16) : 14;
+  return `${baseUrl}/#map=${zoom}/${center.lat.toFixed(5)}/${center.lng.toFixed(5)}`;
+}
+
+/**
+ * A viewer link from createViewerUrl() with the features added to its hash,
+ * keeping the `map=` view, or undefined when that would be longer than
+ * `maxLength`; the GeoJSON file can then be dropped onto the viewer instead.
+ */
+export function viewerUrlWithData(viewerUrl: string, geojson: FeatureCollection, maxLength = MAX_VIEWER_URL_LENGTH): string | undefined {
+  // geojson.io reads hash parameters joined by &: #map=<zoom>/<lat>/<lng>&data=data:application/json,<encoded>
+  const [base, view] = viewerUrl.split('#');
+  const data = `data=data:application/json,${encodeURIComponent(JSON.stringify(geojson))}`;
+  const withData = `${base}#${view ? `${view}&` : ''}${data}`;
+  return withData.length <= maxLength ? withData : undefined;
+}
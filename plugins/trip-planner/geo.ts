@@ -0,0 +1,32 @@
+// examples/trip-planner/geo.ts
+import type { Coordinates } from './config';
+
+/** Mean Earth radius, in kilometres. */
+const EARTH_RADIUS_KM = 6371;
+
+/** Great-circle distance in kilometres. */
+export function haversineKm(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return EARTH_RADIUS_KM * 2 * Math.asin(Math.sqrt(a));
+}
+
+/** Kilometres to one decimal place, for display. */
+export function roundKm(km: number): number {
+  return Math.round(km * 10) / 10;
+}
+
+/** Length of a path through the points in order, in kilometres. */
+export function pathKm(points: readonly Coordinates[]): number {
+  return points.slice(1).reduce((total, point, index) => total + haversineKm(points[index], point), 0);
+}
+
+/** Mean position of the points; fine for the few kilometres of a city. */
+export function centerOf(points: readonly Coordinates[]): Coordinates {
+  return {
+    lat: points.reduce((sum, point) => sum + point.lat, 0) / points.length,
+    lng: points.reduce((sum, point) => sum + point.lng, 0) / points.length,
+  };
+}
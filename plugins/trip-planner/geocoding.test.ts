@@ -0,0 +1,160 @@
+// examples/trip-planner/geocoding.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  fallbackGeocodingProvider,
+  gazetteerGeocodingProvider,
+  GeocodingError,
+  locateMapPoints,
+  nominatimGeocodingProvider,
+  normalizeName,
+  type GeocodingProvider,
+} from './geocoding';
+
+const gazetteer = gazetteerGeocodingProvider();
+
+async function names(query: string, near?: string): Promise<string[]> {
+  return (await gazetteer.geocode({ query, near, limit: 3 })).results.map(result => result.name);
+}
+
+/** A provider that always answers with the same results. */
+function fixedProvider(name: string, results: Awaited<ReturnType<GeocodingProvider['geocode']>>['results']): GeocodingProvider {
+  return {
+    name,
+    geocode: async ({ query }) => ({ query, results, source: name }),
+    reverseGeocode: async () => ({ query: '', results, source: name }),
+  };
+}
+
+function failingProvider(name: string): GeocodingProvider {
+  return {
+    name,
+    geocode: async () => { throw new Error('HTTP 503'); },
+    reverseGeocode: async () => { throw new Error('HTTP 503'); },
+  };
+}
+
+const lisbonCity = { name: 'Lisbon', kind: 'city' as const, country: 'Portugal', lat: 38.7223, lng: -9.1393 };
+
+describe('normalizeName', () => {
+  it('drops case, accents and punctuation', () => {
+    assert.equal(normalizeName('Sacré-Cœur'), 'sacre coeur');
+    assert.equal(normalizeName('  Belém Tower, Lisbon '), 'belem tower lisbon');
+  });
+});
+
+describe('gazetteerGeocodingProvider', () => {
+  it('matches names, aliases and landmarks mentioned in a longer query', async () => {
+    assert.equal((await names('lisboa'))[0], 'Lisbon');
+    assert.deepEqual(await names('Fontana di Trevi'), ['Trevi Fountain']);
+    assert.equal((await names('the Colosseum at night'))[0], 'Colosseum');
+  });
+
+  it('never resolves a longer query to the city it mentions', async () => {
+    assert.deepEqual(await names('Lisbon Oceanarium'), []);
+    assert.deepEqual(await names('Paris Rooftop Bar'), []);
+  });
+
+  it('narrows by the text after a comma and by near', async () => {
+    const [inRome] = (await gazetteer.geocode({ query: 'Pantheon, Rome', limit: 1 })).results;
+    assert.equal(inRome?.city, 'Rome');
+    assert.deepEqual(await names('Pantheon', 'Lisbon'), []);
+    // Context it does not know, like a street, is ignored
+    assert.deepEqual(await names('Pantheon, Piazza della Rotonda'), await names('Pantheon'));
+  });
+
+  it('reverse geocodes to the nearest place and city', async () => {
+    const output = await gazetteer.reverseGeocode({ lat: 41.8903, lng: 12.4923 });
+
+    assert.deepEqual(output.results.map(result => [result.name, result.kind]), [['Colosseum', 'place'], ['Rome', 'city']]);
+    assert.equal(output.query, '41.89030, 12.49230');
+  });
+});
+
+describe('nominatimGeocodingProvider', () => {
+  it('normalizes search results and treats reverse errors as no match', async () => {
+    const urls: string[] = [];
+    const responses = [
+      [{ lat: '38.6936', lon: '-9.2156', name: 'Torre de Belém', display_name: 'Torre de Belém, Lisboa, Portugal', addresstype: 'tourism', address: { city: 'Lisboa', country: 'Portugal' } }],
+      { error: 'Unable to geocode' },
+    ];
+    const fetch = (async (url: string) => {
+      urls.push(url);
+      return new Response(JSON.stringify(responses.shift()), { status: 200 });
+    }) as typeof globalThis.fetch;
+    const provider = nominatimGeocodingProvider({ baseUrl: 'http://nominatim.test', fetch });
+
+    const [tower] = (await provider.geocode({ query: 'Belém Tower', near: 'Lisbon', limit: 1 })).results;
+    assert.deepEqual(tower, { name: 'Torre de Belém', lat: 38.6936, lng: -9.2156, kind: 'place', city: 'Lisboa', country: 'Portugal', address: 'Torre de Belém, Lisboa, Portugal' });
+    assert.match(urls[0], /^http:\/\/nominatim\.test\/search\?q=Bel%C3%A9m\+Tower%2C\+Lisbon&limit=1/);
+
+    assert.deepEqual((await provider.reverseGeocode({ lat: 0, lng: 0 })).results, []);
+  });
+});
+
+describe('fallbackGeocodingProvider', () => {
+  it('returns the first answer with results', async () => {
+    const provider = fallbackGeocodingProvider([fixedProvider('empty', []), fixedProvider('cities', [lisbonCity])]);
+    const output = await provider.geocode({ query: 'Lisbon', limit: 1 });
+
+    assert.equal(output.source, 'cities');
+    assert.equal(provider.name, 'empty → cities');
+  });
+
+  it('throws only when nothing matched and a provider failed', async () => {
+    const empty = await fallbackGeocodingProvider([fixedProvider('empty', [])]).geocode({ query: 'Atlantis', limit: 1 });
+    assert.deepEqual(empty.results, []);
+
+    await assert.rejects(
+      fallbackGeocodingProvider([failingProvider('down'), fixedProvider('empty', [])]).geocode({ query: 'Atlantis', limit: 1 }),
+      (error: unknown) => {
+        assert.ok(error instanceof GeocodingError);
+        assert.deepEqual(error.issues, ['down: HTTP 503', 'empty: no match']);
+        return true;
+      }
+    );
+  });
+});
+
+describe('locateMapPoints', () => {
+  it('keeps given coordinates and geocodes the rest by address or name', async () => {
+    const { located, unresolved } = await locateMapPoints(
+      [
+        { name: 'Hotel', lat: 38.71, lng: -9.14, type: 'hotel' },
+        { name: 'Tower', address: 'Belém Tower', type: 'attraction' },
+        { name: 'Atlantis', type: 'other' },
+      ],
+      'Lisbon',
+      gazetteer
+    );
+
+    assert.deepEqual(located.map(point => [point.name, point.geocodedFrom]), [['Hotel', undefined], ['Tower', 'Belém Tower']]);
+    assert.deepEqual(unresolved, [{ kind: 'point', name: 'Atlantis', query: 'Atlantis', reason: 'no match near Lisbon' }]);
+  });
+
+  it('leaves out points that only matched the city centre', async () => {
+    const { located, unresolved } = await locateMapPoints(
+      [
+        { name: 'Lisbon Oceanarium', type: 'attraction' },
+        { name: 'Lisbon', type: 'other' },
+      ],
+      'Lisbon',
+      fixedProvider('cities', [lisbonCity])
+    );
+
+    assert.deepEqual(located.map(point => point.name), ['Lisbon']);
+    assert.deepEqual(unresolved, [
+      { kind: 'point', name: 'Lisbon Oceanarium', query: 'Lisbon Oceanarium', reason: 'only matched the centre of Lisbon' },
+    ]);
+  });
+
+  it('lists provider failures as the reason', async () => {
+    const { unresolved } = await locateMapPoints(
+      [{ name: 'Tower', type: 'attraction' }],
+      'Lisbon',
+      fallbackGeocodingProvider([failingProvider('down')])
+    );
+
+    assert.equal(unresolved[0]?.reason, 'down: HTTP 503');
+  });
+});
@@ -0,0 +1,385 @@
+// examples/trip-planner/geocoding.ts
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+import type { Coordinates, GeocodeOutput, GeocodeResult, GeoJsonInput, TripPlannerOptions } from './config';
+import { gazetteer } from './fixtures/gazetteer';
+import { haversineKm, roundKm } from './geo';
+
+/** What the geocode tool asks a provider for. */
+export interface GeocodeRequest {
+  /** A name or address; text after a comma narrows the search, e.g. "Pantheon, Paris". */
+  query: string;
+  /** City or country to search in. */
+  near?: string;
+  limit: number;
+}
+
+/**
+ * Geocoding Provider
+ *
+ * Turns names and addresses into coordinates and back, normalized to
+ * `GeocodeOutput`. An empty `results` list means "no match"; providers
+ * throw only when they cannot search at all (network errors, bad
+ * responses), so `fallbackGeocodingProvider()` can tell the two apart.
+ */
+export interface GeocodingProvider {
+  /** Shown as `source` on the tool output and in error messages. */
+  readonly name: string;
+  geocode(request: GeocodeRequest): Promise<GeocodeOutput>;
+  reverseGeocode(point: Coordinates): Promise<GeocodeOutput>;
+}
+
+/**
+ * Thrown when nothing matched and at least one provider failed, so the
+ * answer might have been found. `issues` has one line per provider tried.
+ */
+export class GeocodingError extends Error {
+  constructor(
+    public readonly query: string,
+    public readonly issues: string[]
+  ) {
+    super(`Geocoding failed for "${query}":\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'GeocodingError';
+  }
+}
+
+// =============================================================================
+// Gazetteer
+// =============================================================================
+
+/** A named location in an offline gazetteer. */
+export interface GazetteerEntry {
+  name: string;
+  aliases?: string[];
+  kind: 'city' | 'place';
+  /** The city a place is in. */
+  city?: string;
+  country?: string;
+  address?: string;
+  lat: number;
+  lng: number;
+}
+
+/** How far reverse geocoding looks for the nearest place and city. */
+const REVERSE_RADIUS_KM = { place: 1, city: 50 };
+
+/**
+ * Gazetteer Provider
+ *
+ * Looks names up in a bundled list of cities and landmarks, with no
+ * network: the sample gazetteer (which includes every place `findPlaces`
+ * can return) unless given `entries`, or a JSON `file` of
+ * `GazetteerEntry[]` (read once, at creation).
+ *
+ * Names match case- and accent-insensitively, exactly or on whole words,
+ * and may be an entry's address. Cities match only their own name, never a
+ * longer query that mentions them. Text after a comma, and `near`, limit the
+ * search to a known city or country; context it does not recognise (a
+ * street, a postcode) is ignored.
+ *
+ * Reverse geocoding returns the nearest place within 1 km and the nearest
+ * city within 50 km.
+ *
+ * @example
+ * ```typescript
+ * await gazetteerGeocodingProvider().geocode({ query: 'Belém Tower, Lisbon', limit: 1 });
+ * ```
+ */
+export function gazetteerGeocodingProvider(
+  options: { entries?: readonly GazetteerEntry[]; file?: string } = {}
+): GeocodingProvider {
+  const entries = options.file
+    ? (JSON.parse(readFileSync(options.file, 'utf8')) as GazetteerEntry[])
+    : (options.entries ?? gazetteer);
+  const indexed = entries.map(entry => ({
+    entry,
+    names: [entry.name, ...(entry.aliases ?? []), ...(entry.address ? [entry.address] : [])].map(normalizeName),
+    context: [entry.kind === 'city' ? entry.name : entry.city, entry.country]
+      .filter((value): value is string => value !== undefined)
+      .map(normalizeName),
+  }));
+  const knownContext = new Set(indexed.flatMap(item => item.context));
+
+  return {
+    name: 'gazetteer',
+    async geocode({ query, near, limit }) {
+      const [name, ...rest] = query.split(',');
+      const wanted = normalizeName(name);
+      const context = [...rest, ...(near?.split(',') ?? [])]
+        .map(normalizeName)
+        .filter(term => knownContext.has(term));
+
+      const results = indexed
+        .filter(item => context.every(term => item.context.includes(term)))
+        .map(item => ({ entry: item.entry, score: Math.max(...item.names.map(candidate => matchScore(candidate, wanted, item.entry.kind))) }))
+        .filter(match => match.score > 0)
+        .sort((a, b) => b.score - a.score || kindRank(a.entry) - kindRank(b.entry))
+        .slice(0, limit)
+        .map(match => toResult(match.entry));
+
+      return { query, results, source: 'gazetteer' };
+    },
+    async reverseGeocode(point) {
+      const nearest = (kind: GazetteerEntry['kind']) =>
+        entries
+          .filter(entry => entry.kind === kind)
+          .map(entry => ({ entry, km: haversineKm(point, entry) }))
+          .filter(match => match.km <= REVERSE_RADIUS_KM[kind])
+          .sort((a, b) => a.km - b.km)[0];
+
+      const results = [nearest('place'), nearest('city')]
+        .filter(match => match !== undefined)
+        .map(({ entry, km }) => ({ ...toResult(entry), distanceKm: roundKm(km) }));
+
+      return { query: formatPoint(point), results, source: 'gazetteer' };
+    },
+  };
+}
+
+/** Lowercase, without accents or punctuation: "Sacré-Cœur" → "sacre coeur". */
+export function normalizeName(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/\p{Diacritic}/gu, '')
+    .replace(/œ/g, 'oe')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * 3: same name; 2: the query is part of the name; 1: a place's name is part
+ * of the query ("the Pantheon"). A city never matches a longer query, so
+ * "Lisbon Oceanarium" finds nothing rather than the middle of Lisbon.
+ */
+function matchScore(candidate: string, wanted: string, kind: GazetteerEntry['kind']): number {
+  if (!wanted) return 0;
+  if (candidate === wanted) return 3;
+  const candidateWords = candidate.split(' ');
+  const wantedWords = wanted.split(' ');
+  if (wanted.length >= 3 && wantedWords.every(word => candidateWords.includes(word))) return 2;
+  if (kind === 'place' && candidateWords.every(word => wantedWords.includes(word))) return 1;
+  return 0;
+}
+
+/** Cities before places when names tie, so "Paris" is the city. */
+function kindRank(entry: GazetteerEntry): number {
+  return entry.kind === 'city' ? 0 : 1;
+}
+
+function toResult({ name, lat, lng, kind, city, country, address }: GazetteerEntry): GeocodeResult {
+  return { name, lat, lng, kind, city, country, address };
+}
+
+function formatPoint({ lat, lng }: Coordinates): string {
+  return `${lat.toFixed(5)}, ${lng.toFixed(5)}`;
+}
+
+// =============================================================================
+// Nominatim
+// =============================================================================
+
+const nominatimPlaceSchema = z.object({
+  lat: z.string().transform(Number),
+  lon: z.string().transform(Number),
+  name: z.string().optional(),
+  display_name: z.string(),
+  addresstype: z.string().optional(),
+  address: z
+    .object({
+      city: z.string().optional(),
+      town: z.string().optional(),
+      village: z.string().optional(),
+      country: z.string().optional(),
+    })
+    .optional(),
+});
+
+const CITY_ADDRESS_TYPES = ['city', 'town', 'village', 'municipality'];
+
+/**
+ * Nominatim Provider
+ *
+ * Searches OpenStreetMap's Nominatim API. The public instance allows about
+ * one request a second and requires an identifying `userAgent`; point
+ * `baseUrl` at your own instance for heavier use. `fetch` can be replaced
+ * for tests.
+ */
+export function nominatimGeocodingProvider(
+  options: { baseUrl?: string; userAgent?: string; timeoutMs?: number; fetch?: typeof fetch } = {}
+): GeocodingProvider {
+  const {
+    baseUrl = 'https://nominatim.openstreetmap.org',
+    userAgent = 'llm-module-pattern-trip-planner',
+    timeoutMs = 5_000,
+    fetch: fetchImpl = fetch,
+  } = options;
+
+  const request = async (path: string, params: Record<string, string>): Promise<unknown> => {
+    const url = `${baseUrl}/${path}?${new URLSearchParams({ ...params, format: 'jsonv2', addressdetails: '1' })}`;
+    const response = await fetchImpl(url, {
+      headers: { 'User-Agent': userAgent },
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return response.json();
+  };
+
+  const toResults = (body: unknown): GeocodeResult[] => {
+    const parsed = z.array(nominatimPlaceSchema).safeParse(body);
+    if (!parsed.success) {
+      throw new Error(`unexpected response: ${parsed.error.issues[0]?.message}`);
+    }
+    return parsed.data.map(place => ({
+      name: place.name || place.display_name.split(',')[0],
+      lat: place.lat,
+      lng: place.lon,
+      kind: CITY_ADDRESS_TYPES.includes(place.addresstype ?? '') ? 'city' : 'place',
+      city: place.address?.city ?? place.address?.town ?? place.address?.village,
+      country: place.address?.country,
+      address: place.display_name,
+    }));
+  };
+
+  return {
+    name: 'nominatim',
+    async geocode({ query, near, limit }) {
+      const body = await request('search', { q: near ? `${query}, ${near}` : query, limit: String(limit) });
+      return { query, results: toResults(body), source: 'nominatim' };
+    },
+    async reverseGeocode(point) {
+      const body = (await request('reverse', { lat: String(point.lat), lon: String(point.lng) })) as { error?: string };
+      // Nominatim answers points it cannot place with `{ error }` and HTTP 200
+      return { query: formatPoint(point), results: body.error ? [] : toResults([body]), source: 'nominatim' };
+    },
+  };
+}
+
+// =============================================================================
+// Fallback Chain
+// =============================================================================
+
+/**
+ * Fallback Provider
+ *
+ * Asks each provider in turn and returns the first answer with results, so
+ * names the gazetteer does not know can fall through to a live service.
+ * Returns an empty answer when every provider searched and found nothing;
+ * throws a `GeocodingError` when nothing matched and any provider failed.
+ *
+ * @example
+ * ```typescript
+ * fallbackGeocodingProvider([gazetteerGeocodingProvider(), nominatimGeocodingProvider()]);
+ * ```
+ */
+export function fallbackGeocodingProvider(providers: readonly GeocodingProvider[]): GeocodingProvider {
+  if (providers.length === 0) {
+    throw new Error('fallbackGeocodingProvider() needs at least one provider');
+  }
+
+  const firstMatch = async (query: string, lookup: (provider: GeocodingProvider) => Promise<GeocodeOutput>) => {
+    const issues: string[] = [];
+    let failed = false;
+    for (const provider of providers) {
+      try {
+        const output = await lookup(provider);
+        if (output.results.length > 0) return output;
+        issues.push(`${provider.name}: no match`);
+      } catch (error) {
+        failed = true;
+        issues.push(`${provider.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    if (failed) throw new GeocodingError(query, issues);
+    return { query, results: [], source: providers.map(provider => provider.name).join(' → ') };
+  };
+
+  return {
+    name: providers.map(provider => provider.name).join(' → '),
+    geocode: request => firstMatch(request.query, provider => provider.geocode(request)),
+    reverseGeocode: point => firstMatch(formatPoint(point), provider => provider.reverseGeocode(point)),
+  };
+}
+
+/**
+ * Build the provider the geocoding tools and generateMap use from the
+ * plugin options: the `geocodingProvider` option if given, otherwise the
+ * `geocoding.providers` chain (the gazetteer, by default).
+ */
+export function createGeocodingProvider({ geocodingProvider, geocoding, endpoints }: TripPlannerOptions): GeocodingProvider {
+  if (geocodingProvider) return geocodingProvider;
+
+  return fallbackGeocodingProvider(
+    geocoding.providers.map(name =>
+      name === 'gazetteer'
+        ? gazetteerGeocodingProvider({ file: geocoding.gazetteerFile })
+        : nominatimGeocodingProvider({ baseUrl: endpoints.geocoding })
+    )
+  );
+}
+
+// =============================================================================
+// Map Points
+// =============================================================================
+
+export type MapPointInput = GeoJsonInput['points'][number];
+
+/** A map point with coordinates, and the query it was located by if it had none. */
+export type LocatedMapPoint = MapPointInput & Coordinates & { geocodedFrom?: string };
+
+export interface UnresolvedMapPoint {
+  kind: 'point';
+  name: string;
+  query: string;
+  reason: string;
+}
+
+/**
+ * Give every map point coordinates: points that have them keep them, the
+ * rest are geocoded by `address` (or `name`) near the map's location.
+ * Points that cannot be located are returned separately instead of failing
+ * the whole map, as are points that only matched a city whose name they do
+ * not share: a city's centre is not where "Lisbon Oceanarium" is. Lookups
+ * run one at a time, to respect rate limits.
+ */
+export async function locateMapPoints(
+  points: readonly MapPointInput[],
+  location: string,
+  provider: GeocodingProvider
+): Promise<{ located: LocatedMapPoint[]; unresolved: UnresolvedMapPoint[] }> {
+  const located: LocatedMapPoint[] = [];
+  const unresolved: UnresolvedMapPoint[] = [];
+
+  for (const point of points) {
+    if (point.lat !== undefined && point.lng !== undefined) {
+      located.push({ ...point, lat: point.lat, lng: point.lng });
+      continue;
+    }
+
+    const query = point.address ?? point.name;
+    try {
+      const [best] = (await provider.geocode({ query, near: location, limit: 1 })).results;
+      if (best && isCityCentre(best, query)) {
+        unresolved.push({ kind: 'point', name: point.name, query, reason: `only matched the centre of ${best.name}` });
+      } else if (best) {
+        located.push({ ...point, lat: best.lat, lng: best.lng, geocodedFrom: query });
+      } else {
+        unresolved.push({ kind: 'point', name: point.name, query, reason: `no match near ${location}` });
+      }
+    } catch (error) {
+      const reason = error instanceof GeocodingError
+        ? error.issues.join('; ')
+        : error instanceof Error ? error.message : String(error);
+      unresolved.push({ kind: 'point', name: point.name, query, reason });
+    }
+  }
+
+  return { located, unresolved };
+}
+
+/** Whether a match is a whole city that the query asked for something inside of. */
+function isCityCentre(result: GeocodeResult, query: string): boolean {
+  return result.kind === 'city' && normalizeName(result.name) !== normalizeName(query.split(',')[0]);
+}
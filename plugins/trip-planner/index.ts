@@ -5,16 +5,27 @@
  * Trip Planner Plugin
  *
  * A publishable plugin package that provides:
- * - Tools: Weather lookup, place discovery, map generation
+ * - Tools: Weather lookup, place discovery, geocoding, map generation, itineraries, saved trips
  * - Agent: Trip planning assistant
  * - UI: Visual components for tool outputs
  * - Schemas: Typed input/output definitions
+ * - Storage: Saved trips in LibSQL
  *
  * @example
  * ```typescript
  * // Import the full plugin
  * import tripPlannerPlugin from '@myorg/trip-planner'
  *
+ * // Or build one with your own options
+ * import { createTripPlannerPlugin } from '@myorg/trip-planner'
+ * const plugin = createTripPlannerPlugin({ model: { name: 'gpt-5' }, limits: { maxPlaces: 10 } })
+ *
+ * // Or keep saved trips in a local database
+ * const withTrips = createTripPlannerPlugin({ storage: { url: 'file:./trips.db' } })
+ *
+ * // Or run offline on bundled weather fixtures
+ * const offline = createTripPlannerPlugin({ weather: { providers: ['fixture'] } })
+ *
  * // Or import specific parts
  * import { weatherTool, placesTool } from '@myorg/trip-planner/tools'
  * import { WeatherCard, PlacesCard } from '@myorg/trip-planner/ui'
@@ -22,11 +33,218 @@
  * ```
  */
 
-// Plugin manifest and configuration (required)
-export {
+import { definePlugin, type PluginAgent } from '../core';
+import {
   tripPlannerConfig,
-  tripPlannerPlugin,
-  type TripPlannerPlugin,
+  resolveTripPlannerOptions,
+  type TripPlannerOptionsInput,
+  weatherInputSchema,
+  weatherOutputSchema,
+  placesInputSchema,
+  placesOutputSchema,
+  geocodeInputSchema,
+  reverseGeocodeInputSchema,
+  geocodeOutputSchema,
+  geojsonInputSchema,
+  geojsonOutputSchema,
+  itineraryInputSchema,
+  itineraryOutputSchema,
+  distancesInputSchema,
+  distancesOutputSchema,
+  packingInputSchema,
+  packingOutputSchema,
+  budgetInputSchema,
+  budgetOutputSchema,
+  saveTripInputSchema,
+  listTripsInputSchema,
+  listTripsOutputSchema,
+  loadTripInputSchema,
+  updateTripInputSchema,
+  tripSchema,
+} from './config';
+import { createTripPlannerTools, tripPlannerTools, tripStore, type TripPlannerTools } from './tools';
+import { createTripStore, TripStoreError, type TripStore } from './trips';
+import { createTripPlannerAgent, tripPlannerAgent } from './agent';
+import { tripPlannerPrompts } from './prompts';
+
+// =============================================================================
+// Plugin Definition
+// =============================================================================
+
+/**
+ * Plugin Manifest
+ *
+ * Supplies the implementations for the features declared in config.ts.
+ * definePlugin() validates that both agree at load time.
+ *
+ * This plugin provides:
+ * - tools: Weather, places discovery, geocoding, map generation, itineraries, distances, packing lists, budgets, and saved trips
+ * - agents: A trip planning assistant
+ * - ui: Visual components for each tool output
+ * - storage: Saved trips, in the store the saved-trip tools share
+ * - schemas: Typed input/output for all tools
+ * - prompts: The agent's versioned system prompt
+ * - initialize: Checks the model API key and migrates the trip store at startup
+ * - shutdown: Closes the trip store
+ */
+function defineTripPlannerPlugin(tools: TripPlannerTools, agent: PluginAgent, store: TripStore) {
+  return definePlugin({
+    ...tripPlannerConfig,
+
+    /**
+     * Tools keyed by their createTool id.
+     */
+    tools: {
+      getWeather: tools.weatherTool,
+      findPlaces: tools.placesTool,
+      geocode: tools.geocodeTool,
+      reverseGeocode: tools.reverseGeocodeTool,
+      generateMap: tools.geojsonTool,
+      buildItinerary: tools.itineraryTool,
+      computeDistances: tools.distancesTool,
+      generatePackingList: tools.packingTool,
+      estimateBudget: tools.budgetTool,
+      saveTrip: tools.saveTripTool,
+      listTrips: tools.listTripsTool,
+      loadTrip: tools.loadTripTool,
+      updateTrip: tools.updateTripTool,
+    },
+
+    /**
+     * Agents keyed by the name they are registered under.
+     */
+    agents: {
+      'trip-planner': agent,
+    },
+
+    /**
+     * UI component mappings.
+     * Maps tool part types to component exports in ui.tsx.
+     */
+    uiComponents: {
+      'tool-getWeather': 'WeatherCard',
+      'tool-findPlaces': 'PlacesCard',
+      'tool-geocode': 'GeocodeCard',
+      'tool-reverseGeocode': 'GeocodeCard',
+      'tool-generateMap': 'GeoJsonCard',
+      'tool-buildItinerary': 'ItineraryCard',
+      'tool-computeDistances': 'DistancesCard',
+      'tool-generatePackingList': 'PackingListCard',
+      'tool-estimateBudget': 'BudgetCard',
+      'tool-saveTrip': 'TripCard',
+      'tool-listTrips': 'TripListCard',
+      'tool-loadTrip': 'TripCard',
+      'tool-updateTrip': 'TripCard',
+    },
+
+    /**
+     * Saved trips. Kept in the plugin's own tables (`trip_planner_*`) rather
+     * than Mastra's storage domains, so they work with any Mastra storage.
+     */
+    storage: {
+      description:
+        'Saved trips: destination, dates, travellers, chosen places, maps, itinerary and notes, so a trip ' +
+        'can be picked up in a later conversation. LibSQL at `storage.url` (TRIP_PLANNER_DB_URL), which must be ' +
+        'set, with versioned schema migrations run at startup; replaceable with the `tripStore` option.',
+    },
+
+    /**
+     * All schemas exported by this plugin.
+     * Enables type-safe consumption across package boundaries.
+     */
+    schemas: {
+      weatherInput: weatherInputSchema,
+      weatherOutput: weatherOutputSchema,
+      placesInput: placesInputSchema,
+      placesOutput: placesOutputSchema,
+      geocodeInput: geocodeInputSchema,
+      reverseGeocodeInput: reverseGeocodeInputSchema,
+      geocodeOutput: geocodeOutputSchema,
+      geojsonInput: geojsonInputSchema,
+      geojsonOutput: geojsonOutputSchema,
+      itineraryInput: itineraryInputSchema,
+      itineraryOutput: itineraryOutputSchema,
+      distancesInput: distancesInputSchema,
+      distancesOutput: distancesOutputSchema,
+      packingInput: packingInputSchema,
+      packingOutput: packingOutputSchema,
+      budgetInput: budgetInputSchema,
+      budgetOutput: budgetOutputSchema,
+      saveTripInput: saveTripInputSchema,
+      listTripsInput: listTripsInputSchema,
+      listTripsOutput: listTripsOutputSchema,
+      loadTripInput: loadTripInputSchema,
+      updateTripInput: updateTripInputSchema,
+      trip: tripSchema,
+    },
+
+    /**
+     * Prompt templates, registered with the shared promptRegistry so hosts
+     * can inspect and override them.
+     */
+    prompts: tripPlannerPrompts,
+
+    /**
+     * Runs once at startup via `registry.start()`.
+     * Warns early instead of failing on the first chat request.
+     */
+    async initialize({ config, logger }) {
+      const apiKey = config.openaiApiKey ?? process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        logger.warn('OPENAI_API_KEY is not set; the trip-planner agent will fail to respond');
+      }
+
+      // Fails startup on a database newer than the plugin, rather than the first saveTrip
+      try {
+        const version = await store.migrate();
+        logger.debug(`trip store "${store.name}" at schema version ${version}`);
+      } catch (error) {
+        if (!(error instanceof TripStoreError && error.code === 'NOT_CONFIGURED')) throw error;
+        logger.warn('storage.url (TRIP_PLANNER_DB_URL) is not set; the saved-trip tools will fail until it is');
+      }
+    },
+
+    /**
+     * Runs once via `registry.stop()`.
+     */
+    shutdown() {
+      store.close();
+    },
+  });
+}
+
+/**
+ * Create Trip Planner Plugin
+ *
+ * Builds the plugin with its own tools and agent, configured by `options`.
+ * Options not passed fall back to `TRIP_PLANNER_*` environment variables,
+ * then to the defaults in tripPlannerOptionsSchema. Throws a
+ * `PluginOptionsError` when an option is invalid.
+ */
+export function createTripPlannerPlugin(options: TripPlannerOptionsInput = {}) {
+  const resolved = resolveTripPlannerOptions(options);
+  const store = createTripStore(resolved);
+  const tools = createTripPlannerTools(resolved, store);
+  return defineTripPlannerPlugin(tools, createTripPlannerAgent(resolved, tools), store);
+}
+
+/** The plugin built from the default exports (default options). */
+export const tripPlannerPlugin = defineTripPlannerPlugin(tripPlannerTools, tripPlannerAgent, tripStore);
+
+export type TripPlannerPlugin = typeof tripPlannerPlugin;
+
+// Plugin configuration (required)
+export { tripPlannerConfig } from './config';
+
+// Options
+export {
+  tripPlannerOptionsSchema,
+  tripPlannerEnvOptions,
+  weatherProviderNameSchema,
+  geocodingProviderNameSchema,
+  resolveTripPlannerOptions,
+  type TripPlannerOptionsInput,
+  type TripPlannerOptions,
 } from './config';
 
 // Schemas and types
@@ -34,34 +252,271 @@ export {
   // Weather
   weatherInputSchema,
   weatherOutputSchema,
+  unitSystemSchema,
+  weatherUnitsSchema,
+  weatherErrorCodeSchema,
+  MAX_FORECAST_DAYS,
+  type UnitSystem,
+  type WeatherUnits,
   type WeatherInput,
   type WeatherOutput,
+  type WeatherErrorCode,
   // Places
   placesInputSchema,
   placesOutputSchema,
+  placeSchema,
+  placeCategorySchema,
+  priceLevelSchema,
+  weekdaySchema,
+  openingHoursSchema,
+  coordinatesSchema,
+  placeSortSchema,
+  placeFiltersSchema,
   type PlacesInput,
   type PlacesOutput,
+  type Place,
+  type PlaceCategory,
+  type PriceLevel,
+  type Weekday,
+  type OpeningHours,
+  // Geocoding
+  geocodeInputSchema,
+  reverseGeocodeInputSchema,
+  geocodeOutputSchema,
+  geocodeResultSchema,
+  type GeocodeInput,
+  type ReverseGeocodeInput,
+  type GeocodeOutput,
+  type GeocodeResult,
   // GeoJSON
   geojsonInputSchema,
   geojsonOutputSchema,
+  mapPointTypeSchema,
+  mapColorSchema,
+  mapGeometrySchema,
+  mapFeaturePropertiesSchema,
+  mapWarningCodeSchema,
+  mapWarningSchema,
+  mapFileFormatSchema,
+  mapExportFormatSchema,
+  mapFileSchema,
   type GeoJsonInput,
   type GeoJsonOutput,
+  type MapPointType,
+  type MapGeometry,
+  type MapFeatureProperties,
+  type MapFeature,
+  type MapWarningCode,
+  type MapWarning,
+  type MapFileFormat,
+  type MapExportFormat,
+  type MapFile,
+  // Itinerary
+  itineraryInputSchema,
+  itineraryOutputSchema,
+  itineraryItemSchema,
+  itineraryPlaceSchema,
+  itinerarySlotSchema,
+  type ItineraryInput,
+  type ItineraryOutput,
+  type ItineraryItem,
+  type ItineraryPlace,
+  type ItinerarySlot,
+  // Distances
+  distancesInputSchema,
+  distancesOutputSchema,
+  distancePointSchema,
+  distanceLegSchema,
+  distanceClusterSchema,
+  travelMinutesSchema,
+  travelModeSchema,
+  type DistancesInput,
+  type DistancesOutput,
+  type DistancePoint,
+  type DistanceLeg,
+  type DistanceCluster,
+  type TravelMinutes,
+  type TravelMode,
+  // Packing lists
+  packingInputSchema,
+  packingOutputSchema,
+  packingItemSchema,
+  packingCategorySchema,
+  type PackingInput,
+  type PackingOutput,
+  type PackingItem,
+  type PackingCategory,
+  // Budgets
+  budgetInputSchema,
+  budgetOutputSchema,
+  budgetItemSchema,
+  budgetCategorySchema,
+  costTableSchema,
+  destinationCostsSchema,
+  paidPriceLevelSchema,
+  type BudgetInput,
+  type BudgetOutput,
+  type BudgetItem,
+  type BudgetCategory,
+  type CostTable,
+  type DestinationCosts,
+  type PaidPriceLevel,
+  // Saved trips
+  saveTripInputSchema,
+  listTripsInputSchema,
+  listTripsOutputSchema,
+  loadTripInputSchema,
+  updateTripInputSchema,
+  tripSchema,
+  tripDetailsSchema,
+  tripSummarySchema,
+  savedMapSchema,
+  tripStoreErrorCodeSchema,
+  type SaveTripInput,
+  type ListTripsInput,
+  type ListTripsOutput,
+  type LoadTripInput,
+  type UpdateTripInput,
+  type Trip,
+  type TripDetails,
+  type TripSummary,
+  type SavedMap,
+  type TripStoreErrorCode,
 } from './config';
 
 // Tools
 export {
   weatherTool,
   placesTool,
+  geocodeTool,
+  reverseGeocodeTool,
   geojsonTool,
+  itineraryTool,
+  distancesTool,
+  packingTool,
+  budgetTool,
+  saveTripTool,
+  listTripsTool,
+  loadTripTool,
+  updateTripTool,
+  tripStore,
   tripPlannerTools,
+  createWeatherTool,
+  createPlacesTool,
+  createGeocodeTool,
+  createReverseGeocodeTool,
+  createGeojsonTool,
+  createItineraryTool,
+  createDistancesTool,
+  createPackingTool,
+  createBudgetTool,
+  createSaveTripTool,
+  createListTripsTool,
+  createLoadTripTool,
+  createUpdateTripTool,
+  createTripPlannerTools,
+  type TripPlannerTools,
 } from './tools';
 
+// Weather providers
+export {
+  wttrWeatherProvider,
+  fixtureWeatherProvider,
+  fallbackWeatherProvider,
+  createWeatherProvider,
+  completeWeatherReport,
+  resolveWeatherRequest,
+  isWetWeather,
+  WeatherProviderError,
+  type WeatherProvider,
+  type WttrWeatherProviderOptions,
+  type WeatherRequest,
+  type MetricWeatherReport,
+  type WeatherFixtures,
+} from './weather';
+export { weatherFixtures } from './fixtures/weather';
+
+// Places providers
+export {
+  offlinePlacesProvider,
+  createPlacesProvider,
+  completePlacesResult,
+  resolvePlacesRequest,
+  isOpenAt,
+  PlacesProviderError,
+  type PlacesProvider,
+  type PlacesRequest,
+  type PlacesCity,
+  type PlacesDataset,
+} from './places';
+export { placesDataset } from './fixtures/places';
+
+// Geocoding providers
+export {
+  gazetteerGeocodingProvider,
+  nominatimGeocodingProvider,
+  fallbackGeocodingProvider,
+  createGeocodingProvider,
+  locateMapPoints,
+  GeocodingError,
+  type GeocodingProvider,
+  type GeocodeRequest,
+  type GazetteerEntry,
+  type MapPointInput,
+  type LocatedMapPoint,
+  type UnresolvedMapPoint,
+} from './geocoding';
+export { gazetteer } from './fixtures/gazetteer';
+export { haversineKm, pathKm, centerOf } from './geo';
+
+// Map features
+export {
+  buildMapFeatures,
+  checkMapCoordinates,
+  reviewMapPoints,
+  MARKER_COLORS,
+  type TripMap,
+  type ReviewedMapPoint,
+} from './map';
+
+// Map files
+export { createMapFiles, createViewerUrl, viewerUrlWithData, MAX_VIEWER_URL_LENGTH, toKml, toGpx } from './formats';
+
+// Itineraries
+export { planItinerary } from './itinerary';
+
+// Distances
+export { computeDistances } from './distances';
+
+// Packing lists
+export { planPackingList } from './packing';
+
+// Budgets
+export { estimateBudget, loadCostTable, findDestinationCosts, BudgetError } from './budget';
+export { costTable } from './fixtures/costs';
+
+// Saved trips
+export {
+  libsqlTripStore,
+  createTripStore,
+  applyTripUpdate,
+  resolveListTripsRequest,
+  completeTripList,
+  TripStoreError,
+  TRIP_SCHEMA_VERSION,
+  type TripStore,
+  type ListTripsRequest,
+} from './trips';
+
 // Agent
-export { tripPlannerAgent } from './agent';
+export { tripPlannerAgent, createTripPlannerAgent } from './agent';
+
+// Prompts
+export { tripPlannerInstructionsPrompt, tripPlannerPrompts } from './prompts';
 
 // UI components are exported from ui.tsx
 // Note: UI is typically imported separately to avoid server-side React issues
-// import { WeatherCard, PlacesCard, GeoJsonCard, TripPlannerDemo } from '@myorg/trip-planner/ui'
+// import { WeatherCard, WeatherErrorCard, PlacesCard, GeocodeCard, GeoJsonCard, ItineraryCard, DistancesCard, PackingListCard, BudgetCard, TripCard, TripListCard, TripPlannerDemo } from '@myorg/trip-planner/ui'
 
 // Default export: the plugin manifest
-export { tripPlannerPlugin as default } from './config';
+export default tripPlannerPlugin;
@@ -0,0 +1,102 @@
+// examples/trip-planner/itinerary.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { itineraryInputSchema, type ItineraryOutput } from './config';
+import { planItinerary } from './itinerary';
+
+// Monday and Tuesday
+const trip = { location: 'Lisbon', startDate: '2026-07-06', endDate: '2026-07-07' };
+const forecast = [
+  { date: '2026-07-06', high: 22, low: 16, description: 'Light rain' },
+  { date: '2026-07-07', high: 27, low: 18, description: 'Sunny' },
+];
+
+function plan(input: Record<string, unknown>, maxDays = 14) {
+  return planItinerary(itineraryInputSchema.parse({ ...trip, ...input }), maxDays);
+}
+
+/** `<weekday> <slot>: <name>` for every scheduled item. */
+function schedule(output: ItineraryOutput): string[] {
+  return output.days.flatMap(day => day.items.map(item => `${day.weekday} ${item.slot}: ${item.name}`));
+}
+
+describe('planItinerary', () => {
+  const places = [
+    { name: 'Estufa Fria', category: 'attractions', tags: ['gardens'], rating: 4.8 },
+    { name: 'Tile Museum', category: 'attractions', tags: ['museum', 'history'], rating: 4.4 },
+    { name: 'Palace', category: 'attractions', rating: 4.0, openingHours: [{ days: ['tue'], opens: '10:00', closes: '18:00' }] },
+    { name: 'Tasca', category: 'restaurants', rating: 4.5 },
+    { name: 'Fado House', category: 'activities', tags: ['music'] },
+    { name: 'Club', category: 'activities', tags: ['nightlife'], openingHours: [{ days: ['mon', 'tue'], opens: '00:00', closes: '02:00' }] },
+    { name: 'Hotel Avenida', category: 'hotels' },
+  ];
+
+  it('puts each kind of place in its slots, on the day that suits it', () => {
+    const output = plan({ interests: ['history', 'music'], places, forecast });
+
+    assert.deepEqual(schedule(output), [
+      'mon morning: Tile Museum',
+      'mon lunch: Tasca',
+      'mon evening: Fado House',
+      'tue morning: Estufa Fria',
+      'tue afternoon: Palace',
+    ]);
+    assert.deepEqual(output.stays, ['Hotel Avenida']);
+    assert.deepEqual(output.days.map(day => day.weather?.dry), [false, true]);
+
+    const [museum] = output.days[0].items;
+    assert.deepEqual([museum.start, museum.end, museum.outdoor, museum.interests], ['09:30', '12:30', false, ['history']]);
+    assert.equal(output.days[1].items[0].note, 'Outdoors; sunny forecast');
+  });
+
+  it('lists places that are closed or do not fit, with the reason', () => {
+    const output = plan({
+      endDate: trip.startDate,
+      places: [
+        { name: 'Palace', category: 'attractions', rating: 5, openingHours: [{ days: ['tue'], opens: '10:00', closes: '18:00' }] },
+        { name: 'Estufa Fria', category: 'attractions', rating: 4.8 },
+        { name: 'Tile Museum', category: 'attractions', rating: 4.4 },
+        { name: 'Castle', category: 'attractions' },
+        { name: 'Club', category: 'activities', tags: ['nightlife'], openingHours: [{ days: ['mon'], opens: '00:00', closes: '02:00' }] },
+      ],
+    });
+
+    assert.deepEqual(output.unscheduled, [
+      { name: 'Palace', reason: 'closed during every free slot' },
+      { name: 'Castle', reason: 'no free morning or afternoon slot left' },
+      { name: 'Club', reason: 'closed during every free slot' },
+    ]);
+  });
+
+  it('notes outdoor places that could only go on a wet day', () => {
+    const output = plan({
+      endDate: trip.startDate,
+      places: [{ name: 'Estufa Fria', category: 'attractions', tags: ['gardens'] }],
+      forecast: forecast.slice(0, 1),
+    });
+
+    assert.equal(output.days[0].items[0].note, 'Outdoors, but light rain is forecast; no dry day in the forecast');
+  });
+
+  it('keeps each day close together', () => {
+    const output = plan({
+      places: [
+        { name: 'Belém Tower', category: 'attractions', lat: 38.6916, lng: -9.2156, rating: 5 },
+        { name: 'Castle', category: 'attractions', lat: 38.7139, lng: -9.1334, rating: 4.9 },
+        { name: 'Jerónimos', category: 'attractions', lat: 38.6979, lng: -9.2068, rating: 4.8 },
+        { name: 'Cathedral', category: 'attractions', lat: 38.7097, lng: -9.1336, rating: 4.7 },
+      ],
+    });
+
+    assert.deepEqual(schedule(output), [
+      'mon morning: Belém Tower',
+      'mon afternoon: Jerónimos',
+      'tue morning: Castle',
+      'tue afternoon: Cathedral',
+    ]);
+  });
+
+  it('refuses trips longer than maxDays', () => {
+    assert.throws(() => plan({ places }, 1), /^Error: Trip 2026-07-06 to 2026-07-07 is 2 days; buildItinerary plans at most 1$/);
+  });
+});
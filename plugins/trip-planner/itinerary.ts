@@ -0,0 +1,189 @@
+// examples/trip-planner/itinerary.ts
+import {
+  daysBetween,
+  itinerarySlotSchema,
+  weekdaySchema,
+  type Coordinates,
+  type ItineraryInput,
+  type ItineraryItem,
+  type ItineraryOutput,
+  type ItineraryPlace,
+  type ItinerarySlot,
+} from './config';
+import { centerOf, haversineKm } from './geo';
+import { isOpenAt } from './places';
+import { datesBetween, isWetWeather } from './weather';
+
+/** Local times of each slot. A place must be open from `start` until `openUntil`. */
+const SLOT_TIMES: Record<ItinerarySlot, { start: string; end: string; openUntil: string }> = {
+  morning: { start: '09:30', end: '12:30', openUntil: '12:00' },
+  lunch: { start: '12:30', end: '14:00', openUntil: '13:30' },
+  afternoon: { start: '14:30', end: '18:00', openUntil: '17:30' },
+  dinner: { start: '19:30', end: '21:30', openUntil: '21:00' },
+  evening: { start: '21:30', end: '23:30', openUntil: '23:00' },
+};
+
+type PlaceKind = 'sight' | 'meal' | 'night';
+
+const SLOTS_BY_KIND: Record<PlaceKind, ItinerarySlot[]> = {
+  sight: ['morning', 'afternoon'],
+  meal: ['lunch', 'dinner'],
+  night: ['evening'],
+};
+
+const OUTDOOR_TAGS = ['outdoor', 'nature', 'walking', 'gardens', 'park', 'views', 'boat', 'biking', 'hiking', 'beach'];
+const INDOOR_TAGS = ['indoor', 'museum', 'spa', 'theater'];
+const NIGHT_TAGS = ['nightlife', 'evening', 'bar', 'late', 'theater', 'music'];
+
+interface PlannedDay {
+  date: string;
+  weekday: ItineraryOutput['days'][number]['weekday'];
+  weather?: ItineraryOutput['days'][number]['weather'];
+  items: Map<ItinerarySlot, ItineraryItem>;
+}
+
+/**
+ * Plan Itinerary
+ *
+ * Spreads candidate places over the trip's days, greedily and in order of
+ * how many interests they match (then rating):
+ * - sights go in the morning or afternoon, restaurants at lunch or dinner,
+ *   and nightlife in the evening; hotels are listed as stays
+ * - a place is only scheduled in a slot it is open for, on that weekday
+ * - outdoor places prefer dry days in the forecast, indoor ones wet days
+ * - each day's places are kept close together, and days evenly filled
+ *
+ * Places that fit nowhere are returned as unscheduled, with the reason.
+ * Throws for trips longer than `maxDays`.
+ */
+export function planItinerary(input: ItineraryInput, maxDays: number): ItineraryOutput {
+  const { location, startDate, endDate, interests, forecast = [] } = input;
+  const length = daysBetween(startDate, endDate) + 1;
+  if (length > maxDays) {
+    throw new Error(`Trip ${startDate} to ${endDate} is ${length} days; buildItinerary plans at most ${maxDays}`);
+  }
+
+  const days: PlannedDay[] = datesBetween(startDate, endDate).map(date => {
+    const day = forecast.find(entry => entry.date === date);
+    return {
+      date,
+      weekday: weekdaySchema.options[(new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7],
+      weather: day && { description: day.description, high: day.high, low: day.low, dry: !isWetWeather(day.description) },
+      items: new Map(),
+    };
+  });
+
+  const unique = [...new Map(input.places.map(place => [place.name.toLowerCase(), place])).values()];
+  const stays = unique.filter(place => place.category === 'hotels').map(place => place.name);
+  const unscheduled: ItineraryOutput['unscheduled'] = [];
+
+  // Sights first, so meals and nightlife can be placed near each day's sights
+  const candidates = unique
+    .filter(place => place.category !== 'hotels')
+    .map(place => ({ place, kind: kindOf(place), outdoor: isOutdoor(place), interests: matchInterests(place, interests) }))
+    .sort((a, b) =>
+      KIND_ORDER[a.kind] - KIND_ORDER[b.kind] ||
+      b.interests.length - a.interests.length ||
+      (b.place.rating ?? 0) - (a.place.rating ?? 0)
+    );
+
+  for (const { place, kind, outdoor, interests: matched } of candidates) {
+    let best: { day: PlannedDay; slot: ItinerarySlot; score: number } | undefined;
+    for (const day of days) {
+      for (const slot of SLOTS_BY_KIND[kind]) {
+        if (day.items.has(slot) || !isOpenFor(place, day, slot)) continue;
+        const score = scoreSlot(place, outdoor, day);
+        if (!best || score > best.score) best = { day, slot, score };
+      }
+    }
+
+    if (!best) {
+      const full = days.every(day => SLOTS_BY_KIND[kind].every(slot => day.items.has(slot)));
+      unscheduled.push({
+        name: place.name,
+        reason: full ? `no free ${SLOTS_BY_KIND[kind].join(' or ')} slot left` : 'closed during every free slot',
+      });
+      continue;
+    }
+
+    const { day, slot } = best;
+    const { start, end } = SLOT_TIMES[slot];
+    day.items.set(slot, {
+      slot,
+      start,
+      end,
+      name: place.name,
+      category: place.category,
+      description: place.description,
+      lat: place.lat,
+      lng: place.lng,
+      outdoor,
+      interests: matched,
+      note: outdoor && day.weather
+        ? day.weather.dry
+          ? `Outdoors; ${day.weather.description.toLowerCase()} forecast`
+          : `Outdoors, but ${day.weather.description.toLowerCase()} is forecast; ${days.some(other => other.weather?.dry) ? 'no dry day had room' : 'no dry day in the forecast'}`
+        : undefined,
+    });
+  }
+
+  return {
+    location,
+    startDate,
+    endDate,
+    interests,
+    days: days.map(({ items, ...day }) => ({
+      ...day,
+      items: itinerarySlotSchema.options.flatMap(slot => items.get(slot) ?? []),
+    })),
+    stays,
+    unscheduled,
+  };
+}
+
+const KIND_ORDER: Record<PlaceKind, number> = { sight: 0, night: 1, meal: 2 };
+
+function kindOf(place: ItineraryPlace): PlaceKind {
+  if (place.category === 'restaurants') return 'meal';
+  return hasTag(place, NIGHT_TAGS) ? 'night' : 'sight';
+}
+
+function isOutdoor(place: ItineraryPlace): boolean {
+  return place.outdoor ?? (!hasTag(place, INDOOR_TAGS) && hasTag(place, OUTDOOR_TAGS));
+}
+
+function hasTag(place: ItineraryPlace, tags: readonly string[]): boolean {
+  return place.tags.some(tag => tags.includes(tag.toLowerCase()));
+}
+
+/** Interests that appear in the place's category, tags, name or description. */
+function matchInterests(place: ItineraryPlace, interests: readonly string[]): string[] {
+  const text = `${place.name} ${place.description}`.toLowerCase();
+  const labels = [place.category, ...place.tags].map(label => label.toLowerCase());
+  return interests.filter(interest => {
+    const wanted = interest.toLowerCase();
+    return text.includes(wanted) || labels.some(label => label.includes(wanted) || wanted.includes(label));
+  });
+}
+
+/** Places without opening hours are assumed open. */
+function isOpenFor(place: ItineraryPlace, { weekday }: PlannedDay, slot: ItinerarySlot): boolean {
+  if (!place.openingHours) return true;
+  const { start, openUntil } = SLOT_TIMES[slot];
+  return isOpenAt(place.openingHours, { day: weekday, time: start }) && isOpenAt(place.openingHours, { day: weekday, time: openUntil });
+}
+
+/** Higher is better: right weather, near the day's other places, on a quieter day. */
+function scoreSlot(place: ItineraryPlace, outdoor: boolean, day: PlannedDay): number {
+  let score = -0.5 * day.items.size;
+  if (day.weather) {
+    if (outdoor) score += day.weather.dry ? 3 : -4;
+    else if (!day.weather.dry) score += 1;
+  }
+
+  const located = [...day.items.values()].filter((item): item is ItineraryItem & Coordinates => item.lat !== undefined && item.lng !== undefined);
+  if (place.lat !== undefined && place.lng !== undefined && located.length > 0) {
+    score -= 0.2 * Math.min(haversineKm(centerOf(located), { lat: place.lat, lng: place.lng }), 30);
+  }
+  return score;
+}
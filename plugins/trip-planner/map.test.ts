@@ -0,0 +1,154 @@
+// examples/trip-planner/map.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { geojsonInputSchema } from './config';
+import type { LocatedMapPoint } from './geocoding';
+import { buildMapFeatures, checkMapCoordinates, MARKER_COLORS, reviewMapPoints } from './map';
+
+const lisbon = { lat: 38.7223, lng: -9.1393 };
+
+describe('checkMapCoordinates', () => {
+  const points = geojsonInputSchema.shape.points.parse([
+    { name: 'Castle', lat: 38.7139, lng: -9.1334 },
+    { name: 'Belém Tower', lat: -9.2156, lng: 38.6916 },
+    { name: 'Tokyo Tower', lat: 120, lng: 35.6586 },
+    { name: 'Cafe', lat: 0, lng: 0 },
+    { name: 'Bridge', lat: 200, lng: 10 },
+    { name: 'Alfama' },
+  ]);
+
+  it('swaps reversed coordinates back and drops unusable ones', () => {
+    const { points: checked, warnings } = checkMapCoordinates(points, lisbon, 50);
+
+    assert.deepEqual(
+      checked.map(({ name, lat, lng }) => [name, lat, lng]),
+      [
+        ['Castle', 38.7139, -9.1334],
+        ['Belém Tower', 38.6916, -9.2156],
+        ['Tokyo Tower', 35.6586, 120],
+        ['Cafe', undefined, undefined],
+        ['Bridge', undefined, undefined],
+        ['Alfama', undefined, undefined],
+      ]
+    );
+    assert.deepEqual(warnings, [
+      { code: 'SWAPPED_COORDINATES', name: 'Belém Tower', message: '-9.2156, 38.6916 is far away, but 38.6916, -9.2156 is nearby; using that' },
+      { code: 'SWAPPED_COORDINATES', name: 'Tokyo Tower', message: 'lat 120 is out of range; swapped to 35.6586, 120' },
+      { code: 'INVALID_COORDINATES', name: 'Cafe', message: '0, 0 is a placeholder; located by name instead' },
+      { code: 'INVALID_COORDINATES', name: 'Bridge', message: '200, 10 is out of range; located by name instead' },
+    ]);
+  });
+
+  it('leaves valid coordinates alone when the map location is unknown', () => {
+    const { points: checked } = checkMapCoordinates(points.slice(0, 2), undefined, 50);
+    assert.deepEqual(checked, points.slice(0, 2));
+  });
+});
+
+describe('reviewMapPoints', () => {
+  const located: LocatedMapPoint[] = [
+    { name: 'Belém Tower', type: 'other', lat: 38.6916, lng: -9.2156 },
+    { name: 'Castle', type: 'attraction', lat: 38.7139, lng: -9.1334 },
+    { name: 'belem tower!', type: 'attraction', description: 'Fortress on the river', layer: 'Day 1', lat: 38.6917, lng: -9.2157 },
+    { name: 'Belém Tower', type: 'attraction', lat: 38.75, lng: -9.2156 },
+    { name: 'Sintra Palace', type: 'attraction', lat: 38.7976, lng: -9.3906 },
+  ];
+
+  it('merges nearby points with the same name, keeping what each adds', () => {
+    const { points, warnings } = reviewMapPoints(located, lisbon, 50);
+
+    assert.deepEqual(points[0], {
+      name: 'Belém Tower',
+      type: 'attraction',
+      description: 'Fortress on the river',
+      layer: 'Day 1',
+      lat: 38.6916,
+      lng: -9.2156,
+    });
+    // The same name 6 km away is a different place
+    assert.equal(points.length, 4);
+    assert.deepEqual(warnings, [{ code: 'DUPLICATE_MERGED', name: 'Belém Tower', message: 'listed 2 times; merged into one point' }]);
+  });
+
+  it('flags points far from the map location, or from the other points without one', () => {
+    const withCenter = reviewMapPoints(located, lisbon, 10);
+    assert.deepEqual(withCenter.points.filter(point => point.outlier).map(point => point.name), ['Sintra Palace']);
+    assert.match(withCenter.warnings[1].message, /^2\d\.\d km from the map location;/);
+
+    const withoutCenter = reviewMapPoints(located, undefined, 10);
+    assert.match(withoutCenter.warnings[1].message, /km from the other points;/);
+  });
+});
+
+describe('buildMapFeatures', () => {
+  const input = geojsonInputSchema.parse({
+    location: 'Lisbon',
+    points: [
+      { name: 'Castle', type: 'attraction', layer: 'Day 1' },
+      { name: 'Belém Tower', type: 'attraction' },
+      { name: 'Time Out Market', type: 'restaurant', layer: 'Day 2' },
+      { name: 'Lost Bar' },
+    ],
+    routes: [
+      { name: 'Day 1 walk', stops: ['Belém Tower', 'Pastéis de Belém', 'castle'], layer: 'Day 1' },
+      { name: 'Bar crawl', stops: ['Lost Bar', 'Pastéis de Belém'] },
+    ],
+    areas: [
+      { name: 'Alfama', around: ['Castle'], layer: 'Day 1' },
+      { name: 'Riverside', boundary: [{ lat: 38.69, lng: -9.22 }, { lat: 38.7, lng: -9.22 }, { lat: 38.7, lng: -9.2 }] },
+    ],
+  });
+  const located: LocatedMapPoint[] = [
+    { ...input.points[0], lat: 38.7139, lng: -9.1334, geocodedFrom: 'Castle' },
+    { ...input.points[1], lat: 38.6916, lng: -9.2156 },
+    { ...input.points[2], lat: 38.7069, lng: -9.1459 },
+  ];
+
+  it('draws points, routes through located stops and areas, grouped into colored layers', () => {
+    const map = buildMapFeatures(input, located);
+    const byName = new Map(map.geojson.features.map(feature => [feature.properties.name, feature]));
+
+    assert.deepEqual([...byName.keys()], ['Castle', 'Belém Tower', 'Time Out Market', 'Day 1 walk', 'Alfama', 'Riverside']);
+    assert.deepEqual(byName.get('Belém Tower')?.geometry, { type: 'Point', coordinates: [-9.2156, 38.6916] });
+    assert.equal(byName.get('Time Out Market')?.properties['marker-color'], MARKER_COLORS.restaurant);
+    assert.equal(byName.get('Castle')?.properties.geocodedFrom, 'Castle');
+
+    const walk = byName.get('Day 1 walk');
+    assert.deepEqual(walk?.properties.stops, ['Belém Tower', 'Castle']);
+    assert.equal(walk?.properties.distanceKm, 7.6);
+    assert.equal(walk?.properties.stroke, '#2563eb');
+
+    const alfama = byName.get('Alfama');
+    assert.equal(alfama?.geometry.type, 'Polygon');
+    assert.equal(alfama?.properties.fill, '#2563eb');
+    // Boundaries are closed, and areas outside a layer use the default color
+    assert.equal(byName.get('Riverside')?.properties.fill, '#10b981');
+    assert.deepEqual(byName.get('Riverside')?.geometry.coordinates, [[[-9.22, 38.69], [-9.22, 38.7], [-9.2, 38.7], [-9.22, 38.69]]]);
+
+    assert.deepEqual(map.layers, [
+      { name: 'Day 1', color: '#2563eb', featureCount: 3 },
+      { name: 'Day 2', color: '#dc2626', featureCount: 1 },
+    ]);
+  });
+
+  it('reports stops it could not place and routes left with fewer than two', () => {
+    assert.deepEqual(buildMapFeatures(input, located).unresolved, [
+      { kind: 'route', name: 'Day 1 walk', query: 'Pastéis de Belém', reason: 'not one of the map points' },
+      { kind: 'route', name: 'Bar crawl', query: 'Lost Bar', reason: 'point could not be located' },
+      { kind: 'route', name: 'Bar crawl', query: 'Pastéis de Belém', reason: 'not one of the map points' },
+      { kind: 'route', name: 'Bar crawl', query: 'Lost Bar → Pastéis de Belém', reason: 'fewer than two stops could be placed' },
+    ]);
+  });
+
+  it('bounds every feature, including padded areas', () => {
+    const { geojson, center } = buildMapFeatures(input, located);
+    assert.ok(geojson.bbox);
+    const [west, south, east, north] = geojson.bbox;
+
+    assert.equal(west, -9.22);
+    assert.equal(south, 38.69);
+    assert.ok(east > -9.1334 && north > 38.7139, 'Alfama extends past the castle');
+    assert.deepEqual(center, { lat: (south + north) / 2, lng: (west + east) / 2 });
+    assert.deepEqual(buildMapFeatures({ ...input, routes: [], areas: [] }, []).geojson, { type: 'FeatureCollection', bbox: undefined, features: [] });
+  });
+});
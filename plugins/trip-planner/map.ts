@@ -0,0 +1,312 @@
+// examples/trip-planner/map.ts
+import type { Coordinates, GeoJsonInput, GeoJsonOutput, MapFeature, MapPointType, MapWarning } from './config';
+import { haversineKm, pathKm, roundKm } from './geo';
+import { normalizeName, type LocatedMapPoint, type MapPointInput } from './geocoding';
+
+/** Marker colors for each point type, shared with the UI legend. */
+export const MARKER_COLORS: Record<MapPointType, string> = {
+  attraction: '#9333ea', // purple
+  restaurant: '#f97316', // orange
+  hotel: '#22c55e',      // green
+  activity: '#ec4899',   // pink
+  other: '#6b7280',      // gray
+};
+
+/** Maki icon names for geojson.io markers. */
+const MARKER_SYMBOLS: Record<MapPointType, string> = {
+  attraction: 'monument',
+  restaurant: 'restaurant',
+  hotel: 'lodging',
+  activity: 'pitch',
+  other: 'marker',
+};
+
+/** Assigned to layers in order; routes and areas default to their layer's color. */
+const LAYER_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#d97706', '#7c3aed', '#0891b2', '#db2777'];
+
+/** For routes and areas outside any layer. */
+const DEFAULT_ROUTE_COLOR = '#2563eb';
+const DEFAULT_AREA_COLOR = '#10b981';
+
+/** How far an `around` area extends past the points it encloses. */
+const AREA_PADDING_KM = 0.3;
+
+export type TripMap = Pick<GeoJsonOutput, 'geojson' | 'center' | 'layers' | 'unresolved'>;
+
+/** A located point after review, marked if it is far from the map location. */
+export type ReviewedMapPoint = LocatedMapPoint & { outlier?: boolean };
+
+/**
+ * Build Map Features
+ *
+ * Turns located points, routes and areas into a FeatureCollection:
+ * - points become `Point` features, colored by type
+ * - routes become `LineString`s through their stops, in order, with their
+ *   straight-line length; stops that are not located points are skipped
+ *   and reported, and a route needs two located stops to be drawn
+ * - areas become `Polygon`s, from an explicit `boundary` or a padded box
+ *   `around` named points
+ *
+ * Features are grouped into layers by their `layer` name, and each layer
+ * gets a color that its routes and areas use unless they set their own.
+ * The collection's `bbox` and `center` cover every feature.
+ */
+export function buildMapFeatures(input: GeoJsonInput, located: readonly ReviewedMapPoint[]): TripMap {
+  const unresolved: TripMap['unresolved'] = [];
+  const features: MapFeature[] = [];
+  const layerColors = new Map<string, string>();
+  const layerColor = (layer: string | undefined) => {
+    if (layer === undefined) return undefined;
+    if (!layerColors.has(layer)) layerColors.set(layer, LAYER_COLORS[layerColors.size % LAYER_COLORS.length]);
+    return layerColors.get(layer);
+  };
+
+  const byName = new Map(located.map(point => [normalizeName(point.name), point]));
+  const requested = new Set(input.points.map(point => normalizeName(point.name)));
+  const findStop = (kind: 'route' | 'area', owner: string, stop: string) => {
+    const point = byName.get(normalizeName(stop));
+    if (!point) {
+      const reason = requested.has(normalizeName(stop)) ? 'point could not be located' : 'not one of the map points';
+      unresolved.push({ kind, name: owner, query: stop, reason });
+    }
+    return point;
+  };
+
+  for (const point of located) {
+    layerColor(point.layer);
+    features.push({
+      type: 'Feature',
+      properties: {
+        name: point.name,
+        description: point.description || '',
+        kind: 'point',
+        layer: point.layer,
+        markerType: point.type,
+        geocodedFrom: point.geocodedFrom,
+        outlier: point.outlier,
+        'marker-color': MARKER_COLORS[point.type],
+        'marker-size': 'medium',
+        'marker-symbol': MARKER_SYMBOLS[point.type],
+      },
+      geometry: { type: 'Point', coordinates: [point.lng, point.lat] }, // GeoJSON uses [lng, lat]
+    });
+  }
+
+  for (const route of input.routes) {
+    const stops = route.stops
+      .map(stop => findStop('route', route.name, stop))
+      .filter(stop => stop !== undefined);
+    if (stops.length < 2) {
+      unresolved.push({ kind: 'route', name: route.name, query: route.stops.join(' → '), reason: 'fewer than two stops could be placed' });
+      continue;
+    }
+
+    features.push({
+      type: 'Feature',
+      properties: {
+        name: route.name,
+        description: route.description,
+        kind: 'route',
+        layer: route.layer,
+        stops: stops.map(stop => stop.name),
+        distanceKm: roundKm(pathKm(stops)),
+        stroke: route.color ?? layerColor(route.layer) ?? DEFAULT_ROUTE_COLOR,
+        'stroke-width': 3,
+      },
+      geometry: { type: 'LineString', coordinates: stops.map(stop => [stop.lng, stop.lat]) },
+    });
+  }
+
+  for (const area of input.areas) {
+    let ring: Array<[number, number]>;
+    if (area.boundary) {
+      ring = area.boundary.map(({ lat, lng }) => [lng, lat]);
+    } else {
+      const inside = (area.around ?? [])
+        .map(name => findStop('area', area.name, name))
+        .filter(point => point !== undefined);
+      if (inside.length === 0) {
+        unresolved.push({ kind: 'area', name: area.name, query: (area.around ?? []).join(', '), reason: 'none of its points could be placed' });
+        continue;
+      }
+      ring = paddedBox(inside, AREA_PADDING_KM);
+    }
+
+    const color = area.color ?? layerColor(area.layer) ?? DEFAULT_AREA_COLOR;
+    features.push({
+      type: 'Feature',
+      properties: {
+        name: area.name,
+        description: area.description,
+        kind: 'area',
+        layer: area.layer,
+        stroke: color,
+        'stroke-width': 2,
+        fill: color,
+        'fill-opacity': 0.2,
+      },
+      geometry: { type: 'Polygon', coordinates: [closeRing(ring)] },
+    });
+  }
+
+  const layers = [...layerColors].map(([name, color]) => ({
+    name,
+    color,
+    featureCount: features.filter(feature => feature.properties.layer === name).length,
+  }));
+
+  const bounds = boundsOf(features);
+  return {
+    geojson: { type: 'FeatureCollection', bbox: bounds?.bbox, features },
+    center: bounds?.center,
+    layers,
+    unresolved,
+  };
+}
+
+/** [west, south, east, north] around every position, and its middle. */
+function boundsOf(features: readonly MapFeature[]): { bbox: [number, number, number, number]; center: Coordinates } | undefined {
+  const positions = features.flatMap(({ geometry }) =>
+    geometry.type === 'Point' ? [geometry.coordinates]
+      : geometry.type === 'LineString' ? geometry.coordinates
+        : geometry.coordinates.flat()
+  );
+  if (positions.length === 0) return undefined;
+
+  const lngs = positions.map(([lng]) => lng);
+  const lats = positions.map(([, lat]) => lat);
+  const bbox: [number, number, number, number] = [Math.min(...lngs), Math.min(...lats), Math.max(...lngs), Math.max(...lats)];
+  return { bbox, center: { lat: (bbox[1] + bbox[3]) / 2, lng: (bbox[0] + bbox[2]) / 2 } };
+}
+
+/** A rectangle around points, `paddingKm` past the outermost ones. */
+function paddedBox(points: ReadonlyArray<{ lat: number; lng: number }>, paddingKm: number): Array<[number, number]> {
+  const lats = points.map(point => point.lat);
+  const lngs = points.map(point => point.lng);
+  const midLat = (Math.min(...lats) + Math.max(...lats)) / 2;
+  const dLat = paddingKm / 111.32;
+  const dLng = paddingKm / (111.32 * Math.max(Math.cos((midLat * Math.PI) / 180), 0.01));
+  const round = (degrees: number) => Math.round(degrees * 1e6) / 1e6;
+  const [south, north] = [round(Math.min(...lats) - dLat), round(Math.max(...lats) + dLat)];
+  const [west, east] = [round(Math.min(...lngs) - dLng), round(Math.max(...lngs) + dLng)];
+  return [[west, south], [east, south], [east, north], [west, north]];
+}
+
+/** GeoJSON rings end where they start. */
+function closeRing(ring: Array<[number, number]>): Array<[number, number]> {
+  const [first] = ring;
+  const last = ring[ring.length - 1];
+  return first[0] === last[0] && first[1] === last[1] ? ring : [...ring, first];
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/** Points with the same name closer than this are one place listed twice. */
+const DUPLICATE_KM = 1;
+
+/**
+ * Check Map Coordinates
+ *
+ * Runs before geocoding, on the coordinates the model supplied:
+ * - lat/lng given the wrong way round are swapped back, when lat is out of
+ *   range but would be a valid lng, or when only the swapped point lies
+ *   within `maxKm` of `center` (the map location, if it could be found)
+ * - coordinates that are out of range, or exactly 0,0, are dropped so the
+ *   point is located by name instead
+ */
+export function checkMapCoordinates(
+  points: readonly MapPointInput[],
+  center: Coordinates | undefined,
+  maxKm: number
+): { points: MapPointInput[]; warnings: MapWarning[] } {
+  const warnings: MapWarning[] = [];
+
+  const checked = points.map(point => {
+    const { name, lat, lng } = point;
+    if (lat === undefined || lng === undefined) return point;
+
+    const inRange = (value: number, limit: number) => Number.isFinite(value) && Math.abs(value) <= limit;
+    const given = `${lat}, ${lng}`;
+    const placeholder = lat === 0 && lng === 0;
+    if (!placeholder && inRange(lat, 90) && inRange(lng, 180)) {
+      const swapsNearer = center !== undefined && inRange(lng, 90) &&
+        haversineKm(center, { lat, lng }) > maxKm && haversineKm(center, { lat: lng, lng: lat }) <= maxKm;
+      if (!swapsNearer) return point;
+      warnings.push({ code: 'SWAPPED_COORDINATES', name, message: `${given} is far away, but ${lng}, ${lat} is nearby; using that` });
+      return { ...point, lat: lng, lng: lat };
+    }
+    if (!placeholder && inRange(lng, 90) && inRange(lat, 180)) {
+      warnings.push({ code: 'SWAPPED_COORDINATES', name, message: `lat ${lat} is out of range; swapped to ${lng}, ${lat}` });
+      return { ...point, lat: lng, lng: lat };
+    }
+
+    const problem = placeholder ? '0, 0 is a placeholder' : `${given} is out of range`;
+    warnings.push({ code: 'INVALID_COORDINATES', name, message: `${problem}; located by name instead` });
+    return { ...point, lat: undefined, lng: undefined };
+  });
+
+  return { points: checked, warnings };
+}
+
+/**
+ * Review Map Points
+ *
+ * Runs after geocoding:
+ * - points with the same name (ignoring case, accents and punctuation)
+ *   within 1 km of each other are merged into the first, keeping the
+ *   first description, layer and specific type that any of them has
+ * - points more than `maxKm` from `center` are kept but flagged as
+ *   outliers; without a center, the median point stands in for it
+ */
+export function reviewMapPoints(
+  points: readonly LocatedMapPoint[],
+  center: Coordinates | undefined,
+  maxKm: number
+): { points: ReviewedMapPoint[]; warnings: MapWarning[] } {
+  const warnings: MapWarning[] = [];
+  const merged: ReviewedMapPoint[] = [];
+  const copies = new Map<ReviewedMapPoint, number>();
+
+  for (const point of points) {
+    const original = merged.find(kept =>
+      normalizeName(kept.name) === normalizeName(point.name) && haversineKm(kept, point) <= DUPLICATE_KM
+    );
+    if (!original) {
+      merged.push({ ...point });
+      continue;
+    }
+    original.description ||= point.description;
+    original.layer ??= point.layer;
+    if (original.type === 'other') original.type = point.type;
+    copies.set(original, (copies.get(original) ?? 1) + 1);
+  }
+  for (const [point, count] of copies) {
+    warnings.push({ code: 'DUPLICATE_MERGED', name: point.name, message: `listed ${count} times; merged into one point` });
+  }
+
+  const reference = center ?? medianPoint(merged);
+  for (const point of merged) {
+    const km = reference ? haversineKm(reference, point) : 0;
+    if (km <= maxKm) continue;
+    point.outlier = true;
+    warnings.push({
+      code: 'OUTLIER',
+      name: point.name,
+      message: `${roundKm(km)} km from ${center ? 'the map location' : 'the other points'}; check it is the right place`,
+    });
+  }
+
+  return { points: merged, warnings };
+}
+
+function medianPoint(points: readonly Coordinates[]): Coordinates | undefined {
+  if (points.length === 0) return undefined;
+  const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  };
+  return { lat: median(points.map(point => point.lat)), lng: median(points.map(point => point.lng)) };
+}
@@ -0,0 +1,128 @@
+// examples/trip-planner/packing.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PackingOutput, WeatherOutput } from './config';
+import { planPackingList } from './packing';
+
+const summer: WeatherOutput = {
+  location: 'Lisbon',
+  temperature: 27,
+  feelsLike: 28,
+  description: 'Sunny',
+  humidity: 75,
+  windSpeed: 12,
+  uvIndex: 8,
+  forecast: [
+    { date: '2026-07-01', high: 28, low: 18, description: 'Sunny' },
+    { date: '2026-07-02', high: 30, low: 19, description: 'Sunny' },
+    { date: '2026-07-03', high: 26, low: 17, description: 'Light rain shower' },
+  ],
+  units: { system: 'metric', temperature: '°C', windSpeed: 'km/h' },
+  range: { start: '2026-07-01', end: '2026-07-03' },
+  missingDates: [],
+  source: 'fixture',
+  live: false,
+};
+
+const winter: WeatherOutput = {
+  ...summer,
+  location: 'New York',
+  temperature: 34,
+  feelsLike: 25,
+  description: 'Light snow',
+  humidity: 80,
+  windSpeed: 25,
+  uvIndex: 1,
+  forecast: [
+    { date: '2026-01-01', high: 40, low: 28, description: 'Snow' },
+    { date: '2026-01-02', high: 36, low: 30, description: 'Heavy snow' },
+  ],
+  units: { system: 'imperial', temperature: '°F', windSpeed: 'mph' },
+  range: { start: '2026-01-01', end: '2026-01-03' },
+  missingDates: ['2026-01-03'],
+};
+
+/** `<category>: <name> (<reason>)` for every item, with the quantity when counted. */
+function items(output: PackingOutput): string[] {
+  return output.categories.flatMap(({ category, items }) =>
+    items.map(item => `${category}: ${item.name}${item.quantity ? ` x${item.quantity}` : ''} (${item.reason})`)
+  );
+}
+
+describe('planPackingList', () => {
+  it('packs for heat, sun, a wet day and the planned activities', () => {
+    const output = planPackingList({ weather: summer, activityTags: ['Walking', 'boat', 'views'] }, 7);
+
+    assert.equal(output.days, 3);
+    assert.deepEqual(output.conditions, {
+      low: 17,
+      high: 30,
+      wetDays: 1,
+      uvIndex: 8,
+      humidity: 75,
+      windSpeed: 12,
+      units: summer.units,
+    });
+    assert.deepEqual(items(output), [
+      'documents: Passport or ID (Every trip)',
+      'documents: Bookings and tickets (Every trip)',
+      'clothing: Underwear x4 (3 days)',
+      'clothing: Socks x4 (3 days)',
+      'clothing: T-shirts x3 (3 days)',
+      'clothing: Shorts or light trousers x1 (3 days)',
+      'clothing: Sleepwear (Every trip)',
+      'clothing: Layers to take off and put on (Swings from 17°C to 30°C)',
+      'clothing: Quick-dry clothes (75% humidity)',
+      'clothing: Windproof layer (For boat places)',
+      'footwear: Comfortable walking shoes (Sightseeing is mostly on foot)',
+      'weather: Compact umbrella (1 wet day forecast)',
+      'sun: Sunscreen (UV index 8)',
+      'sun: Sunglasses (UV index 8)',
+      'sun: Sun hat (UV index 8)',
+      'activities: Reusable water bottle (Highs of 30°C; for walking places)',
+      'activities: Daypack (For walking places)',
+      'toiletries: Toiletries (Every trip)',
+      'toiletries: Medications (Every trip)',
+      'toiletries: Motion sickness tablets (For boat places)',
+      'electronics: Phone and charger (Every trip)',
+      'electronics: Camera or spare phone storage (For views places)',
+    ]);
+    assert.equal(output.itemCount, 22);
+    assert.deepEqual(output.notes, []);
+  });
+
+  it('counts clothes up to the laundry interval and notes days the weather does not cover', () => {
+    const output = planPackingList({ weather: summer, days: 10, activityTags: [] }, 7);
+
+    assert.ok(items(output).includes('clothing: Underwear x8 (10 days, with laundry every 7)'));
+    assert.ok(items(output).includes('clothing: T-shirts x7 (10 days, with laundry every 7)'));
+    assert.deepEqual(output.notes, ['The weather covers 2026-07-01 to 2026-07-03, not the whole 10-day trip']);
+  });
+
+  it('converts imperial reports before applying the rules, and quotes them as given', () => {
+    const output = planPackingList({ weather: winter, activityTags: [] }, 7);
+    const packed = items(output);
+
+    for (const item of [
+      'weather: Warm coat (Lows of 28°F)',
+      'clothing: Thermal base layer (Lows of 28°F)',
+      'clothing: Windproof layer (Wind of 25 mph)',
+      'weather: Waterproof jacket (2 wet days forecast, too windy for an umbrella)',
+      'footwear: Waterproof boots (Snow or sleet forecast)',
+      'clothing: Tops x3 (3 days)',
+    ]) {
+      assert.ok(packed.includes(item), item);
+    }
+    assert.ok(!packed.some(item => item.startsWith('sun:') || item.includes('Compact umbrella')));
+    assert.deepEqual(output.notes, [
+      'The forecast does not cover 1 of the trip days yet; check the weather again closer to the date',
+    ]);
+  });
+
+  it('uses the current conditions when the forecast has none of the trip days', () => {
+    const output = planPackingList({ weather: { ...summer, temperature: 12, feelsLike: 8, forecast: [] }, activityTags: [] }, 7);
+
+    assert.deepEqual([output.conditions.low, output.conditions.high, output.conditions.wetDays], [8, 12, 0]);
+    assert.ok(items(output).includes('weather: Warm jacket (Lows of 8°C)'));
+  });
+});
@@ -0,0 +1,175 @@
+// examples/trip-planner/packing.ts
+import {
+  daysBetween,
+  packingCategorySchema,
+  type PackingCategory,
+  type PackingInput,
+  type PackingItem,
+  type PackingOutput,
+} from './config';
+import { isWetWeather } from './weather';
+
+/**
+ * Activity Rules
+ *
+ * Items for the places they plan to visit, by findPlaces tag. A place
+ * matches a rule when it has any of the rule's tags.
+ */
+const ACTIVITY_RULES: Array<{ tags: string[]; items: Array<[PackingCategory, string]> }> = [
+  { tags: ['walking', 'nature', 'gardens', 'hiking', 'active', 'day trip'], items: [['activities', 'Daypack'], ['activities', 'Reusable water bottle']] },
+  { tags: ['hiking'], items: [['footwear', 'Hiking boots']] },
+  { tags: ['biking', 'active'], items: [['clothing', 'Sportswear']] },
+  { tags: ['beach'], items: [['activities', 'Swimwear'], ['activities', 'Beach towel'], ['footwear', 'Sandals']] },
+  { tags: ['spa', 'onsen', 'pool'], items: [['activities', 'Swimwear']] },
+  { tags: ['boat'], items: [['clothing', 'Windproof layer'], ['toiletries', 'Motion sickness tablets']] },
+  { tags: ['upscale', 'special occasion', 'romantic', 'theater'], items: [['clothing', 'Smart outfit'], ['footwear', 'Dress shoes']] },
+  { tags: ['temple', 'shrine', 'church', 'cathedral', 'mosque', 'monastery'], items: [['clothing', 'Clothes covering shoulders and knees']] },
+  { tags: ['photography', 'views'], items: [['electronics', 'Camera or spare phone storage']] },
+];
+
+const SNOW = /snow|sleet|blizzard/i;
+
+/**
+ * Plan Packing List
+ *
+ * Turns a getWeather report, the trip length and the tags of planned
+ * places into a checklist, each item with the reason it is there:
+ * - clothes counted per day, up to `laundryDays`, with layers for the
+ *   coldest low and warmest high
+ * - rain gear for wet days, sun protection for a high UV index, and
+ *   windproof or quick-dry clothes for wind and humidity
+ * - activity items from the places' tags (see ACTIVITY_RULES)
+ *
+ * Thresholds are in °C and km/h; reports in imperial units are converted
+ * before the rules apply, and reasons quote the report's own units.
+ */
+export function planPackingList(input: PackingInput, laundryDays: number): PackingOutput {
+  const { weather, activityTags } = input;
+  const { units } = weather;
+  const days = input.days ?? daysBetween(weather.range.start, weather.range.end) + 1;
+
+  // The current conditions stand in only when the forecast misses every trip day
+  const highs = weather.forecast.length > 0 ? weather.forecast.map(day => day.high) : [weather.temperature];
+  const lows = weather.forecast.length > 0 ? weather.forecast.map(day => day.low) : [weather.feelsLike];
+  const conditions = {
+    low: Math.min(...lows),
+    high: Math.max(...highs),
+    wetDays: weather.forecast.filter(day => isWetWeather(day.description)).length,
+    uvIndex: weather.uvIndex,
+    humidity: weather.humidity,
+    windSpeed: weather.windSpeed,
+    units,
+  };
+
+  const celsius = (value: number) => (units.temperature === '°F' ? ((value - 32) * 5) / 9 : value);
+  const kmh = (value: number) => (units.windSpeed === 'mph' ? value / 0.621371 : value);
+  const degrees = (value: number) => `${value}${units.temperature}`;
+  const [low, high, wind] = [celsius(conditions.low), celsius(conditions.high), kmh(conditions.windSpeed)];
+  const descriptions = [weather.description, ...weather.forecast.map(day => day.description)];
+
+  const list = new Map<PackingCategory, PackingItem[]>();
+  const add = (category: PackingCategory, name: string, reason: string, quantity?: number) => {
+    const items = list.get(category) ?? [];
+    const existing = items.find(item => item.name === name);
+    if (existing) {
+      if (!existing.reason.includes(reason)) existing.reason += `; ${reason.charAt(0).toLowerCase()}${reason.slice(1)}`;
+    } else {
+      list.set(category, [...items, { name, quantity, reason }]);
+    }
+  };
+
+  // Every trip
+  add('documents', 'Passport or ID', 'Every trip');
+  add('documents', 'Bookings and tickets', 'Every trip');
+  add('toiletries', 'Toiletries', 'Every trip');
+  add('toiletries', 'Medications', 'Every trip');
+  add('electronics', 'Phone and charger', 'Every trip');
+  add('footwear', 'Comfortable walking shoes', 'Sightseeing is mostly on foot');
+
+  // Clothes, counted per day
+  const clothingDays = Math.min(days, laundryDays);
+  const perDay = days > laundryDays ? `${days} days, with laundry every ${laundryDays}` : `${days} ${days === 1 ? 'day' : 'days'}`;
+  add('clothing', 'Underwear', perDay, clothingDays + 1);
+  add('clothing', 'Socks', perDay, clothingDays + 1);
+  add('clothing', high >= 25 ? 'T-shirts' : 'Tops', perDay, clothingDays);
+  add('clothing', high >= 25 ? 'Shorts or light trousers' : 'Trousers', perDay, Math.ceil(clothingDays / 3));
+  add('clothing', 'Sleepwear', 'Every trip');
+
+  // Temperature
+  if (low <= 0) {
+    add('weather', 'Warm coat', `Lows of ${degrees(conditions.low)}`);
+    add('weather', 'Hat, scarf and gloves', `Lows of ${degrees(conditions.low)}`);
+    add('clothing', 'Thermal base layer', `Lows of ${degrees(conditions.low)}`);
+  } else if (low <= 10) {
+    add('weather', 'Warm jacket', `Lows of ${degrees(conditions.low)}`);
+    add('clothing', 'Sweater or fleece', `Lows of ${degrees(conditions.low)}`);
+  } else if (low <= 16) {
+    add('weather', 'Light jacket', `Evenings down to ${degrees(conditions.low)}`);
+  }
+  if (high - low >= 12) {
+    add('clothing', 'Layers to take off and put on', `Swings from ${degrees(conditions.low)} to ${degrees(conditions.high)}`);
+  }
+  if (high >= 30) {
+    add('activities', 'Reusable water bottle', `Highs of ${degrees(conditions.high)}`);
+  }
+
+  // Rain, snow and wind
+  const wet = conditions.wetDays > 0 || isWetWeather(weather.description);
+  if (wet) {
+    const when = conditions.wetDays > 0 ? `${conditions.wetDays} wet ${conditions.wetDays === 1 ? 'day' : 'days'} forecast` : `${weather.description} now`;
+    if (wind >= 30) {
+      add('weather', 'Waterproof jacket', `${when}, too windy for an umbrella`);
+    } else {
+      add('weather', 'Compact umbrella', when);
+      if (conditions.wetDays >= 2) add('weather', 'Waterproof jacket', when);
+    }
+  }
+  if (descriptions.some(description => SNOW.test(description))) {
+    add('footwear', 'Waterproof boots', 'Snow or sleet forecast');
+  }
+  if (wind >= 30) {
+    add('clothing', 'Windproof layer', `Wind of ${conditions.windSpeed} ${units.windSpeed}`);
+  }
+  if (conditions.humidity >= 70 && high >= 25) {
+    add('clothing', 'Quick-dry clothes', `${conditions.humidity}% humidity`);
+  }
+
+  // Sun
+  if (conditions.uvIndex >= 3) {
+    add('sun', 'Sunscreen', `UV index ${conditions.uvIndex}`);
+  }
+  if (conditions.uvIndex >= 6) {
+    add('sun', 'Sunglasses', `UV index ${conditions.uvIndex}`);
+    add('sun', 'Sun hat', `UV index ${conditions.uvIndex}`);
+  }
+
+  // Activities
+  const tags = new Set(activityTags.map(tag => tag.toLowerCase()));
+  for (const rule of ACTIVITY_RULES) {
+    const matched = rule.tags.filter(tag => tags.has(tag));
+    if (matched.length === 0) continue;
+    for (const [category, name] of rule.items) add(category, name, `For ${matched.join(', ')} places`);
+  }
+
+  const notes: string[] = [];
+  if (weather.missingDates.length > 0) {
+    notes.push(`The forecast does not cover ${weather.missingDates.length} of the trip days yet; check the weather again closer to the date`);
+  }
+  if (days > daysBetween(weather.range.start, weather.range.end) + 1) {
+    notes.push(`The weather covers ${weather.range.start} to ${weather.range.end}, not the whole ${days}-day trip`);
+  }
+
+  const categories = packingCategorySchema.options.flatMap(category => {
+    const items = list.get(category);
+    return items ? [{ category, items }] : [];
+  });
+
+  return {
+    location: weather.location,
+    days,
+    conditions,
+    categories,
+    itemCount: categories.reduce((total, { items }) => total + items.length, 0),
+    notes,
+  };
+}
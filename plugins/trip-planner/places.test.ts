@@ -0,0 +1,126 @@
+// examples/trip-planner/places.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { placesInputSchema, type Place, type PlacesInput } from './config';
+import { isOpenAt, offlinePlacesProvider, PlacesProviderError, resolvePlacesRequest, type PlacesDataset } from './places';
+
+const place = (name: string, fields: Partial<Place> = {}): Place => ({
+  name,
+  description: name,
+  tags: [],
+  lat: 38.71,
+  lng: -9.14,
+  ...fields,
+});
+
+const dataset: PlacesDataset = {
+  lisbon: {
+    location: 'Lisbon',
+    timeZone: 'Europe/Lisbon',
+    center: { lat: 38.7223, lng: -9.1393 },
+    places: {
+      attractions: [],
+      hotels: [],
+      activities: [],
+      restaurants: [
+        place('Tasca', { rating: 4.2, priceLevel: '$', tags: ['Local'], lat: 38.711, openingHours: [{ days: ['mon'], opens: '12:00', closes: '15:00' }] }),
+        place('Marisqueira', { rating: 4.8, priceLevel: '$$$', tags: ['seafood'], lat: 38.7 }),
+        place('Bakery', { rating: 4.5, priceLevel: '$', tags: ['local', 'vegetarian'], lat: 38.75, openingHours: [{ days: ['mon'], opens: '20:00', closes: '02:00' }] }),
+        place('Kiosk', { tags: ['local'], lat: 38.72 }),
+      ],
+    },
+  },
+};
+
+const provider = offlinePlacesProvider({ dataset });
+// A Monday, 13:30 in Lisbon (UTC+1 in summer)
+const mondayLunch = new Date('2026-07-06T12:30:00Z');
+
+function input(fields: Partial<PlacesInput> = {}): PlacesInput {
+  return placesInputSchema.parse({ location: 'Lisbon, Portugal', category: 'restaurants', ...fields });
+}
+
+async function search(fields: Partial<PlacesInput> = {}, maxPlaces = 5) {
+  return provider.findPlaces(resolvePlacesRequest(input(fields), maxPlaces, mondayLunch));
+}
+
+const names = (result: { places: Place[] }) => result.places.map(entry => entry.name);
+
+describe('offlinePlacesProvider', () => {
+  it('keeps the provider order for relevance and echoes the search', async () => {
+    const result = await search();
+
+    assert.deepEqual(names(result), ['Tasca', 'Marisqueira', 'Bakery', 'Kiosk']);
+    assert.equal(result.location, 'Lisbon');
+    assert.equal(result.total, 4);
+    assert.equal(result.nextCursor, undefined);
+    assert.equal(result.source, 'offline');
+  });
+
+  it('filters by price, rating, tags and opening hours', async () => {
+    // Places without a price or rating never match those filters
+    assert.deepEqual(names(await search({ maxPriceLevel: '$$' })), ['Tasca', 'Bakery']);
+    assert.deepEqual(names(await search({ minRating: 4.5 })), ['Marisqueira', 'Bakery']);
+    assert.deepEqual(names(await search({ tags: ['LOCAL'] })), ['Tasca', 'Bakery', 'Kiosk']);
+    assert.deepEqual(names(await search({ openNow: true })), ['Tasca']);
+  });
+
+  it('sorts by rating, price and distance from a point', async () => {
+    assert.deepEqual(names(await search({ sortBy: 'rating' })), ['Marisqueira', 'Bakery', 'Tasca', 'Kiosk']);
+    assert.deepEqual(names(await search({ sortBy: 'price' })), ['Tasca', 'Bakery', 'Marisqueira', 'Kiosk']);
+
+    const nearest = await search({ sortBy: 'distance', near: { lat: 38.72, lng: -9.14 } });
+    assert.deepEqual(names(nearest), ['Kiosk', 'Tasca', 'Marisqueira', 'Bakery']);
+    assert.equal(nearest.places[0].distanceKm, 0);
+  });
+
+  it('fails for cities outside the dataset, naming the ones it has', async () => {
+    await assert.rejects(search({ location: 'Porto' }), (error: unknown) => {
+      assert.ok(error instanceof PlacesProviderError);
+      assert.deepEqual(error.issues, ['not in the offline dataset (have: Lisbon)']);
+      return true;
+    });
+  });
+});
+
+describe('cursors', () => {
+  it('pages through the results and stops on the last page', async () => {
+    const first = await search({ sortBy: 'rating', limit: 3 });
+    assert.deepEqual(names(first), ['Marisqueira', 'Bakery', 'Tasca']);
+    assert.ok(first.nextCursor);
+
+    const second = await search({ sortBy: 'rating', limit: 3, cursor: first.nextCursor });
+    assert.deepEqual(names(second), ['Kiosk']);
+    assert.equal(second.total, 4);
+    assert.equal(second.nextCursor, undefined);
+  });
+
+  it('caps the page size at maxPlaces', async () => {
+    const result = await search({ limit: 10 }, 2);
+    assert.deepEqual(names(result), ['Tasca', 'Marisqueira']);
+  });
+
+  it('refuses a cursor from a different search or one that was tampered with', async () => {
+    const { nextCursor } = await search({ limit: 2 });
+
+    for (const cursor of [nextCursor, 'not-a-cursor']) {
+      assert.throws(
+        () => resolvePlacesRequest(input({ limit: 2, sortBy: 'rating', cursor }), 5),
+        /cursor does not belong to this search/
+      );
+    }
+    // The city key ignores case and the country
+    assert.doesNotThrow(() => resolvePlacesRequest(input({ location: 'LISBON', limit: 2, cursor: nextCursor }), 5));
+  });
+});
+
+describe('isOpenAt', () => {
+  const lateHours = [{ days: ['fri' as const], opens: '22:00', closes: '04:00' }];
+
+  it('handles hours past midnight', () => {
+    assert.equal(isOpenAt(lateHours, { day: 'fri', time: '23:00' }), true);
+    assert.equal(isOpenAt(lateHours, { day: 'sat', time: '03:59' }), true);
+    assert.equal(isOpenAt(lateHours, { day: 'sat', time: '04:00' }), false);
+    assert.equal(isOpenAt(lateHours, { day: 'fri', time: '03:00' }), false);
+  });
+});
@@ -0,0 +1,282 @@
+// examples/trip-planner/places.ts
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import {
+  priceLevelSchema,
+  weekdaySchema,
+  type Coordinates,
+  type OpeningHours,
+  type Place,
+  type PlaceCategory,
+  type PlaceFilters,
+  type PlaceSort,
+  type PlacesInput,
+  type PlacesOutput,
+  type PriceLevel,
+  type TripPlannerOptions,
+  type Weekday,
+} from './config';
+import { placesDataset } from './fixtures/places';
+import { haversineKm, roundKm } from './geo';
+
+/** What findPlaces asks a provider for. */
+export interface PlacesRequest {
+  location: string;
+  category: PlaceCategory;
+  filters: PlaceFilters;
+  sortBy: PlaceSort;
+  near?: Coordinates;
+  /** Page size, already capped at `limits.maxPlaces`. */
+  limit: number;
+  /** Matching places to skip, decoded from the input `cursor`. */
+  offset: number;
+  /** The time `openNow` is checked at. */
+  now: Date;
+}
+
+/**
+ * Places Provider
+ *
+ * A source of places for a city, normalized to `PlacesOutput` so the tool
+ * and PlacesCard never see vendor formats. Adapters for real APIs (Google
+ * Places, Foursquare, ...) map their results to `Place` and finish with
+ * `completePlacesResult()`, which filters, sorts and paginates. Adapters
+ * that filter server-side can still pass their results through it.
+ * Providers throw a `PlacesProviderError` when they do not know the
+ * location.
+ *
+ * @example
+ * ```typescript
+ * const myVendorProvider: PlacesProvider = {
+ *   name: 'my-vendor',
+ *   async findPlaces(request) {
+ *     const results = await searchMyVendor(request.location, request.category);
+ *     return completePlacesResult({ location: request.location, places: results.map(toPlace) }, request, 'my-vendor');
+ *   },
+ * };
+ * ```
+ */
+export interface PlacesProvider {
+  /** Shown as `source` on the tool output and in error messages. */
+  readonly name: string;
+  findPlaces(request: PlacesRequest): Promise<PlacesOutput>;
+}
+
+/**
+ * Thrown when a provider has no places for a location, or a cursor does
+ * not belong to the search it is used with.
+ */
+export class PlacesProviderError extends Error {
+  constructor(
+    public readonly location: string,
+    public readonly issues: string[]
+  ) {
+    super(`No places found for "${location}":\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'PlacesProviderError';
+  }
+}
+
+// =============================================================================
+// Filtering, Sorting and Pagination
+// =============================================================================
+
+/**
+ * Fill in the tool input's defaults and decode its cursor. Throws a
+ * `PlacesProviderError` for a cursor from a different search.
+ */
+export function resolvePlacesRequest(input: PlacesInput, maxPlaces: number, now = new Date()): PlacesRequest {
+  const { location, category, maxPriceLevel, minRating, tags, openNow, sortBy, near, limit, cursor } = input;
+  const request: PlacesRequest = {
+    location,
+    category,
+    filters: omitUndefined({ maxPriceLevel, minRating, tags, openNow }),
+    sortBy,
+    near,
+    limit: Math.min(limit ?? maxPlaces, maxPlaces),
+    offset: 0,
+    now,
+  };
+
+  if (cursor) {
+    const decoded = decodeCursor(cursor);
+    if (!decoded || decoded.search !== searchKey(request)) {
+      throw new PlacesProviderError(location, [
+        'cursor does not belong to this search; repeat the search without a cursor',
+      ]);
+    }
+    request.offset = decoded.offset;
+  }
+
+  return request;
+}
+
+/**
+ * Complete Places Result
+ *
+ * Shared by every provider: applies the request's filters and sort order,
+ * then returns one page with a cursor for the next. `timeZone` is the
+ * city's IANA zone, for `openNow`; places without opening hours never
+ * match `openNow`.
+ */
+export function completePlacesResult(
+  result: { location: string; timeZone?: string; places: Place[] },
+  request: PlacesRequest,
+  source: string
+): PlacesOutput {
+  const { filters, sortBy, near, limit, offset } = request;
+  const localTime = filters.openNow ? localWeekTime(request.now, result.timeZone ?? 'UTC') : undefined;
+  const wantedTags = filters.tags?.map(tag => tag.toLowerCase()) ?? [];
+
+  const matching = result.places
+    .filter(place =>
+      (filters.maxPriceLevel === undefined || (place.priceLevel !== undefined && priceRank(place.priceLevel) <= priceRank(filters.maxPriceLevel))) &&
+      (filters.minRating === undefined || (place.rating ?? 0) >= filters.minRating) &&
+      wantedTags.every(tag => place.tags.some(placeTag => placeTag.toLowerCase() === tag)) &&
+      (!localTime || (place.openingHours !== undefined && isOpenAt(place.openingHours, localTime)))
+    )
+    .map(place => (near ? { ...place, distanceKm: roundKm(haversineKm(near, place)) } : place));
+
+  const sorted = sortBy === 'relevance' ? matching : [...matching].sort(PLACE_ORDER[sortBy]);
+  const next = offset + limit;
+
+  return {
+    location: result.location,
+    category: request.category,
+    places: sorted.slice(offset, next),
+    filters,
+    sortBy,
+    near,
+    total: matching.length,
+    nextCursor: next < matching.length ? encodeCursor({ offset: next, search: searchKey(request) }) : undefined,
+    source,
+  };
+}
+
+type RankedPlace = Place & { distanceKm?: number };
+
+const PLACE_ORDER: Record<Exclude<PlaceSort, 'relevance'>, (a: RankedPlace, b: RankedPlace) => number> = {
+  rating: (a, b) => (b.rating ?? -1) - (a.rating ?? -1),
+  price: (a, b) => priceRank(a.priceLevel) - priceRank(b.priceLevel),
+  distance: (a, b) => (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity),
+};
+
+/** Free first; unknown prices last. */
+function priceRank(level: PriceLevel | undefined): number {
+  return level === undefined ? Infinity : priceLevelSchema.options.indexOf(level);
+}
+
+/** Day and HH:MM at `now` in a time zone. */
+function localWeekTime(now: Date, timeZone: string): { day: Weekday; time: string } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(entry => entry.type === type)?.value ?? '';
+  return { day: part('weekday').toLowerCase() as Weekday, time: `${part('hour')}:${part('minute')}` };
+}
+
+/** Whether the hours cover a local day and HH:MM, including hours past midnight. */
+export function isOpenAt(hours: OpeningHours, { day, time }: { day: Weekday; time: string }): boolean {
+  const yesterday = WEEKDAYS[(WEEKDAYS.indexOf(day) + 6) % 7];
+  return hours.some(({ days, opens, closes }) =>
+    closes > opens
+      ? days.includes(day) && time >= opens && time < closes
+      : (days.includes(day) && time >= opens) || (days.includes(yesterday) && time < closes)
+  );
+}
+
+const WEEKDAYS = weekdaySchema.options;
+
+/** Identifies a search, so a cursor cannot be replayed against another one. */
+function searchKey({ location, category, filters, sortBy, near, limit }: PlacesRequest): string {
+  const search = JSON.stringify([cityKey(location), category, filters, sortBy, near ?? null, limit]);
+  return createHash('sha256').update(search).digest('base64url').slice(0, 12);
+}
+
+function encodeCursor(cursor: { offset: number; search: string }): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { offset: number; search: string } | undefined {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as { offset?: unknown; search?: unknown };
+    if (typeof decoded.offset !== 'number' || !Number.isInteger(decoded.offset) || decoded.offset < 0) return undefined;
+    if (typeof decoded.search !== 'string') return undefined;
+    return { offset: decoded.offset, search: decoded.search };
+  } catch {
+    return undefined;
+  }
+}
+
+function omitUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as T;
+}
+
+// =============================================================================
+// Offline Dataset
+// =============================================================================
+
+/** One city in a places dataset. */
+export interface PlacesCity {
+  /** Display name, e.g. "New York". */
+  location: string;
+  /** IANA time zone the opening hours are in. */
+  timeZone: string;
+  center: { lat: number; lng: number };
+  places: Record<PlaceCategory, Place[]>;
+}
+
+/** Cities keyed by lowercase name. */
+export type PlacesDataset = Record<string, PlacesCity>;
+
+/**
+ * Offline Provider
+ *
+ * Serves a curated dataset with no network: the bundled cities unless given
+ * a `dataset`, or a JSON `file` of the same shape (read once, at creation).
+ * Locations match case-insensitively on the part before the first comma,
+ * so "Tokyo, Japan" finds the `tokyo` entry.
+ *
+ * @example
+ * ```typescript
+ * offlinePlacesProvider({ file: './data/places.json' });
+ * ```
+ */
+export function offlinePlacesProvider(options: { dataset?: PlacesDataset; file?: string } = {}): PlacesProvider {
+  const dataset = options.file
+    ? (JSON.parse(readFileSync(options.file, 'utf8')) as PlacesDataset)
+    : (options.dataset ?? placesDataset);
+  const byKey = new Map(Object.entries(dataset).map(([key, city]) => [cityKey(key), city]));
+
+  return {
+    name: 'offline',
+    async findPlaces(request) {
+      const city = byKey.get(cityKey(request.location));
+      if (!city) {
+        throw new PlacesProviderError(request.location, [
+          `not in the offline dataset (have: ${[...byKey.values()].map(entry => entry.location).join(', ')})`,
+        ]);
+      }
+      return completePlacesResult(
+        { location: city.location, timeZone: city.timeZone, places: city.places[request.category] ?? [] },
+        request,
+        'offline'
+      );
+    },
+  };
+}
+
+function cityKey(location: string): string {
+  return location.split(',')[0].trim().toLowerCase();
+}
+
+/**
+ * Build the provider findPlaces uses from the plugin options: the
+ * `placesProvider` option if given, otherwise the offline dataset.
+ */
+export function createPlacesProvider({ placesProvider, places }: TripPlannerOptions): PlacesProvider {
+  return placesProvider ?? offlinePlacesProvider({ file: places.datasetFile });
+}
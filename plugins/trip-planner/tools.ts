@@ -5,201 +5,441 @@ import {
   weatherOutputSchema,
   placesInputSchema,
   placesOutputSchema,
+  geocodeInputSchema,
+  reverseGeocodeInputSchema,
+  geocodeOutputSchema,
   geojsonInputSchema,
   geojsonOutputSchema,
+  itineraryInputSchema,
+  itineraryOutputSchema,
+  distancesInputSchema,
+  distancesOutputSchema,
+  packingInputSchema,
+  packingOutputSchema,
+  budgetInputSchema,
+  budgetOutputSchema,
+  saveTripInputSchema,
+  listTripsInputSchema,
+  listTripsOutputSchema,
+  loadTripInputSchema,
+  updateTripInputSchema,
+  tripSchema,
+  MAX_FORECAST_DAYS,
+  resolveTripPlannerOptions,
+  type TripPlannerOptions,
 } from './config';
+import { estimateBudget, loadCostTable } from './budget';
+import { computeDistances } from './distances';
+import { createGeocodingProvider, locateMapPoints } from './geocoding';
+import { planItinerary } from './itinerary';
+import { planPackingList } from './packing';
+import { applyTripUpdate, completeTripList, createTripStore, resolveListTripsRequest, type TripStore } from './trips';
+import { createMapFiles, createViewerUrl } from './formats';
+import { buildMapFeatures, checkMapCoordinates, reviewMapPoints } from './map';
+import { createPlacesProvider, resolvePlacesRequest } from './places';
+import { createWeatherProvider, resolveWeatherRequest } from './weather';
+
+const defaultOptions = resolveTripPlannerOptions();
 
 /**
  * Weather Tool
  *
- * Fetches current weather and forecast from wttr.in API.
- * Demonstrates: Basic tool execution with external API call.
+ * Fetches current weather and forecast through a WeatherProvider: wttr.in by
+ * default, falling back to bundled fixtures (see weather.ts).
+ * Demonstrates: Basic tool execution with a swappable external API.
  */
-export const weatherTool = createTool({
-  id: 'getWeather',
-  description: `Get current weather and 3-day forecast for a location.
-    Use when planning trips or suggesting what to pack.
-    Returns temperature, humidity, UV index, and daily forecasts.`,
-  inputSchema: weatherInputSchema,
-  outputSchema: weatherOutputSchema,
-  execute: async ({ input }) => {
-    const { location } = input;
-
-    const response = await fetch(
-      `https://wttr.in/${encodeURIComponent(location)}?format=j1`
-    );
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch weather for ${location}`);
-    }
-
-    const data = await response.json();
-    const current = data.current_condition[0];
-    const forecasts = data.weather.slice(0, 3);
-
-    return {
-      location: data.nearest_area[0].areaName[0].value,
-      temperature: parseInt(current.temp_C, 10),
-      feelsLike: parseInt(current.FeelsLikeC, 10),
-      description: current.weatherDesc[0].value,
-      humidity: parseInt(current.humidity, 10),
-      windSpeed: parseInt(current.windspeedKmph, 10),
-      uvIndex: parseInt(current.uvIndex, 10),
-      forecast: forecasts.map((day: Record<string, unknown>) => ({
-        date: day.date as string,
-        high: parseInt((day.maxtempC as string) || '0', 10),
-        low: parseInt((day.mintempC as string) || '0', 10),
-        description: ((day.hourly as Array<{ weatherDesc: Array<{ value: string }> }>)?.[4]?.weatherDesc?.[0]?.value) || 'Unknown',
-      })),
-    };
-  },
-});
+export function createWeatherTool(options: TripPlannerOptions) {
+  const provider = createWeatherProvider(options);
+
+  return createTool({
+    id: 'getWeather',
+    description: `Get current weather and a daily forecast for a location.
+      Use when planning trips or suggesting what to pack.
+      Pass units "imperial" for °F and mph, and startDate/endDate (YYYY-MM-DD) for trip dates.
+      Forecasts cover today and the next two days; a range may span at most ${MAX_FORECAST_DAYS} days,
+      and dates beyond the forecast come back in missingDates.
+      Returns temperature, humidity, UV index, daily forecasts, and any dates without a forecast.`,
+    inputSchema: weatherInputSchema,
+    outputSchema: weatherOutputSchema,
+    execute: async (input, context) => {
+      return provider.getWeather(resolveWeatherRequest(input, options.limits.forecastDays));
+    },
+  });
+}
+
+export const weatherTool = createWeatherTool(defaultOptions);
 
 /**
  * Places Tool
  *
- * Returns curated places for a destination.
+ * Finds places for a destination through a PlacesProvider: the bundled
+ * offline dataset by default (see places.ts), or an adapter for a real API.
  * Demonstrates: Tool with enum input and structured array output.
+ */
+export function createPlacesTool(options: TripPlannerOptions) {
+  const provider = createPlacesProvider(options);
+
+  return createTool({
+    id: 'findPlaces',
+    description: `Find attractions, restaurants, hotels, or activities in a location.
+      Use to help users discover things to do and places to visit.
+      Filter by maxPriceLevel, minRating, tags (e.g. ["vegetarian"]) and openNow; sort by rating,
+      price, or distance from a "near" point. Returns names, descriptions, ratings, price levels,
+      tags, opening hours, and coordinates that can be passed to generateMap.
+      When nextCursor is returned, pass it as cursor with the same search for more results.`,
+    inputSchema: placesInputSchema,
+    outputSchema: placesOutputSchema,
+    execute: async (input, context) => {
+      return provider.findPlaces(resolvePlacesRequest(input, options.limits.maxPlaces));
+    },
+  });
+}
+
+export const placesTool = createPlacesTool(defaultOptions);
+
+/**
+ * Geocode Tool
  *
- * Note: In production, this would call a real places API (Google Places, Yelp, etc.)
+ * Looks up coordinates for a place name or address through a
+ * GeocodingProvider: the bundled gazetteer by default (see geocoding.ts).
+ * Demonstrates: Tool whose output feeds another tool's input.
  */
-export const placesTool = createTool({
-  id: 'findPlaces',
-  description: `Find attractions, restaurants, hotels, or activities in a location.
-    Use to help users discover things to do and places to visit.
-    Returns names, descriptions, ratings, and tags.`,
-  inputSchema: placesInputSchema,
-  outputSchema: placesOutputSchema,
-  execute: async ({ input }) => {
-    const { location, category, limit } = input;
-
-    // Simulated places data - in production, call a real API
-    const placesData: Record<string, Array<{
-      name: string;
-      description: string;
-      rating: number;
-      priceLevel: string;
-      tags: string[];
-    }>> = {
-      attractions: [
-        { name: 'Historic City Center', description: 'UNESCO World Heritage walking district', rating: 4.8, priceLevel: 'Free', tags: ['history', 'walking', 'photography'] },
-        { name: 'National Museum', description: 'Art and cultural artifacts from the region', rating: 4.6, priceLevel: '$$', tags: ['museum', 'culture', 'indoor'] },
-        { name: 'Botanical Gardens', description: 'Beautiful gardens with rare plant species', rating: 4.7, priceLevel: '$', tags: ['nature', 'gardens', 'relaxing'] },
-        { name: 'Observatory Tower', description: 'Panoramic city views from 200m height', rating: 4.5, priceLevel: '$$', tags: ['views', 'photography', 'landmark'] },
-        { name: 'Old Market Square', description: 'Traditional market with local crafts and food', rating: 4.4, priceLevel: '$', tags: ['shopping', 'food', 'local'] },
-      ],
-      restaurants: [
-        { name: 'Local Flavors', description: 'Traditional cuisine with modern twist', rating: 4.7, priceLevel: '$$', tags: ['local', 'dinner', 'romantic'] },
-        { name: 'Street Food Market', description: 'Dozens of food stalls in one location', rating: 4.5, priceLevel: '$', tags: ['casual', 'variety', 'lunch'] },
-        { name: 'Rooftop Dining', description: 'Fine dining with city views', rating: 4.8, priceLevel: '$$$', tags: ['upscale', 'views', 'special occasion'] },
-        { name: 'Family Kitchen', description: 'Homestyle cooking, generous portions', rating: 4.6, priceLevel: '$', tags: ['family', 'comfort food', 'value'] },
-        { name: 'Fusion Bistro', description: 'Creative international menu', rating: 4.4, priceLevel: '$$', tags: ['creative', 'international', 'trendy'] },
-      ],
-      hotels: [
-        { name: 'Grand Central Hotel', description: 'Luxury hotel in city center', rating: 4.8, priceLevel: '$$$', tags: ['luxury', 'central', 'spa'] },
-        { name: 'Boutique Inn', description: 'Charming rooms with local character', rating: 4.6, priceLevel: '$$', tags: ['boutique', 'unique', 'breakfast'] },
-        { name: 'Budget Hostel', description: 'Clean, social, great location', rating: 4.3, priceLevel: '$', tags: ['budget', 'social', 'backpacker'] },
-        { name: 'Beach Resort', description: 'Oceanfront with pool and activities', rating: 4.7, priceLevel: '$$$', tags: ['beach', 'pool', 'resort'] },
-        { name: 'Business Suites', description: 'Modern apartments for longer stays', rating: 4.5, priceLevel: '$$', tags: ['apartments', 'kitchen', 'workspace'] },
-      ],
-      activities: [
-        { name: 'Walking Food Tour', description: '3-hour guided tour of local cuisine', rating: 4.9, priceLevel: '$$', tags: ['food', 'guided', 'walking'] },
-        { name: 'Bike City Tour', description: 'See the highlights on two wheels', rating: 4.7, priceLevel: '$', tags: ['biking', 'active', 'sightseeing'] },
-        { name: 'Cooking Class', description: 'Learn to make local dishes', rating: 4.8, priceLevel: '$$', tags: ['cooking', 'hands-on', 'food'] },
-        { name: 'Day Trip to Mountains', description: 'Scenic hike with stunning views', rating: 4.6, priceLevel: '$$', tags: ['hiking', 'nature', 'day trip'] },
-        { name: 'River Cruise', description: 'Relaxing boat tour with commentary', rating: 4.5, priceLevel: '$$', tags: ['boat', 'relaxing', 'scenic'] },
-      ],
-    };
-
-    const places = placesData[category] || [];
-
-    return {
-      location,
-      category,
-      places: places.slice(0, limit || 5),
-    };
-  },
-});
+export function createGeocodeTool(options: TripPlannerOptions) {
+  const provider = createGeocodingProvider(options);
+
+  return createTool({
+    id: 'geocode',
+    description: `Find the coordinates of a place name or address, e.g. "Belém Tower, Lisbon".
+      Use before generateMap when you need coordinates, instead of guessing them.
+      Returns the best matches first; an empty list means the place was not found.`,
+    inputSchema: geocodeInputSchema,
+    outputSchema: geocodeOutputSchema,
+    execute: async (input, context) => {
+      return provider.geocode({ query: input.query, near: input.near, limit: input.limit });
+    },
+  });
+}
+
+export const geocodeTool = createGeocodeTool(defaultOptions);
+
+/**
+ * Reverse Geocode Tool
+ *
+ * Names the place and city at a coordinate.
+ */
+export function createReverseGeocodeTool(options: TripPlannerOptions) {
+  const provider = createGeocodingProvider(options);
+
+  return createTool({
+    id: 'reverseGeocode',
+    description: `Find what is at a latitude/longitude: the nearest known place and the city.
+      Use when the user shares coordinates or a pin.`,
+    inputSchema: reverseGeocodeInputSchema,
+    outputSchema: geocodeOutputSchema,
+    execute: async (input, context) => {
+      return provider.reverseGeocode(input);
+    },
+  });
+}
+
+export const reverseGeocodeTool = createReverseGeocodeTool(defaultOptions);
 
 /**
  * GeoJSON Map Tool
  *
- * Generates a GeoJSON FeatureCollection from points of interest
- * and returns a URL to view it on geojson.io.
+ * Generates a GeoJSON FeatureCollection from points of interest, routes
+ * through them and highlighted areas, grouped into layers (see map.ts),
+ * and returns it with a geojson.io link and KML and GPX files (see
+ * formats.ts). The GeoJSON appears once, as `geojson`: the map card
+ * builds the GeoJSON download and the viewer link with the features.
+ * Points without coordinates are geocoded by name or address; those that
+ * cannot be found are listed as unresolved rather than placed at made-up
+ * coordinates. Supplied coordinates are checked, duplicates merged and
+ * outliers flagged first, with each fix reported in `warnings`.
  * Demonstrates: Tool that generates map data with external viewer integration.
  */
-export const geojsonTool = createTool({
-  id: 'generateMap',
-  description: `Create an interactive map with points of interest.
-    Takes a location and list of points with coordinates.
-    Returns a GeoJSON object and a link to view it on geojson.io.
-    Use this to visualize trip destinations, routes, or locations on a map.`,
-  inputSchema: geojsonInputSchema,
-  outputSchema: geojsonOutputSchema,
-  execute: async ({ input }) => {
-    const { location, points } = input;
-
-    // Map point types to marker colors for geojson.io
-    const markerColors: Record<string, string> = {
-      attraction: '#9333ea', // purple
-      restaurant: '#f97316', // orange
-      hotel: '#22c55e',      // green
-      activity: '#ec4899',   // pink
-      other: '#6b7280',      // gray
-    };
-
-    // Build GeoJSON FeatureCollection
-    const geojson = {
-      type: 'FeatureCollection' as const,
-      features: points.map((point) => ({
-        type: 'Feature' as const,
-        properties: {
-          name: point.name,
-          description: point.description || '',
-          markerType: point.type,
-          'marker-color': markerColors[point.type] || markerColors.other,
-          'marker-size': 'medium',
-          'marker-symbol': getMarkerSymbol(point.type),
-        },
-        geometry: {
-          type: 'Point' as const,
-          coordinates: [point.lng, point.lat] as [number, number], // GeoJSON uses [lng, lat]
-        },
-      })),
-    };
-
-    // Encode GeoJSON for geojson.io URL
-    // geojson.io accepts data via hash: #data=data:application/json,<encoded>
-    const geojsonString = JSON.stringify(geojson);
-    const encodedData = encodeURIComponent(geojsonString);
-    const viewerUrl = `https://geojson.io/#data=data:application/json,${encodedData}`;
-
-    return {
-      location,
-      geojson,
-      viewerUrl,
-      pointCount: points.length,
-    };
-  },
-});
+export function createGeojsonTool(options: TripPlannerOptions) {
+  const { endpoints, limits } = options;
+  const geocoder = createGeocodingProvider(options);
+
+  return createTool({
+    id: 'generateMap',
+    description: `Create an interactive map with points of interest.
+      Takes a location and list of points. Give lat/lng only when they come from findPlaces or geocode;
+      otherwise give the name (and an address if known) and the point is located for you.
+      Add routes to draw an ordered itinerary through named points, and areas to highlight a neighbourhood
+      around named points. Give points, routes and areas the same layer (e.g. "Day 1") to group them.
+      Returns a GeoJSON object with its bounding box, a geojson.io link centered on it, downloadable
+      KML and GPX files (pick with formats), its layers, anything that could not be placed, and warnings
+      about swapped or invalid coordinates, duplicates, and far-away points.
+      Use this to visualize trip destinations, routes, or locations on a map.`,
+    inputSchema: geojsonInputSchema,
+    outputSchema: geojsonOutputSchema,
+    execute: async (input, context) => {
+      const { location, formats } = input;
+      const { mapOutlierKm } = limits;
+
+      // Check supplied coordinates against the map location before geocoding the rest
+      const [center] = await geocoder.geocode({ query: location, limit: 1 }).then(({ results }) => results, () => []);
+      const checked = checkMapCoordinates(input.points, center, mapOutlierKm);
+      const { located, unresolved: notFound } = await locateMapPoints(checked.points, location, geocoder);
+      const reviewed = reviewMapPoints(located, center, mapOutlierKm);
+      const { geojson, center: mapCenter, layers, unresolved } = buildMapFeatures(input, reviewed.points);
+
+      return {
+        location,
+        geojson,
+        viewerUrl: createViewerUrl(endpoints.mapViewer, geojson, mapCenter),
+        files: createMapFiles(geojson, location, formats),
+        center: mapCenter,
+        pointCount: reviewed.points.length,
+        layers,
+        unresolved: [...notFound, ...unresolved],
+        warnings: [...checked.warnings, ...reviewed.warnings],
+      };
+    },
+  });
+}
+
+export const geojsonTool = createGeojsonTool(defaultOptions);
 
 /**
- * Get a marker symbol for geojson.io based on point type
+ * Itinerary Tool
+ *
+ * Arranges candidate places into a day-by-day plan, respecting opening
+ * hours and the forecast (see itinerary.ts). It works only from its input,
+ * so the agent gathers places and weather first.
+ * Demonstrates: Tool that combines the outputs of other tools.
+ */
+export function createItineraryTool(options: TripPlannerOptions) {
+  return createTool({
+    id: 'buildItinerary',
+    description: `Build a day-by-day itinerary from trip dates, interests and candidate places.
+      Pass places from findPlaces (attractions, activities, restaurants, hotels) and the forecast from getWeather
+      for the same dates. Places are put in morning, lunch, afternoon, dinner and evening slots when they are open,
+      outdoor places on dry days, and each day's places close together. Places that do not fit are returned
+      as unscheduled. Follow up with generateMap, one route per day, to show the plan.`,
+    inputSchema: itineraryInputSchema,
+    outputSchema: itineraryOutputSchema,
+    execute: async (input, context) => {
+      return planItinerary(input, options.limits.itineraryDays);
+    },
+  });
+}
+
+export const itineraryTool = createItineraryTool(defaultOptions);
+
+/**
+ * Distances Tool
+ *
+ * Measures how far apart places are and how long getting between them
+ * takes, or groups them into compact days with a visiting order (see
+ * distances.ts).
+ * Demonstrates: Tool whose output is another tool's input, as is.
+ */
+export function createDistancesTool(options: TripPlannerOptions) {
+  return createTool({
+    id: 'computeDistances',
+    description: `Compute distances and walking, transit and driving times between places with coordinates.
+      mode "matrix" returns every pair. mode "cluster" splits the places into compact days (pass days, or about
+      four places a day), each in a short visiting order, starting and ending at start (e.g. the hotel) if given.
+      Cluster output has points (with a layer per day) and routes that can be passed straight to generateMap.
+      Use it to avoid plans that criss-cross town.`,
+    inputSchema: distancesInputSchema,
+    outputSchema: distancesOutputSchema,
+    execute: async (input, context) => {
+      return computeDistances(input, options.travel, options.limits.maxDistancePoints);
+    },
+  });
+}
+
+export const distancesTool = createDistancesTool(defaultOptions);
+
+/**
+ * Packing List Tool
+ *
+ * Builds a checklist from a getWeather report and the planned places'
+ * tags with a fixed rule set (see packing.ts), so the same trip always
+ * gets the same list, each item with its reason.
+ * Demonstrates: Deterministic tool in place of model guesswork.
  */
-function getMarkerSymbol(type: string): string {
-  const symbols: Record<string, string> = {
-    attraction: 'monument',
-    restaurant: 'restaurant',
-    hotel: 'lodging',
-    activity: 'pitch',
-    other: 'marker',
+export function createPackingTool(options: TripPlannerOptions) {
+  return createTool({
+    id: 'generatePackingList',
+    description: `Generate a packing checklist for a trip from its weather and planned activities.
+      Pass the getWeather output for the destination and trip dates as is, the trip length in days,
+      and the tags of the places they plan to visit from findPlaces (e.g. ["walking", "boat", "spa"]).
+      Returns items by category, each with the reason it is needed, and notes about days the forecast misses.`,
+    inputSchema: packingInputSchema,
+    outputSchema: packingOutputSchema,
+    execute: async (input, context) => {
+      return planPackingList(input, options.limits.laundryDays);
+    },
+  });
+}
+
+export const packingTool = createPackingTool(defaultOptions);
+
+/**
+ * Budget Tool
+ *
+ * Turns the price levels of planned places into money with a cost table
+ * per destination: the bundled one, or one from the options (see
+ * budget.ts).
+ * Demonstrates: Tool backed by configurable reference data.
+ */
+export function createBudgetTool(options: TripPlannerOptions) {
+  const costs = loadCostTable(options);
+
+  return createTool({
+    id: 'estimateBudget',
+    description: `Estimate a trip's cost from the places' price levels ($ to $$$$, or Free).
+      Pass the destination, nights, travellers, and the hotels, restaurants, attractions and activities from
+      findPlaces or buildItinerary (with their day, if planned). style sets the price level for meals and a hotel
+      not among the places. Returns the total in the local currency, per person and per day, broken down by
+      category and by day, with the assumptions behind it. Travel to and from the destination is not included.`,
+    inputSchema: budgetInputSchema,
+    outputSchema: budgetOutputSchema,
+    execute: async (input, context) => {
+      return estimateBudget(input, costs);
+    },
+  });
+}
+
+export const budgetTool = createBudgetTool(defaultOptions);
+
+/**
+ * Save Trip Tool
+ *
+ * Saves a trip, with its places, maps and itinerary, to the trip store:
+ * LibSQL at `storage.url`, or the `tripStore` option (see trips.ts). The saved-trip tools
+ * share one store when built by createTripPlannerTools().
+ * Demonstrates: Tool backed by the plugin's own storage.
+ */
+export function createSaveTripTool(options: TripPlannerOptions, store: TripStore = createTripStore(options)) {
+  return createTool({
+    id: 'saveTrip',
+    description: `Save a trip so it can be picked up in a later conversation.
+      Pass a short name, the destination, and whatever has been planned: dates, travellers, the places they picked
+      (from findPlaces), maps (name, geojson and viewerUrl from generateMap), the buildItinerary output, and notes.
+      Returns the saved trip with its id and revision. Use updateTrip, not saveTrip, to change a trip already saved.`,
+    inputSchema: saveTripInputSchema,
+    outputSchema: tripSchema,
+    execute: async (input, context) => {
+      return store.saveTrip(input);
+    },
+  });
+}
+
+/**
+ * List Trips Tool
+ *
+ * Lists saved trips, most recently updated first, a page at a time.
+ */
+export function createListTripsTool(options: TripPlannerOptions, store: TripStore = createTripStore(options)) {
+  return createTool({
+    id: 'listTrips',
+    description: `List saved trips, most recently updated first, optionally only those to one destination.
+      Returns each trip's id, name, destination, dates, and how many places and maps it has.
+      When nextCursor is returned, pass it as cursor for more. Use loadTrip with an id for the whole trip.`,
+    inputSchema: listTripsInputSchema,
+    outputSchema: listTripsOutputSchema,
+    execute: async (input, context) => {
+      const request = resolveListTripsRequest(input, options.limits.maxTrips);
+      return completeTripList(await store.listTrips(request), request);
+    },
+  });
+}
+
+/**
+ * Load Trip Tool
+ *
+ * Loads one saved trip in full.
+ */
+export function createLoadTripTool(options: TripPlannerOptions, store: TripStore = createTripStore(options)) {
+  return createTool({
+    id: 'loadTrip',
+    description: `Load a saved trip by id, with its places, maps, itinerary and notes.
+      Use when they want to pick up a trip planned earlier; find the id with listTrips.`,
+    inputSchema: loadTripInputSchema,
+    outputSchema: tripSchema,
+    execute: async (input, context) => {
+      return store.loadTrip(input.id);
+    },
+  });
+}
+
+/**
+ * Update Trip Tool
+ *
+ * Changes a saved trip. Updates carry the revision they were made
+ * against, so one made from a stale copy is refused rather than undoing
+ * a newer change.
+ */
+export function createUpdateTripTool(options: TripPlannerOptions, store: TripStore = createTripStore(options)) {
+  return createTool({
+    id: 'updateTrip',
+    description: `Change a saved trip. Pass its id, the revision from when you last saved or loaded it, and only what changes:
+      new values for name, destination, dates, travellers, itinerary or notes; addPlaces / removePlaces (by name)
+      or places to replace them all; addMaps or maps to replace them all. Returns the trip with its new revision.
+      A CONFLICT error means the trip changed since; load it again and reapply the change.`,
+    inputSchema: updateTripInputSchema,
+    outputSchema: tripSchema,
+    execute: async (input, context) => {
+      const trip = await store.loadTrip(input.id);
+      return store.updateTrip(trip.id, applyTripUpdate(trip, input), input.revision);
+    },
+  });
+}
+
+/**
+ * The store the default saved-trip tools share: LibSQL at
+ * TRIP_PLANNER_DB_URL, if set. Connects on first use.
+ */
+export const tripStore = createTripStore(defaultOptions);
+
+export const saveTripTool = createSaveTripTool(defaultOptions, tripStore);
+export const listTripsTool = createListTripsTool(defaultOptions, tripStore);
+export const loadTripTool = createLoadTripTool(defaultOptions, tripStore);
+export const updateTripTool = createUpdateTripTool(defaultOptions, tripStore);
+
+/**
+ * Create all trip planner tools from one set of options. The saved-trip
+ * tools share `store`.
+ */
+export function createTripPlannerTools(options: TripPlannerOptions, store: TripStore = createTripStore(options)) {
+  return {
+    weatherTool: createWeatherTool(options),
+    placesTool: createPlacesTool(options),
+    geocodeTool: createGeocodeTool(options),
+    reverseGeocodeTool: createReverseGeocodeTool(options),
+    geojsonTool: createGeojsonTool(options),
+    itineraryTool: createItineraryTool(options),
+    distancesTool: createDistancesTool(options),
+    packingTool: createPackingTool(options),
+    budgetTool: createBudgetTool(options),
+    saveTripTool: createSaveTripTool(options, store),
+    listTripsTool: createListTripsTool(options, store),
+    loadTripTool: createLoadTripTool(options, store),
+    updateTripTool: createUpdateTripTool(options, store),
   };
-  return symbols[type] || 'marker';
 }
 
+export type TripPlannerTools = ReturnType<typeof createTripPlannerTools>;
+
 // Export all tools
-export const tripPlannerTools = {
+export const tripPlannerTools: TripPlannerTools = {
   weatherTool,
   placesTool,
+  geocodeTool,
+  reverseGeocodeTool,
   geojsonTool,
+  itineraryTool,
+  distancesTool,
+  packingTool,
+  budgetTool,
+  saveTripTool,
+  listTripsTool,
+  loadTripTool,
+  updateTripTool,
 };
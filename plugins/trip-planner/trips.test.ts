@@ -0,0 +1,155 @@
+// examples/trip-planner/trips.test.ts
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout } from 'node:timers/promises';
+import { createClient, type Client } from '@libsql/client';
+import { resolveTripPlannerOptions, updateTripInputSchema, type TripDetails } from './config';
+import {
+  applyTripUpdate,
+  completeTripList,
+  createTripStore,
+  libsqlTripStore,
+  resolveListTripsRequest,
+  TRIP_SCHEMA_VERSION,
+  TripStoreError,
+  type TripStore,
+} from './trips';
+
+const lisbon: TripDetails = {
+  name: 'Lisbon long weekend',
+  destination: 'Lisbon, Portugal',
+  startDate: '2026-07-01',
+  endDate: '2026-07-04',
+  places: [{ name: 'Belém Tower', category: 'attractions', description: '', tags: [] }],
+  maps: [],
+};
+
+async function storeError(promise: Promise<unknown>): Promise<TripStoreError> {
+  try {
+    await promise;
+  } catch (error) {
+    assert.ok(error instanceof TripStoreError);
+    return error;
+  }
+  assert.fail('expected a TripStoreError');
+}
+
+describe('libsqlTripStore', () => {
+  let client: Client;
+  let store: TripStore;
+
+  beforeEach(() => {
+    client = createClient({ url: ':memory:' });
+    store = libsqlTripStore({ client });
+  });
+
+  afterEach(() => {
+    store.close();
+    client.close();
+  });
+
+  it('migrates once and records the version', async () => {
+    assert.equal(await store.migrate(), TRIP_SCHEMA_VERSION);
+    assert.equal(await store.migrate(), TRIP_SCHEMA_VERSION);
+
+    const { rows } = await client.execute('SELECT version, name FROM trip_planner_migrations');
+    assert.deepEqual(rows.map(row => [row.version, row.name]), [[1, 'create trips']]);
+  });
+
+  it('refuses a database migrated by a newer plugin', async () => {
+    await store.migrate();
+    await client.execute({
+      sql: 'INSERT INTO trip_planner_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+      args: [TRIP_SCHEMA_VERSION + 1, 'from the future', new Date().toISOString()],
+    });
+
+    const newer = libsqlTripStore({ client });
+    assert.equal((await storeError(newer.migrate())).code, 'SCHEMA_TOO_NEW');
+  });
+
+  it('saves and loads trips, starting at revision 1', async () => {
+    const saved = await store.saveTrip(lisbon);
+    const loaded = await store.loadTrip(saved.id);
+
+    assert.equal(saved.revision, 1);
+    assert.deepEqual(loaded, saved);
+    assert.equal((await storeError(store.loadTrip('missing'))).code, 'NOT_FOUND');
+  });
+
+  it('refuses updates made against an old revision', async () => {
+    const saved = await store.saveTrip(lisbon);
+    const renamed = await store.updateTrip(saved.id, { ...lisbon, name: 'Lisbon in July' }, saved.revision);
+    assert.equal(renamed.revision, 2);
+
+    const error = await storeError(store.updateTrip(saved.id, { ...lisbon, notes: 'stale' }, saved.revision));
+    assert.equal(error.code, 'CONFLICT');
+    assert.match(error.message, /at revision 2, not 1/);
+    assert.equal((await store.loadTrip(saved.id)).name, 'Lisbon in July');
+  });
+
+  it('lists summaries by destination, newest first, a page at a time', async () => {
+    // Saved a few milliseconds apart, as trips are ordered by updatedAt
+    const first = await store.saveTrip(lisbon);
+    await setTimeout(2);
+    await store.saveTrip({ ...lisbon, name: 'Porto', destination: 'Porto' });
+    await setTimeout(2);
+    const second = await store.saveTrip({ ...lisbon, name: 'Lisbon again' });
+
+    const request = resolveListTripsRequest({ destination: 'lisbon', limit: 1 }, 10);
+    const page = completeTripList(await store.listTrips(request), request);
+    assert.deepEqual(page.trips.map(trip => [trip.id, trip.placeCount]), [[second.id, 1]]);
+    assert.equal(page.total, 2);
+    assert.ok(page.nextCursor);
+
+    const nextRequest = resolveListTripsRequest({ destination: 'lisbon', cursor: page.nextCursor }, 10);
+    const next = completeTripList(await store.listTrips(nextRequest), nextRequest);
+    assert.deepEqual(next.trips.map(trip => trip.id), [first.id]);
+    assert.equal(next.nextCursor, undefined);
+  });
+});
+
+describe('updateTrip input', () => {
+  it('requires the revision the change was made against', () => {
+    assert.equal(updateTripInputSchema.safeParse({ id: 'trip-1', name: 'Renamed' }).success, false);
+    assert.equal(updateTripInputSchema.safeParse({ id: 'trip-1', revision: 3, name: 'Renamed' }).success, true);
+  });
+
+  it('replaces, adds and removes places by name', () => {
+    const trip = { ...lisbon, id: 'trip-1', revision: 1, createdAt: '', updatedAt: '' };
+    const next = applyTripUpdate(trip, {
+      id: 'trip-1',
+      revision: 1,
+      addPlaces: [
+        { name: 'belém tower', category: 'attractions', description: 'Go early', tags: [] },
+        { name: 'LX Factory', category: 'activities', description: '', tags: [] },
+      ],
+      removePlaces: ['LX FACTORY'],
+    });
+
+    assert.deepEqual(next.places, [{ name: 'belém tower', category: 'attractions', description: 'Go early', tags: [] }]);
+    assert.throws(() => applyTripUpdate(trip, { id: 'trip-1', revision: 1, endDate: '2026-06-01' }), /before startDate/);
+  });
+
+  it('rejects cursors that are not from listTrips', () => {
+    assert.throws(() => resolveListTripsRequest({ cursor: 'nope' }, 10), /INVALID_CURSOR/);
+  });
+});
+
+describe('createTripStore', () => {
+  it('uses no database unless one is configured', async () => {
+    const store = createTripStore(resolveTripPlannerOptions({}));
+
+    assert.equal(store.name, 'none');
+    assert.equal((await storeError(store.migrate())).code, 'NOT_CONFIGURED');
+    assert.equal((await storeError(store.saveTrip(lisbon))).code, 'NOT_CONFIGURED');
+    assert.throws(() => libsqlTripStore({}), /needs a url or a client/);
+  });
+
+  it('opens LibSQL at storage.url', async () => {
+    const store = createTripStore(resolveTripPlannerOptions({ storage: { url: ':memory:' } }));
+
+    assert.equal(store.name, 'libsql');
+    assert.equal(await store.migrate(), TRIP_SCHEMA_VERSION);
+    store.close();
+  });
+});
@@ -0,0 +1,408 @@
+// examples/trip-planner/trips.ts
+import { randomUUID } from 'node:crypto';
+import { createClient, type Client, type Row } from '@libsql/client';
+import {
+  tripSchema,
+  type ListTripsInput,
+  type ListTripsOutput,
+  type Trip,
+  type TripDetails,
+  type TripStoreErrorCode,
+  type TripSummary,
+  type TripPlannerOptions,
+  type UpdateTripInput,
+} from './config';
+
+/** What listTrips asks a store for. */
+export interface ListTripsRequest {
+  /** Only trips to this city, matched like findPlaces locations. */
+  destination?: string;
+  /** Page size, already capped at `limits.maxTrips`. */
+  limit: number;
+  /** Trips to skip, decoded from the input `cursor`. */
+  offset: number;
+}
+
+/**
+ * Trip Store
+ *
+ * Where saveTrip, listTrips, loadTrip and updateTrip keep trips: a LibSQL
+ * database at `storage.url` (see libsqlTripStore()), or any other store
+ * passed as the `tripStore` option. Stores throw a `TripStoreError` for a trip
+ * that does not exist, or an update made against an old revision.
+ */
+export interface TripStore {
+  /** Shown in error messages and logs. */
+  readonly name: string;
+  /** Bring the store's tables up to date. Safe to call again; returns the schema version. */
+  migrate(): Promise<number>;
+  saveTrip(details: TripDetails): Promise<Trip>;
+  listTrips(request: ListTripsRequest): Promise<{ trips: TripSummary[]; total: number }>;
+  loadTrip(id: string): Promise<Trip>;
+  /** Replace a trip's details, if it is still at `revision`. */
+  updateTrip(id: string, details: TripDetails, revision: number): Promise<Trip>;
+  /** Release the connection; the next call reconnects. */
+  close(): void;
+}
+
+/**
+ * Thrown when a trip cannot be saved or loaded. `code` says why, and leads
+ * the message so the agent can tell a missing trip from a stale update.
+ */
+export class TripStoreError extends Error {
+  constructor(
+    public readonly code: TripStoreErrorCode,
+    public readonly tripId: string | undefined,
+    public readonly issues: string[]
+  ) {
+    super(`${code}: ${tripId ? `Trip "${tripId}"` : 'Saved trips'}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'TripStoreError';
+  }
+}
+
+// =============================================================================
+// Updates and Pagination
+// =============================================================================
+
+/**
+ * Apply updateTrip's changes to a trip: given fields replace the old ones,
+ * `addPlaces` and `addMaps` replace same-named entries or are appended,
+ * and `removePlaces` drops places by name. Names match case-insensitively.
+ */
+export function applyTripUpdate(trip: Trip, update: UpdateTripInput): TripDetails {
+  const { id, revision, createdAt, updatedAt, ...details } = trip;
+  const { name, destination, startDate, endDate, travellers, itinerary, notes } = update;
+  const removed = new Set(update.removePlaces?.map(nameKey));
+
+  const next: TripDetails = {
+    ...details,
+    ...omitUndefined({ name, destination, startDate, endDate, travellers, itinerary, notes }),
+    places: mergeByName(update.places ?? details.places, update.addPlaces ?? []).filter(place => !removed.has(nameKey(place.name))),
+    maps: mergeByName(update.maps ?? details.maps, update.addMaps ?? []),
+  };
+
+  if (next.startDate && next.endDate && next.startDate > next.endDate) {
+    throw new TripStoreError('INVALID_TRIP', id, [`endDate ${next.endDate} is before startDate ${next.startDate}`]);
+  }
+  return next;
+}
+
+function mergeByName<T extends { name: string }>(current: readonly T[], added: readonly T[]): T[] {
+  const merged = new Map(current.map(entry => [nameKey(entry.name), entry]));
+  for (const entry of added) merged.set(nameKey(entry.name), entry);
+  return [...merged.values()];
+}
+
+function nameKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+function omitUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as Partial<T>;
+}
+
+/** Fill in the tool input's defaults and decode its cursor. */
+export function resolveListTripsRequest(input: ListTripsInput, maxTrips: number): ListTripsRequest {
+  return {
+    destination: input.destination,
+    limit: Math.min(input.limit ?? maxTrips, maxTrips),
+    offset: input.cursor ? decodeCursor(input.cursor) : 0,
+  };
+}
+
+/** One page of trips, with a cursor for the next. */
+export function completeTripList(page: { trips: TripSummary[]; total: number }, request: ListTripsRequest): ListTripsOutput {
+  const next = request.offset + page.trips.length;
+  return {
+    trips: page.trips,
+    total: page.total,
+    nextCursor: page.trips.length > 0 && next < page.total ? encodeCursor(next) : undefined,
+  };
+}
+
+function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+function decodeCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as { offset?: unknown };
+    if (typeof offset === 'number' && Number.isInteger(offset) && offset >= 0) return offset;
+  } catch {
+    // Reported below
+  }
+  throw new TripStoreError('INVALID_CURSOR', undefined, ['cursor is not from listTrips; list again without a cursor']);
+}
+
+// =============================================================================
+// LibSQL
+// =============================================================================
+
+/**
+ * Schema migrations, applied in order by `migrate()`. Each runs in one
+ * transaction with its row in `trip_planner_migrations`, so a database is
+ * always at exactly one version. Never edit a released migration; add the
+ * next one.
+ *
+ * Tables are prefixed `trip_planner_`, so the trips can share a database
+ * with Mastra's own LibSQLStore.
+ */
+const MIGRATIONS: ReadonlyArray<{ version: number; name: string; statements: string[] }> = [
+  {
+    version: 1,
+    name: 'create trips',
+    statements: [
+      `CREATE TABLE trip_planner_trips (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        destination TEXT NOT NULL,
+        destination_key TEXT NOT NULL,
+        start_date TEXT,
+        end_date TEXT,
+        details TEXT NOT NULL,
+        revision INTEGER NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`,
+      'CREATE INDEX trip_planner_trips_updated_at ON trip_planner_trips (updated_at)',
+      'CREATE INDEX trip_planner_trips_destination ON trip_planner_trips (destination_key, updated_at)',
+    ],
+  },
+];
+
+/** The schema version this plugin writes. */
+export const TRIP_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/** The columns listTrips needs, without loading every trip's maps. */
+const SUMMARY_COLUMNS = `id, name, destination, start_date, end_date, revision, updated_at,
+  json_array_length(details, '$.places') AS place_count,
+  json_array_length(details, '$.maps') AS map_count,
+  json_type(details, '$.itinerary') IS NOT NULL AS has_itinerary`;
+
+/**
+ * LibSQL Store
+ *
+ * Keeps trips in a LibSQL database: a local file, `:memory:`, or a remote
+ * Turso database with an `authToken`. Pass `client` to share a connection
+ * instead; one of `url` and `client` is required, so trips never land in a
+ * database nobody chose. Connects on first use and runs any pending
+ * migrations then, so creating the store touches nothing.
+ * Each trip is one row; what it holds is a JSON document, with the fields
+ * listTrips filters and sorts on copied into columns.
+ *
+ * @example
+ * ```typescript
+ * libsqlTripStore({ url: 'file:./trips.db' });
+ * ```
+ */
+export function libsqlTripStore(options: { url?: string; authToken?: string; client?: Client }): TripStore {
+  if (!options.url && !options.client) {
+    throw new Error('libsqlTripStore() needs a url or a client');
+  }
+  // Only connected to without a client; otherwise named in error messages
+  const url = options.url ?? 'the shared database';
+  let client = options.client;
+  let migrated: Promise<number> | undefined;
+
+  const connect = () => (client ??= createClient({ url, authToken: options.authToken }));
+
+  async function migrate(): Promise<number> {
+    const db = connect();
+    await db.execute(`CREATE TABLE IF NOT EXISTS trip_planner_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )`);
+    const { rows } = await db.execute('SELECT MAX(version) AS version FROM trip_planner_migrations');
+    const current = Number(rows[0]?.version ?? 0);
+
+    if (current > TRIP_SCHEMA_VERSION) {
+      throw new TripStoreError('SCHEMA_TOO_NEW', undefined, [
+        `${url} is at schema version ${current}; this plugin knows up to ${TRIP_SCHEMA_VERSION}. Upgrade the plugin.`,
+      ]);
+    }
+
+    for (const migration of MIGRATIONS.filter(entry => entry.version > current)) {
+      await db.batch(
+        [
+          ...migration.statements,
+          {
+            sql: 'INSERT INTO trip_planner_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+            args: [migration.version, migration.name, new Date().toISOString()],
+          },
+        ],
+        'write'
+      );
+    }
+    return TRIP_SCHEMA_VERSION;
+  }
+
+  /** The connection, migrated once; a failed migration is retried on the next call. */
+  async function ready(): Promise<Client> {
+    migrated ??= migrate().catch(error => {
+      migrated = undefined;
+      throw error;
+    });
+    await migrated;
+    return connect();
+  }
+
+  async function loadTrip(id: string): Promise<Trip> {
+    const db = await ready();
+    const { rows } = await db.execute({
+      sql: 'SELECT id, details, revision, created_at, updated_at FROM trip_planner_trips WHERE id = ?',
+      args: [id],
+    });
+    if (rows.length === 0) {
+      throw new TripStoreError('NOT_FOUND', id, ['no saved trip has this id; use listTrips to find it']);
+    }
+    return toTrip(rows[0]);
+  }
+
+  return {
+    name: 'libsql',
+    migrate: () => ready().then(() => TRIP_SCHEMA_VERSION),
+
+    async saveTrip(details) {
+      const db = await ready();
+      const now = new Date().toISOString();
+      const trip: Trip = { ...details, id: randomUUID(), revision: 1, createdAt: now, updatedAt: now };
+      await db.execute({
+        sql: `INSERT INTO trip_planner_trips
+          (id, name, destination, destination_key, start_date, end_date, details, revision, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        args: [trip.id, ...detailColumns(details), trip.revision, trip.createdAt, trip.updatedAt],
+      });
+      return trip;
+    },
+
+    async listTrips({ destination, limit, offset }) {
+      const db = await ready();
+      const filter = destination
+        ? { sql: 'WHERE destination_key = ?', args: [cityKey(destination)] }
+        : { sql: '', args: [] as string[] };
+      const [count, page] = await db.batch(
+        [
+          { sql: `SELECT COUNT(*) AS total FROM trip_planner_trips ${filter.sql}`, args: filter.args },
+          {
+            sql: `SELECT ${SUMMARY_COLUMNS} FROM trip_planner_trips ${filter.sql}
+              ORDER BY updated_at DESC, id LIMIT ? OFFSET ?`,
+            args: [...filter.args, limit, offset],
+          },
+        ],
+        'read'
+      );
+      return {
+        trips: page.rows.map(toSummary),
+        total: Number(count.rows[0]?.total ?? 0),
+      };
+    },
+
+    loadTrip,
+
+    async updateTrip(id, details, revision) {
+      const db = await ready();
+      const updatedAt = new Date().toISOString();
+      const { rowsAffected } = await db.execute({
+        sql: `UPDATE trip_planner_trips
+          SET name = ?, destination = ?, destination_key = ?, start_date = ?, end_date = ?, details = ?,
+            revision = revision + 1, updated_at = ?
+          WHERE id = ? AND revision = ?`,
+        args: [...detailColumns(details), updatedAt, id, revision],
+      });
+
+      if (rowsAffected === 0) {
+        // Missing, or changed since it was loaded
+        const current = await loadTrip(id);
+        throw new TripStoreError('CONFLICT', id, [
+          `the trip is at revision ${current.revision}, not ${revision}; load it again and reapply the changes`,
+        ]);
+      }
+      return loadTrip(id);
+    },
+
+    close() {
+      // A shared client belongs to whoever passed it in
+      if (!options.client) {
+        client?.close();
+        client = undefined;
+      }
+      migrated = undefined;
+    },
+  };
+}
+
+function detailColumns(details: TripDetails): Array<string | null> {
+  return [
+    details.name,
+    details.destination,
+    cityKey(details.destination),
+    details.startDate ?? null,
+    details.endDate ?? null,
+    JSON.stringify(details),
+  ];
+}
+
+/** A stored trip, checked against tripSchema in case the row was edited by hand. */
+function toTrip(row: Row): Trip {
+  const id = String(row.id);
+  const parsed = tripSchema.safeParse({
+    ...JSON.parse(String(row.details)),
+    id,
+    revision: Number(row.revision),
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+  });
+  if (!parsed.success) {
+    throw new TripStoreError('INVALID_TRIP', id, parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`));
+  }
+  return parsed.data;
+}
+
+function toSummary(row: Row): TripSummary {
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    destination: String(row.destination),
+    startDate: row.start_date === null ? undefined : String(row.start_date),
+    endDate: row.end_date === null ? undefined : String(row.end_date),
+    revision: Number(row.revision),
+    updatedAt: String(row.updated_at),
+    placeCount: Number(row.place_count ?? 0),
+    mapCount: Number(row.map_count ?? 0),
+    hasItinerary: Boolean(row.has_itinerary),
+  };
+}
+
+function cityKey(location: string): string {
+  return location.split(',')[0].trim().toLowerCase();
+}
+
+/**
+ * Build the store the trip tools use from the plugin options: the
+ * `tripStore` option if given, otherwise LibSQL at `storage.url`. With
+ * neither, every call fails with `NOT_CONFIGURED`, so the rest of the
+ * plugin works without a database.
+ */
+export function createTripStore({ tripStore, storage }: TripPlannerOptions): TripStore {
+  if (tripStore) return tripStore;
+  if (storage.url) return libsqlTripStore({ url: storage.url, authToken: storage.authToken });
+  return unconfiguredTripStore();
+}
+
+function unconfiguredTripStore(): TripStore {
+  const fail = async (): Promise<never> => {
+    throw new TripStoreError('NOT_CONFIGURED', undefined, [
+      'no database is set up for saved trips; set storage.url (TRIP_PLANNER_DB_URL) or pass tripStore',
+    ]);
+  };
+  return {
+    name: 'none',
+    migrate: fail,
+    saveTrip: fail,
+    listTrips: fail,
+    loadTrip: fail,
+    updateTrip: fail,
+    close() {},
+  };
+}
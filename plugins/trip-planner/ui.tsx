@@ -1,18 +1,21 @@
 // examples/trip-planner/ui.tsx
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useChat } from '@ai-sdk/react';
 import { DefaultChatTransport } from 'ai';
-import type { WeatherOutput, PlacesOutput, GeoJsonOutput } from './config';
+import type { WeatherOutput, WeatherErrorCode, PlacesOutput, OpeningHours, Weekday, GeocodeOutput, GeoJsonOutput, MapFeature, MapFile, MapFileFormat, MapWarningCode, ItineraryOutput, DistancesOutput, TravelMode, PackingOutput, PackingCategory, BudgetOutput, BudgetCategory, Trip, TripSummary, ListTripsOutput } from './config';
+import { createMapFiles, viewerUrlWithData } from './formats';
 
-const MASTRA_BASE_URL = process.env.NEXT_PUBLIC_MASTRA_URL || 'http://localhost:4111';
+const DEFAULT_MASTRA_URL = process.env.NEXT_PUBLIC_MASTRA_URL || 'http://localhost:4111';
 
 // =============================================================================
 // Weather Card Component
 // =============================================================================
 
-function WeatherCard({ data }: { data: WeatherOutput }) {
+export function WeatherCard({ data }: { data: WeatherOutput }) {
+  const { temperature, windSpeed } = data.units;
+
   return (
     <div className="rounded-xl border bg-gradient-to-br from-blue-50 to-sky-100 p-6 shadow-sm">
       <div className="flex items-start justify-between">
@@ -21,11 +24,17 @@ function WeatherCard({ data }: { data: WeatherOutput }) {
           <p className="text-sm text-gray-600">{data.description}</p>
         </div>
         <div className="text-right">
-          <span className="text-4xl font-bold text-blue-600">{data.temperature}°C</span>
-          <p className="text-xs text-gray-500">Feels like {data.feelsLike}°C</p>
+          <span className="text-4xl font-bold text-blue-600">{data.temperature}{temperature}</span>
+          <p className="text-xs text-gray-500">Feels like {data.feelsLike}{temperature}</p>
         </div>
       </div>
 
+      {!data.live && (
+        <p className="mt-2 inline-block rounded bg-amber-100 px-2 py-0.5 text-xs text-amber-800">
+          Sample data - not a live forecast{data.source && ` (${data.source})`}
+        </p>
+      )}
+
       <div className="mt-4 grid grid-cols-3 gap-4 text-sm">
         <div className="rounded-lg bg-white/60 p-2 text-center">
           <p className="text-gray-500">Humidity</p>
@@ -33,7 +42,7 @@ function WeatherCard({ data }: { data: WeatherOutput }) {
         </div>
         <div className="rounded-lg bg-white/60 p-2 text-center">
           <p className="text-gray-500">Wind</p>
-          <p className="font-semibold text-gray-900">{data.windSpeed} km/h</p>
+          <p className="font-semibold text-gray-900">{data.windSpeed} {windSpeed}</p>
         </div>
         <div className="rounded-lg bg-white/60 p-2 text-center">
           <p className="text-gray-500">UV Index</p>
@@ -43,8 +52,10 @@ function WeatherCard({ data }: { data: WeatherOutput }) {
 
       {data.forecast.length > 0 && (
         <div className="mt-4 border-t border-blue-200 pt-4">
-          <p className="mb-2 text-xs font-medium text-gray-500">3-Day Forecast</p>
-          <div className="grid grid-cols-3 gap-2">
+          <p className="mb-2 text-xs font-medium text-gray-500">
+            {data.forecast.length}-Day Forecast ({temperature})
+          </p>
+          <div className="grid grid-cols-3 gap-2 sm:grid-cols-4">
             {data.forecast.map((day, i) => (
               <div key={i} className="rounded-lg bg-white/60 p-2 text-center">
                 <p className="text-xs text-gray-500">{day.date}</p>
@@ -55,6 +66,68 @@ function WeatherCard({ data }: { data: WeatherOutput }) {
           </div>
         </div>
       )}
+
+      {data.missingDates.length > 0 && (
+        <p className="mt-3 text-xs text-gray-500">
+          No forecast yet for {data.missingDates[0]}
+          {data.missingDates.length > 1 && ` to ${data.missingDates[data.missingDates.length - 1]}`}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// =============================================================================
+// Weather Error Component
+// =============================================================================
+
+const WEATHER_ERROR_HELP: Record<WeatherErrorCode, { title: string; hint: string }> = {
+  LOCATION_NOT_FOUND: {
+    title: 'Location not found',
+    hint: 'Check the spelling, or try a nearby city or "City, Country".',
+  },
+  UPSTREAM_TIMEOUT: {
+    title: 'The weather service took too long',
+    hint: 'It may be busy. Try again in a moment.',
+  },
+  RATE_LIMITED: {
+    title: 'Too many weather requests',
+    hint: 'The weather service is limiting requests. Wait a minute, then ask again.',
+  },
+  UPSTREAM_MALFORMED: {
+    title: 'Unreadable weather data',
+    hint: 'The weather service sent a response we could not read. Try again later.',
+  },
+  UPSTREAM_UNAVAILABLE: {
+    title: 'Weather service unavailable',
+    hint: 'The weather service could not be reached. Try again later.',
+  },
+};
+
+/**
+ * Explains a getWeather failure. The tool's error text starts with a
+ * `WeatherErrorCode`; anything else is shown as is.
+ */
+export function WeatherErrorCard({ errorText }: { errorText: string }) {
+  const code = /^([A-Z_]+):/.exec(errorText)?.[1] as WeatherErrorCode | undefined;
+  const help = code ? WEATHER_ERROR_HELP[code] : undefined;
+
+  if (!help) {
+    return (
+      <div className="rounded-lg border border-red-200 bg-red-50 p-4">
+        <p className="text-sm text-red-800">Failed to fetch weather: {errorText}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border border-red-200 bg-red-50 p-4">
+      <p className="text-sm font-medium text-red-800">{help.title}</p>
+      <p className="mt-1 text-sm text-red-700">{help.hint}</p>
+      <details className="mt-2 text-xs text-red-600">
+        <summary className="cursor-pointer">Details</summary>
+        <pre className="mt-1 whitespace-pre-wrap">{errorText}</pre>
+      </details>
     </div>
   );
 }
@@ -63,7 +136,7 @@ function WeatherCard({ data }: { data: WeatherOutput }) {
 // Places Card Component
 // =============================================================================
 
-function PlacesCard({ data }: { data: PlacesOutput }) {
+export function PlacesCard({ data }: { data: PlacesOutput }) {
   const categoryColors: Record<string, string> = {
     attractions: 'from-purple-50 to-violet-100 border-purple-200',
     restaurants: 'from-orange-50 to-amber-100 border-orange-200',
@@ -78,6 +151,8 @@ function PlacesCard({ data }: { data: PlacesOutput }) {
     activities: '🎯',
   };
 
+  const filterLabels = describePlaceFilters(data);
+
   return (
     <div className={`rounded-xl border bg-gradient-to-br p-6 shadow-sm ${categoryColors[data.category] || 'from-gray-50 to-slate-100'}`}>
       <div className="flex items-center gap-2">
@@ -88,6 +163,16 @@ function PlacesCard({ data }: { data: PlacesOutput }) {
         </div>
       </div>
 
+      {filterLabels.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-1">
+          {filterLabels.map(label => (
+            <span key={label} className="rounded-full bg-white/80 px-2 py-0.5 text-xs font-medium text-gray-700">
+              {label}
+            </span>
+          ))}
+        </div>
+      )}
+
       <div className="mt-4 space-y-3">
         {data.places.map((place, i) => (
           <div key={i} className="rounded-lg bg-white/70 p-3">
@@ -106,8 +191,15 @@ function PlacesCard({ data }: { data: PlacesOutput }) {
                 {place.priceLevel && (
                   <p className="text-xs text-gray-500">{place.priceLevel}</p>
                 )}
+                {place.distanceKm !== undefined && (
+                  <p className="text-xs text-gray-500">{place.distanceKm} km</p>
+                )}
               </div>
             </div>
+            <div className="mt-1 flex flex-wrap gap-x-3 text-xs text-gray-500">
+              <span>📍 {place.address ?? `${place.lat.toFixed(4)}, ${place.lng.toFixed(4)}`}</span>
+              {place.openingHours && <span>🕒 {formatOpeningHours(place.openingHours)}</span>}
+            </div>
             {place.tags.length > 0 && (
               <div className="mt-2 flex flex-wrap gap-1">
                 {place.tags.map((tag, j) => (
@@ -120,6 +212,83 @@ function PlacesCard({ data }: { data: PlacesOutput }) {
           </div>
         ))}
       </div>
+
+      <p className="mt-3 text-xs text-gray-500">
+        {data.places.length === 0
+          ? 'No places match these filters'
+          : `Showing ${data.places.length} of ${data.total}${data.nextCursor ? ' - ask for more to see the next page' : ''}`}
+      </p>
+    </div>
+  );
+}
+
+/** Chips for the filters and sort order a findPlaces call applied. */
+function describePlaceFilters({ filters, sortBy }: PlacesOutput): string[] {
+  const labels: string[] = [];
+  if (filters.maxPriceLevel) labels.push(filters.maxPriceLevel === 'Free' ? 'Free' : `Up to ${filters.maxPriceLevel}`);
+  if (filters.minRating !== undefined) labels.push(`★ ${filters.minRating}+`);
+  for (const tag of filters.tags ?? []) labels.push(tag);
+  if (filters.openNow) labels.push('Open now');
+  if (sortBy !== 'relevance') labels.push(sortBy === 'price' ? 'Cheapest first' : `By ${sortBy}`);
+  return labels;
+}
+
+const WEEKDAYS: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+/** e.g. "Daily 09:00–18:00" or "Closed Mon · 09:30–18:00". */
+function formatOpeningHours(hours: OpeningHours): string {
+  return hours
+    .map(({ days, opens, closes }) => {
+      if (days.length === 7 && opens === '00:00' && closes === '24:00') return 'Open 24 hours';
+      const closed = WEEKDAYS.filter(day => !days.includes(day));
+      const label = closed.length === 0
+        ? 'Daily'
+        : closed.length <= 2
+          ? `Closed ${closed.map(capitalize).join(', ')} ·`
+          : days.map(capitalize).join(', ');
+      return `${label} ${opens}–${closes}`;
+    })
+    .join('; ');
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// =============================================================================
+// Geocode Card Component
+// =============================================================================
+
+/** Results of `geocode` and `reverseGeocode`. */
+export function GeocodeCard({ data }: { data: GeocodeOutput }) {
+  return (
+    <div className="rounded-xl border border-cyan-200 bg-gradient-to-br from-cyan-50 to-sky-100 p-4 shadow-sm">
+      <p className="text-sm text-gray-600">
+        📌 <span className="font-medium text-gray-900">{data.query}</span>
+      </p>
+
+      {data.results.length === 0 ? (
+        <p className="mt-2 text-sm text-gray-600">No matching place found</p>
+      ) : (
+        <ul className="mt-2 space-y-1">
+          {data.results.map((result, i) => (
+            <li key={i} className="flex items-center justify-between gap-3 rounded-lg bg-white/70 px-3 py-2 text-sm">
+              <span>
+                <span className="font-medium text-gray-900">{result.name}</span>
+                <span className="text-gray-500">
+                  {[result.kind === 'place' ? result.city : undefined, result.country].filter(Boolean).map(part => `, ${part}`)}
+                </span>
+                {result.distanceKm !== undefined && (
+                  <span className="ml-2 text-xs text-gray-500">{result.distanceKm} km away</span>
+                )}
+              </span>
+              <span className="font-mono text-xs text-gray-500">
+                {result.lat.toFixed(4)}, {result.lng.toFixed(4)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 }
@@ -128,14 +297,10 @@ function PlacesCard({ data }: { data: PlacesOutput }) {
 // GeoJSON Map Component
 // =============================================================================
 
-function GeoJsonCard({ data }: { data: GeoJsonOutput }) {
-  const markerTypeColors: Record<string, string> = {
-    attraction: 'bg-purple-500',
-    restaurant: 'bg-orange-500',
-    hotel: 'bg-green-500',
-    activity: 'bg-pink-500',
-    other: 'bg-gray-500',
-  };
+export function GeoJsonCard({ data }: { data: GeoJsonOutput }) {
+  const [selected, setSelected] = useState<number>();
+  // Selections are feature indexes, so they do not carry over to other features
+  useEffect(() => setSelected(undefined), [data.geojson.features]);
 
   const markerTypeIcons: Record<string, string> = {
     attraction: '🏛️',
@@ -145,6 +310,23 @@ function GeoJsonCard({ data }: { data: GeoJsonOutput }) {
     other: '📍',
   };
 
+  // The output holds the GeoJSON once; the download and the viewer link with the features are built here,
+  // once per map rather than on every render (selecting a feature re-renders the card)
+  const files: MapFile[] = useMemo(
+    () => [...createMapFiles(data.geojson, data.location, ['geojson']), ...data.files],
+    [data.geojson, data.location, data.files]
+  );
+  const viewerUrl = useMemo(() => viewerUrlWithData(data.viewerUrl, data.geojson), [data.viewerUrl, data.geojson]);
+
+  const features = data.geojson.features;
+  const routes = features.filter(feature => feature.properties.kind === 'route');
+  const areas = features.filter(feature => feature.properties.kind === 'area');
+  const pointGroups = groupByLayer(features.filter(feature => feature.properties.kind === 'point'), data.layers);
+  // Marker colors come from the features, so the legend always matches the map
+  const markerColors = new Map(features.flatMap(({ properties }) =>
+    properties.markerType && properties['marker-color'] ? [[properties.markerType, properties['marker-color']] as const] : []
+  ));
+
   return (
     <div className="rounded-xl border border-emerald-200 bg-gradient-to-br from-emerald-50 to-teal-100 p-6 shadow-sm">
       <div className="flex items-start justify-between">
@@ -152,13 +334,18 @@ function GeoJsonCard({ data }: { data: GeoJsonOutput }) {
           <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
             <span>🗺️</span> Map: {data.location}
           </h3>
-          <p className="text-sm text-gray-600">{data.pointCount} points of interest</p>
+          <p className="text-sm text-gray-600">
+            {data.pointCount} points of interest
+            {routes.length > 0 && <> · {routes.length} {routes.length === 1 ? 'route' : 'routes'}</>}
+            {areas.length > 0 && <> · {areas.length} {areas.length === 1 ? 'area' : 'areas'}</>}
+          </p>
         </div>
         <a
-          href={data.viewerUrl}
+          href={viewerUrl ?? data.viewerUrl}
           target="_blank"
           rel="noopener noreferrer"
-          className="inline-flex items-center gap-2 rounded-lg bg-emerald-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-emerald-700"
+          title="Sends the map to geojson.io"
+          className="inline-flex items-center gap-2 rounded-lg border border-emerald-300 bg-white/70 px-3 py-1.5 text-sm font-medium text-emerald-800 transition-colors hover:bg-white"
         >
           <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
@@ -167,40 +354,972 @@ function GeoJsonCard({ data }: { data: GeoJsonOutput }) {
         </a>
       </div>
 
-      {/* Point list */}
-      <div className="mt-4 space-y-2">
-        {data.geojson.features.map((feature, i) => (
-          <div key={i} className="flex items-center gap-3 rounded-lg bg-white/70 p-3">
-            <span className={`flex h-8 w-8 items-center justify-center rounded-full text-white ${markerTypeColors[feature.properties.markerType] || markerTypeColors.other}`}>
-              {markerTypeIcons[feature.properties.markerType] || '📍'}
+      {/* Downloads */}
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        {files.map(file => (
+          <button
+            key={file.format}
+            type="button"
+            onClick={() => downloadMapFile(file)}
+            title={`${file.filename} — ${MAP_FILE_USES[file.format]}`}
+            className="inline-flex items-center gap-1 rounded-lg border border-emerald-300 bg-white/70 px-3 py-1 text-xs font-medium text-emerald-800 transition-colors hover:bg-white"
+          >
+            ⬇️ {file.format.toUpperCase()}
+          </button>
+        ))}
+      </div>
+      {!viewerUrl && (
+        <p className="mt-2 text-xs text-gray-600">
+          This map is too large to send in a link: geojson.io opens centered on it. Download the GeoJSON file and drop it onto the viewer to see the features.
+        </p>
+      )}
+
+      {/* Layers */}
+      {data.layers.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {data.layers.map(layer => (
+            <span key={layer.name} className="inline-flex items-center gap-1 rounded-full bg-white/70 px-2 py-0.5 text-xs text-gray-700">
+              <span className="h-2 w-2 rounded-full" style={{ backgroundColor: layer.color }} />
+              {layer.name} ({layer.featureCount})
             </span>
-            <div className="flex-1">
-              <p className="font-medium text-gray-900">{feature.properties.name}</p>
-              {feature.properties.description && (
-                <p className="text-sm text-gray-600">{feature.properties.description}</p>
+          ))}
+        </div>
+      )}
+
+      {/* Embedded map, drawn locally */}
+      {features.length > 0 && (
+        <MapView geojson={data.geojson} selected={selected} onSelect={setSelected} />
+      )}
+
+      {/* Routes, with stops in visiting order */}
+      {routes.length > 0 && (
+        <div className="mt-4 space-y-2">
+          {routes.map((route, i) => (
+            <div
+              key={i}
+              onClick={() => setSelected(features.indexOf(route))}
+              className={`cursor-pointer rounded-lg bg-white/70 p-3 ${selected === features.indexOf(route) ? 'ring-2 ring-emerald-500' : ''}`}
+            >
+              <div className="flex items-center gap-2">
+                <span className="h-1 w-6 rounded" style={{ backgroundColor: route.properties.stroke }} />
+                <p className="flex-1 font-medium text-gray-900">{route.properties.name}</p>
+                {route.properties.distanceKm !== undefined && (
+                  <span className="text-xs text-gray-500">{route.properties.distanceKm} km</span>
+                )}
+              </div>
+              {route.properties.description && (
+                <p className="mt-1 text-sm text-gray-600">{route.properties.description}</p>
               )}
+              <ol className="mt-2 flex flex-wrap items-center gap-1 text-xs text-gray-700">
+                {route.properties.stops?.map((stop, n) => (
+                  <li key={n} className="inline-flex items-center gap-1">
+                    {n > 0 && <span className="text-gray-400">→</span>}
+                    <span
+                      className="flex h-4 w-4 items-center justify-center rounded-full text-[10px] text-white"
+                      style={{ backgroundColor: route.properties.stroke }}
+                    >
+                      {n + 1}
+                    </span>
+                    {stop}
+                  </li>
+                ))}
+              </ol>
             </div>
-            <div className="text-right text-xs text-gray-500">
-              <p>{feature.geometry.coordinates[1].toFixed(4)},</p>
-              <p>{feature.geometry.coordinates[0].toFixed(4)}</p>
+          ))}
+        </div>
+      )}
+
+      {/* Areas */}
+      {areas.length > 0 && (
+        <div className="mt-4 flex flex-wrap gap-2">
+          {areas.map((area, i) => (
+            <span
+              key={i}
+              title={area.properties.description}
+              onClick={() => setSelected(features.indexOf(area))}
+              className="inline-flex cursor-pointer items-center gap-1 rounded-lg border bg-white/70 px-2 py-1 text-xs text-gray-700"
+              style={{ borderColor: area.properties.stroke }}
+            >
+              <span className="h-3 w-3 rounded-sm opacity-60" style={{ backgroundColor: area.properties.fill }} />
+              {area.properties.name}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Point list, grouped by layer */}
+      {pointGroups.map(group => (
+        <div key={group.name ?? ''} className="mt-4 space-y-2">
+          {group.name && (
+            <p className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <span className="h-2 w-2 rounded-full" style={{ backgroundColor: group.color }} />
+              {group.name}
+            </p>
+          )}
+          {group.features.map((feature, i) => {
+            const { markerType = 'other' } = feature.properties;
+            const [lng, lat] = feature.geometry.type === 'Point' ? feature.geometry.coordinates : [0, 0];
+            return (
+              <div
+                key={i}
+                onClick={() => setSelected(features.indexOf(feature))}
+                className={`flex cursor-pointer items-center gap-3 rounded-lg bg-white/70 p-3 ${selected === features.indexOf(feature) ? 'ring-2 ring-emerald-500' : ''}`}
+              >
+                <span
+                  className="flex h-8 w-8 items-center justify-center rounded-full text-white"
+                  style={{ backgroundColor: feature.properties['marker-color'] }}
+                >
+                  {markerTypeIcons[markerType] || '📍'}
+                </span>
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900">{feature.properties.name}</p>
+                  {feature.properties.description && (
+                    <p className="text-sm text-gray-600">{feature.properties.description}</p>
+                  )}
+                </div>
+                <div className="text-right text-xs text-gray-500">
+                  <p>{lat.toFixed(4)},</p>
+                  <p>{lng.toFixed(4)}</p>
+                  {feature.properties.geocodedFrom && (
+                    <p title={`Located by "${feature.properties.geocodedFrom}"`}>📌 located by name</p>
+                  )}
+                  {feature.properties.outlier && <p className="text-amber-700">⚠️ far from {data.location}</p>}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ))}
+
+      {data.unresolved.length > 0 && (
+        <div className="mt-4 rounded-lg border border-amber-200 bg-amber-50 p-3">
+          <p className="text-sm font-medium text-amber-800">
+            {data.unresolved.length} {data.unresolved.length === 1 ? 'item' : 'items'} could not be placed
+          </p>
+          <ul className="mt-1 space-y-0.5 text-xs text-amber-700">
+            {data.unresolved.map((item, i) => (
+              <li key={i}>
+                {item.kind !== 'point' && <>{capitalize(item.kind)} </>}
+                {item.name}
+                {item.query !== item.name && <> (&ldquo;{item.query}&rdquo;)</>}: {item.reason}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {data.warnings.length > 0 && (
+        <div className="mt-4 rounded-lg border border-yellow-200 bg-yellow-50 p-3">
+          <p className="text-sm font-medium text-yellow-800">Checked and adjusted</p>
+          <ul className="mt-1 space-y-0.5 text-xs text-yellow-700">
+            {data.warnings.map((warning, i) => (
+              <li key={i} title={warning.code}>
+                {MAP_WARNING_ICONS[warning.code]} {warning.name}: {warning.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Legend */}
+      {markerColors.size > 0 && (
+        <div className="mt-4 flex flex-wrap gap-2 border-t border-emerald-200 pt-4">
+          {[...markerColors].map(([type, color]) => (
+            <span key={type} className="inline-flex items-center gap-1 rounded-full bg-white/60 px-2 py-1 text-xs text-gray-600">
+              <span className="h-2 w-2 rounded-full" style={{ backgroundColor: color }} />
+              {markerTypeIcons[type]} {type}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const MAP_FILE_USES: Record<MapFileFormat, string> = {
+  geojson: 'for geojson.io and most web maps',
+  kml: 'for Google Earth and My Maps',
+  gpx: 'for GPS devices and hiking apps',
+};
+
+/** Save a map file through a temporary object URL. */
+function downloadMapFile(file: MapFile) {
+  const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const MAP_WARNING_ICONS: Record<MapWarningCode, string> = {
+  INVALID_COORDINATES: '🚫',
+  SWAPPED_COORDINATES: '🔄',
+  DUPLICATE_MERGED: '🔗',
+  OUTLIER: '⚠️',
+};
+
+/** Features in layer order; those without a layer come last, unheaded. */
+function groupByLayer(features: MapFeature[], layers: GeoJsonOutput['layers']) {
+  const groups = layers.map(layer => ({
+    name: layer.name as string | undefined,
+    color: layer.color,
+    features: features.filter(feature => feature.properties.layer === layer.name),
+  }));
+  groups.push({ name: undefined, color: '', features: features.filter(feature => feature.properties.layer === undefined) });
+  return groups.filter(group => group.features.length > 0);
+}
+
+// =============================================================================
+// Map View
+// =============================================================================
+
+const MAP_WIDTH = 600;
+const MAP_HEIGHT = 360;
+
+/** Web Mercator, in world units: x and y run 0-1 across the whole map. */
+function project([lng, lat]: [number, number]): [number, number] {
+  const sin = Math.sin((Math.max(Math.min(lat, 85), -85) * Math.PI) / 180);
+  return [(lng + 180) / 360, 0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)];
+}
+
+function unprojectLat(y: number): number {
+  return (Math.atan(Math.sinh(Math.PI * (1 - 2 * y))) * 180) / Math.PI;
+}
+
+type MapViewport = { x: number; y: number; span: number };
+
+/** Centered on the bbox, with a margin; about 2 km across for a single point. */
+function fitViewport([west, south, east, north]: [number, number, number, number]): MapViewport {
+  const [x0, y0] = project([west, north]);
+  const [x1, y1] = project([east, south]);
+  const span = Math.max(x1 - x0, (y1 - y0) * (MAP_WIDTH / MAP_HEIGHT), 5e-5) * 1.25;
+  return { x: (x0 + x1) / 2, y: (y0 + y1) / 2, span };
+}
+
+/** A round distance for the scale bar, about a fifth of the map wide. */
+function scaleBar(viewport: MapViewport): { km: number; px: number } {
+  const kmPerPx = (40_075 * Math.cos((unprojectLat(viewport.y) * Math.PI) / 180) * viewport.span) / MAP_WIDTH;
+  const target = kmPerPx * (MAP_WIDTH / 5);
+  const magnitude = 10 ** Math.floor(Math.log10(target));
+  const km = [5, 2, 1].map(step => step * magnitude).find(step => step <= target) ?? magnitude;
+  return { km, px: km / kmPerPx };
+}
+
+/**
+ * Draws the FeatureCollection as SVG with no tile service, so trip data
+ * never leaves the page: areas, then routes, then markers, in their map
+ * colors. Hover names a feature, click selects it; drag pans, and the
+ * buttons zoom or fit the map back to its bbox.
+ */
+function MapView({ geojson, selected, onSelect }: {
+  geojson: GeoJsonOutput['geojson'];
+  selected?: number;
+  onSelect: (index: number | undefined) => void;
+}) {
+  const fitted = useMemo(() => (geojson.bbox ? fitViewport(geojson.bbox) : { x: 0.5, y: 0.5, span: 1 }), [geojson.bbox]);
+  const [viewport, setViewport] = useState(fitted);
+  const [hovered, setHovered] = useState<number>();
+  const [drag, setDrag] = useState<{ startX: number; startY: number; clientX: number; clientY: number; moved: boolean }>();
+
+  // A new map (e.g. the card re-rendered with another output) opens fitted to its own features
+  useEffect(() => {
+    setViewport(fitted);
+    setHovered(undefined);
+  }, [fitted, geojson.features]);
+
+  const scale = MAP_WIDTH / viewport.span;
+  const toScreen = (position: [number, number]) => {
+    const [x, y] = project(position);
+    return [(x - viewport.x) * scale + MAP_WIDTH / 2, (y - viewport.y) * scale + MAP_HEIGHT / 2] as const;
+  };
+  const points = (positions: Array<[number, number]>) => positions.map(position => toScreen(position).join(',')).join(' ');
+  const zoom = (factor: number) => setViewport(view => ({ ...view, span: Math.min(Math.max(view.span * factor, 1e-5), 1) }));
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!drag) return;
+    const [dx, dy] = [e.clientX - drag.clientX, e.clientY - drag.clientY];
+    const ratio = MAP_WIDTH / e.currentTarget.getBoundingClientRect().width / scale;
+    setViewport(view => ({ ...view, x: view.x - dx * ratio, y: view.y - dy * ratio }));
+    // A few pixels of jitter still count as a click
+    const moved = drag.moved || Math.hypot(e.clientX - drag.startX, e.clientY - drag.startY) > 3;
+    setDrag({ ...drag, clientX: e.clientX, clientY: e.clientY, moved });
+  };
+
+  const handlers = (index: number) => ({
+    onPointerEnter: () => setHovered(index),
+    onPointerLeave: () => setHovered(undefined),
+    onClick: () => {
+      if (!drag?.moved) onSelect(index === selected ? undefined : index);
+    },
+    style: { cursor: 'pointer' },
+  });
+
+  const order = geojson.features
+    .map((feature, index) => ({ feature, index }))
+    .sort((a, b) => KIND_ORDER[a.feature.properties.kind] - KIND_ORDER[b.feature.properties.kind]);
+  const shown = hovered ?? selected;
+  const bar = scaleBar(viewport);
+
+  return (
+    <div className="relative mt-4 overflow-hidden rounded-lg border border-emerald-200 bg-slate-50">
+      <svg
+        viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`}
+        className="block h-auto w-full touch-none select-none"
+        role="img"
+        aria-label="Trip map"
+        onPointerDown={e => setDrag({ startX: e.clientX, startY: e.clientY, clientX: e.clientX, clientY: e.clientY, moved: false })}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setTimeout(() => setDrag(undefined))}
+        onPointerLeave={() => setDrag(undefined)}
+      >
+        {/* Graticule in place of map tiles */}
+        {Array.from({ length: 11 }, (_, i) => (
+          <g key={i} stroke="#e2e8f0" strokeWidth={1}>
+            <line x1={(i * MAP_WIDTH) / 10} y1={0} x2={(i * MAP_WIDTH) / 10} y2={MAP_HEIGHT} />
+            <line x1={0} y1={(i * MAP_HEIGHT) / 10} x2={MAP_WIDTH} y2={(i * MAP_HEIGHT) / 10} />
+          </g>
+        ))}
+
+        {order.map(({ feature: { properties, geometry }, index }) => {
+          const active = index === shown;
+          switch (geometry.type) {
+            case 'Polygon':
+              return (
+                <polygon
+                  key={index}
+                  points={points(geometry.coordinates[0])}
+                  fill={properties.fill ?? '#10b981'}
+                  fillOpacity={(properties['fill-opacity'] ?? 0.2) * (active ? 1.8 : 1)}
+                  stroke={properties.stroke ?? properties.fill ?? '#10b981'}
+                  strokeWidth={active ? 3 : (properties['stroke-width'] ?? 2)}
+                  {...handlers(index)}
+                />
+              );
+            case 'LineString':
+              return (
+                <g key={index} {...handlers(index)}>
+                  <polyline
+                    points={points(geometry.coordinates)}
+                    fill="none"
+                    stroke={properties.stroke ?? '#2563eb'}
+                    strokeWidth={(properties['stroke-width'] ?? 3) + (active ? 2 : 0)}
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  />
+                  {geometry.coordinates.map((position, n) => {
+                    const [x, y] = toScreen(position);
+                    return (
+                      <g key={n} transform={`translate(${x + 10},${y - 10})`}>
+                        <circle r={7} fill={properties.stroke ?? '#2563eb'} stroke="white" strokeWidth={1.5} />
+                        <text textAnchor="middle" dy="0.35em" fontSize={9} fill="white">{n + 1}</text>
+                      </g>
+                    );
+                  })}
+                </g>
+              );
+            case 'Point': {
+              const [x, y] = toScreen(geometry.coordinates);
+              return (
+                <circle
+                  key={index}
+                  cx={x}
+                  cy={y}
+                  r={active ? 9 : 6}
+                  fill={properties['marker-color'] ?? '#6b7280'}
+                  stroke="white"
+                  strokeWidth={2}
+                  {...handlers(index)}
+                />
+              );
+            }
+          }
+        })}
+
+        {/* Scale bar */}
+        <g transform={`translate(12,${MAP_HEIGHT - 14})`} fill="#475569" fontSize={10}>
+          <rect width={bar.px} height={3} />
+          <text y={-5}>{bar.km < 1 ? `${Math.round(bar.km * 1000)} m` : `${bar.km} km`}</text>
+        </g>
+      </svg>
+
+      <div className="absolute right-2 top-2 flex flex-col gap-1">
+        {([['+', 0.5, 'Zoom in'], ['−', 2, 'Zoom out']] as const).map(([label, factor, title]) => (
+          <button key={label} type="button" title={title} onClick={() => zoom(factor)} className="h-7 w-7 rounded bg-white text-sm shadow hover:bg-gray-50">
+            {label}
+          </button>
+        ))}
+        <button type="button" title="Fit to map" onClick={() => setViewport(fitted)} className="h-7 w-7 rounded bg-white text-xs shadow hover:bg-gray-50">
+          ⤢
+        </button>
+      </div>
+
+      {shown !== undefined && geojson.features[shown] && (
+        <MapFeatureDetails feature={geojson.features[shown]} />
+      )}
+    </div>
+  );
+}
+
+const KIND_ORDER: Record<MapFeature['properties']['kind'], number> = { area: 0, route: 1, point: 2 };
+
+function MapFeatureDetails({ feature: { properties, geometry } }: { feature: MapFeature }) {
+  return (
+    <div className="pointer-events-none absolute left-2 top-2 max-w-xs rounded-lg bg-white/95 p-2 text-xs shadow">
+      <p className="font-medium text-gray-900">{properties.name}</p>
+      {properties.description && <p className="text-gray-600">{properties.description}</p>}
+      <p className="text-gray-500">
+        {[properties.layer, properties.markerType ?? properties.kind].filter(Boolean).join(' · ')}
+        {geometry.type === 'Point' && <> · {geometry.coordinates[1].toFixed(4)}, {geometry.coordinates[0].toFixed(4)}</>}
+        {properties.distanceKm !== undefined && <> · {properties.distanceKm} km</>}
+      </p>
+      {properties.stops && <p className="text-gray-600">{properties.stops.join(' → ')}</p>}
+    </div>
+  );
+}
+
+// =============================================================================
+// Itinerary Card Component
+// =============================================================================
+
+const ITINERARY_ICONS: Record<string, string> = {
+  attractions: '🏛️',
+  restaurants: '🍽️',
+  hotels: '🏨',
+  activities: '🎯',
+};
+
+export function ItineraryCard({ data }: { data: ItineraryOutput }) {
+  return (
+    <div className="rounded-xl border border-indigo-200 bg-gradient-to-br from-indigo-50 to-violet-100 p-6 shadow-sm">
+      <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+        <span>📅</span> Itinerary: {data.location}
+      </h3>
+      <p className="text-sm text-gray-600">
+        {formatTripDate(data.startDate)} – {formatTripDate(data.endDate)} · {data.days.length} {data.days.length === 1 ? 'day' : 'days'}
+      </p>
+
+      {data.interests.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-1">
+          {data.interests.map(interest => (
+            <span key={interest} className="rounded-full bg-indigo-100 px-2 py-0.5 text-xs text-indigo-800">{interest}</span>
+          ))}
+        </div>
+      )}
+
+      {data.stays.length > 0 && (
+        <p className="mt-3 text-sm text-gray-700">🏨 Staying at {data.stays.join(' or ')}</p>
+      )}
+
+      <div className="mt-4 space-y-3">
+        {data.days.map((day, i) => (
+          <div key={day.date} className="rounded-lg bg-white/70 p-3">
+            <div className="flex items-center justify-between">
+              <p className="font-medium text-gray-900">
+                Day {i + 1} · {capitalize(day.weekday)} {formatTripDate(day.date)}
+              </p>
+              {day.weather && (
+                <span
+                  className={`rounded px-2 py-0.5 text-xs ${day.weather.dry ? 'bg-sky-100 text-sky-800' : 'bg-slate-200 text-slate-700'}`}
+                  title={day.weather.description}
+                >
+                  {day.weather.dry ? '☀️' : '🌧️'} {day.weather.high}° / {day.weather.low}°
+                </span>
+              )}
             </div>
+
+            {day.items.length === 0 ? (
+              <p className="mt-2 text-sm text-gray-500">Free day</p>
+            ) : (
+              <ol className="mt-2 space-y-2">
+                {day.items.map(item => (
+                  <li key={item.slot} className="flex gap-3">
+                    <div className="w-20 shrink-0 text-xs text-gray-500">
+                      <p className="font-medium capitalize text-indigo-700">{item.slot}</p>
+                      <p>{item.start}–{item.end}</p>
+                    </div>
+                    <div className="flex-1">
+                      <p className="text-sm font-medium text-gray-900">
+                        {ITINERARY_ICONS[item.category] || '📍'} {item.name}
+                        {item.outdoor && <span className="ml-1 text-xs text-gray-500" title="Outdoors">🌳</span>}
+                      </p>
+                      {item.description && <p className="text-xs text-gray-600">{item.description}</p>}
+                      {item.interests.length > 0 && (
+                        <p className="text-xs text-indigo-700">Matches {item.interests.join(', ')}</p>
+                      )}
+                      {item.note && <p className="text-xs text-gray-500">{item.note}</p>}
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
           </div>
         ))}
       </div>
 
-      {/* Legend */}
-      <div className="mt-4 flex flex-wrap gap-2 border-t border-emerald-200 pt-4">
-        {Object.entries(markerTypeIcons).map(([type, icon]) => (
-          <span key={type} className="inline-flex items-center gap-1 rounded-full bg-white/60 px-2 py-1 text-xs text-gray-600">
-            <span className={`h-2 w-2 rounded-full ${markerTypeColors[type]}`} />
-            {icon} {type}
+      {data.unscheduled.length > 0 && (
+        <div className="mt-4 rounded-lg border border-amber-200 bg-amber-50 p-3">
+          <p className="text-sm font-medium text-amber-800">Did not fit</p>
+          <ul className="mt-1 space-y-0.5 text-xs text-amber-700">
+            {data.unscheduled.map(place => (
+              <li key={place.name}>{place.name}: {place.reason}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** "2026-03-10" → "Mar 10", read as a calendar date in no time zone. */
+function formatTripDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+// =============================================================================
+// Distances Card Component
+// =============================================================================
+
+const TRAVEL_MODE_ICONS: Record<TravelMode, string> = {
+  walk: '🚶',
+  transit: '🚇',
+  drive: '🚗',
+};
+
+export function DistancesCard({ data }: { data: DistancesOutput }) {
+  const { speedsKmh, matrix, clusters } = data;
+
+  return (
+    <div className="rounded-xl border border-lime-200 bg-gradient-to-br from-lime-50 to-yellow-100 p-6 shadow-sm">
+      <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+        <span>📏</span> {clusters ? 'Days' : 'Distances'}: {data.location}
+      </h3>
+      <p className="text-sm text-gray-600">
+        {data.points.length} places · straight-line distances, times at {TRAVEL_MODE_ICONS.walk} {speedsKmh.walk} · {TRAVEL_MODE_ICONS.transit} {speedsKmh.transit} · {TRAVEL_MODE_ICONS.drive} {speedsKmh.drive} km/h
+      </p>
+
+      {matrix && (
+        <div className="mt-4 overflow-x-auto rounded-lg bg-white/70 p-3">
+          <table className="w-full text-xs">
+            <thead>
+              <tr>
+                <th />
+                {matrix.names.map(name => (
+                  <th key={name} className="px-1 pb-1 text-left font-medium text-gray-700">{name}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {matrix.names.map((from, i) => (
+                <tr key={from} className="border-t border-lime-100">
+                  <th className="py-1 pr-2 text-left font-medium text-gray-700">{from}</th>
+                  {matrix.distanceKm[i].map((km, j) => (
+                    <td
+                      key={j}
+                      className="px-1 py-1 text-gray-600"
+                      title={i === j ? undefined : `${TRAVEL_MODE_ICONS.walk} ${matrix.travelMinutes.walk[i][j]} min · ${TRAVEL_MODE_ICONS.transit} ${matrix.travelMinutes.transit[i][j]} min · ${TRAVEL_MODE_ICONS.drive} ${matrix.travelMinutes.drive[i][j]} min`}
+                    >
+                      {i === j ? '–' : (
+                        <>
+                          <span className="font-medium text-gray-900">{km} km</span>
+                          <span className="block">{TRAVEL_MODE_ICONS.walk} {matrix.travelMinutes.walk[i][j]} min</span>
+                        </>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-xs text-gray-500">Hover a cell for transit and driving times.</p>
+        </div>
+      )}
+
+      {clusters && (
+        <div className="mt-4 space-y-3">
+          {clusters.map(cluster => (
+            <div key={cluster.name} className="rounded-lg bg-white/70 p-3">
+              <div className="flex items-center justify-between">
+                <p className="font-medium text-gray-900">{cluster.name}</p>
+                <span className="text-xs text-gray-600">{cluster.distanceKm} km · {formatMinutes(cluster.travelMinutes)} travelling</span>
+              </div>
+              <ol className="mt-2 space-y-1 text-sm">
+                <li className="text-gray-900">📍 {cluster.sequence[0]}</li>
+                {cluster.legs.map((leg, i) => (
+                  <li key={i}>
+                    <p className="pl-5 text-xs text-gray-500">
+                      {TRAVEL_MODE_ICONS[leg.suggestedMode]} {leg.travelMinutes[leg.suggestedMode]} min · {leg.distanceKm} km
+                    </p>
+                    <p className="text-gray-900">📍 {leg.to}</p>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function formatMinutes(minutes: number): string {
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+// =============================================================================
+// Packing List Card Component
+// =============================================================================
+
+const PACKING_CATEGORY_LABELS: Record<PackingCategory, { icon: string; label: string }> = {
+  documents: { icon: '🛂', label: 'Documents' },
+  clothing: { icon: '👕', label: 'Clothing' },
+  footwear: { icon: '👟', label: 'Footwear' },
+  weather: { icon: '☔', label: 'Weather gear' },
+  sun: { icon: '🕶️', label: 'Sun protection' },
+  activities: { icon: '🎒', label: 'Activities' },
+  toiletries: { icon: '🧴', label: 'Toiletries' },
+  electronics: { icon: '🔌', label: 'Electronics' },
+};
+
+export function PackingListCard({ data }: { data: PackingOutput }) {
+  const [packed, setPacked] = useState<Set<string>>(new Set());
+  const { conditions } = data;
+
+  const toggle = (key: string) => {
+    setPacked(current => {
+      const next = new Set(current);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  return (
+    <div className="rounded-xl border border-rose-200 bg-gradient-to-br from-rose-50 to-orange-50 p-6 shadow-sm">
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <span>🧳</span> Packing list: {data.location}
+          </h3>
+          <p className="text-sm text-gray-600">{data.days} {data.days === 1 ? 'day' : 'days'}</p>
+        </div>
+        <span className="rounded-full bg-rose-100 px-2 py-0.5 text-xs font-medium text-rose-800">
+          {packed.size} of {data.itemCount} packed
+        </span>
+      </div>
+
+      <div className="mt-2 flex flex-wrap gap-1 text-xs">
+        <span className="rounded-full bg-white/70 px-2 py-0.5 text-gray-700">
+          🌡️ {conditions.low}{conditions.units.temperature} to {conditions.high}{conditions.units.temperature}
+        </span>
+        {conditions.wetDays > 0 && (
+          <span className="rounded-full bg-white/70 px-2 py-0.5 text-gray-700">
+            🌧️ {conditions.wetDays} wet {conditions.wetDays === 1 ? 'day' : 'days'}
           </span>
+        )}
+        <span className="rounded-full bg-white/70 px-2 py-0.5 text-gray-700">☀️ UV {conditions.uvIndex}</span>
+        <span className="rounded-full bg-white/70 px-2 py-0.5 text-gray-700">
+          💨 {conditions.windSpeed} {conditions.units.windSpeed}
+        </span>
+      </div>
+
+      <div className="mt-4 grid gap-3 sm:grid-cols-2">
+        {data.categories.map(({ category, items }) => (
+          <div key={category} className="rounded-lg bg-white/70 p-3">
+            <p className="text-sm font-medium text-gray-900">
+              {PACKING_CATEGORY_LABELS[category].icon} {PACKING_CATEGORY_LABELS[category].label}
+            </p>
+            <ul className="mt-2 space-y-1.5">
+              {items.map(item => {
+                const key = `${category}:${item.name}`;
+                return (
+                  <li key={key}>
+                    <label className="flex cursor-pointer items-start gap-2">
+                      <input
+                        type="checkbox"
+                        checked={packed.has(key)}
+                        onChange={() => toggle(key)}
+                        className="mt-0.5 accent-rose-600"
+                      />
+                      <span className={packed.has(key) ? 'text-gray-400 line-through' : ''}>
+                        <span className="text-sm text-gray-900">
+                          {item.name}
+                          {item.quantity !== undefined && <span className="text-gray-500"> ×{item.quantity}</span>}
+                        </span>
+                        <span className="block text-xs text-gray-500">{item.reason}</span>
+                      </span>
+                    </label>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        ))}
+      </div>
+
+      {data.notes.length > 0 && (
+        <div className="mt-4 rounded-lg border border-amber-200 bg-amber-50 p-3">
+          <ul className="space-y-0.5 text-xs text-amber-800">
+            {data.notes.map(note => <li key={note}>{note}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// =============================================================================
+// Budget Card Component
+// =============================================================================
+
+const BUDGET_CATEGORY_STYLES: Record<BudgetCategory, { icon: string; label: string; bar: string }> = {
+  accommodation: { icon: '🏨', label: 'Accommodation', bar: 'bg-amber-500' },
+  food: { icon: '🍽️', label: 'Food', bar: 'bg-orange-400' },
+  activities: { icon: '🎟️', label: 'Activities', bar: 'bg-yellow-400' },
+  transport: { icon: '🚇', label: 'Transport', bar: 'bg-stone-400' },
+};
+
+export function BudgetCard({ data }: { data: BudgetOutput }) {
+  const money = (amount: number) => formatMoney(amount, data.currency);
+  const busiestDay = Math.max(...data.days.map(day => day.amount), 1);
+
+  return (
+    <div className="rounded-xl border border-amber-200 bg-gradient-to-br from-amber-50 to-yellow-100 p-6 shadow-sm">
+      <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+        <span>💰</span> Budget: {data.location}
+      </h3>
+      <p className="text-sm text-gray-600">
+        {data.nights} {data.nights === 1 ? 'night' : 'nights'} · {data.travellers} {data.travellers === 1 ? 'traveller' : 'travellers'}
+        {data.nights > 0 && <> · {data.rooms} {data.rooms === 1 ? 'room' : 'rooms'}</>}
+      </p>
+
+      <div className="mt-4 flex items-end gap-6">
+        <div>
+          <p className="text-3xl font-bold text-gray-900">{money(data.total)}</p>
+          <p className="text-xs text-gray-500">estimated total</p>
+        </div>
+        {data.travellers > 1 && (
+          <div>
+            <p className="text-lg font-semibold text-gray-800">{money(data.perPerson)}</p>
+            <p className="text-xs text-gray-500">per person</p>
+          </div>
+        )}
+        <div>
+          <p className="text-lg font-semibold text-gray-800">{money(data.perDay)}</p>
+          <p className="text-xs text-gray-500">per day</p>
+        </div>
+      </div>
+
+      {data.total > 0 && (
+        <div className="mt-4 flex h-3 overflow-hidden rounded-full bg-white/70">
+          {data.categories.map(({ category, amount }) => (
+            <div
+              key={category}
+              className={BUDGET_CATEGORY_STYLES[category].bar}
+              style={{ width: `${(amount / data.total) * 100}%` }}
+              title={`${BUDGET_CATEGORY_STYLES[category].label}: ${money(amount)}`}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="mt-3 space-y-2">
+        {data.categories.map(({ category, amount, items }) => (
+          <details key={category} className="rounded-lg bg-white/70 p-3">
+            <summary className="flex cursor-pointer items-center justify-between text-sm">
+              <span className="flex items-center gap-2 font-medium text-gray-900">
+                <span className={`inline-block h-2.5 w-2.5 rounded-full ${BUDGET_CATEGORY_STYLES[category].bar}`} />
+                {BUDGET_CATEGORY_STYLES[category].icon} {BUDGET_CATEGORY_STYLES[category].label}
+              </span>
+              <span className="font-medium text-gray-900">{money(amount)}</span>
+            </summary>
+            <ul className="mt-2 space-y-1 text-xs text-gray-600">
+              {items.map(item => (
+                <li key={`${item.name}-${item.day ?? ''}`} className="flex justify-between gap-2">
+                  <span>
+                    {item.name}
+                    {item.day !== undefined && <span className="text-gray-400"> · day {item.day}</span>}
+                    {item.priceLevel && <span className="text-amber-700"> · {item.priceLevel}</span>}
+                    {item.estimated && <span className="text-gray-400" title="No price level; priced at the trip style"> (est.)</span>}
+                  </span>
+                  <span className="shrink-0">
+                    {item.quantity} × {money(item.unitCost)} = {money(item.amount)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </details>
         ))}
       </div>
+
+      {data.days.length > 1 && (
+        <div className="mt-4">
+          <p className="text-sm font-medium text-gray-900">By day</p>
+          <div className="mt-2 space-y-1">
+            {data.days.map(day => (
+              <div key={day.day} className="flex items-center gap-2 text-xs">
+                <span className="w-12 shrink-0 text-gray-600">Day {day.day}</span>
+                <div className="flex h-2 flex-1 overflow-hidden rounded-full bg-white/70">
+                  {(Object.keys(BUDGET_CATEGORY_STYLES) as BudgetCategory[]).map(category => (
+                    <div
+                      key={category}
+                      className={BUDGET_CATEGORY_STYLES[category].bar}
+                      style={{ width: `${(day.byCategory[category] / busiestDay) * 100}%` }}
+                    />
+                  ))}
+                </div>
+                <span className="w-20 shrink-0 text-right text-gray-700">{money(day.amount)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <ul className="mt-4 space-y-0.5 text-xs text-gray-500">
+        {data.assumptions.map(assumption => <li key={assumption}>· {assumption}</li>)}
+      </ul>
+    </div>
+  );
+}
+
+/** Whole units of the currency, e.g. "€1,240" or "¥48,000". */
+function formatMoney(amount: number, currency: string): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(amount);
+}
+
+// =============================================================================
+// Saved Trip Card Components
+// =============================================================================
+
+export function TripCard({ data }: { data: Trip }) {
+  const { itinerary } = data;
+  const mapLinks = useMemo(
+    () => data.maps.map(map => map.viewerUrl && (viewerUrlWithData(map.viewerUrl, map.geojson) ?? map.viewerUrl)),
+    [data.maps]
+  );
+
+  return (
+    <div className="rounded-xl border border-fuchsia-200 bg-gradient-to-br from-fuchsia-50 to-pink-100 p-6 shadow-sm">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <span>🧳</span> {data.name}
+          </h3>
+          <p className="text-sm text-gray-600">
+            {data.destination}
+            {data.startDate && <> · {formatTripDate(data.startDate)}{data.endDate && data.endDate !== data.startDate && <> – {formatTripDate(data.endDate)}</>}</>}
+            {data.travellers !== undefined && <> · {data.travellers} {data.travellers === 1 ? 'traveller' : 'travellers'}</>}
+          </p>
+        </div>
+        <p className="shrink-0 text-right text-xs text-gray-500">
+          Saved {formatSavedAt(data.updatedAt)}
+          <br />
+          revision {data.revision}
+        </p>
+      </div>
+
+      {data.places.length > 0 && (
+        <div className="mt-4">
+          <p className="text-sm font-medium text-gray-900">Places ({data.places.length})</p>
+          <div className="mt-2 flex flex-wrap gap-1">
+            {data.places.map(place => (
+              <span key={place.name} className="rounded-full bg-white/70 px-2 py-0.5 text-xs text-gray-700" title={place.description || undefined}>
+                {ITINERARY_ICONS[place.category] ?? '📍'} {place.name}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {data.maps.length > 0 && (
+        <div className="mt-4">
+          <p className="text-sm font-medium text-gray-900">Maps</p>
+          <ul className="mt-2 space-y-1 text-sm">
+            {data.maps.map((map, index) => (
+              <li key={map.name} className="flex items-center justify-between rounded-lg bg-white/70 px-3 py-1.5">
+                <span className="text-gray-800">
+                  🗺️ {map.name} <span className="text-xs text-gray-500">· {map.geojson.features.length} features</span>
+                </span>
+                {mapLinks[index] && (
+                  <a href={mapLinks[index]} target="_blank" rel="noopener noreferrer" className="text-xs font-medium text-fuchsia-700 hover:underline">
+                    Open
+                  </a>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {itinerary && (
+        <div className="mt-4">
+          <p className="text-sm font-medium text-gray-900">Itinerary</p>
+          <ol className="mt-2 space-y-1 text-xs text-gray-700">
+            {itinerary.days.map(day => (
+              <li key={day.date}>
+                <span className="font-medium">{formatTripDate(day.date)}:</span>{' '}
+                {day.items.length > 0 ? day.items.map(item => item.name).join(' → ') : 'Free day'}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {data.notes && <p className="mt-4 whitespace-pre-line rounded-lg bg-white/70 p-3 text-sm text-gray-700">{data.notes}</p>}
+
+      {data.places.length === 0 && data.maps.length === 0 && !itinerary && !data.notes && (
+        <p className="mt-4 text-sm text-gray-500">Nothing planned yet.</p>
+      )}
     </div>
   );
 }
 
+export function TripListCard({ data }: { data: ListTripsOutput }) {
+  return (
+    <div className="rounded-xl border border-fuchsia-200 bg-gradient-to-br from-fuchsia-50 to-pink-100 p-6 shadow-sm">
+      <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+        <span>🧳</span> Saved trips
+      </h3>
+      <p className="text-sm text-gray-600">
+        {data.total === 0 ? 'No trips saved yet' : `${data.trips.length} of ${data.total}, most recent first`}
+      </p>
+
+      <ul className="mt-4 space-y-2">
+        {data.trips.map(trip => (
+          <li key={trip.id} className="rounded-lg bg-white/70 p-3">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <p className="font-medium text-gray-900">{trip.name}</p>
+                <p className="text-xs text-gray-600">
+                  {trip.destination}
+                  {trip.startDate && <> · {formatTripDate(trip.startDate)}{trip.endDate && trip.endDate !== trip.startDate && <> – {formatTripDate(trip.endDate)}</>}</>}
+                </p>
+              </div>
+              <span className="shrink-0 text-xs text-gray-500">{formatSavedAt(trip.updatedAt)}</span>
+            </div>
+            <p className="mt-1 text-xs text-gray-500">{describeTripContents(trip)}</p>
+          </li>
+        ))}
+      </ul>
+
+      {data.nextCursor && <p className="mt-3 text-xs text-gray-500">More trips saved; ask to see more.</p>}
+    </div>
+  );
+}
+
+function describeTripContents({ placeCount, mapCount, hasItinerary }: TripSummary): string {
+  const parts = [
+    placeCount > 0 && `${placeCount} ${placeCount === 1 ? 'place' : 'places'}`,
+    mapCount > 0 && `${mapCount} ${mapCount === 1 ? 'map' : 'maps'}`,
+    hasItinerary && 'itinerary',
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'Nothing planned yet';
+}
+
+function formatSavedAt(timestamp: string): string {
+  return new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
 // =============================================================================
 // Loading Skeleton
 // =============================================================================
@@ -209,7 +1328,13 @@ function ToolSkeleton({ type }: { type: string }) {
   const colors: Record<string, string> = {
     getWeather: 'from-blue-100 to-sky-100',
     findPlaces: 'from-purple-100 to-violet-100',
+    geocode: 'from-cyan-100 to-sky-100',
     generateMap: 'from-emerald-100 to-teal-100',
+    buildItinerary: 'from-indigo-100 to-violet-100',
+    computeDistances: 'from-lime-100 to-yellow-100',
+    generatePackingList: 'from-rose-100 to-orange-100',
+    estimateBudget: 'from-amber-100 to-yellow-100',
+    savedTrips: 'from-fuchsia-100 to-pink-100',
   };
 
   return (
@@ -234,16 +1359,22 @@ function ToolSkeleton({ type }: { type: string }) {
  * Demonstrates multiple tools with different visual outputs:
  * - Weather: Temperature, forecast, conditions
  * - Places: Categorized recommendations with ratings
- * - GeoJSON Map: Interactive map with points of interest (opens in geojson.io)
+ * - Geocoding: Coordinates for names, and names for coordinates
+ * - GeoJSON Map: Embedded map with points, routes, and areas, plus geojson.io and file exports
+ * - Itinerary: Day-by-day plan with time slots and the weather
+ * - Distances: Travel times between places, or places grouped into days
+ * - Packing List: Checklist from the weather and planned activities
+ * - Budget: Estimated costs by category and by day
+ * - Saved Trips: Trips kept between conversations, and the list of them
  *
  * Each tool renders a distinct, purpose-built UI component.
  */
-export function TripPlannerDemo() {
+export function TripPlannerDemo({ mastraUrl = DEFAULT_MASTRA_URL }: { mastraUrl?: string } = {}) {
   const [input, setInput] = useState('');
 
   const { messages, sendMessage, status } = useChat({
     transport: new DefaultChatTransport({
-      api: `${MASTRA_BASE_URL}/api/agents/trip-planner/chat`,
+      api: `${mastraUrl}/api/agents/trip-planner/chat`,
     }),
     maxSteps: 5,
   });
@@ -272,6 +1403,10 @@ export function TripPlannerDemo() {
               <li>"Find restaurants in Paris"</li>
               <li>"Show me attractions in Rome on a map"</li>
               <li>"Plan a weekend in Barcelona with a map"</li>
+              <li>"Three days in Lisbon in May, I love history and food"</li>
+              <li>"What should I pack for four days in Tokyo?"</li>
+              <li>"How much would three nights in Paris cost for two?"</li>
+              <li>"Save this trip" / "Show my saved trips"</li>
             </ul>
           </div>
         )}
@@ -308,11 +1443,7 @@ export function TripPlannerDemo() {
                   case 'output-available':
                     return <WeatherCard key={index} data={part.output as WeatherOutput} />;
                   case 'output-error':
-                    return (
-                      <div key={index} className="rounded-lg border border-red-200 bg-red-50 p-4">
-                        <p className="text-sm text-red-800">Failed to fetch weather: {part.errorText}</p>
-                      </div>
-                    );
+                    return <WeatherErrorCard key={index} errorText={part.errorText} />;
                   default:
                     return null;
                 }
@@ -337,6 +1468,25 @@ export function TripPlannerDemo() {
                 }
               }
 
+              // Geocoding tools
+              if (part.type === 'tool-geocode' || part.type === 'tool-reverseGeocode') {
+                switch (part.state) {
+                  case 'input-streaming':
+                  case 'input-available':
+                    return <ToolSkeleton key={index} type="geocode" />;
+                  case 'output-available':
+                    return <GeocodeCard key={index} data={part.output as GeocodeOutput} />;
+                  case 'output-error':
+                    return (
+                      <div key={index} className="rounded-lg border border-red-200 bg-red-50 p-4">
+                        <p className="text-sm text-red-800">Failed to look up location: {part.errorText}</p>
+                      </div>
+                    );
+                  default:
+                    return null;
+                }
+              }
+
               // GeoJSON map tool
               if (part.type === 'tool-generateMap') {
                 switch (part.state) {
@@ -356,6 +1506,119 @@ export function TripPlannerDemo() {
                 }
               }
 
+              // Itinerary tool
+              if (part.type === 'tool-buildItinerary') {
+                switch (part.state) {
+                  case 'input-streaming':
+                  case 'input-available':
+                    return <ToolSkeleton key={index} type="buildItinerary" />;
+                  case 'output-available':
+                    return <ItineraryCard key={index} data={part.output as ItineraryOutput} />;
+                  case 'output-error':
+                    return (
+                      <div key={index} className="rounded-lg border border-red-200 bg-red-50 p-4">
+                        <p className="text-sm text-red-800">Failed to build itinerary: {part.errorText}</p>
+                      </div>
+                    );
+                  default:
+                    return null;
+                }
+              }
+
+              // Distances tool
+              if (part.type === 'tool-computeDistances') {
+                switch (part.state) {
+                  case 'input-streaming':
+                  case 'input-available':
+                    return <ToolSkeleton key={index} type="computeDistances" />;
+                  case 'output-available':
+                    return <DistancesCard key={index} data={part.output as DistancesOutput} />;
+                  case 'output-error':
+                    return (
+                      <div key={index} className="rounded-lg border border-red-200 bg-red-50 p-4">
+                        <p className="text-sm text-red-800">Failed to compute distances: {part.errorText}</p>
+                      </div>
+                    );
+                  default:
+                    return null;
+                }
+              }
+
+              // Packing list tool
+              if (part.type === 'tool-generatePackingList') {
+                switch (part.state) {
+                  case 'input-streaming':
+                  case 'input-available':
+                    return <ToolSkeleton key={index} type="generatePackingList" />;
+                  case 'output-available':
+                    return <PackingListCard key={index} data={part.output as PackingOutput} />;
+                  case 'output-error':
+                    return (
+                      <div key={index} className="rounded-lg border border-red-200 bg-red-50 p-4">
+                        <p className="text-sm text-red-800">Failed to generate packing list: {part.errorText}</p>
+                      </div>
+                    );
+                  default:
+                    return null;
+                }
+              }
+
+              // Budget tool
+              if (part.type === 'tool-estimateBudget') {
+                switch (part.state) {
+                  case 'input-streaming':
+                  case 'input-available':
+                    return <ToolSkeleton key={index} type="estimateBudget" />;
+                  case 'output-available':
+                    return <BudgetCard key={index} data={part.output as BudgetOutput} />;
+                  case 'output-error':
+                    return (
+                      <div key={index} className="rounded-lg border border-red-200 bg-red-50 p-4">
+                        <p className="text-sm text-red-800">Failed to estimate budget: {part.errorText}</p>
+                      </div>
+                    );
+                  default:
+                    return null;
+                }
+              }
+
+              // Saved trip tools
+              if (part.type === 'tool-saveTrip' || part.type === 'tool-loadTrip' || part.type === 'tool-updateTrip') {
+                switch (part.state) {
+                  case 'input-streaming':
+                  case 'input-available':
+                    return <ToolSkeleton key={index} type="savedTrips" />;
+                  case 'output-available':
+                    return <TripCard key={index} data={part.output as Trip} />;
+                  case 'output-error':
+                    return (
+                      <div key={index} className="rounded-lg border border-red-200 bg-red-50 p-4">
+                        <p className="text-sm text-red-800">Failed to {part.type === 'tool-saveTrip' ? 'save' : part.type === 'tool-loadTrip' ? 'load' : 'update'} trip: {part.errorText}</p>
+                      </div>
+                    );
+                  default:
+                    return null;
+                }
+              }
+
+              if (part.type === 'tool-listTrips') {
+                switch (part.state) {
+                  case 'input-streaming':
+                  case 'input-available':
+                    return <ToolSkeleton key={index} type="savedTrips" />;
+                  case 'output-available':
+                    return <TripListCard key={index} data={part.output as ListTripsOutput} />;
+                  case 'output-error':
+                    return (
+                      <div key={index} className="rounded-lg border border-red-200 bg-red-50 p-4">
+                        <p className="text-sm text-red-800">Failed to list trips: {part.errorText}</p>
+                      </div>
+                    );
+                  default:
+                    return null;
+                }
+              }
+
               return null;
             })}
           </div>
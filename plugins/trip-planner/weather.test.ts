@@ -0,0 +1,172 @@
+// examples/trip-planner/weather.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveTripPlannerOptions } from './config';
+import {
+  createWeatherProvider,
+  fallbackWeatherProvider,
+  fixtureWeatherProvider,
+  resolveWeatherRequest,
+  WeatherProviderError,
+  wttrWeatherProvider,
+  type WeatherRequest,
+} from './weather';
+
+const lisbon: WeatherRequest = { location: 'Lisbon', units: 'metric', startDate: '2026-07-01', endDate: '2026-07-04' };
+
+const wttrBody = {
+  current_condition: [
+    { temp_C: '20', FeelsLikeC: '19', humidity: '60', windspeedKmph: '16', uvIndex: '5', weatherDesc: [{ value: 'Sunny' }] },
+  ],
+  nearest_area: [{ areaName: [{ value: 'Lisboa' }] }],
+  weather: [
+    { date: '2026-07-01', maxtempC: '25', mintempC: '17', hourly: [{ weatherDesc: [{ value: 'Clear' }] }] },
+    { date: '2026-07-02', maxtempC: '27', mintempC: '18' },
+  ],
+};
+
+/** A fetch that answers with each response in turn, recording the URLs asked for. */
+function scriptedFetch(...responses: Array<() => Response>) {
+  const urls: string[] = [];
+  const fetchImpl = (async (url: string) => {
+    urls.push(url);
+    const next = responses.shift();
+    if (!next) throw new Error('unexpected fetch');
+    return next();
+  }) as typeof fetch;
+  return { fetch: fetchImpl, urls };
+}
+
+const json = (body: unknown) => () => new Response(JSON.stringify(body), { status: 200 });
+const status = (code: number) => () => new Response('', { status: code });
+
+async function weatherError(promise: Promise<unknown>): Promise<WeatherProviderError> {
+  try {
+    await promise;
+  } catch (error) {
+    assert.ok(error instanceof WeatherProviderError);
+    return error;
+  }
+  assert.fail('expected a WeatherProviderError');
+}
+
+describe('wttrWeatherProvider', () => {
+  it('reads j1 JSON as a live report in the requested units and range', async () => {
+    const { fetch, urls } = scriptedFetch(json(wttrBody));
+    const report = await wttrWeatherProvider({ fetch }).getWeather({ ...lisbon, units: 'imperial' });
+
+    assert.deepEqual(urls, ['https://wttr.in/Lisbon?format=j1']);
+    assert.equal(report.location, 'Lisboa');
+    assert.equal(report.temperature, 68);
+    assert.equal(report.windSpeed, 10);
+    assert.deepEqual(report.forecast, [
+      { date: '2026-07-01', high: 77, low: 63, description: 'Clear' },
+      { date: '2026-07-02', high: 81, low: 64, description: 'Unknown' },
+    ]);
+    assert.deepEqual(report.units, { system: 'imperial', temperature: '°F', windSpeed: 'mph' });
+    assert.deepEqual(report.missingDates, ['2026-07-03', '2026-07-04']);
+    assert.equal(report.source, 'wttr.in');
+    assert.equal(report.live, true);
+  });
+
+  it('retries outages and fails unknown locations at once', async () => {
+    const flaky = scriptedFetch(status(503), json(wttrBody));
+    const report = await wttrWeatherProvider({ fetch: flaky.fetch, retryDelayMs: 1 }).getWeather(lisbon);
+    assert.equal(flaky.urls.length, 2);
+    assert.equal(report.live, true);
+
+    const missing = scriptedFetch(status(404), json(wttrBody));
+    const error = await weatherError(wttrWeatherProvider({ fetch: missing.fetch }).getWeather(lisbon));
+    assert.equal(error.code, 'LOCATION_NOT_FOUND');
+    assert.equal(missing.urls.length, 1);
+  });
+
+  it('rejects responses that are not the j1 shape', async () => {
+    const { fetch } = scriptedFetch(json({ current_condition: [] }));
+    const error = await weatherError(wttrWeatherProvider({ fetch }).getWeather(lisbon));
+
+    assert.equal(error.code, 'UPSTREAM_MALFORMED');
+    assert.match(error.message, /^UPSTREAM_MALFORMED: Weather lookup failed for "Lisbon"/);
+  });
+});
+
+describe('fixtureWeatherProvider', () => {
+  it('replays sample days from the start date and marks the report as not live', async () => {
+    const report = await fixtureWeatherProvider().getWeather({ ...lisbon, location: 'lisbon, Portugal' });
+
+    assert.deepEqual(
+      report.forecast.map(day => day.date),
+      ['2026-07-01', '2026-07-02', '2026-07-03', '2026-07-04']
+    );
+    assert.equal(report.source, 'fixture');
+    assert.equal(report.live, false);
+  });
+
+  it('fails for cities it has no fixture for', async () => {
+    const error = await weatherError(fixtureWeatherProvider().getWeather({ ...lisbon, location: 'Oslo' }));
+    assert.equal(error.code, 'LOCATION_NOT_FOUND');
+  });
+});
+
+describe('fallbackWeatherProvider', () => {
+  it('answers from the next provider, which says whether it is live', async () => {
+    const { fetch } = scriptedFetch(status(500));
+    const provider = fallbackWeatherProvider([wttrWeatherProvider({ fetch, retries: 0 }), fixtureWeatherProvider()]);
+    const report = await provider.getWeather(lisbon);
+
+    assert.equal(provider.name, 'wttr.in → fixture');
+    assert.equal(report.source, 'fixture');
+    assert.equal(report.live, false);
+  });
+
+  it("reports every provider's failure with the first provider's code", async () => {
+    const { fetch } = scriptedFetch(status(429));
+    const provider = fallbackWeatherProvider([wttrWeatherProvider({ fetch, retries: 0 }), fixtureWeatherProvider()]);
+    const error = await weatherError(provider.getWeather({ ...lisbon, location: 'Oslo' }));
+
+    assert.equal(error.code, 'RATE_LIMITED');
+    assert.deepEqual(error.issues, ['wttr.in: HTTP 429', 'fixture: no fixture (have: lisbon, paris, tokyo, new york)']);
+  });
+});
+
+describe('createWeatherProvider', () => {
+  it('uses only wttr.in by default, never falling back to fixtures', async () => {
+    const options = resolveTripPlannerOptions({
+      weather: { retries: 0 },
+      endpoints: { weather: 'http://127.0.0.1:9' },
+    });
+    const provider = createWeatherProvider(options);
+
+    assert.deepEqual(options.weather.providers, ['wttr']);
+    assert.equal(provider.name, 'wttr.in');
+    assert.equal((await weatherError(provider.getWeather(lisbon))).code, 'UPSTREAM_UNAVAILABLE');
+  });
+
+  it('serves fixtures when they are listed', async () => {
+    const provider = createWeatherProvider(resolveTripPlannerOptions({ weather: { providers: ['fixture'] } }));
+    assert.equal((await provider.getWeather(lisbon)).live, false);
+  });
+});
+
+describe('resolveWeatherRequest', () => {
+  it('defaults the range to forecastDays from today', () => {
+    const request = resolveWeatherRequest({ location: 'Lisbon', units: 'metric' }, 3, new Date('2026-07-01T12:00:00Z'));
+    assert.deepEqual(request, { ...lisbon, endDate: '2026-07-03' });
+  });
+
+  it('rejects reversed and overlong ranges', () => {
+    assert.throws(
+      () => resolveWeatherRequest({ location: 'Lisbon', units: 'metric', startDate: '2026-07-05', endDate: '2026-07-01' }, 3),
+      /before the start of the range/
+    );
+    assert.throws(
+      () => resolveWeatherRequest({ location: 'Lisbon', units: 'metric', startDate: '2026-07-01', endDate: '2026-07-04' }, 3),
+      /longer than 3 days/
+    );
+  });
+
+  it('refuses a default forecast longer than wttr.in covers', () => {
+    assert.equal(resolveTripPlannerOptions({ limits: { forecastDays: 3 } }).limits.forecastDays, 3);
+    assert.throws(() => resolveTripPlannerOptions({ limits: { forecastDays: 7 } }), /limits\.forecastDays/);
+  });
+});
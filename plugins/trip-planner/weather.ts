@@ -0,0 +1,424 @@
+// examples/trip-planner/weather.ts
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+import {
+  daysBetween,
+  MAX_FORECAST_DAYS,
+  type TripPlannerOptions,
+  type UnitSystem,
+  type WeatherInput,
+  type WeatherErrorCode,
+  type WeatherOutput,
+  type WeatherUnits,
+} from './config';
+import { weatherFixtures } from './fixtures/weather';
+
+/** What getWeather asks a provider for. Dates are YYYY-MM-DD, inclusive. */
+export interface WeatherRequest {
+  location: string;
+  units: UnitSystem;
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * Conditions in metric units, for any forecast days the provider has.
+ * `completeWeatherReport()` turns this into the `WeatherOutput` a request
+ * asked for.
+ */
+export type MetricWeatherReport = Omit<WeatherOutput, 'units' | 'range' | 'missingDates'>;
+
+/**
+ * Weather Provider
+ *
+ * A source of current conditions and a daily forecast, normalized to
+ * `WeatherOutput` so the tool and WeatherCard never see vendor formats.
+ * The built-in providers read metric data and finish with
+ * `completeWeatherReport()`, which applies the requested units and dates.
+ * Providers throw a `WeatherProviderError` when they cannot answer;
+ * `fallbackWeatherProvider()` turns that into "try the next one".
+ */
+export interface WeatherProvider {
+  /** Shown as `source` on the tool output and in error messages. */
+  readonly name: string;
+  getWeather(request: WeatherRequest): Promise<WeatherOutput>;
+}
+
+/** Failures worth another attempt: the same request may succeed later. */
+const RETRYABLE_CODES: readonly WeatherErrorCode[] = ['UPSTREAM_TIMEOUT', 'RATE_LIMITED', 'UPSTREAM_UNAVAILABLE'];
+
+/**
+ * Thrown when weather cannot be looked up. `code` says why, and leads the
+ * message so it survives the trip to the UI as `errorText`. `issues` has
+ * the details, one line per provider tried, e.g. `wttr.in: HTTP 503`.
+ */
+export class WeatherProviderError extends Error {
+  constructor(
+    public readonly code: WeatherErrorCode,
+    public readonly location: string,
+    public readonly issues: string[],
+    /** How long the upstream asked us to wait, for `RATE_LIMITED`. */
+    public readonly retryAfterMs?: number
+  ) {
+    super(`${code}: Weather lookup failed for "${location}":\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'WeatherProviderError';
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_CODES.includes(this.code);
+  }
+}
+
+// =============================================================================
+// wttr.in
+// =============================================================================
+
+export interface WttrWeatherProviderOptions {
+  baseUrl?: string;
+  /** Replaced in tests. */
+  fetch?: typeof fetch;
+  /** Per attempt, including reading the body. Default 5000. */
+  timeoutMs?: number;
+  /** Extra attempts after a timeout, rate limit, 5xx or network error. Default 2. */
+  retries?: number;
+  /** First backoff delay; doubles on each retry. Default 250. */
+  retryDelayMs?: number;
+}
+
+/** Longest `Retry-After` worth waiting for inside a tool call. */
+const MAX_RETRY_AFTER_MS = 5_000;
+
+const wttrNumber = z
+  .string()
+  .regex(/^-?\d+(\.\d+)?$/, 'Expected a numeric string')
+  .transform(Number);
+const wttrText = z.array(z.object({ value: z.string() })).min(1);
+
+/** The parts of wttr.in's `j1` response the provider reads. */
+const wttrResponseSchema = z.object({
+  current_condition: z
+    .array(
+      z.object({
+        temp_C: wttrNumber,
+        FeelsLikeC: wttrNumber,
+        humidity: wttrNumber,
+        windspeedKmph: wttrNumber,
+        uvIndex: wttrNumber,
+        weatherDesc: wttrText,
+      })
+    )
+    .min(1),
+  nearest_area: z.array(z.object({ areaName: wttrText })).optional(),
+  weather: z.array(
+    z.object({
+      date: z.iso.date(),
+      maxtempC: wttrNumber,
+      mintempC: wttrNumber,
+      hourly: z.array(z.object({ weatherDesc: wttrText })).optional(),
+    })
+  ),
+});
+
+/**
+ * wttr.in Provider
+ *
+ * Reads wttr.in's `j1` JSON format, which covers today and the next two
+ * days. Each attempt is cut off after `timeoutMs`; timeouts, rate limits,
+ * 5xx responses and network errors are retried with exponential backoff
+ * (honouring a short `Retry-After`). Unknown locations and responses that
+ * do not match the expected shape fail at once.
+ *
+ * @example
+ * ```typescript
+ * wttrWeatherProvider({ timeoutMs: 2_000, retries: 1 });
+ * ```
+ */
+export function wttrWeatherProvider(options: WttrWeatherProviderOptions = {}): WeatherProvider {
+  const {
+    baseUrl = 'https://wttr.in',
+    fetch: fetchImpl = fetch,
+    timeoutMs = 5_000,
+    retries = 2,
+    retryDelayMs = 250,
+  } = options;
+
+  const attempt = async (request: WeatherRequest): Promise<MetricWeatherReport> => {
+    const fail = (code: WeatherErrorCode, issue: string, retryAfterMs?: number) =>
+      new WeatherProviderError(code, request.location, [issue], retryAfterMs);
+
+    let body: unknown;
+    try {
+      const response = await fetchImpl(`${baseUrl}/${encodeURIComponent(request.location)}?format=j1`, {
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+
+      if (response.status === 404 || response.status === 400) {
+        throw fail('LOCATION_NOT_FOUND', `HTTP ${response.status}: unknown location`);
+      }
+      if (response.status === 429) {
+        throw fail('RATE_LIMITED', 'HTTP 429', parseRetryAfter(response.headers.get('retry-after')));
+      }
+      if (!response.ok) {
+        throw fail('UPSTREAM_UNAVAILABLE', `HTTP ${response.status}`);
+      }
+
+      const text = await response.text();
+      try {
+        body = JSON.parse(text);
+      } catch {
+        throw fail('UPSTREAM_MALFORMED', `response is not JSON: ${JSON.stringify(text.slice(0, 60))}`);
+      }
+    } catch (error) {
+      if (error instanceof WeatherProviderError) throw error;
+      if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+        throw fail('UPSTREAM_TIMEOUT', `no response within ${timeoutMs}ms`);
+      }
+      throw fail('UPSTREAM_UNAVAILABLE', error instanceof Error ? error.message : String(error));
+    }
+
+    const parsed = wttrResponseSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new WeatherProviderError(
+        'UPSTREAM_MALFORMED',
+        request.location,
+        parsed.error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`)
+      );
+    }
+
+    const data = parsed.data;
+    const current = data.current_condition[0];
+    return {
+      location: data.nearest_area?.[0]?.areaName[0].value || request.location,
+      temperature: current.temp_C,
+      feelsLike: current.FeelsLikeC,
+      description: current.weatherDesc[0].value,
+      humidity: current.humidity,
+      windSpeed: current.windspeedKmph,
+      uvIndex: current.uvIndex,
+      forecast: data.weather.map(day => ({
+        date: day.date,
+        high: day.maxtempC,
+        low: day.mintempC,
+        description: (day.hourly?.[4] ?? day.hourly?.[0])?.weatherDesc[0].value || 'Unknown',
+      })),
+      source: 'wttr.in',
+      live: true,
+    };
+  };
+
+  return {
+    name: 'wttr.in',
+    async getWeather(request) {
+      for (let retry = 0; ; retry++) {
+        try {
+          return completeWeatherReport(await attempt(request), request);
+        } catch (error) {
+          const delay = error instanceof WeatherProviderError && error.retryable
+            ? (error.retryAfterMs ?? retryDelayMs * 2 ** retry)
+            : undefined;
+          if (delay === undefined || retry >= retries || delay > MAX_RETRY_AFTER_MS) throw error;
+          await new Promise(resolve => setTimeout(resolve, delay));
+        }
+      }
+    },
+  };
+}
+
+/** `Retry-After` in seconds or as an HTTP date, in milliseconds. */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+export type WeatherFixtures = Record<string, Omit<MetricWeatherReport, 'source' | 'live'>>;
+
+/**
+ * Fixture Provider
+ *
+ * Serves recorded conditions with no network, for tests, demos and offline
+ * development. Reports are marked `live: false`: they are sample data,
+ * not a forecast. Only used when listed in `weather.providers`. Locations match case-insensitively on the part before the
+ * first comma, so "Lisbon, Portugal" finds the `lisbon` entry.
+ *
+ * Uses the bundled sample cities unless given `fixtures`, or a JSON `file`
+ * of the same shape (read once, at creation). Fixtures are metric, and
+ * their forecast days are replayed from the requested start date, so
+ * sample data covers any date range up to its length.
+ *
+ * @example
+ * ```typescript
+ * fixtureWeatherProvider({ file: './fixtures/weather.json' });
+ * ```
+ */
+export function fixtureWeatherProvider(
+  options: { fixtures?: WeatherFixtures; file?: string } = {}
+): WeatherProvider {
+  const fixtures = options.file
+    ? (JSON.parse(readFileSync(options.file, 'utf8')) as WeatherFixtures)
+    : (options.fixtures ?? weatherFixtures);
+  const byKey = new Map(Object.entries(fixtures).map(([key, value]) => [fixtureKey(key), value]));
+
+  return {
+    name: 'fixture',
+    async getWeather(request) {
+      const fixture = byKey.get(fixtureKey(request.location));
+      if (!fixture) {
+        throw new WeatherProviderError('LOCATION_NOT_FOUND', request.location, [
+          `no fixture (have: ${[...byKey.keys()].join(', ')})`,
+        ]);
+      }
+      const forecast = fixture.forecast.map((day, index) => ({ ...day, date: addDays(request.startDate, index) }));
+      return completeWeatherReport({ ...fixture, forecast, source: 'fixture', live: false }, request);
+    },
+  };
+}
+
+function fixtureKey(location: string): string {
+  return location.split(',')[0].trim().toLowerCase();
+}
+
+// =============================================================================
+// Units and Date Ranges
+// =============================================================================
+
+const UNIT_LABELS: Record<UnitSystem, WeatherUnits> = {
+  metric: { system: 'metric', temperature: '°C', windSpeed: 'km/h' },
+  imperial: { system: 'imperial', temperature: '°F', windSpeed: 'mph' },
+};
+
+/**
+ * Complete Weather Report
+ *
+ * Shared by every provider: keeps the forecast days inside the requested
+ * range, lists the days the provider could not cover, and converts to the
+ * requested units.
+ */
+export function completeWeatherReport(report: MetricWeatherReport, request: WeatherRequest): WeatherOutput {
+  const dates = datesBetween(request.startDate, request.endDate);
+  const forecast = report.forecast.filter(day => dates.includes(day.date));
+  const covered = new Set(forecast.map(day => day.date));
+  const convert = request.units === 'imperial' ? celsiusToFahrenheit : (value: number) => value;
+  const convertSpeed = request.units === 'imperial' ? kmhToMph : (value: number) => value;
+
+  return {
+    ...report,
+    temperature: convert(report.temperature),
+    feelsLike: convert(report.feelsLike),
+    windSpeed: convertSpeed(report.windSpeed),
+    forecast: forecast.map(day => ({ ...day, high: convert(day.high), low: convert(day.low) })),
+    units: UNIT_LABELS[request.units],
+    range: { start: request.startDate, end: request.endDate },
+    missingDates: dates.filter(date => !covered.has(date)),
+  };
+}
+
+/**
+ * Fill in the tool input's defaults: the range starts today and runs for
+ * `forecastDays` unless an end date is given.
+ */
+export function resolveWeatherRequest(input: WeatherInput, forecastDays: number, now = new Date()): WeatherRequest {
+  const startDate = input.startDate ?? now.toISOString().slice(0, 10);
+  const endDate = input.endDate ?? addDays(startDate, forecastDays - 1);
+
+  if (endDate < startDate) {
+    throw new Error(`endDate ${endDate} is before the start of the range (${startDate})`);
+  }
+  if (daysBetween(startDate, endDate) >= MAX_FORECAST_DAYS) {
+    throw new Error(`Date range ${startDate} to ${endDate} is longer than ${MAX_FORECAST_DAYS} days`);
+  }
+
+  return { location: input.location, units: input.units, startDate, endDate };
+}
+
+/** Every YYYY-MM-DD date from `start` to `end`, inclusive. */
+export function datesBetween(start: string, end: string): string[] {
+  return Array.from({ length: daysBetween(start, end) + 1 }, (_, index) => addDays(start, index));
+}
+
+/** A YYYY-MM-DD date `days` after `date`. */
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * 86_400_000).toISOString().slice(0, 10);
+}
+
+/** Forecast descriptions that make a day bad for outdoor plans: rain, snow or storms. */
+export function isWetWeather(description: string): boolean {
+  return /rain|shower|drizzle|thunder|storm|snow|sleet|hail/i.test(description);
+}
+
+function celsiusToFahrenheit(celsius: number): number {
+  return Math.round((celsius * 9) / 5 + 32);
+}
+
+function kmhToMph(kmh: number): number {
+  return Math.round(kmh * 0.621371);
+}
+
+// =============================================================================
+// Fallback Chain
+// =============================================================================
+
+/**
+ * Fallback Provider
+ *
+ * Asks each provider in turn and returns the first answer, so a vendor
+ * outage degrades to the next source instead of failing the tool. Throws a
+ * `WeatherProviderError` listing every failure when none can answer, with
+ * the first provider's error code: a fallback's own reason (e.g. no
+ * fixture for the city) is rarely what went wrong.
+ *
+ * @example
+ * ```typescript
+ * const weather = fallbackWeatherProvider([wttrWeatherProvider(), fixtureWeatherProvider()]);
+ * ```
+ */
+export function fallbackWeatherProvider(providers: readonly WeatherProvider[]): WeatherProvider {
+  if (providers.length === 0) {
+    throw new Error('fallbackWeatherProvider() needs at least one provider');
+  }
+
+  return {
+    name: providers.map(provider => provider.name).join(' → '),
+    async getWeather(request) {
+      const issues: string[] = [];
+      let code: WeatherErrorCode | undefined;
+      for (const provider of providers) {
+        try {
+          return await provider.getWeather(request);
+        } catch (error) {
+          if (error instanceof WeatherProviderError) {
+            code ??= error.code;
+            issues.push(...error.issues.map(issue => `${provider.name}: ${issue}`));
+          } else {
+            code ??= 'UPSTREAM_UNAVAILABLE';
+            issues.push(`${provider.name}: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+      }
+      throw new WeatherProviderError(code ?? 'UPSTREAM_UNAVAILABLE', request.location, issues);
+    },
+  };
+}
+
+/**
+ * Build the provider getWeather uses from the plugin options: the
+ * `weatherProvider` option if given, otherwise the `weather.providers`
+ * chain (just wttr.in by default; fixtures only when listed).
+ */
+export function createWeatherProvider({ weatherProvider, weather, endpoints }: TripPlannerOptions): WeatherProvider {
+  if (weatherProvider) return weatherProvider;
+
+  return fallbackWeatherProvider(
+    weather.providers.map(name =>
+      name === 'wttr'
+        ? wttrWeatherProvider({ baseUrl: endpoints.weather, timeoutMs: weather.timeoutMs, retries: weather.retries })
+        : fixtureWeatherProvider({ file: weather.fixturesFile })
+    )
+  );
+}